@@ -1,6 +1,5 @@
 import { CognitoAdminClient } from '../lib/CognitoAdminClient';
 import {
-  CognitoIdentityProviderClient,
   AdminCreateUserCommand,
   AdminGetUserCommand,
   AdminUpdateUserAttributesCommand,
@@ -34,73 +33,33 @@ import {
   AdminSetUserSettingsCommand,
   AdminUpdateAuthEventFeedbackCommand,
   AdminUpdateDeviceStatusCommand,
+  AssociateSoftwareTokenCommand,
+  VerifySoftwareTokenCommand,
+  GetCSVHeaderCommand,
+  CreateUserImportJobCommand,
+  StartUserImportJobCommand,
+  DescribeUserImportJobCommand,
+  ListUserImportJobsCommand,
+  StopUserImportJobCommand,
 } from '@aws-sdk/client-cognito-identity-provider';
-import { createMockCognitoClient } from '../utils/testUtils';
+import { createMockAwsError } from '../utils/testUtils';
+import { createCognitoStub } from '../utils/cognitoStub';
+import { InternalServiceError, TooManyRequestsError, UserNotFoundError } from '../lib/errors';
+import { CognitoCommandClass, CognitoStub } from '../types';
 
 // Mock the AWS SDK
-jest.mock('@aws-sdk/client-cognito-identity-provider', () => {
-  return {
-    CognitoIdentityProviderClient: jest.fn(),
-    AdminCreateUserCommand: jest.fn(),
-    AdminGetUserCommand: jest.fn(),
-    AdminUpdateUserAttributesCommand: jest.fn(),
-    AdminDisableUserCommand: jest.fn(),
-    AdminEnableUserCommand: jest.fn(),
-    AdminDeleteUserCommand: jest.fn(),
-    ListUsersCommand: jest.fn(),
-    AdminInitiateAuthCommand: jest.fn(),
-    AdminRespondToAuthChallengeCommand: jest.fn(),
-    AdminSetUserPasswordCommand: jest.fn(),
-    AdminResetUserPasswordCommand: jest.fn(),
-    AdminConfirmSignUpCommand: jest.fn(),
-    AdminAddUserToGroupCommand: jest.fn(),
-    AdminRemoveUserFromGroupCommand: jest.fn(),
-    ListGroupsCommand: jest.fn(),
-    CreateGroupCommand: jest.fn(),
-    DeleteGroupCommand: jest.fn(),
-    GetGroupCommand: jest.fn(),
-    UpdateGroupCommand: jest.fn(),
-    ListUsersInGroupCommand: jest.fn(),
-    AdminSetUserMFAPreferenceCommand: jest.fn(),
-    AdminLinkProviderForUserCommand: jest.fn(),
-    AdminGetDeviceCommand: jest.fn(),
-    AdminForgetDeviceCommand: jest.fn(),
-    AdminListDevicesCommand: jest.fn(),
-    AdminListGroupsForUserCommand: jest.fn(),
-    AdminUserGlobalSignOutCommand: jest.fn(),
-    AdminDeleteUserAttributesCommand: jest.fn(),
-    AdminDisableProviderForUserCommand: jest.fn(),
-    AdminListUserAuthEventsCommand: jest.fn(),
-    AdminSetUserSettingsCommand: jest.fn(),
-    AdminUpdateAuthEventFeedbackCommand: jest.fn(),
-    AdminUpdateDeviceStatusCommand: jest.fn(),
-    AuthFlowType: {
-      ADMIN_USER_PASSWORD_AUTH: 'ADMIN_USER_PASSWORD_AUTH',
-    },
-    ChallengeNameType: {
-      NEW_PASSWORD_REQUIRED: 'NEW_PASSWORD_REQUIRED',
-    },
-    MessageActionType: {
-      RESEND: 'RESEND',
-      SUPPRESS: 'SUPPRESS',
-    },
-    DeliveryMediumType: {
-      SMS: 'SMS',
-      EMAIL: 'EMAIL',
-    },
-  };
-});
-
 describe('CognitoAdminClient', () => {
   let client: CognitoAdminClient;
-  let mockSend: jest.Mock;
-  let mockClient: CognitoIdentityProviderClient;
+  let stub: CognitoStub;
+
+  /**
+   * Lists the inputs sent with a command class, for exact assertions on them
+   */
+  const inputsOf = (command: CognitoCommandClass): Record<string, unknown>[] =>
+    stub.callsOf(command).map((call) => call.input);
 
   beforeEach(() => {
-    jest.clearAllMocks();
-    const { mockClient: mockedClient, mockSend: send } = createMockCognitoClient();
-    mockClient = mockedClient;
-    mockSend = send;
+    stub = createCognitoStub();
 
     client = new CognitoAdminClient(
       {
@@ -112,14 +71,13 @@ describe('CognitoAdminClient', () => {
           secretAccessKey: 'mock-secret-key',
         },
       },
-      mockClient,
+      stub.client,
     );
   });
 
   describe('createUser', () => {
     it('should successfully create a user', async () => {
-      // Mock successful responses for both createUser and setPassword
-      mockSend.mockResolvedValueOnce({
+      stub.on(AdminCreateUserCommand).resolves({
         User: {
           Username: 'newadminuser',
           UserCreateDate: new Date(),
@@ -133,8 +91,7 @@ describe('CognitoAdminClient', () => {
         },
       });
 
-      // Mock response for setPassword
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminSetUserPasswordCommand).resolves({});
 
       const result = await client.createUser({
         username: 'newadminuser',
@@ -147,7 +104,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminCreateUserCommand was called with correct parameters
-      expect(AdminCreateUserCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminCreateUserCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'newadminuser',
         TemporaryPassword: undefined,
@@ -160,7 +117,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminSetUserPasswordCommand was called for permanent password
-      expect(AdminSetUserPasswordCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminSetUserPasswordCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'newadminuser',
         Password: 'Password123!',
@@ -180,11 +137,179 @@ describe('CognitoAdminClient', () => {
     });
   });
 
+  describe('importUsers', () => {
+    const csv = [
+      'username,email,given_name,groups',
+      'new-user,new@example.com,Jane,editors',
+      'existing-user,existing@example.com,John,',
+      'invalid-user,,Jim,',
+      'failing-user,failing@example.com,Joe,',
+    ].join('\n');
+
+    beforeEach(() => {
+      stub.resolves({});
+      stub.on(AdminCreateUserCommand).callsFake((input) => ({
+        User: { Username: input.Username, Attributes: [], Enabled: true },
+      }));
+      stub
+        .on(AdminCreateUserCommand, { Username: 'existing-user' })
+        .rejects(
+          createMockAwsError(
+            'UsernameExistsException',
+            'User already exists',
+            'UsernameExistsException',
+          ),
+        );
+      stub
+        .on(AdminCreateUserCommand, { Username: 'failing-user' })
+        .rejects(
+          createMockAwsError(
+            'InvalidParameterException',
+            'Invalid attribute',
+            'InvalidParameterException',
+          ),
+        );
+    });
+
+    it('should report created, skipped and failed rows', async () => {
+      const report = await client.importUsers({
+        input: csv,
+        format: 'csv',
+        groups: ['customers'],
+        messageAction: 'SUPPRESS',
+      });
+
+      expect(report).toMatchObject({ created: 1, updated: 0, skipped: 1, failed: 2 });
+      expect(report.results).toEqual([
+        { row: 1, username: 'new-user', status: 'created' },
+        { row: 2, username: 'existing-user', status: 'skipped' },
+        {
+          row: 3,
+          status: 'failed',
+          errorCode: 'InvalidRow',
+          message: 'Invalid row: A valid email is required',
+        },
+        {
+          row: 4,
+          username: 'failing-user',
+          status: 'failed',
+          errorCode: 'InvalidParameter',
+          message: 'Invalid attribute',
+        },
+      ]);
+      expect(report.checkpoint).toEqual({ nextRow: 5, completedRows: [] });
+      expect(inputsOf(AdminCreateUserCommand)).toContainEqual(
+        expect.objectContaining({
+          Username: 'new-user',
+          MessageAction: 'SUPPRESS',
+          UserAttributes: expect.arrayContaining([{ Name: 'given_name', Value: 'Jane' }]),
+        }),
+      );
+      expect(inputsOf(AdminAddUserToGroupCommand)).toContainEqual(
+        expect.objectContaining({ Username: 'new-user', GroupName: 'customers' }),
+      );
+      expect(inputsOf(AdminAddUserToGroupCommand)).toContainEqual(
+        expect.objectContaining({ Username: 'new-user', GroupName: 'editors' }),
+      );
+      expect(inputsOf(AdminAddUserToGroupCommand)).toContainEqual(
+        expect.objectContaining({ Username: 'existing-user', GroupName: 'customers' }),
+      );
+    });
+
+    it('should resume from a checkpoint and report progress', async () => {
+      const onProgress = jest.fn();
+
+      const report = await client.importUsers({
+        input: csv,
+        format: 'csv',
+        checkpoint: { nextRow: 2, completedRows: [3] },
+        onProgress,
+      });
+
+      expect(report.results.map((result) => result.row)).toEqual([2, 4]);
+      expect(stub.callsOf(AdminCreateUserCommand, { Username: 'new-user' })).toEqual([]);
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ row: 4 }), {
+        nextRow: 5,
+        completedRows: [],
+      });
+    });
+
+    it('should set the password of existing users when the row has one', async () => {
+      const report = await client.importUsers({
+        input: 'username,email,password\nexisting-user,existing@example.com,Passw0rd!',
+        format: 'csv',
+      });
+
+      expect(report).toMatchObject({ created: 0, updated: 1, skipped: 0, failed: 0 });
+      expect(report.results).toEqual([{ row: 1, username: 'existing-user', status: 'updated' }]);
+      expect(inputsOf(AdminSetUserPasswordCommand)).toContainEqual(
+        expect.objectContaining({
+          Username: 'existing-user',
+          Password: 'Passw0rd!',
+          Permanent: true,
+        }),
+      );
+    });
+
+    it('should fail the row when the password of an existing user cannot be set', async () => {
+      stub
+        .on(AdminSetUserPasswordCommand)
+        .rejects(
+          createMockAwsError(
+            'InvalidPasswordException',
+            'Password does not conform to policy',
+            'InvalidPasswordException',
+          ),
+        );
+
+      const report = await client.importUsers({
+        input: 'username,email,password\nexisting-user,existing@example.com,short',
+        format: 'csv',
+      });
+
+      expect(report.results).toEqual([
+        {
+          row: 1,
+          username: 'existing-user',
+          status: 'failed',
+          errorCode: 'InvalidPassword',
+          message: 'Failed to set password: Password does not conform to policy',
+        },
+      ]);
+    });
+
+    it('should keep custom: headers as attribute names', async () => {
+      await client.importUsers({
+        input: 'email,custom:tenantId,customPlan\nnew@example.com,acme,pro',
+        format: 'csv',
+      });
+
+      expect(inputsOf(AdminCreateUserCommand)).toContainEqual(
+        expect.objectContaining({
+          UserAttributes: expect.arrayContaining([
+            { Name: 'custom:tenantId', Value: 'acme' },
+            { Name: 'custom:plan', Value: 'pro' },
+          ]),
+        }),
+      );
+    });
+
+    it('should stop when the signal is aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        client.importUsers({ input: csv, format: 'csv', signal: controller.signal }),
+      ).rejects.toThrow();
+      expect(stub.calls).toEqual([]);
+    });
+  });
+
   describe('getUser', () => {
     it('should successfully get user information', async () => {
       // Mock successful response
       const mockDate = new Date();
-      mockSend.mockResolvedValueOnce({
+      stub.on(AdminGetUserCommand).resolves({
         Username: 'adminuser',
         UserCreateDate: mockDate,
         UserLastModifiedDate: mockDate,
@@ -202,7 +327,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminGetUserCommand was called with correct parameters
-      expect(AdminGetUserCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminGetUserCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'adminuser',
       });
@@ -224,12 +349,29 @@ describe('CognitoAdminClient', () => {
         userMfaSettingList: undefined,
       });
     });
+
+    it('should throw a UserNotFoundError when the user does not exist', async () => {
+      stub
+        .on(AdminGetUserCommand)
+        .rejects(
+          createMockAwsError(
+            'UserNotFoundException',
+            'User does not exist.',
+            'UserNotFoundException',
+          ),
+        );
+
+      const result = client.getUser({ username: 'missinguser' });
+
+      await expect(result).rejects.toBeInstanceOf(UserNotFoundError);
+      await expect(result).rejects.toMatchObject({ code: 'UserNotFound' });
+    });
   });
 
   describe('updateUserAttributes', () => {
     it('should successfully update user attributes', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminUpdateUserAttributesCommand).resolves({});
 
       const result = await client.updateUserAttributes({
         username: 'adminuser',
@@ -240,7 +382,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminUpdateUserAttributesCommand was called with correct parameters
-      expect(AdminUpdateUserAttributesCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminUpdateUserAttributesCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'adminuser',
         UserAttributes: expect.arrayContaining([
@@ -257,14 +399,14 @@ describe('CognitoAdminClient', () => {
   describe('disableUser', () => {
     it('should successfully disable a user', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminDisableUserCommand).resolves({});
 
       const result = await client.disableUser({
         username: 'adminuser',
       });
 
       // Verify AdminDisableUserCommand was called with correct parameters
-      expect(AdminDisableUserCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminDisableUserCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'adminuser',
       });
@@ -277,14 +419,14 @@ describe('CognitoAdminClient', () => {
   describe('enableUser', () => {
     it('should successfully enable a user', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminEnableUserCommand).resolves({});
 
       const result = await client.enableUser({
         username: 'adminuser',
       });
 
       // Verify AdminEnableUserCommand was called with correct parameters
-      expect(AdminEnableUserCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminEnableUserCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'adminuser',
       });
@@ -297,14 +439,14 @@ describe('CognitoAdminClient', () => {
   describe('deleteUser', () => {
     it('should successfully delete a user', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminDeleteUserCommand).resolves({});
 
       const result = await client.deleteUser({
         username: 'adminuser',
       });
 
       // Verify AdminDeleteUserCommand was called with correct parameters
-      expect(AdminDeleteUserCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminDeleteUserCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'adminuser',
       });
@@ -318,7 +460,7 @@ describe('CognitoAdminClient', () => {
     it('should successfully list users', async () => {
       const mockDate = new Date();
       // Mock successful response
-      mockSend.mockResolvedValueOnce({
+      stub.on(ListUsersCommand).resolves({
         Users: [
           {
             Username: 'user1',
@@ -352,7 +494,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify ListUsersCommand was called with correct parameters
-      expect(ListUsersCommand).toHaveBeenCalledWith({
+      expect(inputsOf(ListUsersCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Limit: 10,
         PaginationToken: undefined,
@@ -396,10 +538,233 @@ describe('CognitoAdminClient', () => {
     });
   });
 
+  describe('paginateUsers', () => {
+    const userPage = (usernames: string[], paginationToken?: string): object => ({
+      Users: usernames.map((username) => ({ Username: username, Attributes: [] })),
+      PaginationToken: paginationToken,
+    });
+
+    it('should iterate over users across pages', async () => {
+      stub.on(ListUsersCommand).resolves(userPage(['user1', 'user2'], 'token-1'));
+      stub.on(ListUsersCommand, { PaginationToken: 'token-1' }).resolves(userPage(['user3']));
+
+      const usernames: string[] = [];
+      for await (const user of client.paginateUsers({ filter: 'email ^= "user"', pageSize: 2 })) {
+        usernames.push(user.username);
+      }
+
+      expect(usernames).toEqual(['user1', 'user2', 'user3']);
+      expect(stub.callsOf(ListUsersCommand).map((call) => call.input)).toEqual([
+        {
+          UserPoolId: 'us-east-1_abcdef123',
+          Limit: 2,
+          PaginationToken: undefined,
+          Filter: 'email ^= "user"',
+        },
+        {
+          UserPoolId: 'us-east-1_abcdef123',
+          Limit: 2,
+          PaginationToken: 'token-1',
+          Filter: 'email ^= "user"',
+        },
+      ]);
+    });
+
+    it('should collect every user with listAllUsers', async () => {
+      stub.on(ListUsersCommand).resolves(userPage(['user1'], 'token-1'));
+      stub.on(ListUsersCommand, { PaginationToken: 'token-1' }).resolves(userPage(['user2']));
+
+      const users = await client.listAllUsers();
+
+      expect(users.map((user) => user.username)).toEqual(['user1', 'user2']);
+      expect(stub.calls).toHaveLength(2);
+    });
+
+    it('should stop after maxItems', async () => {
+      stub.on(ListUsersCommand).resolves(userPage(['user1', 'user2'], 'token-1'));
+
+      const users = await client.listAllUsers({ maxItems: 2 });
+
+      expect(users).toHaveLength(2);
+      expect(stub.calls).toHaveLength(1);
+    });
+  });
+
+  describe('exportUsers', () => {
+    const createdAt = new Date('2024-06-01T00:00:00.000Z');
+
+    beforeEach(() => {
+      stub.on(ListUsersCommand).resolves({
+        Users: [
+          {
+            Username: 'jdoe',
+            Enabled: true,
+            UserStatus: 'CONFIRMED',
+            UserCreateDate: createdAt,
+            UserLastModifiedDate: createdAt,
+            Attributes: [
+              { Name: 'email', Value: 'jdoe@example.com' },
+              { Name: 'custom:tenantId', Value: 'acme' },
+            ],
+          },
+        ],
+      });
+      stub.on(AdminListGroupsForUserCommand).resolves({ Groups: [{ GroupName: 'admins' }] });
+      stub.on(AdminGetUserCommand).resolves({
+        Username: 'jdoe',
+        PreferredMfaSetting: 'SOFTWARE_TOKEN_MFA',
+        UserMFASettingList: ['SOFTWARE_TOKEN_MFA'],
+      });
+    });
+
+    const collect = async (lines: AsyncIterable<string>): Promise<string[]> => {
+      const result: string[] = [];
+      for await (const line of lines) {
+        result.push(line);
+      }
+      return result;
+    };
+
+    it('should export users with their groups as NDJSON', async () => {
+      const lines = await collect(client.exportUsers({ redact: { email: 'mask' } }));
+
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0])).toEqual({
+        username: 'jdoe',
+        status: 'CONFIRMED',
+        enabled: true,
+        createdAt: '2024-06-01T00:00:00.000Z',
+        updatedAt: '2024-06-01T00:00:00.000Z',
+        attributes: { email: 'j***@example.com', customTenantId: 'acme' },
+        groups: ['admins'],
+      });
+      expect(stub.callsOf(AdminGetUserCommand)).toEqual([]);
+    });
+
+    it('should export selected attributes and MFA settings as CSV', async () => {
+      const lines = await collect(
+        client.exportUsers({
+          format: 'csv',
+          attributes: ['customTenantId'],
+          includeGroups: false,
+          includeMfa: true,
+        }),
+      );
+
+      expect(lines).toEqual([
+        'username,status,enabled,createdAt,updatedAt,customTenantId,preferredMfaSetting,mfaSettings\n',
+        'jdoe,CONFIRMED,true,2024-06-01T00:00:00.000Z,2024-06-01T00:00:00.000Z,acme,SOFTWARE_TOKEN_MFA,SOFTWARE_TOKEN_MFA\n',
+      ]);
+      expect(stub.callsOf(AdminListGroupsForUserCommand)).toEqual([]);
+    });
+
+    it('should require an attribute selection for CSV', async () => {
+      await expect(collect(client.exportUsers({ format: 'csv' }))).rejects.toThrow(
+        'Invalid export options: attributes are required for CSV',
+      );
+    });
+  });
+
+  describe('searchUsers', () => {
+    const user = (username: string, tenant: string, enabled = true): object => ({
+      Username: username,
+      Enabled: enabled,
+      UserStatus: 'CONFIRMED',
+      Attributes: [{ Name: 'custom:tenantId', Value: tenant }],
+    });
+
+    it('should filter server-side and apply the remaining criteria to each page', async () => {
+      stub.on(ListUsersCommand).resolves({
+        Users: [user('user1', 'acme'), user('user2', 'other')],
+        PaginationToken: 'token-1',
+      });
+      stub
+        .on(ListUsersCommand, { PaginationToken: 'token-1' })
+        .resolves({ Users: [user('user3', 'acme', false), user('user4', 'acme')] });
+
+      const users = await client
+        .searchUsers({ status: 'CONFIRMED', enabled: true, attributes: { customTenantId: 'acme' } })
+        .toArray();
+
+      expect(users.map((result) => result.username)).toEqual(['user1', 'user4']);
+      expect(inputsOf(ListUsersCommand)).toContainEqual({
+        UserPoolId: 'us-east-1_abcdef123',
+        Limit: 60,
+        PaginationToken: undefined,
+        Filter: 'cognito:user_status = "CONFIRMED"',
+      });
+    });
+
+    it('should request at most 60 users per page and reject page sizes below 1', async () => {
+      stub.on(ListUsersCommand).resolves({ Users: [user('user1', 'acme')] });
+
+      await client.searchUsers({ status: 'CONFIRMED', pageSize: 100 }).toArray();
+
+      expect(inputsOf(ListUsersCommand)).toContainEqual({
+        UserPoolId: 'us-east-1_abcdef123',
+        Limit: 60,
+        PaginationToken: undefined,
+        Filter: 'cognito:user_status = "CONFIRMED"',
+      });
+      expect(() => client.searchUsers({ pageSize: 0 })).toThrow(
+        'Invalid page size: 0 is not a whole number of at least 1',
+      );
+    });
+
+    it('should stop fetching once the result limit is reached', async () => {
+      stub.on(ListUsersCommand).resolves({
+        Users: [user('user1', 'acme'), user('user2', 'acme')],
+        PaginationToken: 'token-1',
+      });
+
+      const users = await client
+        .searchUsers({ attributes: { customTenantId: 'acme' }, maxItems: 1 })
+        .toArray();
+
+      expect(users).toHaveLength(1);
+      expect(stub.calls).toHaveLength(1);
+    });
+
+    it('should list group members when no exact unique match is given', async () => {
+      stub
+        .on(ListUsersInGroupCommand)
+        .resolves({ Users: [user('user1', 'acme'), user('user2', 'other')] });
+
+      const users = await client
+        .searchUsers({ groupName: 'admins', attributes: { customTenantId: 'acme' } })
+        .toArray();
+
+      expect(users.map((result) => result.username)).toEqual(['user1']);
+      expect(inputsOf(ListUsersInGroupCommand)).toContainEqual({
+        UserPoolId: 'us-east-1_abcdef123',
+        GroupName: 'admins',
+        Limit: 60,
+        NextToken: undefined,
+      });
+      expect(stub.callsOf(ListUsersCommand)).toEqual([]);
+    });
+
+    it('should check group membership of users found by a server-side filter', async () => {
+      stub.on(ListUsersCommand).resolves({
+        Users: [{ Username: 'user1', Attributes: [{ Name: 'email', Value: 'a@example.com' }] }],
+      });
+      stub.on(AdminListGroupsForUserCommand).resolves({ Groups: [{ GroupName: 'admins' }] });
+
+      const users = await client
+        .searchUsers({ attributes: { email: 'a@example.com' }, groupName: 'admins' })
+        .toArray();
+
+      expect(users).toHaveLength(1);
+      expect(inputsOf(AdminListGroupsForUserCommand)).toContainEqual(
+        expect.objectContaining({ Username: 'user1' }),
+      );
+    });
+  });
+
   describe('initiateAuth', () => {
     it('should successfully initiate auth and return tokens', async () => {
       // Mock successful response with tokens
-      mockSend.mockResolvedValueOnce({
+      stub.on(AdminInitiateAuthCommand).resolves({
         AuthenticationResult: {
           AccessToken: 'mock-access-token',
           IdToken: 'mock-id-token',
@@ -415,7 +780,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminInitiateAuthCommand was called with correct parameters
-      expect(AdminInitiateAuthCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminInitiateAuthCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         ClientId: '1234567890abcdef',
         AuthFlow: 'ADMIN_USER_PASSWORD_AUTH',
@@ -443,7 +808,7 @@ describe('CognitoAdminClient', () => {
 
     it('should handle a challenge response correctly', async () => {
       // Mock response with a challenge
-      mockSend.mockResolvedValueOnce({
+      stub.on(AdminInitiateAuthCommand).resolves({
         ChallengeName: 'NEW_PASSWORD_REQUIRED',
         Session: 'mock-session-token',
         ChallengeParameters: {
@@ -471,14 +836,14 @@ describe('CognitoAdminClient', () => {
   describe('adminConfirmSignUp', () => {
     it('should successfully confirm a user registration', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminConfirmSignUpCommand).resolves({});
 
       const result = await client.adminConfirmSignUp({
         username: 'testuser',
       });
 
       // Verify AdminConfirmSignUpCommand was called with correct parameters
-      expect(AdminConfirmSignUpCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminConfirmSignUpCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
       });
@@ -491,7 +856,7 @@ describe('CognitoAdminClient', () => {
   describe('adminAddUserToGroup', () => {
     it('should successfully add a user to a group', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminAddUserToGroupCommand).resolves({});
 
       const result = await client.adminAddUserToGroup({
         username: 'testuser',
@@ -499,7 +864,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminAddUserToGroupCommand was called with correct parameters
-      expect(AdminAddUserToGroupCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminAddUserToGroupCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         GroupName: 'admin-group',
@@ -513,7 +878,7 @@ describe('CognitoAdminClient', () => {
   describe('adminRemoveUserFromGroup', () => {
     it('should successfully remove a user from a group', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminRemoveUserFromGroupCommand).resolves({});
 
       const result = await client.adminRemoveUserFromGroup({
         username: 'testuser',
@@ -521,7 +886,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminRemoveUserFromGroupCommand was called with correct parameters
-      expect(AdminRemoveUserFromGroupCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminRemoveUserFromGroupCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         GroupName: 'admin-group',
@@ -536,7 +901,7 @@ describe('CognitoAdminClient', () => {
     it('should successfully list groups', async () => {
       // Mock successful response
       const mockDate = new Date();
-      mockSend.mockResolvedValueOnce({
+      stub.on(ListGroupsCommand).resolves({
         Groups: [
           {
             GroupName: 'admin-group',
@@ -560,7 +925,7 @@ describe('CognitoAdminClient', () => {
       const result = await client.listGroups({ limit: 10 });
 
       // Verify ListGroupsCommand was called with correct parameters
-      expect(ListGroupsCommand).toHaveBeenCalledWith({
+      expect(inputsOf(ListGroupsCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Limit: 10,
         NextToken: undefined,
@@ -597,7 +962,7 @@ describe('CognitoAdminClient', () => {
     it('should successfully create a group', async () => {
       // Mock successful response
       const mockDate = new Date();
-      mockSend.mockResolvedValueOnce({
+      stub.on(CreateGroupCommand).resolves({
         Group: {
           GroupName: 'new-group',
           Description: 'New group',
@@ -617,7 +982,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify CreateGroupCommand was called with correct parameters
-      expect(CreateGroupCommand).toHaveBeenCalledWith({
+      expect(inputsOf(CreateGroupCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         GroupName: 'new-group',
         Description: 'New group',
@@ -642,7 +1007,7 @@ describe('CognitoAdminClient', () => {
     it('should successfully get a group', async () => {
       // Mock successful response
       const mockDate = new Date();
-      mockSend.mockResolvedValueOnce({
+      stub.on(GetGroupCommand).resolves({
         Group: {
           GroupName: 'admin-group',
           Description: 'Admin group',
@@ -659,7 +1024,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify GetGroupCommand was called with correct parameters
-      expect(GetGroupCommand).toHaveBeenCalledWith({
+      expect(inputsOf(GetGroupCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         GroupName: 'admin-group',
       });
@@ -680,14 +1045,14 @@ describe('CognitoAdminClient', () => {
   describe('adminUserGlobalSignOut', () => {
     it('should successfully sign out a user from all devices', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminUserGlobalSignOutCommand).resolves({});
 
       const result = await client.adminUserGlobalSignOut({
         username: 'testuser',
       });
 
       // Verify AdminUserGlobalSignOutCommand was called with correct parameters
-      expect(AdminUserGlobalSignOutCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminUserGlobalSignOutCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
       });
@@ -700,7 +1065,7 @@ describe('CognitoAdminClient', () => {
   describe('respondToAuthChallenge', () => {
     it('should successfully respond to an auth challenge', async () => {
       // Mock successful response with tokens
-      mockSend.mockResolvedValueOnce({
+      stub.on(AdminRespondToAuthChallengeCommand).resolves({
         AuthenticationResult: {
           AccessToken: 'mock-access-token',
           IdToken: 'mock-id-token',
@@ -720,7 +1085,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminRespondToAuthChallengeCommand was called with correct parameters
-      expect(AdminRespondToAuthChallengeCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminRespondToAuthChallengeCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         ClientId: '1234567890abcdef',
         ChallengeName: 'NEW_PASSWORD_REQUIRED',
@@ -749,7 +1114,7 @@ describe('CognitoAdminClient', () => {
 
     it('should handle a challenge response correctly', async () => {
       // Mock response with another challenge
-      mockSend.mockResolvedValueOnce({
+      stub.on(AdminRespondToAuthChallengeCommand).resolves({
         ChallengeName: 'SOFTWARE_TOKEN_MFA',
         Session: 'new-session-token',
         ChallengeParameters: {
@@ -778,17 +1143,160 @@ describe('CognitoAdminClient', () => {
     });
   });
 
+  describe('MFA challenge responders', () => {
+    const tokensResponse = {
+      AuthenticationResult: {
+        AccessToken: 'mock-access-token',
+        IdToken: 'mock-id-token',
+        RefreshToken: 'mock-refresh-token',
+        ExpiresIn: 3600,
+        TokenType: 'Bearer',
+      },
+    };
+
+    it('should respond to an SMS MFA challenge', async () => {
+      stub.on(AdminRespondToAuthChallengeCommand).resolves(tokensResponse);
+
+      const result = await client.respondToSmsMfa({
+        username: 'testuser',
+        session: 'mfa-session',
+        code: '123456',
+      });
+
+      // Verify AdminRespondToAuthChallengeCommand was called with correct parameters
+      expect(inputsOf(AdminRespondToAuthChallengeCommand)).toContainEqual({
+        UserPoolId: 'us-east-1_abcdef123',
+        ClientId: '1234567890abcdef',
+        ChallengeName: 'SMS_MFA',
+        ChallengeResponses: {
+          USERNAME: 'testuser',
+          SMS_MFA_CODE: '123456',
+        },
+        Session: 'mfa-session',
+        ClientMetadata: undefined,
+      });
+
+      expect(result).toEqual({
+        type: 'tokens',
+        tokens: {
+          accessToken: 'mock-access-token',
+          idToken: 'mock-id-token',
+          refreshToken: 'mock-refresh-token',
+          expiresIn: 3600,
+          tokenType: 'Bearer',
+        },
+      });
+    });
+
+    it('should respond to TOTP and email OTP challenges', async () => {
+      stub.on(AdminRespondToAuthChallengeCommand).resolves(tokensResponse);
+
+      await client.respondToTotpMfa({ username: 'testuser', session: 's1', code: '111111' });
+      await client.respondToEmailOtp({ username: 'testuser', session: 's2', code: '222222' });
+
+      expect(stub.callsOf(AdminRespondToAuthChallengeCommand).map((call) => call.input)).toEqual([
+        expect.objectContaining({
+          ChallengeName: 'SOFTWARE_TOKEN_MFA',
+          ChallengeResponses: { USERNAME: 'testuser', SOFTWARE_TOKEN_MFA_CODE: '111111' },
+        }),
+        expect.objectContaining({
+          ChallengeName: 'EMAIL_OTP',
+          ChallengeResponses: { USERNAME: 'testuser', EMAIL_OTP_CODE: '222222' },
+        }),
+      ]);
+    });
+
+    it('should select an MFA type and return the typed next step', async () => {
+      stub.on(AdminRespondToAuthChallengeCommand).resolves({
+        ChallengeName: 'SMS_MFA',
+        Session: 'sms-session',
+        ChallengeParameters: {
+          CODE_DELIVERY_DELIVERY_MEDIUM: 'SMS',
+          CODE_DELIVERY_DESTINATION: '+*******1234',
+        },
+      });
+
+      const result = await client.selectMfaType({
+        username: 'testuser',
+        session: 'select-session',
+        mfaType: 'SMS_MFA',
+      });
+
+      expect(inputsOf(AdminRespondToAuthChallengeCommand)).toContainEqual(
+        expect.objectContaining({
+          ChallengeName: 'SELECT_MFA_TYPE',
+          ChallengeResponses: { USERNAME: 'testuser', ANSWER: 'SMS_MFA' },
+        }),
+      );
+      expect(result).toMatchObject({
+        type: 'smsMfa',
+        session: 'sms-session',
+        codeDeliveryDestination: '+*******1234',
+      });
+    });
+
+    it('should associate and verify a software token during MFA setup', async () => {
+      stub
+        .on(AssociateSoftwareTokenCommand)
+        .resolves({ SecretCode: 'secret-code', Session: 'associate-session' });
+      stub
+        .on(VerifySoftwareTokenCommand)
+        .resolves({ Status: 'SUCCESS', Session: 'verified-session' });
+      stub.on(AdminRespondToAuthChallengeCommand).resolves(tokensResponse);
+
+      const association = await client.associateSoftwareToken({ session: 'mfa-setup-session' });
+      const result = await client.completeMfaSetup({
+        username: 'testuser',
+        session: association.session as string,
+        userCode: '123456',
+      });
+
+      expect(inputsOf(AssociateSoftwareTokenCommand)).toContainEqual({
+        AccessToken: undefined,
+        Session: 'mfa-setup-session',
+      });
+      expect(inputsOf(VerifySoftwareTokenCommand)).toContainEqual({
+        Session: 'associate-session',
+        UserCode: '123456',
+        FriendlyDeviceName: undefined,
+      });
+      expect(inputsOf(AdminRespondToAuthChallengeCommand)).toContainEqual(
+        expect.objectContaining({
+          ChallengeName: 'MFA_SETUP',
+          Session: 'verified-session',
+          ChallengeResponses: { USERNAME: 'testuser' },
+        }),
+      );
+      expect(association.secretCode).toBe('secret-code');
+      expect(result).toMatchObject({ type: 'tokens' });
+    });
+
+    it('should throw an error when the software token cannot be verified', async () => {
+      stub.on(VerifySoftwareTokenCommand).resolves({ Status: 'ERROR' });
+
+      await expect(
+        client.completeMfaSetup({
+          username: 'testuser',
+          session: 'associate-session',
+          userCode: '000000',
+        }),
+      ).rejects.toThrow('Failed to verify software token: Verification was not successful');
+
+      expect(stub.callsOf(AdminRespondToAuthChallengeCommand)).toEqual([]);
+    });
+  });
+
   describe('resetUserPassword', () => {
     it('should successfully reset a user password', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminResetUserPasswordCommand).resolves({});
 
       const result = await client.resetUserPassword({
         username: 'testuser',
       });
 
       // Verify AdminResetUserPasswordCommand was called with correct parameters
-      expect(AdminResetUserPasswordCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminResetUserPasswordCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
       });
@@ -801,12 +1309,12 @@ describe('CognitoAdminClient', () => {
   describe('setUserPassword', () => {
     it('should successfully set a user password', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminSetUserPasswordCommand).resolves({});
 
       const result = await client.setUserPassword('testuser', 'NewPassword123!', true);
 
       // Verify AdminSetUserPasswordCommand was called with correct parameters
-      expect(AdminSetUserPasswordCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminSetUserPasswordCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         Password: 'NewPassword123!',
@@ -821,14 +1329,14 @@ describe('CognitoAdminClient', () => {
   describe('deleteGroup', () => {
     it('should successfully delete a group', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(DeleteGroupCommand).resolves({});
 
       const result = await client.deleteGroup({
         groupName: 'test-group',
       });
 
       // Verify DeleteGroupCommand was called with correct parameters
-      expect(DeleteGroupCommand).toHaveBeenCalledWith({
+      expect(inputsOf(DeleteGroupCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         GroupName: 'test-group',
       });
@@ -842,7 +1350,7 @@ describe('CognitoAdminClient', () => {
     it('should successfully update a group', async () => {
       // Mock successful response
       const mockDate = new Date();
-      mockSend.mockResolvedValueOnce({
+      stub.on(UpdateGroupCommand).resolves({
         Group: {
           GroupName: 'test-group',
           Description: 'Updated group description',
@@ -862,7 +1370,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify UpdateGroupCommand was called with correct parameters
-      expect(UpdateGroupCommand).toHaveBeenCalledWith({
+      expect(inputsOf(UpdateGroupCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         GroupName: 'test-group',
         Description: 'Updated group description',
@@ -884,7 +1392,7 @@ describe('CognitoAdminClient', () => {
 
     it('should throw an error when group information is not returned', async () => {
       // Mock response with no group information
-      mockSend.mockResolvedValueOnce({
+      stub.on(UpdateGroupCommand).resolves({
         // No Group field
       });
 
@@ -895,7 +1403,85 @@ describe('CognitoAdminClient', () => {
       ).rejects.toThrow('Failed to update group: No group information returned');
 
       // Verify UpdateGroupCommand was still called
-      expect(UpdateGroupCommand).toHaveBeenCalled();
+      stub.expectCommandSent(UpdateGroupCommand);
+    });
+  });
+
+  describe('syncGroups', () => {
+    beforeEach(() => {
+      stub.on(ListGroupsCommand).resolves({
+        Groups: [
+          { GroupName: 'admins', UserPoolId: 'us-east-1_abcdef123', Precedence: 1 },
+          { GroupName: 'legacy', UserPoolId: 'us-east-1_abcdef123' },
+        ],
+      });
+    });
+
+    it('should apply the planned changes and report them', async () => {
+      stub.on(CreateGroupCommand).resolves({ Group: { GroupName: 'editors' } });
+      stub.on(UpdateGroupCommand).resolves({ Group: { GroupName: 'admins' } });
+      stub
+        .on(DeleteGroupCommand)
+        .rejects(
+          createMockAwsError(
+            'ResourceNotFoundException',
+            'Group not found',
+            'ResourceNotFoundException',
+          ),
+        );
+
+      const report = await client.syncGroups([
+        { groupName: 'admins', precedence: 0, description: 'Administrators' },
+        { groupName: 'editors', precedence: 5 },
+      ]);
+
+      expect(report.dryRun).toBe(false);
+      expect(
+        report.changes.map(({ action, groupName, status }) => ({ action, groupName, status })),
+      ).toEqual([
+        { action: 'create', groupName: 'editors', status: 'applied' },
+        { action: 'update', groupName: 'admins', status: 'applied' },
+        { action: 'delete', groupName: 'legacy', status: 'failed' },
+      ]);
+      expect(report.changes[2]).toMatchObject({
+        errorCode: 'ResourceNotFound',
+        message: 'Group not found',
+      });
+      expect(inputsOf(CreateGroupCommand)).toContainEqual(
+        expect.objectContaining({ GroupName: 'editors', Precedence: 5 }),
+      );
+      expect(inputsOf(UpdateGroupCommand)).toContainEqual(
+        expect.objectContaining({
+          GroupName: 'admins',
+          Precedence: 0,
+          Description: 'Administrators',
+        }),
+      );
+      expect(inputsOf(DeleteGroupCommand)).toContainEqual(
+        expect.objectContaining({ GroupName: 'legacy' }),
+      );
+    });
+
+    it('should only plan changes in a dry run without deletes', async () => {
+      const report = await client.syncGroups([{ groupName: 'editors' }], {
+        dryRun: true,
+        allowDeletes: false,
+      });
+
+      expect(report).toEqual({
+        dryRun: true,
+        changes: [
+          {
+            action: 'create',
+            groupName: 'editors',
+            spec: { groupName: 'editors' },
+            status: 'planned',
+          },
+        ],
+        unchanged: [],
+        skippedDeletes: ['admins', 'legacy'],
+      });
+      expect(stub.calls).toHaveLength(1);
     });
   });
 
@@ -903,7 +1489,7 @@ describe('CognitoAdminClient', () => {
     it('should successfully list users in a group', async () => {
       // Mock successful response
       const mockDate = new Date();
-      mockSend.mockResolvedValueOnce({
+      stub.on(ListUsersInGroupCommand).resolves({
         Users: [
           {
             Username: 'user1',
@@ -937,7 +1523,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify ListUsersInGroupCommand was called with correct parameters
-      expect(ListUsersInGroupCommand).toHaveBeenCalledWith({
+      expect(inputsOf(ListUsersInGroupCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         GroupName: 'test-group',
         Limit: 10,
@@ -985,7 +1571,7 @@ describe('CognitoAdminClient', () => {
     it('should successfully list groups for a user', async () => {
       // Mock successful response
       const mockDate = new Date();
-      mockSend.mockResolvedValueOnce({
+      stub.on(AdminListGroupsForUserCommand).resolves({
         Groups: [
           {
             GroupName: 'group1',
@@ -1012,7 +1598,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminListGroupsForUserCommand was called with correct parameters
-      expect(AdminListGroupsForUserCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminListGroupsForUserCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         Limit: 10,
@@ -1049,7 +1635,7 @@ describe('CognitoAdminClient', () => {
   describe('adminSetUserMFAPreference', () => {
     it('should successfully set MFA preferences for a user', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminSetUserMFAPreferenceCommand).resolves({});
 
       const result = await client.adminSetUserMFAPreference({
         username: 'testuser',
@@ -1064,7 +1650,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminSetUserMFAPreferenceCommand was called with correct parameters
-      expect(AdminSetUserMFAPreferenceCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminSetUserMFAPreferenceCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         SMSMfaSettings: {
@@ -1085,7 +1671,7 @@ describe('CognitoAdminClient', () => {
   describe('adminLinkProviderForUser', () => {
     it('should successfully link a provider for a user', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminLinkProviderForUserCommand).resolves({});
 
       const result = await client.adminLinkProviderForUser({
         username: 'testuser',
@@ -1095,7 +1681,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminLinkProviderForUserCommand was called with correct parameters
-      expect(AdminLinkProviderForUserCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminLinkProviderForUserCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         DestinationUser: {
           ProviderName: 'Cognito',
@@ -1118,7 +1704,7 @@ describe('CognitoAdminClient', () => {
     it('should successfully get information about a user device', async () => {
       const mockDate = new Date();
       // Mock successful response
-      mockSend.mockResolvedValueOnce({
+      stub.on(AdminGetDeviceCommand).resolves({
         Device: {
           DeviceKey: 'device-key-123',
           DeviceAttributes: [
@@ -1137,7 +1723,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminGetDeviceCommand was called with correct parameters
-      expect(AdminGetDeviceCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminGetDeviceCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         DeviceKey: 'device-key-123',
@@ -1158,7 +1744,7 @@ describe('CognitoAdminClient', () => {
 
     it('should throw an error when no device information is returned', async () => {
       // Mock response with no device information
-      mockSend.mockResolvedValueOnce({
+      stub.on(AdminGetDeviceCommand).resolves({
         // No Device field
       });
 
@@ -1170,14 +1756,14 @@ describe('CognitoAdminClient', () => {
       ).rejects.toThrow('Failed to get device: No device information returned');
 
       // Verify AdminGetDeviceCommand was still called
-      expect(AdminGetDeviceCommand).toHaveBeenCalled();
+      stub.expectCommandSent(AdminGetDeviceCommand);
     });
   });
 
   describe('adminForgetDevice', () => {
     it('should successfully forget a user device', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminForgetDeviceCommand).resolves({});
 
       const result = await client.adminForgetDevice({
         username: 'testuser',
@@ -1185,7 +1771,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminForgetDeviceCommand was called with correct parameters
-      expect(AdminForgetDeviceCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminForgetDeviceCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         DeviceKey: 'device-key-123',
@@ -1200,7 +1786,7 @@ describe('CognitoAdminClient', () => {
     it('should successfully list user devices', async () => {
       const mockDate = new Date();
       // Mock successful response
-      mockSend.mockResolvedValueOnce({
+      stub.on(AdminListDevicesCommand).resolves({
         Devices: [
           {
             DeviceKey: 'device-key-1',
@@ -1225,7 +1811,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminListDevicesCommand was called with correct parameters
-      expect(AdminListDevicesCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminListDevicesCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         Limit: 10,
@@ -1262,7 +1848,7 @@ describe('CognitoAdminClient', () => {
   describe('adminDeleteUserAttributes', () => {
     it('should successfully delete user attributes as admin', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminDeleteUserAttributesCommand).resolves({});
 
       const result = await client.adminDeleteUserAttributes({
         username: 'testuser',
@@ -1270,7 +1856,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminDeleteUserAttributesCommand was called with correct parameters
-      expect(AdminDeleteUserAttributesCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminDeleteUserAttributesCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         UserAttributeNames: ['custom:role', 'phone_number'],
@@ -1284,7 +1870,7 @@ describe('CognitoAdminClient', () => {
   describe('adminDisableProviderForUser', () => {
     it('should successfully disable a provider for a user', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminDisableProviderForUserCommand).resolves({});
 
       const result = await client.adminDisableProviderForUser({
         username: 'testuser', // Note: username is in the type but not used in the API call
@@ -1294,7 +1880,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminDisableProviderForUserCommand was called with correct parameters
-      expect(AdminDisableProviderForUserCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminDisableProviderForUserCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         User: {
           ProviderName: 'Facebook',
@@ -1312,7 +1898,7 @@ describe('CognitoAdminClient', () => {
     it('should successfully list user auth events', async () => {
       const mockDate = new Date();
       // Mock successful response
-      mockSend.mockResolvedValueOnce({
+      stub.on(AdminListUserAuthEventsCommand).resolves({
         AuthEvents: [
           {
             EventId: 'event-1',
@@ -1341,7 +1927,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminListUserAuthEventsCommand was called with correct parameters
-      expect(AdminListUserAuthEventsCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminListUserAuthEventsCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         MaxResults: 10,
@@ -1374,10 +1960,33 @@ describe('CognitoAdminClient', () => {
     });
   });
 
+  describe('paginateUserAuthEvents', () => {
+    it('should page through auth events with MaxResults and NextToken', async () => {
+      stub
+        .on(AdminListUserAuthEventsCommand)
+        .resolves({ AuthEvents: [{ EventId: 'event-1' }], NextToken: 'next-token' });
+      stub
+        .on(AdminListUserAuthEventsCommand, { NextToken: 'next-token' })
+        .resolves({ AuthEvents: [{ EventId: 'event-2' }] });
+
+      const events = await client
+        .paginateUserAuthEvents({ username: 'testuser', pageSize: 1 })
+        .toArray();
+
+      expect(events.map((event) => event.eventId)).toEqual(['event-1', 'event-2']);
+      expect(inputsOf(AdminListUserAuthEventsCommand)).toContainEqual({
+        UserPoolId: 'us-east-1_abcdef123',
+        Username: 'testuser',
+        MaxResults: 1,
+        NextToken: 'next-token',
+      });
+    });
+  });
+
   describe('adminSetUserSettings', () => {
     it('should successfully set user settings as admin', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminSetUserSettingsCommand).resolves({});
 
       const result = await client.adminSetUserSettings({
         username: 'testuser',
@@ -1390,7 +1999,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminSetUserSettingsCommand was called with correct parameters
-      expect(AdminSetUserSettingsCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminSetUserSettingsCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         MFAOptions: [
@@ -1409,7 +2018,7 @@ describe('CognitoAdminClient', () => {
   describe('adminUpdateAuthEventFeedback', () => {
     it('should successfully update auth event feedback', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminUpdateAuthEventFeedbackCommand).resolves({});
 
       const result = await client.adminUpdateAuthEventFeedback({
         username: 'testuser',
@@ -1418,7 +2027,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminUpdateAuthEventFeedbackCommand was called with correct parameters
-      expect(AdminUpdateAuthEventFeedbackCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminUpdateAuthEventFeedbackCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         EventId: 'event-1',
@@ -1433,7 +2042,7 @@ describe('CognitoAdminClient', () => {
   describe('adminUpdateDeviceStatus', () => {
     it('should successfully update device status as admin', async () => {
       // Mock successful response
-      mockSend.mockResolvedValueOnce({});
+      stub.on(AdminUpdateDeviceStatusCommand).resolves({});
 
       const result = await client.adminUpdateDeviceStatus({
         username: 'testuser',
@@ -1442,7 +2051,7 @@ describe('CognitoAdminClient', () => {
       });
 
       // Verify AdminUpdateDeviceStatusCommand was called with correct parameters
-      expect(AdminUpdateDeviceStatusCommand).toHaveBeenCalledWith({
+      expect(inputsOf(AdminUpdateDeviceStatusCommand)).toContainEqual({
         UserPoolId: 'us-east-1_abcdef123',
         Username: 'testuser',
         DeviceKey: 'device-key-123',
@@ -1453,4 +2062,254 @@ describe('CognitoAdminClient', () => {
       expect(result).toBe(true);
     });
   });
+  describe('user import jobs', () => {
+    const jobType = (status: string, counts: object = {}): object => ({
+      JobId: 'import-job-1',
+      JobName: 'migration',
+      UserPoolId: 'us-east-1_abcdef123',
+      Status: status,
+      PreSignedUrl: 'https://example.com/upload',
+      ...counts,
+    });
+    const importJob = (status: string, counts: object = {}): object => ({
+      UserImportJob: jobType(status, counts),
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should get the CSV header', async () => {
+      stub.on(GetCSVHeaderCommand).resolves({ CSVHeader: ['name', 'email', 'cognito:username'] });
+
+      const headers = await client.getCsvHeader();
+
+      expect(headers).toEqual(['name', 'email', 'cognito:username']);
+      expect(inputsOf(GetCSVHeaderCommand)).toContainEqual({ UserPoolId: 'us-east-1_abcdef123' });
+    });
+
+    it('should create, start, describe and stop a job', async () => {
+      stub.on(CreateUserImportJobCommand).resolves(importJob('Created'));
+      stub.on(StartUserImportJobCommand).resolves(importJob('Pending'));
+      stub
+        .on(DescribeUserImportJobCommand)
+        .resolves(importJob('InProgress', { ImportedUsers: 10 }));
+      stub.on(StopUserImportJobCommand).resolves(importJob('Stopping'));
+
+      const job = await client.createUserImportJob({
+        jobName: 'migration',
+        cloudWatchLogsRoleArn: 'arn:aws:iam::123456789012:role/CognitoImport',
+      });
+      await client.startUserImportJob({ jobId: job.jobId });
+      const running = await client.describeUserImportJob({ jobId: job.jobId });
+      const stopping = await client.stopUserImportJob({ jobId: job.jobId });
+
+      expect(job).toMatchObject({
+        jobId: 'import-job-1',
+        status: 'Created',
+        preSignedUrl: 'https://example.com/upload',
+      });
+      expect(running.statistics).toEqual({ importedUsers: 10, skippedUsers: 0, failedUsers: 0 });
+      expect(stopping.status).toBe('Stopping');
+      expect(inputsOf(CreateUserImportJobCommand)).toContainEqual({
+        UserPoolId: 'us-east-1_abcdef123',
+        JobName: 'migration',
+        CloudWatchLogsRoleArn: 'arn:aws:iam::123456789012:role/CognitoImport',
+      });
+      expect(inputsOf(StartUserImportJobCommand)).toContainEqual({
+        UserPoolId: 'us-east-1_abcdef123',
+        JobId: 'import-job-1',
+      });
+      stub.expectCommandSent(DescribeUserImportJobCommand);
+      stub.expectCommandSent(StopUserImportJobCommand);
+    });
+
+    it('should list jobs', async () => {
+      stub.on(ListUserImportJobsCommand).resolves({
+        UserImportJobs: [jobType('Succeeded')],
+        PaginationToken: 'next-token',
+      });
+
+      const result = await client.listUserImportJobs();
+
+      expect(result.jobs).toHaveLength(1);
+      expect(result.paginationToken).toBe('next-token');
+      expect(inputsOf(ListUserImportJobsCommand)).toContainEqual({
+        UserPoolId: 'us-east-1_abcdef123',
+        MaxResults: 60,
+        PaginationToken: undefined,
+      });
+    });
+
+    it('should poll until the job finishes', async () => {
+      jest.useFakeTimers();
+      const onPoll = jest.fn();
+      stub
+        .on(DescribeUserImportJobCommand)
+        .resolvesOnce(importJob('InProgress'))
+        .resolves(importJob('Succeeded', { ImportedUsers: 98, SkippedUsers: 1, FailedUsers: 1 }));
+
+      const promise = client.waitForUserImportJob({
+        jobId: 'import-job-1',
+        pollIntervalMs: 1000,
+        onPoll,
+      });
+      await jest.advanceTimersByTimeAsync(1000);
+      const job = await promise;
+
+      expect(job.status).toBe('Succeeded');
+      expect(job.statistics).toEqual({ importedUsers: 98, skippedUsers: 1, failedUsers: 1 });
+      expect(onPoll).toHaveBeenCalledTimes(2);
+    });
+
+    it('should time out while the job is still running', async () => {
+      stub.on(DescribeUserImportJobCommand).resolves(importJob('InProgress'));
+
+      await expect(
+        client.waitForUserImportJob({ jobId: 'import-job-1', pollIntervalMs: 1000, timeoutMs: 0 }),
+      ).rejects.toThrow('Failed to wait for user import job: Timed out in status InProgress');
+    });
+  });
+
+  describe('with a client secret', () => {
+    let secretClient: CognitoAdminClient;
+
+    beforeEach(() => {
+      secretClient = new CognitoAdminClient(
+        {
+          region: 'us-east-1',
+          userPoolId: 'us-east-1_abcdef123',
+          clientId: '1234567890abcdef',
+          clientSecret: 'client-secret',
+          credentials: {
+            accessKeyId: 'mock-access-key',
+            secretAccessKey: 'mock-secret-key',
+          },
+        },
+        stub.client,
+      );
+    });
+
+    it('should add SECRET_HASH to admin auth parameters', async () => {
+      stub.on(AdminInitiateAuthCommand).resolves({
+        ChallengeName: 'NEW_PASSWORD_REQUIRED',
+        Session: 'session-token',
+      });
+
+      await secretClient.initiateAuth({
+        username: 'adminuser',
+        password: 'Password123!',
+      });
+
+      expect(inputsOf(AdminInitiateAuthCommand)).toContainEqual(
+        expect.objectContaining({
+          AuthParameters: {
+            USERNAME: 'adminuser',
+            PASSWORD: 'Password123!',
+            SECRET_HASH: '0KXOCSQBrOeK77jE6n17jO31NazvwpEGwNNKxcwZrjM=',
+          },
+        }),
+      );
+    });
+
+    it('should add SECRET_HASH to challenge responses', async () => {
+      stub
+        .on(AdminRespondToAuthChallengeCommand)
+        .resolves({ Session: 'next-session', ChallengeName: 'SMS_MFA' });
+
+      await secretClient.respondToAuthChallenge({
+        challengeName: 'NEW_PASSWORD_REQUIRED',
+        challengeResponses: {
+          USERNAME: 'adminuser',
+          NEW_PASSWORD: 'NewPassword123!',
+        },
+        session: 'session-token',
+      });
+
+      expect(inputsOf(AdminRespondToAuthChallengeCommand)).toContainEqual(
+        expect.objectContaining({
+          ChallengeResponses: {
+            USERNAME: 'adminuser',
+            NEW_PASSWORD: 'NewPassword123!',
+            SECRET_HASH: '0KXOCSQBrOeK77jE6n17jO31NazvwpEGwNNKxcwZrjM=',
+          },
+        }),
+      );
+    });
+  });
+
+  describe('with a retry policy', () => {
+    const throttlingError = (): Error =>
+      createMockAwsError('TooManyRequestsException', 'Rate exceeded', 'TooManyRequestsException');
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should not retry without a retry policy', async () => {
+      stub.on(AdminAddUserToGroupCommand).rejectsOnce(throttlingError()).resolves({});
+
+      await expect(
+        client.adminAddUserToGroup({ username: 'testuser', groupName: 'admins' }),
+      ).rejects.toBeInstanceOf(TooManyRequestsError);
+      expect(stub.calls).toHaveLength(1);
+    });
+
+    it('should retry throttled requests with backoff', async () => {
+      jest.useFakeTimers();
+      stub.on(AdminAddUserToGroupCommand).rejectsOnce(throttlingError()).resolves({});
+
+      const promise = client
+        .withRetry({ maxAttempts: 3, baseDelayMs: 100, jitter: 'none' })
+        .adminAddUserToGroup({ username: 'testuser', groupName: 'admins' });
+
+      await jest.advanceTimersByTimeAsync(99);
+      expect(stub.calls).toHaveLength(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await expect(promise).resolves.toBe(true);
+      expect(stub.calls).toHaveLength(2);
+    });
+
+    it('should wait for the rate limiter before every attempt', async () => {
+      const rateLimiter = { acquire: jest.fn().mockResolvedValue(undefined) };
+      const limitedClient = new CognitoAdminClient(
+        {
+          region: 'us-east-1',
+          userPoolId: 'us-east-1_abcdef123',
+          clientId: '1234567890abcdef',
+          credentials: {
+            accessKeyId: 'mock-access-key',
+            secretAccessKey: 'mock-secret-key',
+          },
+          retry: { maxAttempts: 2, baseDelayMs: 0 },
+          rateLimiter,
+        },
+        stub.client,
+      );
+      stub.on(AdminAddUserToGroupCommand).rejectsOnce(throttlingError()).resolves({});
+
+      await limitedClient.adminAddUserToGroup({ username: 'testuser', groupName: 'admins' });
+
+      expect(rateLimiter.acquire).toHaveBeenCalledTimes(2);
+      expect(rateLimiter.acquire).toHaveBeenCalledWith('AdminAddUserToGroup');
+      expect(stub.calls).toHaveLength(2);
+    });
+
+    it('should retry internal errors of reads but not of writes', async () => {
+      const internalError = (): Error =>
+        createMockAwsError('InternalErrorException', 'Internal error', 'InternalErrorException');
+      const retryingClient = client.withRetry({ maxAttempts: 2, baseDelayMs: 0 });
+      stub.on(AdminCreateUserCommand).rejectsOnce(internalError()).resolves({});
+      stub.on(ListGroupsCommand).rejectsOnce(internalError()).resolves({ Groups: [] });
+
+      await expect(
+        retryingClient.createUser({ username: 'testuser', email: 'test@example.com' }),
+      ).rejects.toBeInstanceOf(InternalServiceError);
+      expect(stub.calls).toHaveLength(1);
+
+      await expect(retryingClient.listGroups()).resolves.toBeDefined();
+      expect(stub.calls).toHaveLength(3);
+    });
+  });
 });
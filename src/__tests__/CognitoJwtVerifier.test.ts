@@ -0,0 +1,278 @@
+import { CognitoJwtVerifier } from '../lib/CognitoJwtVerifier';
+import { createStaticJwksProvider } from '../utils/jwksUtils';
+import { createTestTokenIssuer } from '../utils/testTokens';
+import { Jwks, JwksProvider } from '../types';
+
+const REGION = 'us-east-1';
+const USER_POOL_ID = 'us-east-1_abcdef123';
+const CLIENT_ID = '1234567890abcdef';
+const ISSUER = `https://cognito-idp.${REGION}.amazonaws.com/${USER_POOL_ID}`;
+
+const issuerOptions = {
+  region: REGION,
+  userPoolId: USER_POOL_ID,
+  clientId: CLIENT_ID,
+  keyId: 'key-1',
+};
+const issuer = createTestTokenIssuer(issuerOptions);
+// Signs with another key under the same key ID
+const otherIssuer = createTestTokenIssuer(issuerOptions);
+
+const jwks: Jwks = issuer.jwks;
+
+const now = (): number => Math.floor(Date.now() / 1000);
+
+const accessClaims = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  sub: 'user-sub-123',
+  iss: ISSUER,
+  client_id: CLIENT_ID,
+  token_use: 'access',
+  scope: 'aws.cognito.signin.user.admin',
+  auth_time: now(),
+  iat: now(),
+  exp: now() + 3600,
+  username: 'testuser',
+  'cognito:groups': ['admins'],
+  ...overrides,
+});
+
+const idClaims = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  sub: 'user-sub-123',
+  iss: ISSUER,
+  aud: CLIENT_ID,
+  token_use: 'id',
+  auth_time: now(),
+  iat: now(),
+  exp: now() + 3600,
+  'cognito:username': 'testuser',
+  email: 'user@example.com',
+  ...overrides,
+});
+
+describe('CognitoJwtVerifier', () => {
+  let verifier: CognitoJwtVerifier;
+
+  beforeEach(() => {
+    verifier = new CognitoJwtVerifier({
+      region: REGION,
+      userPoolId: USER_POOL_ID,
+      clientId: CLIENT_ID,
+      jwksProvider: createStaticJwksProvider(jwks),
+    });
+  });
+
+  describe('verifyAccessToken', () => {
+    it('should return the claims of a valid access token', async () => {
+      const claims = accessClaims();
+
+      const result = await verifier.verifyAccessToken(issuer.sign(claims));
+
+      expect(result).toEqual(claims);
+    });
+
+    it('should accept a Bearer authorization header', async () => {
+      const result = await verifier.verifyAccessToken(`Bearer ${issuer.sign(accessClaims())}`);
+
+      expect(result.username).toBe('testuser');
+    });
+
+    it('should reject a token signed with another key', async () => {
+      await expect(verifier.verifyAccessToken(otherIssuer.sign(accessClaims()))).rejects.toThrow(
+        'Invalid token: Signature verification failed',
+      );
+    });
+
+    it('should reject a token with an unsupported algorithm', async () => {
+      await expect(
+        verifier.verifyAccessToken(issuer.sign(accessClaims(), { alg: 'HS256' })),
+      ).rejects.toThrow('Invalid token: Unsupported algorithm HS256');
+    });
+
+    it('should reject a token with an unknown key ID', async () => {
+      await expect(
+        verifier.verifyAccessToken(issuer.sign(accessClaims(), { kid: 'unknown' })),
+      ).rejects.toThrow('Invalid token: No matching key found for kid unknown');
+    });
+
+    it('should reject a token whose JWKS key is malformed', async () => {
+      const corruptVerifier = new CognitoJwtVerifier({
+        region: REGION,
+        userPoolId: USER_POOL_ID,
+        clientId: CLIENT_ID,
+        // A JWKS response whose key lacks its modulus
+        jwksProvider: createStaticJwksProvider(
+          JSON.parse(
+            '{"keys":[{"kid":"key-1","kty":"RSA","alg":"RS256","use":"sig","e":"AQAB"}]}',
+          ) as Jwks,
+        ),
+      });
+
+      await expect(corruptVerifier.verifyAccessToken(issuer.sign(accessClaims()))).rejects.toThrow(
+        'Invalid token: Malformed JWKS key for kid key-1',
+      );
+    });
+
+    it('should reject a token from another user pool', async () => {
+      await expect(
+        verifier.verifyAccessToken(
+          issuer.sign(accessClaims({ iss: `https://cognito-idp.${REGION}.amazonaws.com/other` })),
+        ),
+      ).rejects.toThrow('Invalid token: Issuer mismatch');
+    });
+
+    it('should reject an ID token', async () => {
+      await expect(verifier.verifyAccessToken(issuer.sign(idClaims()))).rejects.toThrow(
+        'Invalid token: Expected access token',
+      );
+    });
+
+    it('should reject a token issued to another client', async () => {
+      await expect(
+        verifier.verifyAccessToken(issuer.sign(accessClaims({ client_id: 'other-client' }))),
+      ).rejects.toThrow('Invalid token: Client ID not allowed');
+    });
+
+    it('should accept any of several configured client IDs', async () => {
+      const multiClientVerifier = new CognitoJwtVerifier({
+        region: REGION,
+        userPoolId: USER_POOL_ID,
+        clientId: [CLIENT_ID, 'other-client'],
+        jwksProvider: createStaticJwksProvider(jwks),
+      });
+
+      const result = await multiClientVerifier.verifyAccessToken(
+        issuer.sign(accessClaims({ client_id: 'other-client' })),
+      );
+
+      expect(result.client_id).toBe('other-client');
+    });
+
+    it('should reject an expired token', async () => {
+      await expect(
+        verifier.verifyAccessToken(issuer.sign(accessClaims({ exp: now() - 10 }))),
+      ).rejects.toThrow('Invalid token: Token expired');
+    });
+
+    it('should allow configurable clock skew', async () => {
+      const lenientVerifier = new CognitoJwtVerifier({
+        region: REGION,
+        userPoolId: USER_POOL_ID,
+        clientId: CLIENT_ID,
+        clockSkewSeconds: 60,
+        jwksProvider: createStaticJwksProvider(jwks),
+      });
+
+      await expect(
+        lenientVerifier.verifyAccessToken(issuer.sign(accessClaims({ exp: now() - 10 }))),
+      ).resolves.toMatchObject({ sub: 'user-sub-123' });
+      await expect(
+        lenientVerifier.verifyAccessToken(issuer.sign(accessClaims({ nbf: now() + 30 }))),
+      ).resolves.toMatchObject({ sub: 'user-sub-123' });
+    });
+
+    it('should reject a token that is not yet valid', async () => {
+      await expect(
+        verifier.verifyAccessToken(issuer.sign(accessClaims({ nbf: now() + 300 }))),
+      ).rejects.toThrow('Invalid token: Token not yet valid');
+    });
+
+    it('should reject a malformed token', async () => {
+      await expect(verifier.verifyAccessToken('not-a-jwt')).rejects.toThrow(
+        'Invalid token: Malformed JWT',
+      );
+    });
+
+    it('should reload the JWKS once when the key ID is unknown', async () => {
+      const getJwks = jest.fn().mockResolvedValueOnce({ keys: [] }).mockResolvedValueOnce(jwks);
+      const provider: JwksProvider = { getJwks };
+      const rotatingVerifier = new CognitoJwtVerifier({
+        region: REGION,
+        userPoolId: USER_POOL_ID,
+        clientId: CLIENT_ID,
+        jwksProvider: provider,
+      });
+
+      await rotatingVerifier.verifyAccessToken(issuer.sign(accessClaims()));
+      await rotatingVerifier.verifyAccessToken(issuer.sign(accessClaims()));
+
+      expect(getJwks).toHaveBeenCalledTimes(2);
+      expect(getJwks).toHaveBeenNthCalledWith(2, true);
+    });
+
+    it('should rate-limit JWKS reloads for unknown key IDs', async () => {
+      const getJwks = jest.fn().mockResolvedValue(jwks);
+      const cooldownVerifier = new CognitoJwtVerifier({
+        region: REGION,
+        userPoolId: USER_POOL_ID,
+        clientId: CLIENT_ID,
+        jwksProvider: { getJwks },
+        jwksRefreshCooldownSeconds: 30,
+      });
+      const forged = (kid: string): Promise<unknown> =>
+        cooldownVerifier.verifyAccessToken(issuer.sign(accessClaims(), { kid }));
+      const nowSpy = jest.spyOn(Date, 'now');
+
+      try {
+        nowSpy.mockReturnValue(1_000_000);
+        await Promise.all(
+          ['forged-1', 'forged-2', 'forged-3'].map((kid) =>
+            expect(forged(kid)).rejects.toThrow(`No matching key found for kid ${kid}`),
+          ),
+        );
+        expect(getJwks.mock.calls.filter(([forceRefresh]) => forceRefresh)).toHaveLength(1);
+
+        nowSpy.mockReturnValue(1_000_000 + 30_000);
+        await expect(forged('forged-4')).rejects.toThrow('No matching key found');
+        expect(getJwks.mock.calls.filter(([forceRefresh]) => forceRefresh)).toHaveLength(2);
+      } finally {
+        nowSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('key cache', () => {
+    it('should evict the oldest key once the cache is full', async () => {
+      const kids = Array.from({ length: 21 }, (_, index) => `key-${index}`);
+      const getJwks = jest
+        .fn()
+        .mockResolvedValue({ keys: kids.map((kid) => ({ ...jwks.keys[0], kid })) });
+      const cachingVerifier = new CognitoJwtVerifier({
+        region: REGION,
+        userPoolId: USER_POOL_ID,
+        clientId: CLIENT_ID,
+        jwksProvider: { getJwks },
+      });
+
+      for (const kid of kids) {
+        await cachingVerifier.verifyAccessToken(issuer.sign(accessClaims(), { kid }));
+      }
+      await cachingVerifier.verifyAccessToken(issuer.sign(accessClaims(), { kid: 'key-20' }));
+      expect(getJwks).toHaveBeenCalledTimes(21);
+
+      await cachingVerifier.verifyAccessToken(issuer.sign(accessClaims(), { kid: 'key-0' }));
+      expect(getJwks).toHaveBeenCalledTimes(22);
+    });
+  });
+
+  describe('verifyIdToken', () => {
+    it('should return the claims of a valid ID token', async () => {
+      const claims = idClaims();
+
+      const result = await verifier.verifyIdToken(issuer.sign(claims));
+
+      expect(result).toEqual(claims);
+    });
+
+    it('should reject an access token', async () => {
+      await expect(verifier.verifyIdToken(issuer.sign(accessClaims()))).rejects.toThrow(
+        'Invalid token: Expected id token',
+      );
+    });
+
+    it('should reject a token for another audience', async () => {
+      await expect(
+        verifier.verifyIdToken(issuer.sign(idClaims({ aud: 'other-client' }))),
+      ).rejects.toThrow('Invalid token: Audience not allowed');
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import { CognitoSession } from '../lib/CognitoSession';
+import { CognitoUserClient } from '../lib/CognitoUserClient';
+import { AuthResponse } from '../types';
+import { createMemoryTokenStorage } from '../utils/tokenStorage';
+
+const createAuthResponse = (overrides?: Partial<AuthResponse>): AuthResponse => ({
+  accessToken: 'access-token',
+  idToken: 'id-token',
+  refreshToken: 'refresh-token',
+  expiresIn: 3600,
+  tokenType: 'Bearer',
+  ...overrides,
+});
+
+describe('CognitoSession', () => {
+  let client: {
+    signIn: jest.Mock;
+    refreshToken: jest.Mock;
+    globalSignOut: jest.Mock;
+    deleteMe: jest.Mock;
+  };
+  let session: CognitoSession;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+
+    client = {
+      signIn: jest.fn(),
+      refreshToken: jest.fn(),
+      globalSignOut: jest.fn().mockResolvedValue(true),
+      deleteMe: jest.fn().mockResolvedValue(true),
+    };
+    session = new CognitoSession(client as unknown as CognitoUserClient, {
+      authResponse: createAuthResponse(),
+      userSub: 'user-sub',
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should compute the absolute expiry from expiresIn', () => {
+    expect(session.getExpiresAt()).toEqual(new Date('2024-01-01T01:00:00Z'));
+    expect(session.isExpired()).toBe(false);
+
+    jest.setSystemTime(new Date('2024-01-01T01:00:00Z'));
+    expect(session.isExpired()).toBe(true);
+  });
+
+  it('should start the session on signIn', async () => {
+    const session = new CognitoSession(client as unknown as CognitoUserClient);
+    client.signIn.mockResolvedValueOnce(createAuthResponse({ accessToken: 'signed-in-token' }));
+
+    await session.signIn({ username: 'testuser', password: 'password123' });
+
+    expect(client.signIn).toHaveBeenCalledWith({ username: 'testuser', password: 'password123' });
+    await expect(session.getValidAccessToken()).resolves.toBe('signed-in-token');
+  });
+
+  it('should return the current access token outside the refresh window', async () => {
+    jest.setSystemTime(new Date('2024-01-01T00:54:00Z'));
+
+    await expect(session.getValidAccessToken()).resolves.toBe('access-token');
+    expect(client.refreshToken).not.toHaveBeenCalled();
+  });
+
+  it('should refresh proactively within the refresh window', async () => {
+    const onRefresh = jest.fn();
+    session.on('refresh', onRefresh);
+    const refreshed = createAuthResponse({ accessToken: 'new-access-token' });
+    client.refreshToken.mockResolvedValueOnce(refreshed);
+    jest.setSystemTime(new Date('2024-01-01T00:56:00Z'));
+
+    await expect(session.getValidAccessToken()).resolves.toBe('new-access-token');
+
+    expect(client.refreshToken).toHaveBeenCalledWith({
+      refreshToken: 'refresh-token',
+      userSub: 'user-sub',
+    });
+    expect(onRefresh).toHaveBeenCalledWith(refreshed);
+    expect(session.getExpiresAt()).toEqual(new Date('2024-01-01T01:56:00Z'));
+  });
+
+  it('should honour a custom refresh window', async () => {
+    session = new CognitoSession(client as unknown as CognitoUserClient, {
+      authResponse: createAuthResponse(),
+      refreshWindowSeconds: 30,
+    });
+    jest.setSystemTime(new Date('2024-01-01T00:59:00Z'));
+
+    await expect(session.getValidAccessToken()).resolves.toBe('access-token');
+    expect(client.refreshToken).not.toHaveBeenCalled();
+  });
+
+  it('should share a single refresh between concurrent callers', async () => {
+    let resolveRefresh: (value: AuthResponse) => void = () => undefined;
+    client.refreshToken.mockReturnValueOnce(
+      new Promise<AuthResponse>((resolve) => {
+        resolveRefresh = resolve;
+      }),
+    );
+    jest.setSystemTime(new Date('2024-01-01T00:58:00Z'));
+
+    const first = session.getValidAccessToken();
+    const second = session.getValidAccessToken();
+    resolveRefresh(createAuthResponse({ accessToken: 'new-access-token' }));
+
+    await expect(Promise.all([first, second])).resolves.toEqual([
+      'new-access-token',
+      'new-access-token',
+    ]);
+    expect(client.refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit refreshFailure and allow a later retry when refresh fails', async () => {
+    const onFailure = jest.fn();
+    session.on('refreshFailure', onFailure);
+    const error = new Error('Refresh Token has expired');
+    client.refreshToken
+      .mockRejectedValueOnce(error)
+      .mockResolvedValueOnce(createAuthResponse({ accessToken: 'new-access-token' }));
+
+    await expect(session.refresh()).rejects.toThrow('Refresh Token has expired');
+    expect(onFailure).toHaveBeenCalledWith(error);
+
+    await expect(session.refresh()).resolves.toMatchObject({ accessToken: 'new-access-token' });
+    expect(client.refreshToken).toHaveBeenCalledTimes(2);
+  });
+
+  it('should take the user sub from the ID token claims', async () => {
+    const authResponse = createAuthResponse();
+    authResponse.claims = {
+      accessToken: {} as never,
+      idToken: { sub: 'claims-sub' } as never,
+    };
+    session = new CognitoSession(client as unknown as CognitoUserClient, { authResponse });
+    client.refreshToken.mockResolvedValueOnce(createAuthResponse());
+
+    await session.refresh();
+
+    expect(client.refreshToken).toHaveBeenCalledWith({
+      refreshToken: 'refresh-token',
+      userSub: 'claims-sub',
+    });
+  });
+
+  it('should clear the session and emit signOut', async () => {
+    const onSignOut = jest.fn();
+    session.on('signOut', onSignOut);
+
+    await session.signOut();
+
+    expect(client.globalSignOut).not.toHaveBeenCalled();
+    expect(onSignOut).toHaveBeenCalledTimes(1);
+    expect(session.getAuthResponse()).toBeUndefined();
+    await expect(session.getValidAccessToken()).rejects.toThrow(
+      'Failed to get access token: No active session',
+    );
+  });
+
+  it('should revoke the tokens on global sign-out', async () => {
+    await session.signOut({ global: true });
+
+    expect(client.globalSignOut).toHaveBeenCalledWith({ accessToken: 'access-token' });
+  });
+
+  it('should stop calling removed listeners', async () => {
+    const onSignOut = jest.fn();
+    session.on('signOut', onSignOut).off('signOut', onSignOut);
+
+    await session.signOut();
+
+    expect(onSignOut).not.toHaveBeenCalled();
+  });
+
+  describe('with token storage', () => {
+    it('should save the session on sign-in and refresh', async () => {
+      const storage = createMemoryTokenStorage();
+      const session = new CognitoSession(client as unknown as CognitoUserClient, { storage });
+      client.signIn.mockResolvedValueOnce(createAuthResponse());
+      client.refreshToken.mockResolvedValueOnce(
+        createAuthResponse({ accessToken: 'new-access-token' }),
+      );
+
+      await session.signIn({ username: 'testuser', password: 'password123' });
+      await expect(storage.load()).resolves.toEqual({
+        authResponse: createAuthResponse(),
+        expiresAt: new Date('2024-01-01T01:00:00Z').getTime(),
+      });
+
+      await session.refresh();
+      await expect(storage.load()).resolves.toMatchObject({
+        authResponse: { accessToken: 'new-access-token' },
+      });
+    });
+
+    it('should restore a saved session', async () => {
+      const storage = createMemoryTokenStorage({
+        authResponse: createAuthResponse({ accessToken: 'stored-token' }),
+        expiresAt: new Date('2024-01-01T00:30:00Z').getTime(),
+        userSub: 'stored-sub',
+      });
+      const session = new CognitoSession(client as unknown as CognitoUserClient, { storage });
+
+      await expect(session.restore()).resolves.toBe(true);
+      expect(session.getExpiresAt()).toEqual(new Date('2024-01-01T00:30:00Z'));
+      await expect(session.getValidAccessToken()).resolves.toBe('stored-token');
+
+      await session.refresh().catch(() => undefined);
+      expect(client.refreshToken).toHaveBeenCalledWith({
+        refreshToken: 'refresh-token',
+        userSub: 'stored-sub',
+      });
+    });
+
+    it('should report when there is nothing to restore', async () => {
+      const session = new CognitoSession(client as unknown as CognitoUserClient, {
+        storage: createMemoryTokenStorage(),
+      });
+
+      await expect(session.restore()).resolves.toBe(false);
+    });
+
+    it('should clear the storage on global sign-out', async () => {
+      const storage = createMemoryTokenStorage();
+      const session = new CognitoSession(client as unknown as CognitoUserClient, { storage });
+      await session.setAuthResponse(createAuthResponse());
+
+      await session.signOut({ global: true });
+
+      expect(client.globalSignOut).toHaveBeenCalledWith({ accessToken: 'access-token' });
+      await expect(storage.load()).resolves.toBeUndefined();
+    });
+
+    it('should clear the storage when revoking the tokens fails', async () => {
+      const storage = createMemoryTokenStorage();
+      const onSignOut = jest.fn();
+      const session = new CognitoSession(client as unknown as CognitoUserClient, { storage });
+      session.on('signOut', onSignOut);
+      await session.setAuthResponse(createAuthResponse());
+      client.globalSignOut.mockRejectedValueOnce(new Error('Network error'));
+
+      await expect(session.signOut({ global: true })).rejects.toThrow('Network error');
+
+      expect(onSignOut).toHaveBeenCalledTimes(1);
+      expect(session.getAuthResponse()).toBeUndefined();
+      await expect(storage.load()).resolves.toBeUndefined();
+    });
+
+    it('should clear the storage after deleting the user', async () => {
+      const storage = createMemoryTokenStorage();
+      const onSignOut = jest.fn();
+      const session = new CognitoSession(client as unknown as CognitoUserClient, { storage });
+      session.on('signOut', onSignOut);
+      await session.setAuthResponse(createAuthResponse());
+
+      await expect(session.deleteMe()).resolves.toBe(true);
+
+      expect(client.deleteMe).toHaveBeenCalledWith({ authorization: 'Bearer access-token' });
+      expect(onSignOut).toHaveBeenCalledTimes(1);
+      await expect(storage.load()).resolves.toBeUndefined();
+    });
+
+    it('should discard a refresh that resolves after sign-out', async () => {
+      const storage = createMemoryTokenStorage();
+      const session = new CognitoSession(client as unknown as CognitoUserClient, { storage });
+      const onRefresh = jest.fn();
+      const onFailure = jest.fn();
+      session.on('refresh', onRefresh).on('refreshFailure', onFailure);
+      await session.setAuthResponse(createAuthResponse());
+      let resolveRefresh: (authResponse: AuthResponse) => void = () => undefined;
+      client.refreshToken.mockReturnValueOnce(
+        new Promise<AuthResponse>((resolve) => {
+          resolveRefresh = resolve;
+        }),
+      );
+
+      const refresh = session.refresh();
+      await session.signOut();
+      resolveRefresh(createAuthResponse({ accessToken: 'late-token' }));
+
+      await expect(refresh).rejects.toThrow('Failed to refresh token: Session ended');
+      expect(session.getAuthResponse()).toBeUndefined();
+      await expect(storage.load()).resolves.toBeUndefined();
+      expect(onRefresh).not.toHaveBeenCalled();
+      expect(onFailure).not.toHaveBeenCalled();
+
+      client.signIn.mockResolvedValueOnce(createAuthResponse({ accessToken: 'next-token' }));
+      client.refreshToken.mockResolvedValueOnce(
+        createAuthResponse({ accessToken: 'next-refreshed-token' }),
+      );
+      await session.signIn({ username: 'testuser', password: 'password123' });
+      await expect(session.refresh()).resolves.toMatchObject({
+        accessToken: 'next-refreshed-token',
+      });
+    });
+
+    it('should keep the storage when deleting the user fails', async () => {
+      const storage = createMemoryTokenStorage();
+      const session = new CognitoSession(client as unknown as CognitoUserClient, { storage });
+      await session.setAuthResponse(createAuthResponse());
+      client.deleteMe.mockRejectedValueOnce(new Error('Access Token has been revoked'));
+
+      await expect(session.deleteMe()).rejects.toThrow('Access Token has been revoked');
+      await expect(storage.load()).resolves.toBeDefined();
+    });
+  });
+});
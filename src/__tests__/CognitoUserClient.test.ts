@@ -31,6 +31,7 @@ import {
   createMockAuthResult,
   createMockAwsError,
 } from '../utils/testUtils';
+import { UserNotFoundError } from '../lib/errors';
 
 // Mock the AWS SDK
 jest.mock('@aws-sdk/client-cognito-identity-provider', () => {
@@ -73,7 +74,7 @@ describe('CognitoUserClient', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
-    const { mockClient: mockedClient, mockSend: send } = createMockCognitoClient();
+    const { mockClient: mockedClient, mockSend: send } = createMockCognitoClient<jest.Mock>(jest);
     mockClient = mockedClient;
     mockSend = send;
 
@@ -126,6 +127,51 @@ describe('CognitoUserClient', () => {
       });
     });
 
+    it('should decode token claims when the tokens are JWTs', async () => {
+      const encode = (value: object): string =>
+        Buffer.from(JSON.stringify(value)).toString('base64url');
+      const header = encode({ alg: 'RS256', kid: 'key-1' });
+      const accessToken = `${header}.${encode({
+        sub: 'user-sub',
+        username: 'testuser',
+        client_id: '1234567890abcdef',
+        token_use: 'access',
+        'cognito:groups': ['admins'],
+        exp: 1700003600,
+      })}.c2ln`;
+      const idToken = `${header}.${encode({
+        sub: 'user-sub',
+        aud: '1234567890abcdef',
+        token_use: 'id',
+        'cognito:username': 'testuser',
+        email: 'test@example.com',
+        'custom:role': 'admin',
+        exp: 1700003600,
+      })}.c2ln`;
+
+      mockSend.mockResolvedValueOnce({
+        AuthenticationResult: createMockAuthResult({ AccessToken: accessToken, IdToken: idToken }),
+      });
+
+      const result = await client.signIn({
+        username: 'testuser',
+        password: 'password123',
+      });
+
+      expect(result.claims?.accessToken).toMatchObject({
+        sub: 'user-sub',
+        username: 'testuser',
+        clientId: '1234567890abcdef',
+        groups: ['admins'],
+        expiresAt: new Date(1700003600 * 1000),
+      });
+      expect(result.claims?.idToken).toMatchObject({
+        username: 'testuser',
+        email: 'test@example.com',
+        attributes: { sub: 'user-sub', email: 'test@example.com', customRole: 'admin' },
+      });
+    });
+
     it('should throw an error when authentication fails', async () => {
       // Mock an error response
       const error = createMockAwsError(
@@ -145,6 +191,557 @@ describe('CognitoUserClient', () => {
       // Verify InitiateAuthCommand was still called
       expect(InitiateAuthCommand).toHaveBeenCalled();
     });
+
+    it('should throw a typed error carrying the SDK exception details', async () => {
+      const error = Object.assign(
+        createMockAwsError(
+          'UserNotFoundException',
+          'User does not exist.',
+          'UserNotFoundException',
+        ),
+        { $metadata: { httpStatusCode: 400, requestId: 'request-id-123' } },
+      );
+      mockSend.mockRejectedValueOnce(error);
+
+      const thrown = await client
+        .signIn({ username: 'missinguser', password: 'password123' })
+        .catch((e: unknown) => e);
+
+      expect(thrown).toBeInstanceOf(UserNotFoundError);
+      expect(thrown).toMatchObject({
+        name: 'UserNotFoundError',
+        code: 'UserNotFound',
+        message: 'User does not exist.',
+        exceptionName: 'UserNotFoundException',
+        requestId: 'request-id-123',
+        httpStatusCode: 400,
+        cause: error,
+      });
+    });
+
+    it('should throw an error when a challenge is required', async () => {
+      mockSend.mockResolvedValueOnce({
+        ChallengeName: 'SMS_MFA',
+        Session: 'mfa-session',
+        ChallengeParameters: {},
+      });
+
+      await expect(
+        client.signIn({
+          username: 'testuser',
+          password: 'password123',
+        }),
+      ).rejects.toThrow(
+        'Authentication failed: SMS_MFA challenge must be completed, use initiateSignIn',
+      );
+    });
+  });
+
+  describe('initiateSignIn', () => {
+    it('should return tokens when no challenge is required', async () => {
+      const mockAuthResult = createMockAuthResult({
+        AccessToken: 'mock-access-token',
+        IdToken: 'mock-id-token',
+        RefreshToken: 'mock-refresh-token',
+        ExpiresIn: 3600,
+      });
+
+      mockSend.mockResolvedValueOnce({
+        AuthenticationResult: mockAuthResult,
+      });
+
+      const result = await client.initiateSignIn({
+        username: 'testuser',
+        password: 'password123',
+        clientMetadata: { source: 'web' },
+      });
+
+      // Verify InitiateAuthCommand was called with correct parameters
+      expect(InitiateAuthCommand).toHaveBeenCalledWith({
+        AuthFlow: 'USER_PASSWORD_AUTH',
+        ClientId: '1234567890abcdef',
+        AuthParameters: {
+          USERNAME: 'testuser',
+          PASSWORD: 'password123',
+        },
+        ClientMetadata: { source: 'web' },
+      });
+
+      // Verify the response was mapped correctly
+      expect(result).toEqual({
+        type: 'tokens',
+        tokens: {
+          accessToken: 'mock-access-token',
+          idToken: 'mock-id-token',
+          refreshToken: 'mock-refresh-token',
+          expiresIn: 3600,
+          tokenType: 'Bearer',
+        },
+      });
+    });
+
+    it('should return an SMS MFA challenge', async () => {
+      mockSend.mockResolvedValueOnce({
+        ChallengeName: 'SMS_MFA',
+        Session: 'mfa-session',
+        ChallengeParameters: {
+          CODE_DELIVERY_DELIVERY_MEDIUM: 'SMS',
+          CODE_DELIVERY_DESTINATION: '+*******1234',
+          USER_ID_FOR_SRP: 'testuser',
+        },
+      });
+
+      const result = await client.initiateSignIn({
+        username: 'testuser',
+        password: 'password123',
+      });
+
+      expect(result).toEqual({
+        type: 'smsMfa',
+        challengeName: 'SMS_MFA',
+        session: 'mfa-session',
+        username: 'testuser',
+        codeDeliveryMedium: 'SMS',
+        codeDeliveryDestination: '+*******1234',
+        challengeParameters: {
+          CODE_DELIVERY_DELIVERY_MEDIUM: 'SMS',
+          CODE_DELIVERY_DESTINATION: '+*******1234',
+          USER_ID_FOR_SRP: 'testuser',
+        },
+      });
+    });
+
+    it('should parse a new password required challenge', async () => {
+      mockSend.mockResolvedValueOnce({
+        ChallengeName: 'NEW_PASSWORD_REQUIRED',
+        Session: 'new-password-session',
+        ChallengeParameters: {
+          USER_ID_FOR_SRP: 'user-sub-123',
+          requiredAttributes: '["userAttributes.name"]',
+          userAttributes: '{"email":"user@example.com","custom:role":"admin"}',
+        },
+      });
+
+      const result = await client.initiateSignIn({
+        username: 'testuser',
+        password: 'TempPassword123!',
+      });
+
+      expect(result).toMatchObject({
+        type: 'newPasswordRequired',
+        challengeName: 'NEW_PASSWORD_REQUIRED',
+        session: 'new-password-session',
+        username: 'user-sub-123',
+        requiredAttributes: ['name'],
+        userAttributes: {
+          email: 'user@example.com',
+          customRole: 'admin',
+        },
+      });
+    });
+
+    it('should parse the MFA types a user can choose or set up', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          ChallengeName: 'SELECT_MFA_TYPE',
+          Session: 'select-session',
+          ChallengeParameters: { MFAS_CAN_CHOOSE: '["SMS_MFA","SOFTWARE_TOKEN_MFA"]' },
+        })
+        .mockResolvedValueOnce({
+          ChallengeName: 'MFA_SETUP',
+          Session: 'setup-session',
+          ChallengeParameters: { MFAS_CAN_SETUP: '["SOFTWARE_TOKEN_MFA"]' },
+        });
+
+      const select = await client.initiateSignIn({ username: 'testuser', password: 'p' });
+      const setup = await client.initiateSignIn({ username: 'testuser', password: 'p' });
+
+      expect(select).toMatchObject({
+        type: 'selectMfaType',
+        username: 'testuser',
+        mfasCanChoose: ['SMS_MFA', 'SOFTWARE_TOKEN_MFA'],
+      });
+      expect(setup).toMatchObject({
+        type: 'mfaSetup',
+        session: 'setup-session',
+        mfasCanSetup: ['SOFTWARE_TOKEN_MFA'],
+      });
+    });
+
+    it('should return other challenges generically', async () => {
+      mockSend.mockResolvedValueOnce({
+        ChallengeName: 'CUSTOM_CHALLENGE',
+        Session: 'custom-session',
+        ChallengeParameters: { question: 'favourite colour' },
+      });
+
+      const result = await client.initiateSignIn({ username: 'testuser', password: 'p' });
+
+      expect(result).toEqual({
+        type: 'challenge',
+        challengeName: 'CUSTOM_CHALLENGE',
+        session: 'custom-session',
+        username: 'testuser',
+        challengeParameters: { question: 'favourite colour' },
+      });
+    });
+
+    it('should use the SRP flow when requested', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          ChallengeName: 'PASSWORD_VERIFIER',
+          Session: 'srp-session',
+          ChallengeParameters: {
+            USER_ID_FOR_SRP: 'user-id-for-srp',
+            SRP_B: 'abcdef0123456789',
+            SALT: '1234abcd',
+            SECRET_BLOCK: 'c2VjcmV0',
+          },
+        })
+        .mockResolvedValueOnce({
+          ChallengeName: 'SOFTWARE_TOKEN_MFA',
+          Session: 'mfa-session',
+          ChallengeParameters: {},
+        });
+
+      const result = await client.initiateSignIn({
+        username: 'testuser',
+        password: 'password123',
+        authFlow: 'USER_SRP_AUTH',
+      });
+
+      expect(InitiateAuthCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ AuthFlow: 'USER_SRP_AUTH' }),
+      );
+      expect(result).toEqual({
+        type: 'softwareTokenMfa',
+        challengeName: 'SOFTWARE_TOKEN_MFA',
+        session: 'mfa-session',
+        username: 'user-id-for-srp',
+        challengeParameters: {},
+      });
+    });
+
+    it('should throw an error when neither tokens nor a challenge are returned', async () => {
+      mockSend.mockResolvedValueOnce({});
+
+      await expect(
+        client.initiateSignIn({
+          username: 'testuser',
+          password: 'password123',
+        }),
+      ).rejects.toThrow('Authentication failed: No authentication result returned');
+    });
+  });
+
+  describe('respondToChallenge', () => {
+    it('should send the challenge responses and return tokens', async () => {
+      const mockAuthResult = createMockAuthResult({
+        AccessToken: 'mock-access-token',
+        IdToken: 'mock-id-token',
+        RefreshToken: 'mock-refresh-token',
+        ExpiresIn: 3600,
+      });
+
+      mockSend.mockResolvedValueOnce({
+        AuthenticationResult: mockAuthResult,
+      });
+
+      const result = await client.respondToChallenge({
+        challengeName: 'SMS_MFA',
+        username: 'testuser',
+        session: 'mfa-session',
+        challengeResponses: {
+          SMS_MFA_CODE: '123456',
+        },
+      });
+
+      // Verify RespondToAuthChallengeCommand was called with correct parameters
+      expect(RespondToAuthChallengeCommand).toHaveBeenCalledWith({
+        ClientId: '1234567890abcdef',
+        ChallengeName: 'SMS_MFA',
+        Session: 'mfa-session',
+        ChallengeResponses: {
+          USERNAME: 'testuser',
+          SMS_MFA_CODE: '123456',
+        },
+      });
+
+      expect(result).toEqual({
+        type: 'tokens',
+        tokens: {
+          accessToken: 'mock-access-token',
+          idToken: 'mock-id-token',
+          refreshToken: 'mock-refresh-token',
+          expiresIn: 3600,
+          tokenType: 'Bearer',
+        },
+      });
+    });
+
+    it('should return the next challenge', async () => {
+      mockSend.mockResolvedValueOnce({
+        ChallengeName: 'SOFTWARE_TOKEN_MFA',
+        Session: 'next-session',
+        ChallengeParameters: {},
+      });
+
+      const result = await client.respondToChallenge({
+        challengeName: 'SELECT_MFA_TYPE',
+        username: 'testuser',
+        session: 'select-session',
+        challengeResponses: {
+          ANSWER: 'SOFTWARE_TOKEN_MFA',
+        },
+      });
+
+      expect(result).toMatchObject({
+        type: 'softwareTokenMfa',
+        session: 'next-session',
+        username: 'testuser',
+      });
+    });
+  });
+
+  describe('MFA challenge responders', () => {
+    const tokensResponse = {
+      AuthenticationResult: createMockAuthResult({
+        AccessToken: 'mock-access-token',
+        IdToken: 'mock-id-token',
+        RefreshToken: 'mock-refresh-token',
+        ExpiresIn: 3600,
+      }),
+    };
+
+    it('should respond to an SMS MFA challenge', async () => {
+      mockSend.mockResolvedValueOnce(tokensResponse);
+
+      const result = await client.respondToSmsMfa({
+        username: 'testuser',
+        session: 'mfa-session',
+        code: '123456',
+      });
+
+      expect(RespondToAuthChallengeCommand).toHaveBeenCalledWith({
+        ClientId: '1234567890abcdef',
+        ChallengeName: 'SMS_MFA',
+        Session: 'mfa-session',
+        ChallengeResponses: {
+          USERNAME: 'testuser',
+          SMS_MFA_CODE: '123456',
+        },
+      });
+      expect(result).toMatchObject({ type: 'tokens' });
+    });
+
+    it('should respond to a TOTP MFA challenge', async () => {
+      mockSend.mockResolvedValueOnce(tokensResponse);
+
+      await client.respondToTotpMfa({
+        username: 'testuser',
+        session: 'mfa-session',
+        code: '654321',
+      });
+
+      expect(RespondToAuthChallengeCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ChallengeName: 'SOFTWARE_TOKEN_MFA',
+          ChallengeResponses: {
+            USERNAME: 'testuser',
+            SOFTWARE_TOKEN_MFA_CODE: '654321',
+          },
+        }),
+      );
+    });
+
+    it('should respond to an email OTP challenge', async () => {
+      mockSend.mockResolvedValueOnce(tokensResponse);
+
+      await client.respondToEmailOtp({
+        username: 'testuser',
+        session: 'mfa-session',
+        code: '111222',
+      });
+
+      expect(RespondToAuthChallengeCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ChallengeName: 'EMAIL_OTP',
+          ChallengeResponses: {
+            USERNAME: 'testuser',
+            EMAIL_OTP_CODE: '111222',
+          },
+        }),
+      );
+    });
+
+    it('should select an MFA type and return the next challenge', async () => {
+      mockSend.mockResolvedValueOnce({
+        ChallengeName: 'SOFTWARE_TOKEN_MFA',
+        Session: 'totp-session',
+        ChallengeParameters: {},
+      });
+
+      const result = await client.selectMfaType({
+        username: 'testuser',
+        session: 'select-session',
+        mfaType: 'SOFTWARE_TOKEN_MFA',
+      });
+
+      expect(RespondToAuthChallengeCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ChallengeName: 'SELECT_MFA_TYPE',
+          Session: 'select-session',
+          ChallengeResponses: {
+            USERNAME: 'testuser',
+            ANSWER: 'SOFTWARE_TOKEN_MFA',
+          },
+        }),
+      );
+      expect(result).toMatchObject({ type: 'softwareTokenMfa', session: 'totp-session' });
+    });
+
+    it('should verify the software token and complete MFA setup', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Status: 'SUCCESS', Session: 'verified-session' })
+        .mockResolvedValueOnce(tokensResponse);
+
+      const result = await client.completeMfaSetup({
+        username: 'testuser',
+        session: 'associate-session',
+        userCode: '123456',
+        friendlyDeviceName: 'My phone',
+      });
+
+      expect(VerifySoftwareTokenCommand).toHaveBeenCalledWith({
+        Session: 'associate-session',
+        UserCode: '123456',
+        FriendlyDeviceName: 'My phone',
+      });
+      expect(RespondToAuthChallengeCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ChallengeName: 'MFA_SETUP',
+          Session: 'verified-session',
+          ChallengeResponses: {
+            USERNAME: 'testuser',
+          },
+        }),
+      );
+      expect(result).toMatchObject({ type: 'tokens' });
+    });
+
+    it('should throw an error when the software token cannot be verified', async () => {
+      mockSend.mockResolvedValueOnce({ Status: 'ERROR' });
+
+      await expect(
+        client.completeMfaSetup({
+          username: 'testuser',
+          session: 'associate-session',
+          userCode: '000000',
+        }),
+      ).rejects.toThrow('Failed to verify software token: Verification was not successful');
+
+      expect(RespondToAuthChallengeCommand).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signInWithSrp', () => {
+    it('should complete the PASSWORD_VERIFIER challenge and return tokens', async () => {
+      const mockAuthResult = createMockAuthResult({
+        AccessToken: 'mock-access-token',
+        IdToken: 'mock-id-token',
+        RefreshToken: 'mock-refresh-token',
+        ExpiresIn: 3600,
+      });
+
+      mockSend
+        .mockResolvedValueOnce({
+          ChallengeName: 'PASSWORD_VERIFIER',
+          Session: 'srp-session',
+          ChallengeParameters: {
+            USER_ID_FOR_SRP: 'user-id-for-srp',
+            SRP_B: 'abcdef0123456789',
+            SALT: '1234abcd',
+            SECRET_BLOCK: Buffer.from('secret-block').toString('base64'),
+          },
+        })
+        .mockResolvedValueOnce({
+          AuthenticationResult: mockAuthResult,
+        });
+
+      const result = await client.signInWithSrp({
+        username: 'testuser',
+        password: 'password123',
+      });
+
+      // Verify InitiateAuthCommand was called with the SRP flow and a hex SRP_A
+      expect(InitiateAuthCommand).toHaveBeenCalledWith({
+        AuthFlow: 'USER_SRP_AUTH',
+        ClientId: '1234567890abcdef',
+        AuthParameters: {
+          USERNAME: 'testuser',
+          SRP_A: expect.stringMatching(/^[0-9a-f]+$/),
+        },
+      });
+
+      // Verify the challenge was answered with the SRP claim
+      expect(RespondToAuthChallengeCommand).toHaveBeenCalledWith({
+        ClientId: '1234567890abcdef',
+        ChallengeName: 'PASSWORD_VERIFIER',
+        Session: 'srp-session',
+        ChallengeResponses: {
+          USERNAME: 'user-id-for-srp',
+          PASSWORD_CLAIM_SECRET_BLOCK: Buffer.from('secret-block').toString('base64'),
+          PASSWORD_CLAIM_SIGNATURE: expect.stringMatching(/^[A-Za-z0-9+/]{43}=$/),
+          TIMESTAMP: expect.stringMatching(/^\w{3} \w{3} \d{1,2} \d{2}:\d{2}:\d{2} UTC \d{4}$/),
+        },
+      });
+
+      // Verify the response was mapped correctly
+      expect(result).toEqual({
+        accessToken: 'mock-access-token',
+        idToken: 'mock-id-token',
+        refreshToken: 'mock-refresh-token',
+        expiresIn: 3600,
+        tokenType: 'Bearer',
+      });
+    });
+
+    it('should throw an error when Cognito does not return a PASSWORD_VERIFIER challenge', async () => {
+      mockSend.mockResolvedValueOnce({
+        AuthenticationResult: createMockAuthResult(),
+      });
+
+      await expect(
+        client.signInWithSrp({
+          username: 'testuser',
+          password: 'password123',
+        }),
+      ).rejects.toThrow('Authentication failed: Expected PASSWORD_VERIFIER challenge');
+
+      // Verify no challenge response was sent
+      expect(RespondToAuthChallengeCommand).not.toHaveBeenCalled();
+    });
+
+    it('should throw an error when the challenge response has no tokens', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          ChallengeName: 'PASSWORD_VERIFIER',
+          ChallengeParameters: {
+            USER_ID_FOR_SRP: 'user-id-for-srp',
+            SRP_B: 'abcdef0123456789',
+            SALT: '1234abcd',
+            SECRET_BLOCK: 'c2VjcmV0',
+          },
+        })
+        .mockResolvedValueOnce({});
+
+      await expect(
+        client.signInWithSrp({
+          username: 'testuser',
+          password: 'password123',
+        }),
+      ).rejects.toThrow('Authentication failed: No authentication result returned');
+    });
   });
 
   describe('signUp', () => {
@@ -527,6 +1124,35 @@ describe('CognitoUserClient', () => {
       // Verify AssociateSoftwareTokenCommand was still called
       expect(AssociateSoftwareTokenCommand).toHaveBeenCalled();
     });
+
+    it('should associate a software token using an MFA_SETUP session', async () => {
+      mockSend.mockResolvedValueOnce({
+        SecretCode: 'secret-code',
+        Session: 'associate-session',
+      });
+
+      const result = await client.associateSoftwareToken({
+        session: 'mfa-setup-session',
+      });
+
+      // Verify AssociateSoftwareTokenCommand was called with the session
+      expect(AssociateSoftwareTokenCommand).toHaveBeenCalledWith({
+        Session: 'mfa-setup-session',
+      });
+
+      expect(result).toEqual({
+        secretCode: 'secret-code',
+        session: 'associate-session',
+      });
+    });
+
+    it('should throw an error when neither access token nor session is provided', async () => {
+      await expect(client.associateSoftwareToken({})).rejects.toThrow(
+        'Failed to associate software token: Access token or session is required',
+      );
+
+      expect(mockSend).not.toHaveBeenCalled();
+    });
   });
 
   describe('verifySoftwareToken', () => {
@@ -1215,4 +1841,127 @@ describe('CognitoUserClient', () => {
       expect(DeleteUserCommand).toHaveBeenCalled();
     });
   });
+  describe('with a client secret', () => {
+    let secretClient: CognitoUserClient;
+
+    beforeEach(() => {
+      secretClient = new CognitoUserClient(
+        {
+          region: 'us-east-1',
+          userPoolId: 'us-east-1_abcdef123',
+          clientId: '1234567890abcdef',
+          clientSecret: 'client-secret',
+        },
+        mockClient,
+      );
+    });
+
+    it('should add SECRET_HASH to sign-in auth parameters', async () => {
+      mockSend.mockResolvedValueOnce({
+        AuthenticationResult: createMockAuthResult(),
+      });
+
+      await secretClient.signIn({
+        username: 'testuser',
+        password: 'password123',
+      });
+
+      expect(InitiateAuthCommand).toHaveBeenCalledWith({
+        AuthFlow: 'USER_PASSWORD_AUTH',
+        ClientId: '1234567890abcdef',
+        AuthParameters: {
+          USERNAME: 'testuser',
+          PASSWORD: 'password123',
+          SECRET_HASH: 'BMucxtmigwJtxH/tGCl7Ts/uW9sFPhrJXL5p4UxZ47c=',
+        },
+      });
+    });
+
+    it('should add SECRET_HASH to challenge responses', async () => {
+      mockSend.mockResolvedValueOnce({
+        AuthenticationResult: createMockAuthResult(),
+      });
+
+      await secretClient.respondToSmsMfa({
+        username: 'testuser',
+        session: 'mfa-session',
+        code: '123456',
+      });
+
+      expect(RespondToAuthChallengeCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ChallengeResponses: {
+            USERNAME: 'testuser',
+            SMS_MFA_CODE: '123456',
+            SECRET_HASH: 'BMucxtmigwJtxH/tGCl7Ts/uW9sFPhrJXL5p4UxZ47c=',
+          },
+        }),
+      );
+    });
+
+    it('should add SecretHash to sign-up and confirmation commands', async () => {
+      mockSend.mockResolvedValue({});
+
+      await secretClient.signUp({
+        username: 'testuser',
+        password: 'Password123!',
+        email: 'user@example.com',
+      });
+      await secretClient.confirmSignUp({ username: 'testuser', confirmationCode: '123456' });
+      await secretClient.resendConfirmationCode({ username: 'testuser' });
+      await secretClient.forgotPassword({ username: 'testuser' });
+      await secretClient.confirmForgotPassword({
+        username: 'testuser',
+        confirmationCode: '123456',
+        newPassword: 'NewPassword123!',
+      });
+
+      const secretHash = 'BMucxtmigwJtxH/tGCl7Ts/uW9sFPhrJXL5p4UxZ47c=';
+      expect(SignUpCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ SecretHash: secretHash }),
+      );
+      expect(ConfirmSignUpCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ SecretHash: secretHash }),
+      );
+      expect(ResendConfirmationCodeCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ SecretHash: secretHash }),
+      );
+      expect(ForgotPasswordCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ SecretHash: secretHash }),
+      );
+      expect(ConfirmForgotPasswordCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ SecretHash: secretHash }),
+      );
+    });
+
+    it('should calculate the refresh SECRET_HASH from the user sub', async () => {
+      mockSend.mockResolvedValueOnce({
+        AuthenticationResult: createMockAuthResult({ RefreshToken: undefined }),
+      });
+
+      await secretClient.refreshToken({
+        refreshToken: 'mock-refresh-token',
+        userSub: 'user-sub-123',
+      });
+
+      expect(InitiateAuthCommand).toHaveBeenCalledWith({
+        AuthFlow: 'REFRESH_TOKEN_AUTH',
+        ClientId: '1234567890abcdef',
+        AuthParameters: {
+          REFRESH_TOKEN: 'mock-refresh-token',
+          SECRET_HASH: 'M/IavzeJqmyXG3SYT45zY5+bbLfn0kML9iqISh8aO2c=',
+        },
+      });
+    });
+
+    it('should throw an error when refreshing without the user sub', async () => {
+      await expect(
+        secretClient.refreshToken({
+          refreshToken: 'mock-refresh-token',
+        }),
+      ).rejects.toThrow('Failed to refresh token: userSub is required when a client secret is set');
+
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+  });
 });
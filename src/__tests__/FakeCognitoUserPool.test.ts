@@ -0,0 +1,630 @@
+import {
+  AssociateSoftwareTokenCommand,
+  NotAuthorizedException,
+  UserNotFoundException,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { CognitoAdminClient } from '../lib/CognitoAdminClient';
+import { CognitoJwtVerifier } from '../lib/CognitoJwtVerifier';
+import { CognitoUserClient } from '../lib/CognitoUserClient';
+import { FakeCognitoUserPool } from '../testing/FakeCognitoUserPool';
+import {
+  CodeMismatchError,
+  NotAuthorizedError,
+  PasswordPolicyError,
+  PasswordResetRequiredError,
+  ResourceExistsError,
+  ResourceNotFoundError,
+  UserNotConfirmedError,
+  UserNotFoundError,
+  UsernameExistsError,
+} from '../lib/errors';
+import { UserFilter } from '../utils/userFilter';
+
+const PASSWORD = 'Passw0rd!';
+const NEW_PASSWORD = 'N3wPassw0rd!';
+
+describe('FakeCognitoUserPool', () => {
+  let pool: FakeCognitoUserPool;
+  let userClient: CognitoUserClient;
+  let adminClient: CognitoAdminClient;
+
+  beforeEach(() => {
+    pool = new FakeCognitoUserPool();
+    userClient = new CognitoUserClient(pool.config, pool.client);
+    adminClient = new CognitoAdminClient(
+      { ...pool.config, credentials: { accessKeyId: 'test', secretAccessKey: 'test' } },
+      pool.client,
+    );
+  });
+
+  describe('sign-up', () => {
+    it('should confirm a user with the code from the outbox and sign them in', async () => {
+      const signUp = await userClient.signUp({
+        username: 'jane',
+        password: PASSWORD,
+        email: 'jane@example.com',
+      });
+
+      expect(signUp.userConfirmed).toBe(false);
+      expect(pool.outbox).toEqual([
+        expect.objectContaining({
+          kind: 'SignUp',
+          username: 'jane',
+          deliveryMedium: 'EMAIL',
+          destination: 'jane@example.com',
+        }),
+      ]);
+      await expect(userClient.signIn({ username: 'jane', password: PASSWORD })).rejects.toThrow(
+        UserNotConfirmedError,
+      );
+
+      await userClient.confirmSignUp({
+        username: 'jane',
+        confirmationCode: pool.lastCode('jane') as string,
+      });
+      const tokens = await userClient.signIn({ username: 'jane', password: PASSWORD });
+
+      expect(pool.inspectUser('jane')).toMatchObject({
+        status: 'CONFIRMED',
+        sub: signUp.userSub,
+        attributes: { email_verified: 'true' },
+      });
+      expect(tokens.claims?.idToken).toMatchObject({
+        sub: signUp.userSub,
+        email: 'jane@example.com',
+        emailVerified: true,
+        username: 'jane',
+      });
+    });
+
+    it('should reject a duplicate username, a wrong code and a weak password', async () => {
+      pool.addUser({ username: 'jane', password: PASSWORD });
+
+      await expect(
+        userClient.signUp({ username: 'jane', password: PASSWORD, email: 'jane@example.com' }),
+      ).rejects.toThrow(UsernameExistsError);
+      await expect(
+        userClient.signUp({ username: 'john', password: 'short', email: 'john@example.com' }),
+      ).rejects.toThrow(PasswordPolicyError);
+
+      await userClient.signUp({ username: 'joe', password: PASSWORD, email: 'joe@example.com' });
+      await expect(
+        userClient.confirmSignUp({ username: 'joe', confirmationCode: 'wrong' }),
+      ).rejects.toThrow(CodeMismatchError);
+    });
+
+    it('should verify SECRET_HASH when the pool has a client secret', async () => {
+      const secretPool = new FakeCognitoUserPool({ clientSecret: 'secret' });
+      secretPool.addUser({ username: 'jane', password: PASSWORD });
+
+      const client = new CognitoUserClient(secretPool.config, secretPool.client);
+      const withoutSecret = new CognitoUserClient(
+        { ...secretPool.config, clientSecret: undefined },
+        secretPool.client,
+      );
+
+      await expect(client.signIn({ username: 'jane', password: PASSWORD })).resolves.toBeDefined();
+      await expect(withoutSecret.signIn({ username: 'jane', password: PASSWORD })).rejects.toThrow(
+        'SECRET_HASH was not received',
+      );
+    });
+  });
+
+  describe('sign-in', () => {
+    it('should throw the SDK exceptions Cognito throws', async () => {
+      pool.addUser({ username: 'jane', password: PASSWORD });
+
+      await expect(
+        pool.client.send(new AssociateSoftwareTokenCommand({ AccessToken: 'token' }) as never),
+      ).rejects.toMatchObject({ name: 'UnsupportedOperationException' });
+      await expect(
+        userClient.signIn({ username: 'nobody', password: PASSWORD }),
+      ).rejects.toMatchObject({ cause: expect.any(UserNotFoundException) });
+      await expect(
+        userClient.signIn({ username: 'jane', password: 'Wr0ngPassword!' }),
+      ).rejects.toMatchObject({
+        cause: expect.any(NotAuthorizedException),
+        message: 'Incorrect username or password.',
+      });
+    });
+
+    it('should hide missing users when preventUserExistenceErrors is set', async () => {
+      const hiddenPool = new FakeCognitoUserPool({ preventUserExistenceErrors: true });
+      const client = new CognitoUserClient(hiddenPool.config, hiddenPool.client);
+
+      await expect(client.signIn({ username: 'nobody', password: PASSWORD })).rejects.toThrow(
+        NotAuthorizedError,
+      );
+    });
+
+    it('should require a new password for users created by an admin', async () => {
+      await adminClient.createUser({ username: 'jane', email: 'jane@example.com' });
+      const temporaryPassword = pool.lastCode('jane', 'Invitation') as string;
+
+      const result = await userClient.initiateSignIn({
+        username: 'jane',
+        password: temporaryPassword,
+      });
+      expect(result).toMatchObject({
+        type: 'newPasswordRequired',
+        userAttributes: { email: 'jane@example.com' },
+      });
+
+      const tokens = await userClient.respondToNewPasswordChallenge(
+        'NEW_PASSWORD_REQUIRED',
+        'jane',
+        NEW_PASSWORD,
+        (result as { session: string }).session,
+      );
+
+      expect(tokens.accessToken).toBeDefined();
+      expect(pool.inspectUser('jane')).toMatchObject({
+        status: 'CONFIRMED',
+        password: NEW_PASSWORD,
+      });
+    });
+
+    it('should reject disabled users and users whose password was reset', async () => {
+      pool.addUser({
+        username: 'jane',
+        password: PASSWORD,
+        attributes: { email: 'j@example.com', email_verified: 'true' },
+      });
+      pool.addUser({ username: 'john', password: PASSWORD, enabled: false });
+
+      await expect(userClient.signIn({ username: 'john', password: PASSWORD })).rejects.toThrow(
+        'User is disabled.',
+      );
+
+      await adminClient.resetUserPassword({ username: 'jane' });
+      await expect(userClient.signIn({ username: 'jane', password: PASSWORD })).rejects.toThrow(
+        PasswordResetRequiredError,
+      );
+    });
+
+    it('should refresh tokens until the user signs out everywhere', async () => {
+      pool.addUser({ username: 'jane', password: PASSWORD });
+      const tokens = await userClient.signIn({ username: 'jane', password: PASSWORD });
+
+      const refreshed = await userClient.refreshToken({ refreshToken: tokens.refreshToken });
+      expect(refreshed.accessToken).not.toBe(tokens.accessToken);
+
+      await userClient.globalSignOut({ accessToken: refreshed.accessToken });
+
+      await expect(
+        userClient.getUserAttributes({ accessToken: tokens.accessToken }),
+      ).rejects.toThrow('Access Token has been revoked');
+      await expect(userClient.refreshToken({ refreshToken: tokens.refreshToken })).rejects.toThrow(
+        'Refresh Token has been revoked',
+      );
+    });
+
+    it('should sign tokens that verify against the pool JWKS', async () => {
+      pool.addUser({ username: 'jane', password: PASSWORD, groups: ['admins'] });
+      const tokens = await userClient.signIn({ username: 'jane', password: PASSWORD });
+      const verifier = new CognitoJwtVerifier({
+        ...pool.config,
+        jwksProvider: pool.tokenIssuer,
+      });
+
+      await expect(verifier.verifyAccessToken(tokens.accessToken)).resolves.toMatchObject({
+        username: 'jane',
+        'cognito:groups': ['admins'],
+      });
+      await expect(verifier.verifyIdToken(tokens.idToken)).resolves.toMatchObject({
+        'cognito:username': 'jane',
+      });
+    });
+
+    it('should expire access tokens', async () => {
+      jest.useFakeTimers();
+      try {
+        const shortPool = new FakeCognitoUserPool({ accessTokenValiditySeconds: 60 });
+        const client = new CognitoUserClient(shortPool.config, shortPool.client);
+        shortPool.addUser({ username: 'jane', password: PASSWORD });
+        const { accessToken } = await client.signIn({ username: 'jane', password: PASSWORD });
+
+        jest.advanceTimersByTime(61000);
+
+        await expect(client.getUserAttributes({ accessToken })).rejects.toThrow(
+          'Access Token has expired',
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('passwords and attributes', () => {
+    it('should reset a forgotten password with the emailed code', async () => {
+      pool.addUser({
+        username: 'jane',
+        password: PASSWORD,
+        attributes: { email: 'jane@example.com', email_verified: 'true' },
+      });
+
+      await userClient.forgotPassword({ username: 'jane' });
+      await userClient.confirmForgotPassword({
+        username: 'jane',
+        confirmationCode: pool.lastCode('jane', 'ForgotPassword') as string,
+        newPassword: NEW_PASSWORD,
+      });
+
+      await expect(
+        userClient.signIn({ username: 'jane', password: NEW_PASSWORD }),
+      ).resolves.toBeDefined();
+    });
+
+    it('should not send a reset code to an unverified email', async () => {
+      pool.addUser({
+        username: 'jane',
+        password: PASSWORD,
+        attributes: { email: 'j@example.com' },
+      });
+
+      await expect(userClient.forgotPassword({ username: 'jane' })).rejects.toThrow(
+        'no registered/verified email or phone_number',
+      );
+    });
+
+    it('should unverify a changed email until the new address is verified', async () => {
+      pool.addUser({
+        username: 'jane',
+        password: PASSWORD,
+        attributes: { email: 'jane@example.com', email_verified: 'true' },
+      });
+      const { accessToken } = await userClient.signIn({ username: 'jane', password: PASSWORD });
+
+      await userClient.updateUserAttributes({
+        accessToken,
+        attributes: { email: 'jane@example.org' },
+      });
+      expect(pool.inspectUser('jane')?.attributes.email_verified).toBe('false');
+      expect(pool.outbox[0]).toMatchObject({
+        kind: 'VerifyAttribute',
+        destination: 'jane@example.org',
+      });
+
+      await userClient.verifyUserAttribute({
+        accessToken,
+        attributeName: 'email',
+        code: pool.lastCode('jane') as string,
+      });
+      expect(pool.inspectUser('jane')?.attributes.email_verified).toBe('true');
+    });
+  });
+
+  describe('admin', () => {
+    it('should list users matching a filter, a page at a time', async () => {
+      ['ann', 'anna', 'bob'].forEach((username) =>
+        pool.addUser({ username, attributes: { email: `${username}@example.com` } }),
+      );
+      pool.addUser({ username: 'new', status: 'UNCONFIRMED' });
+
+      const first = await adminClient.listUsers({
+        filter: UserFilter.email.startsWith('ann'),
+        limit: 1,
+      });
+      const second = await adminClient.listUsers({
+        filter: UserFilter.email.startsWith('ann'),
+        limit: 1,
+        paginationToken: first.paginationToken,
+      });
+      const unconfirmed = await adminClient.listUsers({
+        filter: UserFilter.status.equals('UNCONFIRMED'),
+      });
+
+      expect(first.users.map((user) => user.username)).toEqual(['ann']);
+      expect(second.users.map((user) => user.username)).toEqual(['anna']);
+      expect(second.paginationToken).toBeUndefined();
+      expect(unconfirmed.users.map((user) => user.username)).toEqual(['new']);
+    });
+
+    it('should manage groups and memberships', async () => {
+      pool.addUser({ username: 'jane', password: PASSWORD });
+      await adminClient.createGroup({ groupName: 'admins', precedence: 1 });
+
+      await expect(adminClient.createGroup({ groupName: 'admins' })).rejects.toThrow(
+        ResourceExistsError,
+      );
+
+      await adminClient.adminAddUserToGroup({ username: 'jane', groupName: 'admins' });
+      const tokens = await userClient.signIn({ username: 'jane', password: PASSWORD });
+      expect(tokens.claims?.accessToken.groups).toEqual(['admins']);
+
+      await adminClient.deleteGroup({ groupName: 'admins' });
+      expect(pool.inspectUser('jane')?.groups).toEqual([]);
+    });
+
+    it('should find users by sub and delete them', async () => {
+      const { sub } = pool.addUser({ username: 'jane' });
+
+      await expect(adminClient.getUser({ username: sub })).resolves.toMatchObject({
+        username: 'jane',
+      });
+      await adminClient.deleteUser({ username: 'jane' });
+
+      expect(pool.inspectUser('jane')).toBeUndefined();
+      await expect(adminClient.getUser({ username: 'jane' })).rejects.toThrow(UserNotFoundError);
+    });
+
+    it('should track devices confirmed by the user', async () => {
+      pool.addUser({ username: 'jane', password: PASSWORD });
+      const { accessToken } = await userClient.signIn({ username: 'jane', password: PASSWORD });
+
+      await userClient.confirmDevice({ accessToken, deviceKey: 'device-1', deviceName: 'Phone' });
+      await adminClient.adminUpdateDeviceStatus({
+        username: 'jane',
+        deviceKey: 'device-1',
+        deviceRememberedStatus: 'remembered',
+      });
+
+      const devices = await userClient.listDevices({ accessToken });
+      expect(devices.devices).toEqual([
+        expect.objectContaining({
+          deviceKey: 'device-1',
+          deviceAttributes: { deviceName: 'Phone', deviceStatus: 'remembered' },
+        }),
+      ]);
+    });
+  });
+
+  describe('user updates', () => {
+    it('should resend the confirmation code until an admin confirms the user', async () => {
+      await userClient.signUp({ username: 'jane', password: PASSWORD, email: 'jane@example.com' });
+      await userClient.resendConfirmationCode({ username: 'jane' });
+
+      expect(pool.outbox.map((message) => message.kind)).toEqual(['SignUp', 'ResendCode']);
+
+      await adminClient.adminConfirmSignUp({ username: 'jane' });
+
+      expect(pool.inspectUser('jane')?.status).toBe('CONFIRMED');
+      await expect(userClient.resendConfirmationCode({ username: 'jane' })).rejects.toThrow(
+        'User is already confirmed.',
+      );
+      await expect(adminClient.adminConfirmSignUp({ username: 'jane' })).rejects.toThrow(
+        'User cannot be confirmed. Current status is CONFIRMED',
+      );
+    });
+
+    it('should let users change their password and attributes, then sign out and delete themselves', async () => {
+      pool.addUser({
+        username: 'jane',
+        password: PASSWORD,
+        attributes: { email: 'jane@example.com', given_name: 'Jane', locale: 'en' },
+      });
+      const { accessToken, refreshToken } = await userClient.signIn({
+        username: 'jane',
+        password: PASSWORD,
+      });
+
+      await expect(
+        userClient.changePassword({
+          accessToken,
+          oldPassword: 'Wr0ngPassword!',
+          newPassword: NEW_PASSWORD,
+        }),
+      ).rejects.toThrow(NotAuthorizedError);
+      await userClient.changePassword({
+        accessToken,
+        oldPassword: PASSWORD,
+        newPassword: NEW_PASSWORD,
+      });
+      await userClient.deleteUserAttributes({ accessToken, attributeNames: ['locale'] });
+      await userClient.getAttributeVerificationCode(accessToken, 'email');
+
+      expect(pool.inspectUser('jane')).toMatchObject({ password: NEW_PASSWORD });
+      expect(pool.inspectUser('jane')?.attributes).not.toHaveProperty('locale');
+      expect(pool.outbox).toEqual([
+        expect.objectContaining({ kind: 'VerifyAttribute', destination: 'jane@example.com' }),
+      ]);
+      await expect(
+        userClient.getAttributeVerificationCode(accessToken, 'given_name'),
+      ).rejects.toThrow('Cannot verify attribute given_name');
+
+      await userClient.globalSignOut({ accessToken });
+      await expect(userClient.getUserAttributes({ accessToken })).rejects.toThrow(
+        NotAuthorizedError,
+      );
+      await expect(userClient.refreshToken({ refreshToken })).rejects.toThrow(
+        'Refresh Token has been revoked',
+      );
+
+      const tokens = await userClient.signIn({ username: 'jane', password: NEW_PASSWORD });
+      await userClient.deleteUser({ accessToken: tokens.accessToken });
+      expect(pool.inspectUser('jane')).toBeUndefined();
+    });
+
+    it('should store MFA preferences set by the user or an admin', async () => {
+      pool.addUser({ username: 'jane', password: PASSWORD });
+      const { accessToken } = await userClient.signIn({ username: 'jane', password: PASSWORD });
+
+      await userClient.setUserMFAPreference({
+        accessToken,
+        softwareTokenMfaSettings: { enabled: true, preferred: true },
+      });
+      await expect(adminClient.getUser({ username: 'jane' })).resolves.toMatchObject({
+        preferredMfaSetting: 'SOFTWARE_TOKEN_MFA',
+        userMfaSettingList: ['SOFTWARE_TOKEN_MFA'],
+      });
+
+      await adminClient.adminSetUserMFAPreference({
+        username: 'jane',
+        softwareTokenMfaSettings: { enabled: false, preferred: false },
+      });
+      const user = await adminClient.getUser({ username: 'jane' });
+      expect(user.preferredMfaSetting).toBeUndefined();
+      expect(user.userMfaSettingList).toBeUndefined();
+    });
+
+    it('should update users, passwords and sessions as an admin', async () => {
+      pool.addUser({
+        username: 'jane',
+        password: PASSWORD,
+        attributes: { email: 'jane@example.com', locale: 'en' },
+      });
+      const { refreshToken } = await userClient.signIn({ username: 'jane', password: PASSWORD });
+
+      await adminClient.updateUserAttributes({
+        username: 'jane',
+        attributes: { given_name: 'Jane' },
+      });
+      await adminClient.adminDeleteUserAttributes({ username: 'jane', attributeNames: ['locale'] });
+      await adminClient.adminUserGlobalSignOut({ username: 'jane' });
+
+      expect(pool.inspectUser('jane')?.attributes).toMatchObject({ given_name: 'Jane' });
+      expect(pool.inspectUser('jane')?.attributes).not.toHaveProperty('locale');
+      await expect(userClient.refreshToken({ refreshToken })).rejects.toThrow(NotAuthorizedError);
+
+      await adminClient.disableUser({ username: 'jane' });
+      await expect(userClient.signIn({ username: 'jane', password: PASSWORD })).rejects.toThrow(
+        'User is disabled.',
+      );
+      await adminClient.enableUser({ username: 'jane' });
+
+      await adminClient.setUserPassword('jane', NEW_PASSWORD, false);
+      expect(pool.inspectUser('jane')).toMatchObject({
+        password: NEW_PASSWORD,
+        status: 'FORCE_CHANGE_PASSWORD',
+      });
+      await expect(
+        userClient.initiateSignIn({ username: 'jane', password: NEW_PASSWORD }),
+      ).resolves.toMatchObject({ challengeName: 'NEW_PASSWORD_REQUIRED' });
+    });
+
+    it('should resend the invitation of users who have not signed in yet', async () => {
+      await adminClient.createUser({ username: 'jane', email: 'jane@example.com' });
+      await adminClient.createUser({
+        username: 'jane',
+        email: 'jane@example.com',
+        messageAction: 'RESEND',
+      });
+
+      expect(pool.outbox.map((message) => message.kind)).toEqual(['Invitation', 'Invitation']);
+      expect(pool.lastCode('jane', 'Invitation')).toBe(pool.inspectUser('jane')?.password);
+
+      pool.addUser({
+        username: 'john',
+        password: PASSWORD,
+        attributes: { email: 'john@example.com' },
+      });
+      await expect(
+        adminClient.createUser({
+          username: 'john',
+          email: 'john@example.com',
+          messageAction: 'RESEND',
+        }),
+      ).rejects.toThrow('Resend not possible. User is not in FORCE_CHANGE_PASSWORD status.');
+    });
+  });
+
+  describe('groups', () => {
+    it('should update groups and clear the fields left out', async () => {
+      await adminClient.createGroup({ groupName: 'admins', description: 'Admins', precedence: 1 });
+
+      await expect(
+        adminClient.updateGroup({ groupName: 'admins', description: 'Administrators' }),
+      ).resolves.toMatchObject({ groupName: 'admins', description: 'Administrators' });
+
+      const group = await adminClient.getGroup({ groupName: 'admins' });
+      expect(group).toMatchObject({ description: 'Administrators', userPoolId: pool.userPoolId });
+      expect(group.precedence).toBeUndefined();
+      await expect(adminClient.getGroup({ groupName: 'missing' })).rejects.toThrow(
+        ResourceNotFoundError,
+      );
+    });
+
+    it('should list the members of a group and the groups of a user', async () => {
+      pool.addUser({ username: 'jane', groups: ['admins', 'editors'] });
+      pool.addUser({ username: 'john', groups: ['editors'] });
+
+      await adminClient.adminAddUserToGroup({ username: 'jane', groupName: 'admins' });
+      const members = await adminClient.listUsersInGroup({ groupName: 'editors' });
+      const firstPage = await adminClient.adminListGroupsForUser({ username: 'jane', limit: 1 });
+      const secondPage = await adminClient.adminListGroupsForUser({
+        username: 'jane',
+        limit: 1,
+        nextToken: firstPage.nextToken,
+      });
+
+      expect(members.users.map((user) => user.username)).toEqual(['jane', 'john']);
+      expect(firstPage.groups.map((group) => group.groupName)).toEqual(['admins']);
+      expect(secondPage.groups.map((group) => group.groupName)).toEqual(['editors']);
+      expect(secondPage.nextToken).toBeUndefined();
+
+      await adminClient.adminRemoveUserFromGroup({ username: 'jane', groupName: 'editors' });
+      await expect(adminClient.listUsersInGroup({ groupName: 'editors' })).resolves.toMatchObject({
+        users: [expect.objectContaining({ username: 'john' })],
+      });
+      await expect(
+        adminClient.adminAddUserToGroup({ username: 'jane', groupName: 'missing' }),
+      ).rejects.toThrow('Group not found.');
+    });
+  });
+
+  describe('devices', () => {
+    it('should get, update and forget devices with an access token', async () => {
+      pool.addUser({ username: 'jane', password: PASSWORD });
+      const { accessToken } = await userClient.signIn({ username: 'jane', password: PASSWORD });
+
+      await userClient.confirmDevice({ accessToken, deviceKey: 'device-1', deviceName: 'Phone' });
+      await expect(
+        userClient.confirmDevice({ accessToken, deviceKey: 'device-1', deviceName: 'Phone' }),
+      ).rejects.toThrow('Device has already been confirmed.');
+
+      await userClient.updateDeviceStatus({
+        accessToken,
+        deviceKey: 'device-1',
+        deviceRememberedStatus: 'remembered',
+      });
+      await expect(
+        userClient.getDevice({ accessToken, deviceKey: 'device-1' }),
+      ).resolves.toMatchObject({
+        deviceKey: 'device-1',
+        deviceAttributes: { deviceStatus: 'remembered' },
+      });
+
+      await userClient.forgetDevice({ accessToken, deviceKey: 'device-1' });
+      await expect(userClient.getDevice({ accessToken, deviceKey: 'device-1' })).rejects.toThrow(
+        'Device does not exist.',
+      );
+      await expect(userClient.listDevices({ accessToken })).resolves.toMatchObject({ devices: [] });
+    });
+
+    it('should list, get and forget devices as an admin', async () => {
+      pool.addUser({ username: 'jane', password: PASSWORD });
+      const { accessToken } = await userClient.signIn({ username: 'jane', password: PASSWORD });
+      await userClient.confirmDevice({ accessToken, deviceKey: 'device-1', deviceName: 'Phone' });
+      await userClient.confirmDevice({ accessToken, deviceKey: 'device-2', deviceName: 'Laptop' });
+
+      const firstPage = await adminClient.adminListDevices({ username: 'jane', limit: 1 });
+      const secondPage = await adminClient.adminListDevices({
+        username: 'jane',
+        limit: 1,
+        paginationToken: firstPage.paginationToken,
+      });
+
+      expect(firstPage.devices.map((device) => device.deviceKey)).toEqual(['device-1']);
+      expect(secondPage.devices.map((device) => device.deviceKey)).toEqual(['device-2']);
+      await expect(
+        adminClient.adminGetDevice({ username: 'jane', deviceKey: 'device-2' }),
+      ).resolves.toMatchObject({
+        deviceAttributes: { deviceName: 'Laptop', deviceStatus: 'not_remembered' },
+      });
+
+      await adminClient.adminForgetDevice({ username: 'jane', deviceKey: 'device-1' });
+      expect(pool.inspectUser('jane')?.deviceKeys).toEqual(['device-2']);
+    });
+  });
+
+  it('should clear all state on reset', async () => {
+    pool.addUser({ username: 'jane', groups: ['admins'] });
+    await userClient.signUp({ username: 'john', password: PASSWORD, email: 'john@example.com' });
+
+    pool.reset();
+
+    expect(pool.inspectUser('jane')).toBeUndefined();
+    expect(pool.outbox).toEqual([]);
+    await expect(adminClient.listGroups()).resolves.toMatchObject({ groups: [] });
+  });
+});
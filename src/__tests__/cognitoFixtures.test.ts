@@ -0,0 +1,252 @@
+import {
+  AdminGetUserCommand,
+  CognitoIdentityProviderServiceException,
+  GetUserCommand,
+  InitiateAuthCommand,
+  RespondToAuthChallengeCommand,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CognitoUserClient } from '../lib/CognitoUserClient';
+import { FakeCognitoUserPool } from '../testing/FakeCognitoUserPool';
+import { NotAuthorizedError } from '../lib/errors';
+import {
+  createRecordingClient,
+  createReplayClient,
+  loadCognitoFixtures,
+} from '../utils/cognitoFixtures';
+import { createCognitoStub } from '../utils/cognitoStub';
+import { createMockAuthResult } from '../utils/testUtils';
+
+const PASSWORD = 'Passw0rd!';
+
+describe('cognitoFixtures', () => {
+  let directory: string;
+  let pool: FakeCognitoUserPool;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'cognito-client-'));
+    pool = new FakeCognitoUserPool();
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Signs up, confirms and signs in a user, then fails a sign-in with a wrong password
+   */
+  const runSignUpFlow = async (client: CognitoUserClient, code: () => string): Promise<unknown> => {
+    const signUp = await client.signUp({
+      username: 'jane',
+      password: PASSWORD,
+      email: 'jane@example.com',
+    });
+    await client.confirmSignUp({ username: 'jane', confirmationCode: code() });
+    const tokens = await client.signIn({ username: 'jane', password: PASSWORD });
+    await expect(client.signIn({ username: 'jane', password: 'Wr0ngPassword!' })).rejects.toThrow(
+      NotAuthorizedError,
+    );
+    return { signUp, claims: tokens.claims };
+  };
+
+  it('should record sanitized fixtures and replay them without the user pool', async () => {
+    const path = join(directory, 'fixtures', 'sign-up.json');
+    const recorder = createRecordingClient(pool.client, { path });
+    const recorded = await runSignUpFlow(
+      new CognitoUserClient(pool.config, recorder.client),
+      () => pool.lastCode('jane') as string,
+    );
+    await recorder.save();
+
+    const contents = await readFile(path, 'utf8');
+    expect(contents).not.toContain('jane@example.com');
+    expect(contents).not.toContain(PASSWORD);
+    expect(contents).not.toContain(pool.lastCode('jane') as string);
+    expect(recorder.fixtures.map((fixture) => fixture.commandName)).toEqual([
+      'SignUpCommand',
+      'ConfirmSignUpCommand',
+      'InitiateAuthCommand',
+      'InitiateAuthCommand',
+    ]);
+    expect(recorder.fixtures[3].error).toEqual({
+      name: 'NotAuthorizedException',
+      message: 'Incorrect username or password.',
+      fault: 'client',
+      httpStatusCode: 400,
+    });
+
+    const replay = createReplayClient(await loadCognitoFixtures(path));
+    const replayed = await runSignUpFlow(
+      new CognitoUserClient(pool.config, replay.client),
+      () => '000000',
+    );
+
+    replay.expectAllReplayed();
+    expect(replayed).toEqual({
+      signUp: (recorded as { signUp: unknown }).signUp,
+      claims: expect.objectContaining({
+        idToken: expect.objectContaining({ username: 'jane', email: expect.any(String) }),
+      }),
+    });
+    expect(JSON.stringify(replayed)).not.toContain('jane@example.com');
+  });
+
+  it('should replay an SRP login recorded at another time', async () => {
+    // FakeCognitoUserPool does not run SRP, so a stub plays the user pool
+    const stub = createCognitoStub();
+    stub.on(InitiateAuthCommand).resolves({
+      ChallengeName: 'PASSWORD_VERIFIER',
+      Session: 'srp-session',
+      ChallengeParameters: {
+        USER_ID_FOR_SRP: 'user-id-for-srp',
+        SRP_B: 'abcdef0123456789',
+        SALT: '1234abcd',
+        SECRET_BLOCK: Buffer.from('secret-block').toString('base64'),
+      },
+    });
+    stub
+      .on(RespondToAuthChallengeCommand)
+      .resolves({ AuthenticationResult: createMockAuthResult({ AccessToken: 'access-token' }) });
+    const recorder = createRecordingClient(stub.client);
+    jest.useFakeTimers({ now: new Date('2024-01-01T10:00:00Z') });
+
+    try {
+      await new CognitoUserClient(pool.config, recorder.client).signInWithSrp({
+        username: 'jane',
+        password: PASSWORD,
+      });
+
+      expect(recorder.fixtures[0].output?.ChallengeParameters).toEqual({
+        USER_ID_FOR_SRP: 'user-id-for-srp',
+        SRP_B: 'abcdef0123456789',
+        SALT: '1234abcd',
+        SECRET_BLOCK: '[REDACTED]',
+      });
+      expect(recorder.fixtures[1].input.ChallengeResponses).toEqual({
+        USERNAME: 'user-id-for-srp',
+        PASSWORD_CLAIM_SECRET_BLOCK: '[REDACTED]',
+        PASSWORD_CLAIM_SIGNATURE: '[REDACTED]',
+        TIMESTAMP: '[REDACTED]',
+      });
+
+      jest.setSystemTime(new Date('2024-06-15T18:30:00Z'));
+      const replay = createReplayClient(recorder.fixtures);
+      const tokens = await new CognitoUserClient(pool.config, replay.client).signInWithSrp({
+        username: 'jane',
+        password: PASSWORD,
+      });
+
+      replay.expectAllReplayed();
+      expect(tokens.accessToken).toBe('[REDACTED]');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should hash personal data consistently so recorded inputs still match', async () => {
+    pool.addUser({
+      username: 'jane@example.com',
+      password: PASSWORD,
+      attributes: { email: 'jane@example.com', phone_number: '+15555550100', locale: 'en' },
+    });
+    const recorder = createRecordingClient(pool.client);
+    const output = await recorder.client.send(
+      new AdminGetUserCommand({ UserPoolId: pool.userPoolId, Username: 'jane@example.com' }),
+    );
+
+    const [fixture] = recorder.fixtures;
+    expect(fixture.input.Username).toMatch(/^redacted-[0-9a-f]{16}$/);
+    expect(fixture.output?.Username).toBe(fixture.input.Username);
+    expect(fixture.output?.UserAttributes).toEqual(
+      expect.arrayContaining([
+        { Name: 'email', Value: fixture.input.Username },
+        { Name: 'phone_number', Value: expect.stringMatching(/^redacted-/) },
+        { Name: 'locale', Value: 'en' },
+      ]),
+    );
+    expect(fixture.output?.UserCreateDate).toEqual({
+      $date: output.UserCreateDate?.toISOString(),
+    });
+    expect(fixture.output?.$metadata).toEqual({ httpStatusCode: 200 });
+
+    const replay = createReplayClient(recorder.fixtures);
+    const replayed = await replay.client.send(
+      new AdminGetUserCommand({ UserPoolId: pool.userPoolId, Username: 'jane@example.com' }),
+    );
+
+    expect(replayed.UserCreateDate).toEqual(output.UserCreateDate);
+  });
+
+  it('should replay each fixture once, in recorded order, and reject unrecorded calls', async () => {
+    const replay = createReplayClient({
+      version: 1,
+      fixtures: [
+        {
+          commandName: 'GetUserCommand',
+          input: { AccessToken: '[REDACTED]' },
+          output: { Username: 'a' },
+        },
+        {
+          commandName: 'GetUserCommand',
+          input: { AccessToken: '[REDACTED]' },
+          output: { Username: 'b' },
+        },
+        {
+          commandName: 'GetUserCommand',
+          input: { AccessToken: '[REDACTED]' },
+          error: {
+            name: 'NotAuthorizedException',
+            message: 'Access Token has been revoked',
+            fault: 'client',
+            httpStatusCode: 400,
+          },
+        },
+      ],
+    });
+    const send = (): Promise<unknown> =>
+      replay.client.send(new GetUserCommand({ AccessToken: 'any-token' }));
+
+    await expect(send()).resolves.toEqual({ Username: 'a' });
+    expect(replay.pending()).toHaveLength(2);
+    expect(() => replay.expectAllReplayed()).toThrow(
+      'Expected all fixtures to be replayed. Not replayed:\n  GetUserCommand {"AccessToken":"[REDACTED]"}',
+    );
+    await expect(send()).resolves.toEqual({ Username: 'b' });
+
+    const error = await send().catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(CognitoIdentityProviderServiceException);
+    expect(error).toMatchObject({
+      name: 'NotAuthorizedException',
+      message: 'Access Token has been revoked',
+      $metadata: { httpStatusCode: 400 },
+    });
+
+    await expect(send()).rejects.toThrow(
+      'No recorded response for GetUserCommand {"AccessToken":"[REDACTED]"}',
+    );
+    await expect(
+      replay.client.send(
+        new AdminGetUserCommand({ UserPoolId: 'pool', Username: 'jane@example.com' }),
+      ),
+    ).rejects.toThrow(/^No recorded response for AdminGetUserCommand .*"Username":"redacted-/);
+  });
+
+  it('should scrub extra keys and reject missing paths and invalid files', async () => {
+    pool.addUser({ username: 'jane', password: PASSWORD, attributes: { 'custom:ssn': '123' } });
+    const recorder = createRecordingClient(pool.client, { personalAttributes: ['custom:ssn'] });
+    await recorder.client.send(
+      new AdminGetUserCommand({ UserPoolId: pool.userPoolId, Username: 'jane' }),
+    );
+
+    expect(JSON.stringify(recorder.fixtures)).not.toContain('"123"');
+    await expect(recorder.save()).rejects.toThrow('Failed to save fixtures: No path given');
+
+    const path = join(directory, 'invalid.json');
+    await createRecordingClient(pool.client).save(path);
+    await expect(loadCognitoFixtures(path)).resolves.toEqual({ version: 1, fixtures: [] });
+    await writeFile(path, '{"fixtures":[]}');
+    await expect(loadCognitoFixtures(path)).rejects.toThrow(`Invalid fixture file: ${path}`);
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  AdminCreateUserCommand,
+  AdminGetUserCommand,
+  AdminSetUserPasswordCommand,
+  GetUserCommand,
+  ListUsersCommand,
+  SignUpCommand,
+  UsernameExistsException,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { CognitoAdminClient } from '../lib/CognitoAdminClient';
+import { CognitoUserClient } from '../lib/CognitoUserClient';
+import { InvalidParameterError, UsernameExistsError } from '../lib/errors';
+import {
+  createCognitoStub,
+  createJestCognitoStub,
+  getCommandName,
+  matchesShape,
+} from '../utils/cognitoStub';
+import { createMockAwsError, createMockCognitoClient, createMockUser } from '../utils/testUtils';
+import { CognitoStubSend } from '../types';
+
+const config = { region: 'us-east-1', userPoolId: 'us-east-1_abcdef123', clientId: 'client' };
+
+describe('createCognitoStub', () => {
+  it('should record calls and answer by command class', async () => {
+    const stub = createCognitoStub();
+    stub.on(SignUpCommand).resolves({ UserConfirmed: false, UserSub: 'sub-1' });
+    const client = new CognitoUserClient(config, stub.client);
+
+    const result = await client.signUp({
+      username: 'jane',
+      password: 'Passw0rd!',
+      email: 'jane@example.com',
+    });
+
+    expect(result.userSub).toBe('sub-1');
+    expect(stub.calls).toHaveLength(1);
+    expect(stub.callsOf(SignUpCommand)[0]).toMatchObject({
+      commandName: 'SignUpCommand',
+      input: { Username: 'jane', ClientId: 'client' },
+    });
+    expect(stub.callsOf(GetUserCommand)).toEqual([]);
+  });
+
+  it('should prefer the latest matching rule and match input shapes', async () => {
+    const stub = createCognitoStub();
+    stub.on(GetUserCommand).resolves({ Username: 'anyone' });
+    stub.on(GetUserCommand, { AccessToken: 'jane-token' }).resolves({ Username: 'jane' });
+
+    await expect(
+      stub.send(new GetUserCommand({ AccessToken: 'jane-token' })),
+    ).resolves.toMatchObject({ Username: 'jane' });
+    await expect(stub.send(new GetUserCommand({ AccessToken: 'other' }))).resolves.toMatchObject({
+      Username: 'anyone',
+    });
+    expect(stub.callsOf(GetUserCommand, { AccessToken: 'other' })).toHaveLength(1);
+  });
+
+  it('should answer unrouted commands with the queued responses of the stub', async () => {
+    const stub = createCognitoStub();
+    stub.on(GetUserCommand).resolves({ Username: 'routed' });
+    stub.resolvesOnce({ UserSub: 'queued' });
+
+    await expect(stub.send(new GetUserCommand({ AccessToken: 'token' }))).resolves.toEqual({
+      Username: 'routed',
+    });
+    await expect(
+      stub.send(new SignUpCommand({ ClientId: 'client', Username: 'jane', Password: 'x' })),
+    ).resolves.toEqual({ UserSub: 'queued' });
+    await expect(
+      stub.send(new SignUpCommand({ ClientId: 'client', Username: 'jane', Password: 'x' })),
+    ).rejects.toThrow('No response stubbed for SignUpCommand');
+  });
+
+  it('should use queued responses before the default one', async () => {
+    const stub = createCognitoStub();
+    const error = new UsernameExistsException({ message: 'User already exists', $metadata: {} });
+    stub
+      .on(SignUpCommand)
+      .rejectsOnce(error)
+      .resolvesOnce({ UserSub: 'second' })
+      .callsFake((input) => ({ UserSub: `fake-${input.Username}` }));
+    const client = new CognitoUserClient(config, stub.client);
+    const params = { username: 'jane', password: 'Passw0rd!', email: 'jane@example.com' };
+
+    await expect(client.signUp(params)).rejects.toThrow(UsernameExistsError);
+    await expect(client.signUp(params)).resolves.toMatchObject({ userSub: 'second' });
+    await expect(client.signUp(params)).resolves.toMatchObject({ userSub: 'fake-jane' });
+  });
+
+  it('should reject unstubbed commands and forget everything on reset', async () => {
+    const stub = createCognitoStub();
+    stub.resolves({});
+    await stub.send(new GetUserCommand({ AccessToken: 'token' }));
+
+    stub.reset();
+
+    expect(stub.calls).toEqual([]);
+    await expect(
+      stub.send(new AdminGetUserCommand({ UserPoolId: 'pool', Username: 'jane' })),
+    ).rejects.toThrow(
+      'No response stubbed for AdminGetUserCommand {"UserPoolId":"pool","Username":"jane"}',
+    );
+  });
+
+  it('should route every command of a method regardless of their order', async () => {
+    const stub = createCognitoStub();
+    const admin = new CognitoAdminClient(
+      { ...config, credentials: { accessKeyId: 'key', secretAccessKey: 'secret' } },
+      stub.client,
+    );
+    stub.on(AdminSetUserPasswordCommand).resolves({});
+    stub.on(AdminCreateUserCommand).resolves({ User: createMockUser('bob') });
+    stub
+      .on(AdminSetUserPasswordCommand, { Password: 'weak' })
+      .rejects(createMockAwsError('InvalidParameterException', 'Too weak', 'InvalidParameter'));
+
+    await admin.createUser({ username: 'bob', email: 'bob@example.com', password: 'Passw0rd!' });
+    await expect(
+      admin.createUser({ username: 'bob', email: 'bob@example.com', password: 'weak' }),
+    ).rejects.toThrow(InvalidParameterError);
+
+    stub.expectCommandSent(AdminCreateUserCommand, {
+      Username: 'bob',
+      UserAttributes: expect.arrayContaining([{ Name: 'email', Value: 'bob@example.com' }]),
+    });
+    expect(
+      stub.expectCommandSent(AdminSetUserPasswordCommand, { Username: 'bob', Permanent: true }),
+    ).toHaveLength(2);
+  });
+
+  it('should list the commands sent when an expected command is missing', async () => {
+    const stub = createCognitoStub();
+    stub.resolves({});
+    await stub.send(new GetUserCommand({ AccessToken: 'token' }));
+
+    expect(() => stub.expectCommandSent(ListUsersCommand, { Filter: 'email = "a"' })).toThrow(
+      'Expected ListUsersCommand {"Filter":"email = \\"a\\""} to be sent. Commands sent:\n  GetUserCommand {"AccessToken":"token"}',
+    );
+    expect(() => createCognitoStub().expectCommandSent(ListUsersCommand)).toThrow(
+      'Expected ListUsersCommand to be sent. Commands sent: none',
+    );
+  });
+
+  it('should wrap send in a spy', async () => {
+    const stub = createJestCognitoStub();
+    stub.on(GetUserCommand).resolves({ Username: 'jane' });
+
+    await stub.client.send(new GetUserCommand({ AccessToken: 'token' }));
+
+    expect(stub.send).toHaveBeenCalledWith(expect.any(GetUserCommand));
+    expect(stub.calls).toHaveLength(1);
+  });
+
+  it('should accept any spy framework instead of Jest', async () => {
+    const spies: CognitoStubSend[] = [];
+    const framework = {
+      fn: (implementation: CognitoStubSend = async (): Promise<void> => {}): CognitoStubSend => {
+        const spy: CognitoStubSend = (command) => implementation(command);
+        spies.push(spy);
+        return spy;
+      },
+    };
+
+    const stub = createJestCognitoStub(framework);
+    stub.on(GetUserCommand).resolves({ Username: 'jane' });
+    const { mockClient, mockSend } = createMockCognitoClient(framework);
+
+    await expect(stub.client.send(new GetUserCommand({ AccessToken: 'token' }))).resolves.toEqual({
+      Username: 'jane',
+    });
+    expect(spies).toEqual([stub.send, mockSend]);
+    expect(mockClient.send).toBe(mockSend);
+  });
+
+  it('should name commands by their SDK export when class names are minified', async () => {
+    const { name } = GetUserCommand;
+    Object.defineProperty(GetUserCommand, 'name', { value: 'a', configurable: true });
+
+    try {
+      const stub = createCognitoStub();
+      stub.on(GetUserCommand).resolves({ Username: 'jane' });
+
+      await expect(stub.send(new GetUserCommand({ AccessToken: 'token' }))).resolves.toEqual({
+        Username: 'jane',
+      });
+      expect(stub.calls[0].commandName).toBe('GetUserCommand');
+      expect(getCommandName(GetUserCommand)).toBe('GetUserCommand');
+      expect(getCommandName(class CustomCommand {})).toBe('CustomCommand');
+    } finally {
+      Object.defineProperty(GetUserCommand, 'name', { value: name, configurable: true });
+    }
+  });
+});
+
+describe('matchesShape', () => {
+  it('should match objects partially and arrays exactly', () => {
+    const input = { Username: 'jane', UserAttributes: [{ Name: 'email', Value: 'j@x.com' }] };
+
+    expect(matchesShape(input, { Username: 'jane' })).toBe(true);
+    expect(matchesShape(input, { UserAttributes: [{ Name: 'email' }] })).toBe(true);
+    expect(matchesShape(input, { UserAttributes: [] })).toBe(false);
+    expect(matchesShape(input, { Username: 'john' })).toBe(false);
+    expect(matchesShape(new Date(0), new Date(0))).toBe(true);
+  });
+
+  it('should honour asymmetric matchers', () => {
+    expect(matchesShape({ Username: 'jane' }, { Username: expect.any(String) })).toBe(true);
+    expect(matchesShape({ Username: 1 }, { Username: expect.stringMatching(/^j/) })).toBe(false);
+  });
+});
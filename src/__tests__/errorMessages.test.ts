@@ -0,0 +1,137 @@
+import { NotAuthorizedError, PasswordPolicyError, UserNotFoundError } from '../lib/errors';
+import { createErrorMessageFormatter, interpolateMessage } from '../utils/errorMessages';
+import { createMockAwsError } from '../utils/testUtils';
+
+describe('errorMessages', () => {
+  describe('interpolateMessage', () => {
+    it('should replace placeholders and keep unknown ones', () => {
+      expect(interpolateMessage('{count} of {total} in {unit}', { count: 1, total: '3' })).toBe(
+        '1 of 3 in {unit}',
+      );
+    });
+  });
+
+  describe('createErrorMessageFormatter', () => {
+    it('should return English messages for SDK exceptions and typed errors', () => {
+      const format = createErrorMessageFormatter();
+
+      expect(
+        format(
+          createMockAwsError('CodeMismatchException', 'Invalid code', 'CodeMismatchException'),
+        ),
+      ).toBe('The verification code is incorrect.');
+      expect(format(new UserNotFoundError('User does not exist.'))).toBe(
+        'No account was found for this username.',
+      );
+    });
+
+    it('should fall back to the generic message for errors without a catalog entry', () => {
+      const format = createErrorMessageFormatter();
+
+      expect(format(new Error('socket hang up'))).toBe('Something went wrong. Please try again.');
+    });
+
+    it('should use the requested locale and fall back from regional variants', () => {
+      expect(createErrorMessageFormatter({ locale: 'zh-CN' })(new NotAuthorizedError('x'))).toBe(
+        '用户名或密码不正确。',
+      );
+      expect(createErrorMessageFormatter({ locale: 'es-MX' })(new NotAuthorizedError('x'))).toBe(
+        'Usuario o contraseña incorrectos.',
+      );
+      expect(createErrorMessageFormatter({ locale: 'fr' })(new NotAuthorizedError('x'))).toBe(
+        'Incorrect username or password.',
+      );
+    });
+
+    it('should merge custom bundles over the built-in ones', () => {
+      const format = createErrorMessageFormatter({
+        locale: 'fr',
+        bundles: {
+          fr: { CodeMismatch: 'Le code est incorrect.' },
+          en: { ExpiredCode: 'Your code expired.' },
+        },
+      });
+
+      expect(format(createMockAwsError('CodeMismatchException', 'x', 'x'))).toBe(
+        'Le code est incorrect.',
+      );
+      expect(format(createMockAwsError('ExpiredCodeException', 'x', 'x'))).toBe(
+        'Your code expired.',
+      );
+      expect(format(new UserNotFoundError('x'))).toBe('No account was found for this username.');
+    });
+
+    it('should interpolate params into messages', () => {
+      const format = createErrorMessageFormatter({
+        bundles: { en: { LimitExceeded: 'Try again in {minutes} minutes.' } },
+      });
+
+      expect(format(createMockAwsError('LimitExceededException', 'x', 'x'), { minutes: 15 })).toBe(
+        'Try again in 15 minutes.',
+      );
+    });
+
+    it('should collapse user enumeration errors into one message', () => {
+      const format = createErrorMessageFormatter({ collapseUserEnumeration: true });
+
+      expect(format(new UserNotFoundError('User does not exist.'))).toBe(
+        'Incorrect username or password.',
+      );
+      expect(format(new UserNotFoundError('x'))).toBe(format(new NotAuthorizedError('x')));
+    });
+
+    it('should report expired or revoked tokens as an expired session', () => {
+      const format = createErrorMessageFormatter({ collapseUserEnumeration: true });
+
+      expect(
+        format(
+          createMockAwsError(
+            'NotAuthorizedException',
+            'Access Token has expired',
+            'NotAuthorizedException',
+          ),
+        ),
+      ).toBe('Your session has expired. Please sign in again.');
+      expect(format(new NotAuthorizedError('Refresh Token has been revoked'))).toBe(
+        'Your session has expired. Please sign in again.',
+      );
+      expect(format(new NotAuthorizedError('Incorrect username or password.'))).toBe(
+        'Incorrect username or password.',
+      );
+      expect(
+        createErrorMessageFormatter({ locale: 'es' })(
+          new NotAuthorizedError('Invalid Access Token'),
+        ),
+      ).toBe('Tu sesión ha caducado. Vuelve a iniciar sesión.');
+      expect(
+        createErrorMessageFormatter({ locale: 'zh-CN' })(
+          new NotAuthorizedError('Invalid session for the user, session is expired.'),
+        ),
+      ).toBe('您的会话已过期，请重新登录。');
+    });
+
+    it('should describe password policy requirements', () => {
+      const passwordPolicy = {
+        minimumLength: 12,
+        requireUppercase: true,
+        requireNumbers: true,
+        requireSymbols: false,
+      };
+
+      expect(createErrorMessageFormatter({ passwordPolicy })(new PasswordPolicyError('x'))).toBe(
+        'Your password must contain at least 12 characters, an uppercase letter, a number.',
+      );
+      expect(
+        createErrorMessageFormatter({ locale: 'zh-CN', passwordPolicy })(
+          new PasswordPolicyError('x'),
+        ),
+      ).toBe('密码必须包含至少 12 个字符、大写字母、数字。');
+    });
+
+    it('should use the generic password message without a policy', () => {
+      expect(createErrorMessageFormatter()(new PasswordPolicyError('x'))).toBe(
+        'Your password does not meet the requirements.',
+      );
+    });
+  });
+});
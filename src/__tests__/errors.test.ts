@@ -0,0 +1,118 @@
+import {
+  CognitoClientError,
+  CodeMismatchError,
+  NotAuthorizedError,
+  PasswordPolicyError,
+  TooManyRequestsError,
+  hasErrorCode,
+  isCognitoClientError,
+  toCognitoClientError,
+} from '../lib/errors';
+import { formatError } from '../utils/cognitoMapper';
+import { createMockAwsError } from '../utils/testUtils';
+
+const createServiceException = (name: string, message: string): Error =>
+  Object.assign(createMockAwsError(name, message, name), {
+    $metadata: { httpStatusCode: 400, requestId: 'request-id-123' },
+  });
+
+describe('errors', () => {
+  describe('toCognitoClientError', () => {
+    it('should map SDK exceptions to their subclass and code', () => {
+      const cause = createServiceException('CodeMismatchException', 'Invalid code provided');
+
+      const error = toCognitoClientError(cause);
+
+      expect(error).toBeInstanceOf(CodeMismatchError);
+      expect(error).toBeInstanceOf(CognitoClientError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toMatchObject({
+        name: 'CodeMismatchError',
+        code: 'CodeMismatch',
+        message: 'Invalid code provided',
+        exceptionName: 'CodeMismatchException',
+        requestId: 'request-id-123',
+        httpStatusCode: 400,
+        cause,
+      });
+    });
+
+    it('should map related exceptions to a shared subclass with distinct codes', () => {
+      const history = toCognitoClientError(
+        createServiceException('PasswordHistoryPolicyViolationException', 'Password was used'),
+      );
+      const revoked = toCognitoClientError(
+        createServiceException('RefreshTokenReuseException', 'Refresh token reused'),
+      );
+
+      expect(history).toBeInstanceOf(PasswordPolicyError);
+      expect(history.code).toBe('PasswordHistoryPolicyViolation');
+      expect(revoked).toBeInstanceOf(NotAuthorizedError);
+      expect(revoked.code).toBe('RefreshTokenReuse');
+    });
+
+    it('should use UnknownError for unknown exceptions and non-service errors', () => {
+      const unknown = toCognitoClientError(createServiceException('BrandNewException', 'New'));
+      const network = toCognitoClientError(new Error('socket hang up'));
+      const notAnError = toCognitoClientError('boom');
+
+      expect(unknown.constructor).toBe(CognitoClientError);
+      expect(unknown).toMatchObject({ code: 'UnknownError', exceptionName: 'BrandNewException' });
+      expect(network).toMatchObject({ code: 'UnknownError', message: 'socket hang up' });
+      expect(notAnError).toMatchObject({ code: 'UnknownError', message: 'boom', cause: 'boom' });
+    });
+
+    it('should not map prototype properties as codes', () => {
+      expect(toCognitoClientError({ name: 'constructor', message: 'x' }).code).toBe('UnknownError');
+    });
+
+    it('should return CognitoClientErrors unchanged', () => {
+      const error = new TooManyRequestsError('Rate exceeded');
+      expect(toCognitoClientError(error)).toBe(error);
+    });
+  });
+
+  describe('constructors', () => {
+    it('should default the code of each subclass', () => {
+      expect(new TooManyRequestsError('Rate exceeded').code).toBe('TooManyRequests');
+      expect(new CognitoClientError('Failed').code).toBe('UnknownError');
+      expect(new NotAuthorizedError('Expired', { code: 'RefreshTokenReuse' }).code).toBe(
+        'RefreshTokenReuse',
+      );
+    });
+  });
+
+  describe('type guards', () => {
+    it('should identify CognitoClientErrors and their codes', () => {
+      const error = new CodeMismatchError('Invalid code provided');
+
+      expect(isCognitoClientError(error)).toBe(true);
+      expect(isCognitoClientError(new Error('plain'))).toBe(false);
+      expect(hasErrorCode(error, 'ExpiredCode', 'CodeMismatch')).toBe(true);
+      expect(hasErrorCode(error, 'ExpiredCode')).toBe(false);
+      expect(
+        hasErrorCode(createServiceException('CodeMismatchException', 'x'), 'CodeMismatch'),
+      ).toBe(false);
+    });
+  });
+
+  describe('formatError', () => {
+    it('should return the normalized code with the original exception name', () => {
+      expect(
+        formatError(createServiceException('UsernameExistsException', 'User already exists')),
+      ).toEqual({
+        code: 'UsernameExists',
+        name: 'UsernameExistsException',
+        message: 'User already exists',
+      });
+    });
+
+    it('should handle errors that are not SDK exceptions', () => {
+      expect(formatError(new Error('Something failed'))).toEqual({
+        code: 'UnknownError',
+        name: 'Error',
+        message: 'Something failed',
+      });
+    });
+  });
+});
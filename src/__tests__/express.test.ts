@@ -0,0 +1,253 @@
+import type { Request } from 'express';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { CognitoJwtVerifier } from '../lib/CognitoJwtVerifier';
+import { AuthenticatedRequest, requireAuth } from '../middleware/express';
+import { createStaticJwksProvider } from '../utils/jwksUtils';
+import { createTestTokenIssuer } from '../utils/testTokens';
+import { createMockAwsError } from '../utils/testUtils';
+import { Jwks, RequireAuthOptions } from '../types';
+
+const REGION = 'us-east-1';
+const USER_POOL_ID = 'us-east-1_abcdef123';
+const CLIENT_ID = '1234567890abcdef';
+
+const issuer = createTestTokenIssuer({
+  region: REGION,
+  userPoolId: USER_POOL_ID,
+  clientId: CLIENT_ID,
+  keyId: 'key-1',
+});
+
+const jwks: Jwks = issuer.jwks;
+
+const signToken = (overrides: Record<string, unknown> = {}): string => {
+  const now = Math.floor(Date.now() / 1000);
+  return issuer.sign({
+    sub: 'user-sub-123',
+    iss: `https://cognito-idp.${REGION}.amazonaws.com/${USER_POOL_ID}`,
+    client_id: CLIENT_ID,
+    token_use: 'access',
+    scope: 'openid profile',
+    iat: now,
+    exp: now + 3600,
+    username: 'testuser',
+    'cognito:groups': ['admins'],
+    ...overrides,
+  });
+};
+
+/**
+ * Starts an in-process server that runs the middleware and echoes req.cognitoUser
+ */
+const startServer = async (options: RequireAuthOptions): Promise<Server> => {
+  const middleware = requireAuth(options);
+  const server = createServer((req, res) => {
+    middleware(req, res, (error) => {
+      res.setHeader('Content-Type', 'application/json');
+      if (error) {
+        res.statusCode = 500;
+        res.end(JSON.stringify({ error: (error as Error).message }));
+        return;
+      }
+      res.end(JSON.stringify((req as AuthenticatedRequest).cognitoUser));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return server;
+};
+
+describe('requireAuth (express)', () => {
+  let server: Server;
+
+  const request = async (authorization?: string): Promise<Response> => {
+    const { port } = server.address() as AddressInfo;
+    return fetch(`http://127.0.0.1:${port}/`, {
+      headers: authorization ? { Authorization: authorization } : {},
+    });
+  };
+
+  afterEach(async () => {
+    if (server?.listening) {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  describe('with local verification', () => {
+    const verifier = new CognitoJwtVerifier({
+      region: REGION,
+      userPoolId: USER_POOL_ID,
+      clientId: CLIENT_ID,
+      jwksProvider: createStaticJwksProvider(jwks),
+    });
+
+    it('should attach the user for a valid token', async () => {
+      server = await startServer({ verifier });
+      const token = signToken();
+
+      const response = await request(`Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        username: 'testuser',
+        attributes: { sub: 'user-sub-123' },
+        sub: 'user-sub-123',
+        groups: ['admins'],
+        scopes: ['openid', 'profile'],
+        accessToken: token,
+        claims: { clientId: CLIENT_ID, tokenUse: 'access' },
+      });
+    });
+
+    it('should return 401 with a bare challenge when no token is sent', async () => {
+      server = await startServer({ verifier, realm: 'api' });
+
+      const response = await request();
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toBe('Bearer realm="api"');
+      expect(await response.json()).toEqual({
+        error: 'unauthorized',
+        message: 'No access token provided',
+      });
+    });
+
+    it('should return 401 invalid_token for an expired token', async () => {
+      server = await startServer({ verifier });
+
+      const response = await request(`Bearer ${signToken({ exp: 1 })}`);
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toBe(
+        'Bearer error="invalid_token", error_description="Invalid token: Token expired"',
+      );
+      expect(await response.json()).toEqual({
+        error: 'invalid_token',
+        message: 'Invalid token: Token expired',
+      });
+    });
+
+    it('should return 401 invalid_token when the JWKS key is malformed', async () => {
+      const corruptVerifier = new CognitoJwtVerifier({
+        region: REGION,
+        userPoolId: USER_POOL_ID,
+        clientId: CLIENT_ID,
+        // A JWKS response whose key lacks its modulus
+        jwksProvider: createStaticJwksProvider(
+          JSON.parse(
+            '{"keys":[{"kid":"key-1","kty":"RSA","alg":"RS256","use":"sig","e":"AQAB"}]}',
+          ) as Jwks,
+        ),
+      });
+      server = await startServer({ verifier: corruptVerifier });
+
+      const response = await request(`Bearer ${signToken()}`);
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({
+        error: 'invalid_token',
+        message: 'Invalid token: Malformed JWKS key for kid key-1',
+      });
+    });
+
+    it('should return 403 when the user is not in a required group', async () => {
+      server = await startServer({ verifier, requireGroups: ['editors', 'owners'] });
+
+      const response = await request(`Bearer ${signToken()}`);
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get('www-authenticate')).toContain('error="insufficient_scope"');
+      expect(await response.json()).toEqual({
+        error: 'forbidden',
+        message: 'User is not a member of a required group',
+      });
+    });
+
+    it('should accept a user in any of the required groups', async () => {
+      server = await startServer({ verifier, requireGroups: ['editors', 'admins'] });
+
+      const response = await request(`Bearer ${signToken()}`);
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should return 403 listing missing scopes', async () => {
+      server = await startServer({ verifier, requireScopes: ['openid', 'orders/write'] });
+
+      const response = await request(`Bearer ${signToken()}`);
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get('www-authenticate')).toBe(
+        'Bearer error="insufficient_scope", error_description="Missing required scopes: orders/write", scope="openid orders/write"',
+      );
+      expect(await response.json()).toEqual({
+        error: 'insufficient_scope',
+        message: 'Missing required scopes: orders/write',
+      });
+    });
+  });
+
+  describe('with a user client', () => {
+    it('should attach the user returned by GetUser', async () => {
+      const getMe = jest.fn().mockResolvedValue({
+        username: 'testuser',
+        attributes: { sub: 'user-sub-123', email: 'user@example.com' },
+      });
+      server = await startServer({ userClient: { getMe } });
+      const token = signToken();
+
+      const response = await request(`Bearer ${token}`);
+
+      expect(getMe).toHaveBeenCalledWith({ authorization: `Bearer ${token}` });
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        username: 'testuser',
+        attributes: { sub: 'user-sub-123', email: 'user@example.com' },
+        groups: ['admins'],
+      });
+    });
+
+    it('should return 401 when Cognito rejects the token', async () => {
+      const getMe = jest
+        .fn()
+        .mockRejectedValue(
+          createMockAwsError(
+            'NotAuthorizedException',
+            'Access Token has been revoked',
+            'NotAuthorizedException',
+          ),
+        );
+      server = await startServer({ userClient: { getMe } });
+
+      const response = await request(`Bearer ${signToken()}`);
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({
+        error: 'invalid_token',
+        message: 'Access Token has been revoked',
+      });
+    });
+
+    it('should pass other errors to next', async () => {
+      const getMe = jest.fn().mockRejectedValue(new Error('Rate exceeded'));
+      server = await startServer({ userClient: { getMe } });
+
+      const response = await request(`Bearer ${signToken()}`);
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toEqual({ error: 'Rate exceeded' });
+    });
+  });
+
+  it('should add cognitoUser to the Express request type', () => {
+    const getUsername = (req: Request): string | undefined => req.cognitoUser?.username;
+
+    expect(getUsername({ cognitoUser: { username: 'testuser' } } as Request)).toBe('testuser');
+  });
+
+  it('should require a verifier or a user client', () => {
+    expect(() => requireAuth({})).toThrow(
+      'Invalid auth options: A verifier or userClient is required',
+    );
+  });
+});
@@ -0,0 +1,212 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import {
+  CognitoFastifyOptions,
+  FastifyAuthInstance,
+  FastifyAuthReply,
+  FastifyAuthRequest,
+  cognitoAuthPlugin,
+} from '../middleware/fastify';
+import { CognitoAccessTokenPayload } from '../types';
+
+type OnRequestHook = (request: FastifyAuthRequest, reply: FastifyAuthReply) => Promise<unknown>;
+
+const payload = {
+  sub: 'user-sub-123',
+  iss: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_abcdef123',
+  client_id: '1234567890abcdef',
+  token_use: 'access',
+  scope: 'openid',
+  exp: 1700003600,
+  iat: 1700000000,
+  username: 'testuser',
+  'cognito:groups': ['admins'],
+} as CognitoAccessTokenPayload;
+
+/**
+ * Registers the plugin on a fake Fastify instance and returns its onRequest hook
+ */
+const register = (options: CognitoFastifyOptions): { hook: OnRequestHook; decorated: string[] } => {
+  const decorated: string[] = [];
+  let hook: OnRequestHook | undefined;
+  const instance: FastifyAuthInstance = {
+    decorateRequest: (name) => decorated.push(name),
+    addHook: (_name, onRequest) => {
+      hook = onRequest;
+    },
+  };
+  const done = jest.fn();
+
+  cognitoAuthPlugin(instance, options, done);
+
+  expect(done).toHaveBeenCalledWith();
+  return { hook: hook as OnRequestHook, decorated };
+};
+
+const createReply = (): FastifyAuthReply & { sent?: unknown; status?: number } => {
+  const reply: FastifyAuthReply & { sent?: unknown; status?: number; headers: object } = {
+    headers: {},
+    code: (statusCode) => {
+      reply.status = statusCode;
+      return reply;
+    },
+    header: (name, value) => {
+      reply.headers = { ...reply.headers, [name]: value };
+      return reply;
+    },
+    send: (body) => {
+      reply.sent = body;
+      return reply;
+    },
+  };
+  return reply;
+};
+
+describe('cognitoAuthPlugin (fastify)', () => {
+  const verifyAccessToken = jest.fn();
+
+  beforeEach(() => {
+    verifyAccessToken.mockReset().mockResolvedValue(payload);
+  });
+
+  it('should skip encapsulation so the hook applies to the parent context', () => {
+    expect(
+      (cognitoAuthPlugin as unknown as Record<symbol, unknown>)[Symbol.for('skip-override')],
+    ).toBe(true);
+  });
+
+  it('should decorate the request and set cognitoUser for a valid token', async () => {
+    const { hook, decorated } = register({ verifier: { verifyAccessToken } });
+    const request: FastifyAuthRequest = { headers: { authorization: 'Bearer token' } };
+    const reply = createReply();
+
+    await hook(request, reply);
+
+    expect(decorated).toEqual(['cognitoUser']);
+    expect(verifyAccessToken).toHaveBeenCalledWith('token');
+    expect(reply.sent).toBeUndefined();
+    expect(request.cognitoUser).toMatchObject({ username: 'testuser', groups: ['admins'] });
+  });
+
+  it('should reply 401 with a WWW-Authenticate header for a rejected token', async () => {
+    verifyAccessToken.mockRejectedValueOnce(new Error('Invalid token: Token expired'));
+    const { hook } = register({ verifier: { verifyAccessToken } });
+    const reply = createReply();
+
+    await hook({ headers: { authorization: 'Bearer token' } }, reply);
+
+    expect(reply.status).toBe(401);
+    expect(reply).toMatchObject({
+      headers: {
+        'WWW-Authenticate':
+          'Bearer error="invalid_token", error_description="Invalid token: Token expired"',
+      },
+    });
+    expect(reply.sent).toEqual({ error: 'invalid_token', message: 'Invalid token: Token expired' });
+  });
+
+  it('should skip routes with config.auth set to false', async () => {
+    const { hook } = register({ verifier: { verifyAccessToken } });
+    const reply = createReply();
+
+    await hook({ headers: {}, routeOptions: { config: { auth: false } } }, reply);
+
+    expect(verifyAccessToken).not.toHaveBeenCalled();
+    expect(reply.sent).toBeUndefined();
+  });
+
+  it('should only authenticate opted-in routes when authByDefault is false', async () => {
+    const { hook } = register({ verifier: { verifyAccessToken }, authByDefault: false });
+    const reply = createReply();
+
+    await hook({ headers: {} }, reply);
+    expect(reply.sent).toBeUndefined();
+
+    await hook({ headers: {}, routeConfig: { auth: true } }, reply);
+    expect(reply.status).toBe(401);
+  });
+
+  it('should apply route-level requirements over the plugin defaults', async () => {
+    const { hook } = register({ verifier: { verifyAccessToken }, requireGroups: ['admins'] });
+    const reply = createReply();
+
+    await hook(
+      {
+        headers: { authorization: 'Bearer token' },
+        routeOptions: { config: { auth: { requireGroups: ['owners'] } } },
+      },
+      reply,
+    );
+
+    expect(reply.status).toBe(403);
+    expect(reply.sent).toEqual({
+      error: 'forbidden',
+      message: 'User is not a member of a required group',
+    });
+  });
+
+  it('should report invalid options through done', () => {
+    const done = jest.fn();
+    const instance = { decorateRequest: jest.fn(), addHook: jest.fn() };
+
+    cognitoAuthPlugin(instance, {}, done);
+
+    expect(done).toHaveBeenCalledWith(
+      new Error('Invalid auth options: A verifier or userClient is required'),
+    );
+    expect(instance.addHook).not.toHaveBeenCalled();
+  });
+});
+
+describe('cognitoAuthPlugin with Fastify', () => {
+  const verifyAccessToken = jest.fn();
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    verifyAccessToken.mockReset().mockResolvedValue(payload);
+    app = Fastify();
+    await app.register(cognitoAuthPlugin, { verifier: { verifyAccessToken } });
+    app.get('/me', async (request) => ({ username: request.cognitoUser?.username }));
+    app.get('/health', { config: { auth: false } }, async (request) => ({
+      cognitoUser: request.cognitoUser,
+    }));
+    app.get('/owners', { config: { auth: { requireGroups: ['owners'] } } }, async () => ({}));
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should set request.cognitoUser in the onRequest hook', async () => {
+    const response = await app.inject({
+      url: '/me',
+      headers: { authorization: 'Bearer token' },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ username: 'testuser' });
+    expect(verifyAccessToken).toHaveBeenCalledWith('token');
+  });
+
+  it('should reject requests without a token before the handler runs', async () => {
+    const response = await app.inject({ url: '/me' });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.headers['www-authenticate']).toBe('Bearer');
+    expect(response.json()).toEqual({
+      error: 'unauthorized',
+      message: 'No access token provided',
+    });
+  });
+
+  it('should honour route-level config.auth', async () => {
+    const health = await app.inject({ url: '/health' });
+    const owners = await app.inject({
+      url: '/owners',
+      headers: { authorization: 'Bearer token' },
+    });
+
+    expect(health.json()).toEqual({ cognitoUser: null });
+    expect(owners.statusCode).toBe(403);
+    expect(owners.json()).toMatchObject({ error: 'forbidden' });
+  });
+});
@@ -0,0 +1,74 @@
+import { planGroupSync } from '../utils/groupSync';
+import { GroupType } from '../types';
+
+describe('planGroupSync', () => {
+  const userPoolId = 'us-east-1_abcdef123';
+  const current: GroupType[] = [
+    { groupName: 'admins', userPoolId, description: 'Admins', precedence: 1 },
+    { groupName: 'editors', userPoolId, description: 'Old description', precedence: 2 },
+    { groupName: 'legacy', userPoolId },
+    { groupName: `${userPoolId}_Google`, userPoolId },
+  ];
+
+  it('should plan creates, updates and deletes in that order', () => {
+    const plan = planGroupSync(
+      [
+        { groupName: 'admins', description: 'Admins', precedence: 1 },
+        { groupName: 'editors', description: 'Editors', precedence: 2 },
+        { groupName: 'viewers', precedence: 3 },
+      ],
+      current,
+      { userPoolId },
+    );
+
+    expect(plan).toEqual({
+      changes: [
+        { action: 'create', groupName: 'viewers', spec: { groupName: 'viewers', precedence: 3 } },
+        {
+          action: 'update',
+          groupName: 'editors',
+          spec: { groupName: 'editors', description: 'Editors', precedence: 2 },
+          fields: [{ field: 'description', from: 'Old description', to: 'Editors' }],
+        },
+        { action: 'delete', groupName: 'legacy' },
+      ],
+      unchanged: ['admins'],
+      skippedDeletes: [],
+    });
+  });
+
+  it('should plan clearing fields left out of the spec', () => {
+    const plan = planGroupSync([{ groupName: 'admins', precedence: 1 }], current, {
+      userPoolId,
+      allowDeletes: false,
+    });
+
+    expect(plan.changes).toEqual([
+      {
+        action: 'update',
+        groupName: 'admins',
+        spec: { groupName: 'admins', precedence: 1 },
+        fields: [{ field: 'description', from: 'Admins', to: undefined }],
+      },
+    ]);
+  });
+
+  it('should skip deletes when they are not allowed', () => {
+    const plan = planGroupSync([], current, { userPoolId, allowDeletes: false });
+
+    expect(plan.changes).toEqual([]);
+    expect(plan.skippedDeletes).toEqual(['admins', 'editors', 'legacy']);
+  });
+
+  it('should never delete identity provider groups', () => {
+    const plan = planGroupSync([], current, { userPoolId });
+
+    expect(plan.changes.map((change) => change.groupName)).not.toContain(`${userPoolId}_Google`);
+  });
+
+  it('should reject duplicate groups', () => {
+    expect(() =>
+      planGroupSync([{ groupName: 'admins' }, { groupName: 'admins' }], current, { userPoolId }),
+    ).toThrow('Invalid group spec: Duplicate group admins');
+  });
+});
@@ -0,0 +1,92 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createCachedJwksProvider,
+  createFileJwksProvider,
+  createStaticJwksProvider,
+  getJwksUrl,
+} from '../utils/jwksUtils';
+import { Jwks } from '../types';
+
+const jwks: Jwks = { keys: [{ kid: 'key-1', kty: 'RSA', n: 'abc', e: 'AQAB' }] };
+
+describe('jwksUtils', () => {
+  describe('getJwksUrl', () => {
+    it('should build the user pool JWKS URL', () => {
+      expect(getJwksUrl('us-east-1', 'us-east-1_abcdef123')).toBe(
+        'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_abcdef123/.well-known/jwks.json',
+      );
+    });
+  });
+
+  describe('createStaticJwksProvider', () => {
+    it('should return the given key set', async () => {
+      await expect(createStaticJwksProvider(jwks).getJwks()).resolves.toBe(jwks);
+    });
+
+    it('should reject a document without keys', () => {
+      expect(() => createStaticJwksProvider({} as Jwks)).toThrow(
+        'Invalid JWKS: Missing keys array',
+      );
+    });
+  });
+
+  describe('createCachedJwksProvider', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should share a single fetch between concurrent calls', async () => {
+      const fetcher = jest.fn().mockResolvedValue(jwks);
+      const provider = createCachedJwksProvider(fetcher);
+
+      const results = await Promise.all([provider.getJwks(), provider.getJwks()]);
+
+      expect(results).toEqual([jwks, jwks]);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch again when the cache expires or a refresh is forced', async () => {
+      jest.useFakeTimers();
+      const fetcher = jest.fn().mockResolvedValue(jwks);
+      const provider = createCachedJwksProvider(fetcher, { cacheTtlMs: 1000 });
+
+      await provider.getJwks();
+      await provider.getJwks();
+      expect(fetcher).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1001);
+      await provider.getJwks();
+      expect(fetcher).toHaveBeenCalledTimes(2);
+
+      await provider.getJwks(true);
+      expect(fetcher).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not cache a failed fetch', async () => {
+      const fetcher = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValue(jwks);
+      const provider = createCachedJwksProvider(fetcher);
+
+      await expect(provider.getJwks()).rejects.toThrow('Network error');
+      await expect(provider.getJwks()).resolves.toEqual(jwks);
+    });
+  });
+
+  describe('createFileJwksProvider', () => {
+    it('should read the key set from a JSON file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'jwks-'));
+      const filePath = join(dir, 'jwks.json');
+      writeFileSync(filePath, JSON.stringify(jwks));
+
+      try {
+        await expect(createFileJwksProvider(filePath).getJwks()).resolves.toEqual(jwks);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { Server } from 'http';
+import Koa from 'koa';
+import { AddressInfo } from 'net';
+import { KoaAuthContext, requireAuth } from '../middleware/koa';
+import { CognitoAccessTokenPayload } from '../types';
+
+const payload = {
+  sub: 'user-sub-123',
+  iss: 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_abcdef123',
+  client_id: '1234567890abcdef',
+  token_use: 'access',
+  scope: 'openid',
+  exp: 1700003600,
+  iat: 1700000000,
+  username: 'testuser',
+} as CognitoAccessTokenPayload;
+
+const createContext = (authorization?: string): KoaAuthContext & { headersSent: object } => {
+  const ctx: KoaAuthContext & { headersSent: object } = {
+    headers: authorization ? { authorization } : {},
+    state: {},
+    status: 404,
+    body: undefined,
+    headersSent: {},
+    set: (field, value) => {
+      ctx.headersSent = { ...ctx.headersSent, [field]: value };
+    },
+  };
+  return ctx;
+};
+
+describe('requireAuth (koa)', () => {
+  const verifyAccessToken = jest.fn();
+
+  beforeEach(() => {
+    verifyAccessToken.mockReset().mockResolvedValue(payload);
+  });
+
+  it('should set ctx.state.cognitoUser and call next for a valid token', async () => {
+    const ctx = createContext('Bearer token');
+    const next = jest.fn().mockResolvedValue(undefined);
+
+    await requireAuth({ verifier: { verifyAccessToken } })(ctx, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(ctx.state.cognitoUser).toMatchObject({ username: 'testuser', sub: 'user-sub-123' });
+  });
+
+  it('should respond 401 without calling next when no token is sent', async () => {
+    const ctx = createContext();
+    const next = jest.fn();
+
+    await requireAuth({ verifier: { verifyAccessToken }, realm: 'api' })(ctx, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(ctx.status).toBe(401);
+    expect(ctx.headersSent).toEqual({ 'WWW-Authenticate': 'Bearer realm="api"' });
+    expect(ctx.body).toEqual({ error: 'unauthorized', message: 'No access token provided' });
+  });
+
+  it('should respond 403 when a required scope is missing', async () => {
+    const ctx = createContext('Bearer token');
+
+    await requireAuth({ verifier: { verifyAccessToken }, requireScopes: ['orders/read'] })(
+      ctx,
+      jest.fn(),
+    );
+
+    expect(ctx.status).toBe(403);
+    expect(ctx.body).toEqual({
+      error: 'insufficient_scope',
+      message: 'Missing required scopes: orders/read',
+    });
+  });
+
+  it('should throw errors that are not token rejections', async () => {
+    verifyAccessToken.mockRejectedValueOnce(new Error('Failed to fetch JWKS: 503 Unavailable'));
+
+    await expect(
+      requireAuth({ verifier: { verifyAccessToken } })(createContext('Bearer token'), jest.fn()),
+    ).rejects.toThrow('Failed to fetch JWKS: 503 Unavailable');
+  });
+});
+
+describe('requireAuth with Koa', () => {
+  const verifyAccessToken = jest.fn();
+  let server: Server;
+
+  const request = async (authorization?: string): Promise<Response> => {
+    const { port } = server.address() as AddressInfo;
+    return fetch(`http://127.0.0.1:${port}/`, {
+      headers: authorization ? { Authorization: authorization } : {},
+    });
+  };
+
+  beforeEach(async () => {
+    verifyAccessToken.mockReset().mockResolvedValue(payload);
+    const app = new Koa();
+    app.use(requireAuth({ verifier: { verifyAccessToken }, realm: 'api' }));
+    app.use((ctx) => {
+      ctx.body = { username: ctx.state.cognitoUser.username };
+    });
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should set ctx.state.cognitoUser for the next middleware', async () => {
+    const response = await request('Bearer token');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ username: 'testuser' });
+  });
+
+  it('should respond 401 with a WWW-Authenticate header without a token', async () => {
+    const response = await request();
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer realm="api"');
+    expect(await response.json()).toEqual({
+      error: 'unauthorized',
+      message: 'No access token provided',
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { createPaginator, resolvePageSize } from '../utils/pagination';
+import { Page } from '../types';
+
+describe('createPaginator', () => {
+  const createFetcher = (
+    pages: number[][],
+  ): jest.Mock<Promise<Page<number>>, [{ limit: number; nextToken?: string }]> =>
+    jest.fn(async ({ nextToken }) => {
+      const index = nextToken ? Number(nextToken) : 0;
+      return {
+        items: pages[index],
+        nextToken: index + 1 < pages.length ? String(index + 1) : undefined,
+      };
+    });
+
+  it('should iterate over the items of every page', async () => {
+    const fetchPage = createFetcher([[1, 2], [3, 4], [5]]);
+    const items: number[] = [];
+
+    for await (const item of createPaginator(fetchPage)) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(fetchPage).toHaveBeenNthCalledWith(1, { limit: 60, nextToken: undefined });
+    expect(fetchPage).toHaveBeenNthCalledWith(2, { limit: 60, nextToken: '1' });
+  });
+
+  it('should iterate over whole pages and skip empty ones', async () => {
+    const fetchPage = createFetcher([[1, 2], [], [3]]);
+    const pages: number[][] = [];
+
+    for await (const page of createPaginator(fetchPage).pages()) {
+      pages.push(page);
+    }
+
+    expect(pages).toEqual([[1, 2], [3]]);
+  });
+
+  it('should request the page size', async () => {
+    const fetchPage = createFetcher([[1]]);
+
+    await createPaginator(fetchPage, { pageSize: 10 }).toArray();
+
+    expect(fetchPage).toHaveBeenCalledWith({ limit: 10, nextToken: undefined });
+  });
+
+  it('should lower page sizes above the Cognito maximum and reject ones below 1', async () => {
+    const fetchPage = createFetcher([[1]]);
+
+    await createPaginator(fetchPage, { pageSize: 100 }).toArray();
+
+    expect(fetchPage).toHaveBeenCalledWith({ limit: 60, nextToken: undefined });
+    expect(resolvePageSize()).toBe(60);
+    expect(() => createPaginator(fetchPage, { pageSize: 0 })).toThrow(
+      'Invalid page size: 0 is not a whole number of at least 1',
+    );
+    expect(() => resolvePageSize(2.5)).toThrow('Invalid page size: 2.5');
+  });
+
+  it('should stop after maxItems without fetching further pages', async () => {
+    const fetchPage = createFetcher([[1, 2], [3, 4], [5]]);
+
+    const items = await createPaginator(fetchPage, { pageSize: 2, maxItems: 3 }).toArray();
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(fetchPage).toHaveBeenLastCalledWith({ limit: 1, nextToken: '1' });
+  });
+
+  it('should stop when the consumer breaks out of the loop', async () => {
+    const fetchPage = createFetcher([
+      [1, 2],
+      [3, 4],
+    ]);
+
+    for await (const item of createPaginator(fetchPage)) {
+      if (item === 2) break;
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fetch when the signal is already aborted', async () => {
+    const fetchPage = createFetcher([[1]]);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      createPaginator(fetchPage, { signal: controller.signal }).toArray(),
+    ).rejects.toThrow();
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  it('should stop between pages when the signal is aborted', async () => {
+    const fetchPage = createFetcher([
+      [1, 2],
+      [3, 4],
+    ]);
+    const controller = new AbortController();
+    const items: number[] = [];
+
+    await expect(async () => {
+      for await (const item of createPaginator(fetchPage, { signal: controller.signal })) {
+        items.push(item);
+        controller.abort();
+      }
+    }).rejects.toThrow();
+
+    expect(items).toEqual([1, 2]);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
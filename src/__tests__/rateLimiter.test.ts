@@ -0,0 +1,125 @@
+import { createRateLimiter, getQuotaCategory, isReadOperation } from '../utils/rateLimiter';
+
+describe('rateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('getQuotaCategory', () => {
+    it('should map operations and command names to quota categories', () => {
+      expect(getQuotaCategory('AdminAddUserToGroup')).toBe('UserUpdate');
+      expect(getQuotaCategory('ListUsersCommand')).toBe('UserList');
+      expect(getQuotaCategory('InitiateAuthCommand')).toBe('UserAuthentication');
+    });
+
+    it('should return undefined for unknown operations', () => {
+      expect(getQuotaCategory('DescribeUserPool')).toBeUndefined();
+      expect(getQuotaCategory('toString')).toBeUndefined();
+    });
+  });
+
+  describe('isReadOperation', () => {
+    it('should only accept operations of read quota categories', () => {
+      expect(isReadOperation('AdminGetUser')).toBe(true);
+      expect(isReadOperation('ListUsers')).toBe(true);
+      expect(isReadOperation('DescribeUserImportJob')).toBe(true);
+      expect(isReadOperation('AdminCreateUser')).toBe(false);
+      expect(isReadOperation('InitiateAuth')).toBe(false);
+      expect(isReadOperation('DescribeUserPool')).toBe(false);
+    });
+  });
+
+  describe('createRateLimiter', () => {
+    it('should allow a burst up to the quota and then wait for the bucket to refill', async () => {
+      const limiter = createRateLimiter({ quotas: { UserUpdate: 2 } });
+      const acquired = jest.fn();
+
+      for (let i = 0; i < 3; i++) {
+        limiter.acquire('AdminAddUserToGroupCommand').then(acquired);
+      }
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(acquired).toHaveBeenCalledTimes(2);
+
+      await jest.advanceTimersByTimeAsync(499);
+      expect(acquired).toHaveBeenCalledTimes(2);
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(acquired).toHaveBeenCalledTimes(3);
+    });
+
+    it('should scale quotas by utilization', async () => {
+      const limiter = createRateLimiter({ quotas: { UserList: 10 }, utilization: 0.2 });
+      const acquired = jest.fn();
+
+      for (let i = 0; i < 3; i++) {
+        limiter.acquire('ListUsersCommand').then(acquired);
+      }
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(acquired).toHaveBeenCalledTimes(2);
+
+      await jest.advanceTimersByTimeAsync(500);
+      expect(acquired).toHaveBeenCalledTimes(3);
+    });
+
+    it('should keep a separate bucket per category', async () => {
+      const limiter = createRateLimiter({ quotas: { UserUpdate: 1, UserRead: 1 } });
+      const acquired = jest.fn();
+
+      limiter.acquire('AdminAddUserToGroupCommand').then(acquired);
+      limiter.acquire('AdminGetUserCommand').then(acquired);
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(acquired).toHaveBeenCalledTimes(2);
+    });
+
+    it('should hold a whole request when the scaled quota is below one per second', async () => {
+      const limiter = createRateLimiter({ quotas: { UserUpdate: 1 }, utilization: 0.5 });
+      const acquired = jest.fn();
+
+      for (let i = 0; i < 3; i++) {
+        limiter.acquire('AdminAddUserToGroupCommand').then(acquired);
+      }
+
+      await jest.advanceTimersByTimeAsync(0);
+      expect(acquired).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(acquired).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(acquired).toHaveBeenCalledTimes(2);
+
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(acquired).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject rates that cannot limit requests', () => {
+      expect(() => createRateLimiter({ quotas: { UserUpdate: 0 } })).toThrow(
+        'Invalid rate limiter options: The quota of UserUpdate must be a positive number, got 0',
+      );
+      expect(() => createRateLimiter({ quotas: { UserList: Infinity } })).toThrow(
+        'The quota of UserList must be a positive number',
+      );
+      expect(() => createRateLimiter({ quotas: { UserRead: NaN } })).toThrow(
+        'The quota of UserRead must be a positive number',
+      );
+      expect(() => createRateLimiter({ utilization: 0 })).toThrow(
+        'Invalid rate limiter options: utilization must be above 0 and at most 1, got 0',
+      );
+      expect(() => createRateLimiter({ utilization: 1.5 })).toThrow('got 1.5');
+      expect(() => createRateLimiter({ utilization: NaN })).toThrow('got NaN');
+    });
+
+    it('should not limit unknown operations', async () => {
+      const limiter = createRateLimiter({ quotas: { UserUpdate: 1 } });
+
+      await expect(limiter.acquire('DescribeUserPoolCommand')).resolves.toBeUndefined();
+    });
+  });
+});
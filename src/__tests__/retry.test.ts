@@ -0,0 +1,128 @@
+import { executeWithRetry, getRetryDelay, isRetryableError } from '../utils/retry';
+import {
+  CognitoClientError,
+  InternalServiceError,
+  LimitExceededError,
+  NotAuthorizedError,
+  TooManyRequestsError,
+} from '../lib/errors';
+import { createMockAwsError } from '../utils/testUtils';
+
+describe('retry', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry throttling errors of any operation', () => {
+      expect(isRetryableError(new TooManyRequestsError('Rate exceeded'))).toBe(true);
+      expect(isRetryableError(new TooManyRequestsError('Rate exceeded'), 'SignUp')).toBe(true);
+    });
+
+    it('should retry internal and server errors of read operations only', () => {
+      const unavailable = new CognitoClientError('Service unavailable', { httpStatusCode: 503 });
+
+      expect(isRetryableError(new InternalServiceError('Internal error'), 'AdminGetUser')).toBe(
+        true,
+      );
+      expect(isRetryableError(unavailable, 'ListUsers')).toBe(true);
+      expect(isRetryableError(new InternalServiceError('Internal error'), 'AdminCreateUser')).toBe(
+        false,
+      );
+      expect(isRetryableError(unavailable, 'ForgotPassword')).toBe(false);
+      expect(isRetryableError(unavailable)).toBe(false);
+    });
+
+    it('should retry limit errors of read operations only', () => {
+      expect(isRetryableError(new LimitExceededError('Limit exceeded'), 'ListUsers')).toBe(true);
+      expect(isRetryableError(new LimitExceededError('Limit exceeded'), 'ForgotPassword')).toBe(
+        false,
+      );
+      expect(isRetryableError(new LimitExceededError('Limit exceeded'))).toBe(false);
+    });
+
+    it('should not retry client errors', () => {
+      expect(isRetryableError(new NotAuthorizedError('Incorrect username or password'))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should grow exponentially up to the maximum delay', () => {
+      const policy = { baseDelayMs: 100, maxDelayMs: 1000, jitter: 'none' as const };
+
+      expect(getRetryDelay(1, policy)).toBe(100);
+      expect(getRetryDelay(2, policy)).toBe(200);
+      expect(getRetryDelay(4, policy)).toBe(800);
+      expect(getRetryDelay(5, policy)).toBe(1000);
+    });
+
+    it('should pick a random delay below the backoff with full jitter', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(getRetryDelay(3, { baseDelayMs: 100 })).toBe(200);
+    });
+  });
+
+  describe('executeWithRetry', () => {
+    it('should run the operation once without a policy', async () => {
+      const operation = jest
+        .fn()
+        .mockRejectedValue(createMockAwsError('TooManyRequestsException', 'Rate exceeded', ''));
+
+      await expect(executeWithRetry(operation)).rejects.toBeInstanceOf(TooManyRequestsError);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry until an attempt succeeds', async () => {
+      jest.useFakeTimers();
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(createMockAwsError('TooManyRequestsException', 'Rate exceeded', ''))
+        .mockRejectedValueOnce(createMockAwsError('InternalErrorException', 'Internal error', ''))
+        .mockResolvedValueOnce('done');
+
+      const promise = executeWithRetry(
+        operation,
+        { baseDelayMs: 100, jitter: 'none' },
+        'AdminGetUser',
+      );
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(operation).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(200);
+
+      await expect(promise).resolves.toBe('done');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after maxAttempts', async () => {
+      jest.useFakeTimers();
+      const operation = jest
+        .fn()
+        .mockRejectedValue(createMockAwsError('TooManyRequestsException', 'Rate exceeded', ''));
+
+      const promise = executeWithRetry(operation, { maxAttempts: 2, baseDelayMs: 100 });
+      const assertion = expect(promise).rejects.toBeInstanceOf(TooManyRequestsError);
+      await jest.advanceTimersByTimeAsync(100);
+
+      await assertion;
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry errors rejected by the predicate', async () => {
+      const isRetryable = jest.fn().mockReturnValue(false);
+      const operation = jest
+        .fn()
+        .mockRejectedValue(createMockAwsError('TooManyRequestsException', 'Rate exceeded', ''));
+
+      await expect(executeWithRetry(operation, { isRetryable }, 'SignUp')).rejects.toBeInstanceOf(
+        TooManyRequestsError,
+      );
+      expect(isRetryable).toHaveBeenCalledWith(expect.any(TooManyRequestsError), 1, 'SignUp');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
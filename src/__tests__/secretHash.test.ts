@@ -0,0 +1,17 @@
+import { calculateSecretHash } from '../utils/secretHash';
+
+describe('secretHash', () => {
+  describe('calculateSecretHash', () => {
+    it('should calculate the Base64 HMAC-SHA256 of username and client ID', () => {
+      expect(calculateSecretHash('testuser', '1234567890abcdef', 'client-secret')).toBe(
+        'BMucxtmigwJtxH/tGCl7Ts/uW9sFPhrJXL5p4UxZ47c=',
+      );
+    });
+
+    it('should produce different hashes for different users', () => {
+      expect(calculateSecretHash('user-sub-123', '1234567890abcdef', 'client-secret')).toBe(
+        'M/IavzeJqmyXG3SYT45zY5+bbLfn0kML9iqISh8aO2c=',
+      );
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { createHash, createHmac, getDiffieHellman } from 'crypto';
+import {
+  SRP_G,
+  SRP_N,
+  calculatePasswordClaim,
+  createSrpSession,
+  formatSrpTimestamp,
+  modPow,
+  padHex,
+} from '../utils/srpUtils';
+
+const sha256Hex = (hex: string): string =>
+  createHash('sha256').update(Buffer.from(hex, 'hex')).digest('hex');
+
+/**
+ * Minimal server side of the Cognito SRP exchange, used to check the client
+ * derives the same shared secret without reusing the client's formula for S
+ */
+const createServer = (
+  poolName: string,
+  userId: string,
+  password: string,
+  salt: bigint,
+  smallB: bigint,
+): { largeB: bigint; deriveKey: (largeA: bigint) => Buffer } => {
+  const k = BigInt(`0x${sha256Hex(`${padHex(SRP_N)}${padHex(SRP_G)}`)}`);
+  const identityHash = createHash('sha256')
+    .update(`${poolName}${userId}:${password}`)
+    .digest('hex');
+  const x = BigInt(`0x${sha256Hex(`${padHex(salt)}${identityHash}`)}`);
+  const verifier = modPow(SRP_G, x, SRP_N);
+  const largeB = (k * verifier + modPow(SRP_G, smallB, SRP_N)) % SRP_N;
+
+  const deriveKey = (largeA: bigint): Buffer => {
+    const u = BigInt(`0x${sha256Hex(`${padHex(largeA)}${padHex(largeB)}`)}`);
+    const s = modPow(largeA * modPow(verifier, u, SRP_N), smallB, SRP_N);
+    const prk = createHmac('sha256', Buffer.from(padHex(u), 'hex'))
+      .update(Buffer.from(padHex(s), 'hex'))
+      .digest();
+    return createHmac('sha256', prk)
+      .update(Buffer.concat([Buffer.from('Caldera Derived Key'), Buffer.from([1])]))
+      .digest()
+      .subarray(0, 16);
+  };
+
+  return { largeB, deriveKey };
+};
+
+describe('srpUtils', () => {
+  describe('constants', () => {
+    it('should use the RFC 3526 3072-bit group', () => {
+      const prime = getDiffieHellman('modp15').getPrime('hex');
+      expect(SRP_N).toBe(BigInt(`0x${prime}`));
+      expect(SRP_G).toBe(BigInt(2));
+    });
+  });
+
+  describe('modPow', () => {
+    it('should compute modular exponentiation', () => {
+      expect(modPow(BigInt(4), BigInt(13), BigInt(497))).toBe(BigInt(445));
+      expect(modPow(BigInt(2), BigInt(0), BigInt(7))).toBe(BigInt(1));
+    });
+
+    it('should normalise negative bases', () => {
+      expect(modPow(BigInt(-3), BigInt(3), BigInt(7))).toBe(BigInt(1));
+    });
+  });
+
+  describe('padHex', () => {
+    it('should pad odd-length values with a single zero', () => {
+      expect(padHex(BigInt(0xabc))).toBe('0abc');
+    });
+
+    it('should prefix values with the high bit set', () => {
+      expect(padHex(BigInt(0x80))).toBe('0080');
+      expect(padHex(BigInt(0x7f))).toBe('7f');
+    });
+  });
+
+  describe('formatSrpTimestamp', () => {
+    it('should format dates without zero-padding the day', () => {
+      expect(formatSrpTimestamp(new Date(Date.UTC(2024, 8, 3, 7, 4, 5)))).toBe(
+        'Tue Sep 3 07:04:05 UTC 2024',
+      );
+      expect(formatSrpTimestamp(new Date(Date.UTC(2023, 11, 31, 23, 59, 9)))).toBe(
+        'Sun Dec 31 23:59:09 UTC 2023',
+      );
+    });
+  });
+
+  describe('createSrpSession', () => {
+    it('should derive A = g^a mod N from the provided private value', () => {
+      const session = createSrpSession(BigInt(10));
+      expect(session.largeA).toBe(BigInt(1024));
+    });
+
+    it('should generate a random private value when none is provided', () => {
+      const first = createSrpSession();
+      const second = createSrpSession();
+
+      expect(first.smallA).not.toBe(second.smallA);
+      expect(first.largeA).toBe(modPow(SRP_G, first.smallA, SRP_N));
+    });
+  });
+
+  describe('calculatePasswordClaim', () => {
+    const userPoolId = 'us-east-1_abcdef123';
+    const userIdForSrp = 'f1c3a2e4-1111-2222-3333-444455556666';
+    const password = 'Password123!';
+    const salt = BigInt('0x9a1d2f3e4c5b6a7980');
+    const smallB = BigInt(`0x${'5a'.repeat(64)}`);
+    const secretBlock = Buffer.from('opaque-secret-block').toString('base64');
+    const timestamp = 'Tue Sep 3 07:04:05 UTC 2024';
+
+    it('should produce the signature the server expects', () => {
+      const server = createServer('abcdef123', userIdForSrp, password, salt, smallB);
+      const session = createSrpSession(BigInt(`0x${'3c'.repeat(128)}`));
+
+      const claim = calculatePasswordClaim({
+        userPoolId,
+        userIdForSrp,
+        password,
+        srpB: server.largeB.toString(16),
+        salt: salt.toString(16),
+        secretBlock,
+        session,
+        timestamp,
+      });
+
+      const expected = createHmac('sha256', server.deriveKey(session.largeA))
+        .update(
+          Buffer.concat([
+            Buffer.from('abcdef123'),
+            Buffer.from(userIdForSrp),
+            Buffer.from(secretBlock, 'base64'),
+            Buffer.from(timestamp),
+          ]),
+        )
+        .digest('base64');
+
+      expect(claim).toEqual({
+        passwordClaimSignature: expected,
+        passwordClaimSecretBlock: secretBlock,
+        timestamp,
+      });
+    });
+
+    it('should produce a different signature for the wrong password', () => {
+      const server = createServer('abcdef123', userIdForSrp, password, salt, smallB);
+      const session = createSrpSession(BigInt(`0x${'3c'.repeat(128)}`));
+      const params = {
+        userPoolId,
+        userIdForSrp,
+        srpB: server.largeB.toString(16),
+        salt: salt.toString(16),
+        secretBlock,
+        session,
+        timestamp,
+      };
+
+      const good = calculatePasswordClaim({ ...params, password });
+      const bad = calculatePasswordClaim({ ...params, password: 'WrongPassword1!' });
+
+      expect(bad.passwordClaimSignature).not.toBe(good.passwordClaimSignature);
+    });
+
+    it('should use the current time when no timestamp is provided', () => {
+      const server = createServer('abcdef123', userIdForSrp, password, salt, smallB);
+
+      const claim = calculatePasswordClaim({
+        userPoolId,
+        userIdForSrp,
+        password,
+        srpB: server.largeB.toString(16),
+        salt: salt.toString(16),
+        secretBlock,
+        session: createSrpSession(),
+      });
+
+      expect(claim.timestamp).toMatch(/^\w{3} \w{3} \d{1,2} \d{2}:\d{2}:\d{2} UTC \d{4}$/);
+    });
+
+    it('should reject a server value B that is a multiple of N', () => {
+      expect(() =>
+        calculatePasswordClaim({
+          userPoolId,
+          userIdForSrp,
+          password,
+          srpB: SRP_N.toString(16),
+          salt: salt.toString(16),
+          secretBlock,
+          session: createSrpSession(BigInt(7)),
+          timestamp,
+        }),
+      ).toThrow('SRP error: Illegal parameter, B mod N cannot be 0');
+    });
+
+    it('should reject a malformed user pool ID', () => {
+      expect(() =>
+        calculatePasswordClaim({
+          userPoolId: 'invalid',
+          userIdForSrp,
+          password,
+          srpB: 'abc',
+          salt: salt.toString(16),
+          secretBlock,
+          session: createSrpSession(BigInt(7)),
+          timestamp,
+        }),
+      ).toThrow("SRP error: Invalid user pool ID 'invalid'");
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { generateKeyPairSync } from 'crypto';
+import { CognitoJwtVerifier } from '../lib/CognitoJwtVerifier';
+import { createTestTokenIssuer } from '../utils/testTokens';
+import { decodeAccessToken, decodeIdToken } from '../utils/tokenClaims';
+import { decodeJwt } from '../utils/tokenUtils';
+import { mapAuthResult } from '../utils/cognitoMapper';
+
+const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+describe('createTestTokenIssuer', () => {
+  const issuer = createTestTokenIssuer({ privateKey, keyId: 'test-key' });
+  const verifier = new CognitoJwtVerifier({
+    region: issuer.region,
+    userPoolId: issuer.userPoolId,
+    clientId: issuer.clientId,
+    jwksProvider: issuer,
+  });
+
+  it('should mint access tokens that verify against its JWKS', async () => {
+    const token = issuer.mintAccessToken({
+      sub: 'user-sub',
+      username: 'jane',
+      groups: ['admins'],
+      deviceKey: 'device-1',
+    });
+
+    await expect(verifier.verifyAccessToken(token)).resolves.toMatchObject({
+      sub: 'user-sub',
+      username: 'jane',
+      client_id: issuer.clientId,
+      'cognito:groups': ['admins'],
+      device_key: 'device-1',
+      iss: issuer.issuer,
+    });
+    expect(decodeJwt(token).header).toEqual({ kid: 'test-key', alg: 'RS256' });
+  });
+
+  it('should put attributes into ID tokens', async () => {
+    const token = issuer.mintIdToken({
+      attributes: {
+        email: 'jane@example.com',
+        email_verified: 'true',
+        'custom:tenantId': 'tenant-1',
+      },
+    });
+
+    await expect(verifier.verifyIdToken(token)).resolves.toMatchObject({
+      email: 'jane@example.com',
+      email_verified: true,
+      'custom:tenantId': 'tenant-1',
+    });
+    expect(decodeIdToken(token).attributes).toMatchObject({ customTenantId: 'tenant-1' });
+  });
+
+  it('should mint expired tokens and let claims override the defaults', async () => {
+    const expired = issuer.mintAccessToken({ expiresInSeconds: -60 });
+    const foreign = issuer.mintAccessToken({ claims: { client_id: 'other-client' } });
+
+    await expect(verifier.verifyAccessToken(expired)).rejects.toThrow('Token expired');
+    await expect(verifier.verifyAccessToken(foreign)).rejects.toThrow('Client ID not allowed');
+  });
+
+  it('should mint a full authentication result for one user', () => {
+    const result = issuer.mintAuthResult({ username: 'jane', expiresInSeconds: 300 });
+    const { claims } = mapAuthResult(result);
+
+    expect(claims?.accessToken.sub).toBe(claims?.idToken.sub);
+    expect(claims?.idToken.username).toBe('jane');
+    expect(result.ExpiresIn).toBe(300);
+    expect(result.RefreshToken?.split('.')).toHaveLength(5);
+  });
+
+  it('should expose the public key only', async () => {
+    const jwks = await issuer.getJwks();
+
+    expect(jwks).toEqual(issuer.jwks);
+    expect(jwks.keys).toEqual([
+      { alg: 'RS256', e: 'AQAB', kid: 'test-key', kty: 'RSA', n: expect.any(String), use: 'sig' },
+    ]);
+    expect(jwks.keys[0]).not.toHaveProperty('d');
+  });
+
+  it('should generate a key pair when none is given', () => {
+    const generated = createTestTokenIssuer({ userPoolId: 'eu-west-1_Other' });
+
+    expect(decodeAccessToken(generated.mintAccessToken()).issuer).toBe(
+      'https://cognito-idp.us-east-1.amazonaws.com/eu-west-1_Other',
+    );
+    expect(generated.jwks.keys[0].kid).toBe(generated.keyId);
+  });
+});
@@ -0,0 +1,117 @@
+import { decodeAccessToken, decodeIdToken } from '../utils/tokenClaims';
+import { createTestTokenIssuer } from '../utils/testTokens';
+
+const { sign: createToken } = createTestTokenIssuer();
+
+const issuer = 'https://cognito-idp.us-east-1.amazonaws.com/us-east-1_abcdef123';
+
+describe('tokenClaims', () => {
+  describe('decodeAccessToken', () => {
+    it('should decode access token claims into typed fields', () => {
+      const token = createToken({
+        sub: 'user-sub',
+        username: 'testuser',
+        client_id: 'client-id',
+        token_use: 'access',
+        iss: issuer,
+        scope: 'aws.cognito.signin.user.admin openid',
+        'cognito:groups': ['admins', 'users'],
+        auth_time: 1700000000,
+        iat: 1700000000,
+        exp: 1700003600,
+        jti: 'jti-1',
+        origin_jti: 'origin-1',
+      });
+
+      expect(decodeAccessToken(`Bearer ${token}`)).toEqual({
+        sub: 'user-sub',
+        username: 'testuser',
+        clientId: 'client-id',
+        tokenUse: 'access',
+        issuer,
+        scopes: ['aws.cognito.signin.user.admin', 'openid'],
+        groups: ['admins', 'users'],
+        authTime: new Date(1700000000 * 1000),
+        issuedAt: new Date(1700000000 * 1000),
+        expiresAt: new Date(1700003600 * 1000),
+        jti: 'jti-1',
+        originJti: 'origin-1',
+        deviceKey: undefined,
+      });
+    });
+
+    it('should default groups and scopes to empty arrays', () => {
+      const claims = decodeAccessToken(
+        createToken({ sub: 'user-sub', token_use: 'access', exp: 1700003600 }),
+      );
+
+      expect(claims.groups).toEqual([]);
+      expect(claims.scopes).toEqual([]);
+    });
+
+    it('should reject an ID token', () => {
+      expect(() => decodeAccessToken(createToken({ token_use: 'id' }))).toThrow(
+        'Invalid token: Expected access token',
+      );
+    });
+  });
+
+  describe('decodeIdToken', () => {
+    it('should decode ID token claims and camel-case user attributes', () => {
+      const token = createToken({
+        sub: 'user-sub',
+        aud: 'client-id',
+        token_use: 'id',
+        iss: issuer,
+        'cognito:username': 'testuser',
+        'cognito:groups': ['admins'],
+        email: 'test@example.com',
+        email_verified: true,
+        phone_number: '+15555550100',
+        phone_number_verified: 'false',
+        given_name: 'Test',
+        'custom:tenant_id': 'tenant-1',
+        auth_time: 1700000000,
+        iat: 1700000000,
+        exp: 1700003600,
+      });
+
+      expect(decodeIdToken(token)).toEqual({
+        sub: 'user-sub',
+        username: 'testuser',
+        audience: 'client-id',
+        tokenUse: 'id',
+        issuer,
+        groups: ['admins'],
+        email: 'test@example.com',
+        emailVerified: true,
+        phoneNumber: '+15555550100',
+        phoneNumberVerified: false,
+        attributes: {
+          sub: 'user-sub',
+          email: 'test@example.com',
+          emailVerified: 'true',
+          phoneNumber: '+15555550100',
+          phoneNumberVerified: 'false',
+          givenName: 'Test',
+          customTenantId: 'tenant-1',
+        },
+        authTime: new Date(1700000000 * 1000),
+        issuedAt: new Date(1700000000 * 1000),
+        expiresAt: new Date(1700003600 * 1000),
+        jti: undefined,
+        originJti: undefined,
+      });
+    });
+
+    it('should reject an access token', () => {
+      expect(() => decodeIdToken(createToken({ token_use: 'access' }))).toThrow(
+        'Invalid token: Expected id token',
+      );
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(() => decodeIdToken('not-a-jwt')).toThrow('Invalid token: Malformed JWT');
+    });
+  });
+});
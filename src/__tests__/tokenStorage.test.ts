@@ -0,0 +1,185 @@
+import { mkdtemp, readFile, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StoredSession } from '../types';
+import {
+  createCookieTokenStorage,
+  createFileTokenStorage,
+  createMemoryTokenStorage,
+  createWebStorageTokenStorage,
+  parseSessionCookie,
+  parseStoredSession,
+  serializeSessionCookie,
+  serializeStoredSession,
+} from '../utils/tokenStorage';
+import { createTestTokenIssuer } from '../utils/testTokens';
+
+const issuer = createTestTokenIssuer();
+
+const createSession = (): StoredSession => ({
+  authResponse: {
+    accessToken: 'access-token',
+    idToken: 'id-token',
+    refreshToken: 'refresh-token',
+    expiresIn: 3600,
+    tokenType: 'Bearer',
+  },
+  expiresAt: 1704070800000,
+  userSub: 'user-sub',
+});
+
+describe('tokenStorage', () => {
+  describe('serializeStoredSession / parseStoredSession', () => {
+    it('should round-trip a session', () => {
+      const session = createSession();
+      expect(parseStoredSession(serializeStoredSession(session))).toEqual(session);
+    });
+
+    it('should drop claims when serializing and decode them again when parsing', () => {
+      const session = createSession();
+      session.authResponse.accessToken = issuer.sign({ token_use: 'access', exp: 1 });
+      session.authResponse.idToken = issuer.sign({ token_use: 'id', sub: 'abc', exp: 1 });
+      session.authResponse.claims = { accessToken: {} as never, idToken: {} as never };
+
+      const serialized = serializeStoredSession(session);
+
+      expect(JSON.parse(serialized).authResponse.claims).toBeUndefined();
+      expect(parseStoredSession(serialized).authResponse.claims?.idToken.sub).toBe('abc');
+    });
+
+    it('should reject invalid sessions', () => {
+      expect(() => parseStoredSession('not json')).toThrow(
+        'Invalid stored session: Malformed JSON',
+      );
+      expect(() => parseStoredSession('{"expiresAt":1}')).toThrow(
+        'Invalid stored session: Missing tokens or expiry',
+      );
+    });
+  });
+
+  describe('createMemoryTokenStorage', () => {
+    it('should save, load and clear a session', async () => {
+      const storage = createMemoryTokenStorage();
+
+      await expect(storage.load()).resolves.toBeUndefined();
+      await storage.save(createSession());
+      await expect(storage.load()).resolves.toEqual(createSession());
+      await storage.clear();
+      await expect(storage.load()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('createFileTokenStorage', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), 'cognito-client-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should encrypt the session at rest with a passphrase', async () => {
+      const path = join(directory, 'session.json');
+      const storage = createFileTokenStorage({ path, key: 'correct horse battery staple' });
+
+      await expect(storage.load()).resolves.toBeUndefined();
+      await storage.save(createSession());
+
+      const contents = await readFile(path, 'utf8');
+      expect(contents).not.toContain('refresh-token');
+      expect((await stat(path)).mode & 0o777).toBe(0o600);
+      await expect(storage.load()).resolves.toEqual(createSession());
+    });
+
+    it('should accept a 32-byte key and reject other key lengths', async () => {
+      const path = join(directory, 'session.json');
+      await createFileTokenStorage({ path, key: Buffer.alloc(32, 1) }).save(createSession());
+
+      await expect(
+        createFileTokenStorage({ path, key: Buffer.alloc(32, 1) }).load(),
+      ).resolves.toEqual(createSession());
+      await expect(
+        createFileTokenStorage({ path, key: Buffer.alloc(16, 1) }).save(createSession()),
+      ).rejects.toThrow('Invalid token storage key: Expected 32 bytes');
+    });
+
+    it('should fail to load with the wrong key', async () => {
+      const path = join(directory, 'session.json');
+      await createFileTokenStorage({ path, key: 'right' }).save(createSession());
+
+      await expect(createFileTokenStorage({ path, key: 'wrong' }).load()).rejects.toThrow(
+        'Failed to load session: Unable to decrypt token storage',
+      );
+    });
+
+    it('should delete the file on clear', async () => {
+      const path = join(directory, 'session.json');
+      const storage = createFileTokenStorage({ path, key: 'secret' });
+      await storage.save(createSession());
+
+      await storage.clear();
+      await storage.clear();
+
+      await expect(storage.load()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('createWebStorageTokenStorage', () => {
+    it('should store the session under the given key', async () => {
+      const items = new Map<string, string>();
+      const webStorage = {
+        getItem: (key: string): string | null => items.get(key) ?? null,
+        setItem: (key: string, value: string): void => {
+          items.set(key, value);
+        },
+        removeItem: (key: string): void => {
+          items.delete(key);
+        },
+      };
+      const storage = createWebStorageTokenStorage(webStorage, 'my-app.session');
+
+      await storage.save(createSession());
+      expect(items.has('my-app.session')).toBe(true);
+      await expect(storage.load()).resolves.toEqual(createSession());
+
+      await storage.clear();
+      expect(items.size).toBe(0);
+    });
+  });
+
+  describe('session cookies', () => {
+    it('should serialize a session into a Set-Cookie header and parse it back', () => {
+      const setCookie = serializeSessionCookie(createSession(), { maxAgeSeconds: 3600 });
+      const [cookie] = setCookie.split('; ');
+
+      expect(setCookie).toMatch(
+        /^cognito_session=[\w-]+; Path=\/; Max-Age=3600; Secure; HttpOnly; SameSite=Lax$/,
+      );
+      expect(parseSessionCookie(`theme=dark; ${cookie}`)).toEqual(createSession());
+      expect(parseSessionCookie('theme=dark')).toBeUndefined();
+    });
+
+    it('should load from the request cookie and record Set-Cookie headers', async () => {
+      const [cookie] = serializeSessionCookie(createSession(), { name: 'sid' }).split('; ');
+      const storage = createCookieTokenStorage({
+        name: 'sid',
+        cookieHeader: cookie,
+        sameSite: 'Strict',
+      });
+
+      await expect(storage.load()).resolves.toEqual(createSession());
+      expect(storage.getSetCookieHeader()).toBeUndefined();
+
+      await storage.save(createSession());
+      expect(storage.getSetCookieHeader()).toMatch(/^sid=[\w-]+; .*SameSite=Strict$/);
+
+      await storage.clear();
+      await expect(storage.load()).resolves.toBeUndefined();
+      expect(storage.getSetCookieHeader()).toBe(
+        'sid=; Path=/; Max-Age=0; Secure; HttpOnly; SameSite=Strict',
+      );
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { extractAccessToken } from '../utils/tokenUtils';
+import { decodeJwt, extractAccessToken } from '../utils/tokenUtils';
 
 describe('tokenUtils', () => {
   describe('extractAccessToken', () => {
@@ -17,4 +17,28 @@ describe('tokenUtils', () => {
       expect(extractAccessToken(undefined as unknown as string)).toBe('');
     });
   });
+
+  describe('decodeJwt', () => {
+    const encode = (value: object): string =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    it('should decode the header and payload without verifying', () => {
+      const token = `${encode({ alg: 'RS256', kid: 'key-1' })}.${encode({ sub: 'abc' })}.c2ln`;
+
+      const decoded = decodeJwt(token);
+
+      expect(decoded.header).toEqual({ alg: 'RS256', kid: 'key-1' });
+      expect(decoded.payload).toEqual({ sub: 'abc' });
+      expect(decoded.signature.toString()).toBe('sig');
+      expect(decoded.signingInput).toBe(token.slice(0, token.lastIndexOf('.')));
+    });
+
+    it('should throw an error for malformed tokens', () => {
+      expect(() => decodeJwt('abc')).toThrow('Invalid token: Malformed JWT');
+      expect(() => decodeJwt('a.b.c')).toThrow('Invalid token: Malformed JWT');
+      expect(() => decodeJwt(`${encode({ alg: 'RS256' })}.${encode([1])}.c2ln`)).toThrow(
+        'Invalid token: Malformed JWT',
+      );
+    });
+  });
 });
@@ -0,0 +1,68 @@
+import {
+  formatUserExportCsvHeader,
+  formatUserExportCsvLine,
+  getUserExportCsvColumns,
+  redactExportedUser,
+  redactValue,
+} from '../utils/userExport';
+import { ExportedUser } from '../types';
+
+describe('userExport', () => {
+  const user: ExportedUser = {
+    username: 'jdoe',
+    status: 'CONFIRMED',
+    enabled: true,
+    createdAt: '2024-06-01T00:00:00.000Z',
+    updatedAt: '2024-07-01T00:00:00.000Z',
+    attributes: { email: 'jdoe@example.com', phoneNumber: '+15555550100', givenName: 'Jane' },
+    groups: ['admins', 'editors'],
+    mfa: { preferredMfaSetting: 'SOFTWARE_TOKEN_MFA', mfaSettings: ['SOFTWARE_TOKEN_MFA'] },
+  };
+
+  describe('redactValue', () => {
+    it('should mask values, keeping the domain of email addresses', () => {
+      expect(redactValue('jdoe@example.com', 'mask')).toBe('j***@example.com');
+      expect(redactValue('+15555550100', 'mask')).toBe('+***');
+    });
+
+    it('should hash values deterministically', () => {
+      expect(redactValue('jdoe@example.com', 'hash')).toBe(redactValue('jdoe@example.com', 'hash'));
+      expect(redactValue('jdoe@example.com', 'hash')).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should omit values and apply custom rules', () => {
+      expect(redactValue('Jane', 'omit')).toBeUndefined();
+      expect(redactValue('Jane', (value) => value.toUpperCase())).toBe('JANE');
+    });
+  });
+
+  describe('redactExportedUser', () => {
+    it('should redact the username and attributes by rule', () => {
+      const redacted = redactExportedUser(user, {
+        username: 'hash',
+        email: 'mask',
+        phoneNumber: 'omit',
+      });
+
+      expect(redacted.username).toMatch(/^[0-9a-f]{64}$/);
+      expect(redacted.attributes).toEqual({ email: 'j***@example.com', givenName: 'Jane' });
+      expect(redacted.groups).toEqual(['admins', 'editors']);
+    });
+  });
+
+  describe('CSV', () => {
+    it('should write the user columns, attributes, groups and MFA settings', () => {
+      const columns = getUserExportCsvColumns(['email', 'givenName'], {
+        includeGroups: true,
+        includeMfa: true,
+      });
+
+      expect(formatUserExportCsvHeader(columns)).toBe(
+        'username,status,enabled,createdAt,updatedAt,email,givenName,groups,preferredMfaSetting,mfaSettings\n',
+      );
+      expect(formatUserExportCsvLine(user, columns)).toBe(
+        'jdoe,CONFIRMED,true,2024-06-01T00:00:00.000Z,2024-07-01T00:00:00.000Z,jdoe@example.com,Jane,admins;editors,SOFTWARE_TOKEN_MFA,SOFTWARE_TOKEN_MFA\n',
+      );
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { UserFilter, buildUserFilter } from '../utils/userFilter';
+
+describe('UserFilter', () => {
+  it('should build exact and prefix filters', () => {
+    expect(UserFilter.email.startsWith('a')).toBe('email ^= "a"');
+    expect(UserFilter.username.equals('jdoe')).toBe('username = "jdoe"');
+  });
+
+  it('should map camel-cased names to Cognito attribute names', () => {
+    expect(UserFilter.phoneNumber.startsWith('+1')).toBe('phone_number ^= "+1"');
+    expect(UserFilter.givenName.equals('Jane')).toBe('given_name = "Jane"');
+    expect(UserFilter.familyName.equals('Doe')).toBe('family_name = "Doe"');
+    expect(UserFilter.preferredUsername.equals('jane')).toBe('preferred_username = "jane"');
+  });
+
+  it('should filter on the user status and the enabled state', () => {
+    expect(UserFilter.status.equals('CONFIRMED')).toBe('cognito:user_status = "CONFIRMED"');
+    expect(UserFilter.enabled.equals(true)).toBe('status = "Enabled"');
+    expect(UserFilter.enabled.equals(false)).toBe('status = "Disabled"');
+  });
+
+  it('should escape quotes and backslashes', () => {
+    expect(UserFilter.name.equals('Jane "JD" Doe\\')).toBe('name = "Jane \\"JD\\" Doe\\\\"');
+  });
+
+  it('should look up attributes by camel-cased or Cognito name', () => {
+    expect(UserFilter.attribute('phoneNumber').equals('+15555550100')).toBe(
+      'phone_number = "+15555550100"',
+    );
+    expect(UserFilter.attribute('phone_number').equals('+15555550100')).toBe(
+      'phone_number = "+15555550100"',
+    );
+  });
+
+  it('should reject attributes that are not searchable', () => {
+    expect(() => UserFilter.attribute('customTenantId')).toThrow(
+      'Invalid user filter: customTenantId is not a searchable attribute',
+    );
+    expect(() => buildUserFilter('custom:tenant', '=', 'acme')).toThrow(
+      'Invalid user filter: custom:tenant is not a searchable attribute',
+    );
+  });
+
+  it('should reject unsupported operators', () => {
+    expect(() => buildUserFilter('email', '!=' as '=', 'a')).toThrow(
+      'Invalid user filter: Unsupported operator !=',
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  createImportProgress,
+  createUserImportCsv,
+  generateUserImportCsv,
+  mapUserImportRecord,
+  parseCsv,
+  parseUserImportRecords,
+  toUserImportCsvKey,
+} from '../utils/userImport';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+describe('userImport', () => {
+  describe('parseCsv', () => {
+    it('should parse a header row and data rows', () => {
+      expect(parseCsv('username,email\r\njdoe,jdoe@example.com\r\n')).toEqual([
+        { username: 'jdoe', email: 'jdoe@example.com' },
+      ]);
+    });
+
+    it('should handle quoted fields, doubled quotes, newlines and a byte order mark', () => {
+      const csv = '\uFEFFname,note\n"Doe, Jane","Says ""hi""\nthen leaves"\n\n';
+
+      expect(parseCsv(csv)).toEqual([{ name: 'Doe, Jane', note: 'Says "hi"\nthen leaves' }]);
+    });
+
+    it('should reject unterminated quotes', () => {
+      expect(() => parseCsv('name\n"Jane')).toThrow('Invalid CSV: Unterminated quoted field');
+    });
+  });
+
+  describe('parseUserImportRecords', () => {
+    it('should parse NDJSON and JSON arrays', () => {
+      expect(
+        parseUserImportRecords('{"email":"a@example.com"}\n\n{"email":"b@example.com"}', 'ndjson'),
+      ).toEqual([{ email: 'a@example.com' }, { email: 'b@example.com' }]);
+      expect(parseUserImportRecords('[{"email":"a@example.com"}]', 'json')).toEqual([
+        { email: 'a@example.com' },
+      ]);
+    });
+
+    it('should reject malformed input', () => {
+      expect(() => parseUserImportRecords('{"email":', 'ndjson')).toThrow(/^Invalid NDJSON:/);
+      expect(() => parseUserImportRecords('{"email":"a@example.com"}', 'json')).toThrow(
+        'Invalid JSON: Expected objects',
+      );
+    });
+  });
+
+  describe('mapUserImportRecord', () => {
+    it('should map columns to row fields and attributes', () => {
+      const row = mapUserImportRecord(
+        {
+          Email: 'jdoe@example.com',
+          phone: '+15555550100',
+          given_name: 'Jane',
+          tenant: 'acme',
+          groups: 'admins; editors',
+          empty: '',
+        },
+        { Email: 'email', tenant: 'customTenantId' },
+      );
+
+      expect(row).toEqual({
+        username: 'jdoe@example.com',
+        email: 'jdoe@example.com',
+        phone: '+15555550100',
+        password: undefined,
+        temporaryPassword: undefined,
+        groups: ['admins', 'editors'],
+        attributes: { given_name: 'Jane', customTenantId: 'acme' },
+      });
+    });
+
+    it('should accept group arrays from JSON', () => {
+      expect(mapUserImportRecord({ email: 'jdoe@example.com', groups: ['admins'] }).groups).toEqual(
+        ['admins'],
+      );
+    });
+
+    it('should reject rows without a valid email or with an invalid phone', () => {
+      expect(() => mapUserImportRecord({ username: 'jdoe' })).toThrow(
+        'Invalid row: A valid email is required',
+      );
+      expect(() => mapUserImportRecord({ email: 'jdoe@example.com', phone: '555-0100' })).toThrow(
+        'Invalid row: Phone must be in E.164 format',
+      );
+    });
+  });
+
+  describe('createImportProgress', () => {
+    it('should advance nextRow over contiguous completed rows', () => {
+      const progress = createImportProgress();
+
+      expect(progress.complete(2)).toEqual({ nextRow: 1, completedRows: [2] });
+      expect(progress.complete(1)).toEqual({ nextRow: 3, completedRows: [] });
+    });
+
+    it('should resume from a checkpoint', () => {
+      const progress = createImportProgress({ nextRow: 3, completedRows: [5] });
+
+      expect(progress.isCompleted(2)).toBe(true);
+      expect(progress.isCompleted(4)).toBe(false);
+      expect(progress.isCompleted(5)).toBe(true);
+    });
+  });
+
+  describe('createUserImportCsv', () => {
+    const headers = [
+      'name',
+      'given_name',
+      'email',
+      'email_verified',
+      'custom:tenantId',
+      'cognito:mfa_enabled',
+      'cognito:username',
+    ];
+
+    it('should convert headers to camel-cased keys', () => {
+      expect(headers.map(toUserImportCsvKey)).toEqual([
+        'name',
+        'givenName',
+        'email',
+        'emailVerified',
+        'customTenantId',
+        'cognitoMfaEnabled',
+        'cognitoUsername',
+      ]);
+    });
+
+    it('should write the header and one line per user', () => {
+      const csv = createUserImportCsv(headers, [
+        {
+          username: 'jdoe',
+          name: 'Doe, Jane "JD"',
+          givenName: 'Jane',
+          email: 'jdoe@example.com',
+          emailVerified: true,
+          customTenantId: 'acme',
+        },
+      ]);
+
+      expect(csv).toBe(
+        'name,given_name,email,email_verified,custom:tenantId,cognito:mfa_enabled,cognito:username\n' +
+          '"Doe, Jane ""JD""",Jane,jdoe@example.com,true,acme,false,jdoe\n',
+      );
+    });
+
+    it('should generate lines lazily', () => {
+      const lines = generateUserImportCsv(headers, [{ cognitoUsername: 'jdoe' }]);
+
+      expect(lines.next().value).toMatch(/^name,/);
+      expect(lines.next().value).toBe(',,,,,false,jdoe\n');
+      expect(lines.next().done).toBe(true);
+    });
+
+    it('should reject keys that are not columns of the user pool', () => {
+      expect(() =>
+        createUserImportCsv(headers, [{ username: 'jdoe', customTenant: 'acme' }]),
+      ).toThrow('Invalid user import record: customTenant is not a column of the user pool');
+    });
+  });
+
+  describe('mapWithConcurrency', () => {
+    it('should keep the order of results and limit concurrent calls', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const results = await mapWithConcurrency([30, 10, 20, 0], 2, async (delay) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        running--;
+        return delay * 2;
+      });
+
+      expect(results).toEqual([60, 20, 40, 0]);
+      expect(maxRunning).toBe(2);
+    });
+
+    it('should not start new calls after a failure', async () => {
+      const mapper = jest.fn(async (item: number) => {
+        if (item === 1) throw new Error('Failed');
+        return item;
+      });
+
+      await expect(mapWithConcurrency([1, 2, 3], 1, mapper)).rejects.toThrow('Failed');
+      expect(mapper).toHaveBeenCalledTimes(1);
+    });
+  });
+});
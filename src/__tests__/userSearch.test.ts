@@ -0,0 +1,91 @@
+import { planUserSearch } from '../utils/userSearch';
+import { AdminGetUserResponse } from '../types';
+
+describe('planUserSearch', () => {
+  const createUser = (overrides: Partial<AdminGetUserResponse> = {}): AdminGetUserResponse => ({
+    username: 'jdoe',
+    userCreateDate: new Date('2024-06-01T00:00:00Z'),
+    userLastModifiedDate: new Date('2024-07-01T00:00:00Z'),
+    enabled: true,
+    userStatus: 'CONFIRMED',
+    userAttributes: { email: 'jdoe@example.com', customTenantId: 'acme' },
+    ...overrides,
+  });
+
+  it('should push an exact match on a unique attribute server-side', () => {
+    const plan = planUserSearch({
+      status: 'CONFIRMED',
+      attributes: { givenName: 'Jane', email: 'jdoe@example.com' },
+      groupName: 'admins',
+    });
+
+    expect(plan.filter).toBe('email = "jdoe@example.com"');
+    expect(plan.groupName).toBeUndefined();
+    expect(plan.requiresGroupCheck).toBe(true);
+  });
+
+  it('should prefer listing group members over weaker filters', () => {
+    const plan = planUserSearch({ status: 'CONFIRMED', groupName: 'admins' });
+
+    expect(plan.filter).toBeUndefined();
+    expect(plan.groupName).toBe('admins');
+    expect(plan.requiresGroupCheck).toBe(false);
+  });
+
+  it('should rank prefixes below exact matches and status above enabled', () => {
+    expect(
+      planUserSearch({ username: { startsWith: 'j' }, attributes: { familyName: 'Doe' } }).filter,
+    ).toBe('family_name = "Doe"');
+    expect(planUserSearch({ status: 'CONFIRMED', enabled: true }).filter).toBe(
+      'cognito:user_status = "CONFIRMED"',
+    );
+    expect(planUserSearch({ status: ['CONFIRMED', 'UNCONFIRMED'], enabled: true }).filter).toBe(
+      'status = "Enabled"',
+    );
+  });
+
+  it('should not push custom attributes server-side', () => {
+    const plan = planUserSearch({ attributes: { customTenantId: 'acme' } });
+
+    expect(plan.filter).toBeUndefined();
+    expect(plan.matches(createUser())).toBe(true);
+    expect(plan.matches(createUser({ userAttributes: { customTenantId: 'other' } }))).toBe(false);
+  });
+
+  it('should apply the remaining predicates client-side', () => {
+    const plan = planUserSearch({
+      attributes: { customTenantId: 'acme' },
+      status: ['CONFIRMED', 'FORCE_CHANGE_PASSWORD'],
+      enabled: true,
+      createdAfter: new Date('2024-01-01T00:00:00Z'),
+      modifiedBefore: new Date('2024-12-31T00:00:00Z'),
+    });
+
+    expect(plan.filter).toBe('status = "Enabled"');
+    expect(plan.matches(createUser())).toBe(true);
+    expect(plan.matches(createUser({ userStatus: 'UNCONFIRMED' }))).toBe(false);
+    expect(plan.matches(createUser({ userCreateDate: new Date('2023-06-01T00:00:00Z') }))).toBe(
+      false,
+    );
+    expect(
+      plan.matches(createUser({ userLastModifiedDate: new Date('2025-01-01T00:00:00Z') })),
+    ).toBe(false);
+  });
+
+  it('should not apply the server-side predicate again', () => {
+    const plan = planUserSearch({ attributes: { email: 'JDoe@Example.com' } });
+
+    expect(plan.matches(createUser())).toBe(true);
+  });
+
+  it('should match usernames and prefixes', () => {
+    const plan = planUserSearch({
+      username: { startsWith: 'jd' },
+      attributes: { customTenantId: { startsWith: 'ac' } },
+    });
+
+    expect(plan.filter).toBe('username ^= "jd"');
+    expect(plan.matches(createUser({ userAttributes: { customTenantId: 'bcd' } }))).toBe(false);
+    expect(plan.matches(createUser())).toBe(true);
+  });
+});
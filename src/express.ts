@@ -0,0 +1,8 @@
+/**
+ * Express and Connect integration for Cognito Client
+ *
+ * This file exports the requireAuth middleware, which attaches the authenticated user as req.cognitoUser.
+ */
+
+export * from './middleware/express';
+export type { AuthenticatedUser, AuthErrorBody, RequireAuthOptions } from './types';
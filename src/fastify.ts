@@ -0,0 +1,14 @@
+/**
+ * Fastify integration for Cognito Client
+ *
+ * This file exports cognitoAuthPlugin, which authenticates requests and sets request.cognitoUser.
+ */
+
+export * from './middleware/fastify';
+export type {
+  AuthenticatedUser,
+  AuthErrorBody,
+  AuthRequirements,
+  RequireAuthOptions,
+  RouteAuthConfig,
+} from './types';
@@ -1,11 +1,32 @@
 // Export the main client classes
 export { CognitoUserClient } from './lib/CognitoUserClient';
 export { CognitoAdminClient } from './lib/CognitoAdminClient';
+export { CognitoJwtVerifier } from './lib/CognitoJwtVerifier';
+export { CognitoSession } from './lib/CognitoSession';
+export * from './lib/errors';
 
 // Export types for consumers to use
 export * from './types';
 
 // Export utilities
 export * from './utils/tokenUtils';
+export * from './utils/tokenClaims';
+export * from './utils/jwksUtils';
+export * from './utils/tokenStorage';
+export * from './utils/errorMessages';
+export { executeWithRetry, isRetryableError } from './utils/retry';
+export { createPaginator } from './utils/pagination';
+export * from './utils/userFilter';
+export { planUserSearch } from './utils/userSearch';
+export {
+  parseUserImportRecords,
+  mapUserImportRecord,
+  generateUserImportCsv,
+  createUserImportCsv,
+  toUserImportCsvKey,
+} from './utils/userImport';
+export { redactValue, redactExportedUser } from './utils/userExport';
+export { planGroupSync } from './utils/groupSync';
+export * from './utils/rateLimiter';
 
 // Testing utilities are not exported for production use
@@ -0,0 +1,8 @@
+/**
+ * Koa integration for Cognito Client
+ *
+ * This file exports the requireAuth middleware, which sets ctx.state.cognitoUser.
+ */
+
+export * from './middleware/koa';
+export type { AuthenticatedUser, AuthErrorBody, RequireAuthOptions } from './types';
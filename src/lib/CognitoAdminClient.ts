@@ -40,6 +40,16 @@ import {
   AdminUpdateAuthEventFeedbackCommand,
   AdminUpdateDeviceStatusCommand,
   FeedbackValueType,
+  AssociateSoftwareTokenCommand,
+  VerifySoftwareTokenCommand,
+  GetCSVHeaderCommand,
+  CreateUserImportJobCommand,
+  StartUserImportJobCommand,
+  DescribeUserImportJobCommand,
+  ListUserImportJobsCommand,
+  StopUserImportJobCommand,
+  ServiceInputTypes,
+  ServiceOutputTypes,
 } from '@aws-sdk/client-cognito-identity-provider';
 
 import {
@@ -91,6 +101,38 @@ import {
   AdminUpdateAuthEventFeedbackParams,
   AdminUpdateDeviceStatusParams,
   AuthEventType,
+  AssociateSoftwareTokenParams,
+  AssociateSoftwareTokenResponse,
+  RespondToMfaParams,
+  SelectMfaTypeParams,
+  CompleteMfaSetupParams,
+  SignInResult,
+  RetryPolicy,
+  PaginationOptions,
+  Paginator,
+  PaginateUsersParams,
+  PaginateUsersInGroupParams,
+  PaginateGroupsForUserParams,
+  AdminPaginateDevicesParams,
+  PaginateUserAuthEventsParams,
+  SearchUsersParams,
+  Page,
+  ImportUsersParams,
+  UserImportReport,
+  UserImportRow,
+  UserImportRowResult,
+  UserImportJob,
+  UserImportJobStatus,
+  CreateUserImportJobParams,
+  UserImportJobParams,
+  ListUserImportJobsParams,
+  ListUserImportJobsResponse,
+  WaitForUserImportJobParams,
+  ExportUsersParams,
+  GroupSpec,
+  SyncGroupsOptions,
+  GroupSyncReport,
+  GroupChangeResult,
 } from '../types';
 
 import {
@@ -99,8 +141,47 @@ import {
   mapAdminGetUserResponse,
   mapAuthResult,
   mapAttributes,
+  mapSignInResult,
+  formatError,
+  mapUserImportJob,
 } from '../utils/cognitoMapper';
 
+import { MAX_PAGE_SIZE, createPaginator, resolvePageSize } from '../utils/pagination';
+
+import { planUserSearch } from '../utils/userSearch';
+
+import {
+  createImportProgress,
+  mapUserImportRecord,
+  parseUserImportRecords,
+} from '../utils/userImport';
+
+import {
+  formatUserExportCsvHeader,
+  formatUserExportCsvLine,
+  getUserExportCsvColumns,
+  redactExportedUser,
+} from '../utils/userExport';
+
+import { mapWithConcurrency, sleep } from '../utils/concurrency';
+import { CognitoCommand, sendCommand } from '../utils/sendCommand';
+
+import { planGroupSync } from '../utils/groupSync';
+
+import { hasErrorCode } from './errors';
+
+const DEFAULT_IMPORT_CONCURRENCY = 5;
+const DEFAULT_EXPORT_CONCURRENCY = 5;
+const DEFAULT_IMPORT_JOB_POLL_INTERVAL_MS = 5000;
+const FINISHED_IMPORT_JOB_STATUSES: UserImportJobStatus[] = [
+  'Succeeded',
+  'Failed',
+  'Stopped',
+  'Expired',
+];
+
+import { calculateSecretHash } from '../utils/secretHash';
+
 /**
  * Client for Cognito admin operations that require AWS credentials
  */
@@ -147,6 +228,31 @@ export class CognitoAdminClient {
     });
   }
 
+  /**
+   * Creates a client that shares this client's connection and rate limiter but uses a different retry policy
+   * @param retry - Retry policy settings that override the configured ones
+   * @returns A new CognitoAdminClient instance
+   */
+  withRetry(retry: RetryPolicy): CognitoAdminClient {
+    return new CognitoAdminClient(
+      { ...this.config, retry: { ...this.config.retry, ...retry } },
+      this.client,
+    );
+  }
+
+  /**
+   * Sends a command to Cognito with this client's retry policy and rate limiter
+   * @param operation - The operation name used for rate limiting and retries
+   * @param command - The command to send
+   * @returns The command output
+   */
+  private send<TInput extends ServiceInputTypes, TOutput extends ServiceOutputTypes>(
+    operation: string,
+    command: CognitoCommand<TInput, TOutput>,
+  ): Promise<TOutput> {
+    return sendCommand(this.client, operation, command, this.config);
+  }
+
   /**
    * Creates a new user as an admin
    * @param params - Parameters for creating a user
@@ -179,12 +285,13 @@ export class CognitoAdminClient {
       MessageAction: messageAction as MessageActionType,
     });
 
-    const response = await this.client.send(command);
+    const response = await this.send('AdminCreateUser', command);
     const result = mapAdminCreateUserResponse(response);
 
     // If password is provided, set the permanent password
     if (password) {
-      await this.client.send(
+      await this.send(
+        'AdminSetUserPassword',
         new AdminSetUserPasswordCommand({
           UserPoolId: this.config.userPoolId,
           Username: username,
@@ -197,6 +304,119 @@ export class CognitoAdminClient {
     return result;
   }
 
+  /**
+   * Imports users from CSV, NDJSON or JSON, creating them with bounded concurrency and adding them to groups.
+   * Existing users are skipped, or get the row's password; pass the checkpoint reported through onProgress to resume an interrupted import
+   * @param params - The input, its format, column renames, groups, concurrency and optional checkpoint
+   * @returns A report with the result of every row processed in this run
+   */
+  async importUsers(params: ImportUsersParams): Promise<UserImportReport> {
+    const {
+      input,
+      format,
+      columns,
+      groups = [],
+      messageAction,
+      concurrency = DEFAULT_IMPORT_CONCURRENCY,
+      checkpoint,
+      onProgress,
+      signal,
+    } = params;
+
+    const progress = createImportProgress(checkpoint);
+    const rows = parseUserImportRecords(input, format)
+      .map((record, index) => ({ record, row: index + 1 }))
+      .filter(({ row }) => !progress.isCompleted(row));
+
+    const results = await mapWithConcurrency(rows, concurrency, async ({ record, row }) => {
+      signal?.throwIfAborted();
+      const result = await this.importUser(row, record, { columns, groups, messageAction });
+      const current = progress.complete(row);
+      await onProgress?.(result, current);
+      return result;
+    });
+
+    const count = (status: UserImportRowResult['status']): number =>
+      results.filter((result) => result.status === status).length;
+
+    return {
+      results,
+      created: count('created'),
+      updated: count('updated'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      checkpoint: progress.getCheckpoint(),
+    };
+  }
+
+  /**
+   * Imports a single row: validates it, creates the user and adds them to their groups
+   * @param row - The row number
+   * @param record - The parsed record
+   * @param options - Column renames, groups for every user and the message action
+   * @returns The result of the row
+   */
+  private async importUser(
+    row: number,
+    record: Record<string, unknown>,
+    options: Pick<ImportUsersParams, 'columns' | 'groups' | 'messageAction'>,
+  ): Promise<UserImportRowResult> {
+    let user: UserImportRow;
+    try {
+      user = mapUserImportRecord(record, options.columns);
+    } catch (error) {
+      return { row, status: 'failed', errorCode: 'InvalidRow', message: (error as Error).message };
+    }
+
+    const { username, groups, ...createParams } = user;
+    let status: UserImportRowResult['status'] = 'created';
+
+    try {
+      await this.createUser({ username, ...createParams, messageAction: options.messageAction });
+    } catch (error) {
+      if (!hasErrorCode(error, 'UsernameExists')) {
+        const { code, message } = formatError(error);
+        return { row, username, status: 'failed', errorCode: code, message };
+      }
+      status = 'skipped';
+
+      // The user may have been created by an interrupted run before their password was set
+      if (user.password) {
+        try {
+          await this.setUserPassword(username, user.password);
+          status = 'updated';
+        } catch (passwordError) {
+          const { code, message } = formatError(passwordError);
+          return {
+            row,
+            username,
+            status: 'failed',
+            errorCode: code,
+            message: `Failed to set password: ${message}`,
+          };
+        }
+      }
+    }
+
+    // Existing users are added to their groups too, so a resumed import completes interrupted rows
+    for (const groupName of [...(options.groups || []), ...groups]) {
+      try {
+        await this.adminAddUserToGroup({ username, groupName });
+      } catch (error) {
+        const { code, message } = formatError(error);
+        return {
+          row,
+          username,
+          status: 'failed',
+          errorCode: code,
+          message: `Failed to add user to group ${groupName}: ${message}`,
+        };
+      }
+    }
+
+    return { row, username, status };
+  }
+
   /**
    * Gets user information as an admin
    * @param params - Parameters with username
@@ -205,7 +425,8 @@ export class CognitoAdminClient {
   async getUser(params: AdminGetUserParams): Promise<AdminGetUserResponse> {
     const { username } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'AdminGetUser',
       new AdminGetUserCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -223,7 +444,8 @@ export class CognitoAdminClient {
   async updateUserAttributes(params: AdminUpdateUserAttributesParams): Promise<boolean> {
     const { username, attributes } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminUpdateUserAttributes',
       new AdminUpdateUserAttributesCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -242,7 +464,8 @@ export class CognitoAdminClient {
   async disableUser(params: AdminDisableUserParams): Promise<boolean> {
     const { username } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminDisableUser',
       new AdminDisableUserCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -260,7 +483,8 @@ export class CognitoAdminClient {
   async enableUser(params: AdminEnableUserParams): Promise<boolean> {
     const { username } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminEnableUser',
       new AdminEnableUserCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -278,7 +502,8 @@ export class CognitoAdminClient {
   async deleteUser(params: AdminDeleteUserParams): Promise<boolean> {
     const { username } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminDeleteUser',
       new AdminDeleteUserCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -296,7 +521,8 @@ export class CognitoAdminClient {
   async listUsers(params: AdminListUsersParams = {}): Promise<AdminListUsersResponse> {
     const { limit, paginationToken, filter } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'ListUsers',
       new ListUsersCommand({
         UserPoolId: this.config.userPoolId,
         Limit: limit,
@@ -326,6 +552,167 @@ export class CognitoAdminClient {
     };
   }
 
+  /**
+   * Iterates over the users in the user pool, fetching pages as needed
+   * @param params - Optional filter, page size, maximum number of users and abort signal
+   * @returns A paginator over the users; use pages() to iterate over whole pages
+   */
+  paginateUsers(params: PaginateUsersParams = {}): Paginator<AdminGetUserResponse> {
+    const { filter, ...options } = params;
+
+    return createPaginator(async ({ limit, nextToken }) => {
+      const { users, paginationToken } = await this.listUsers({
+        limit,
+        paginationToken: nextToken,
+        filter,
+      });
+      return { items: users, nextToken: paginationToken };
+    }, options);
+  }
+
+  /**
+   * Lists every user in the user pool
+   * @param params - Optional filter, page size, maximum number of users and abort signal
+   * @returns All matching users
+   */
+  async listAllUsers(params: PaginateUsersParams = {}): Promise<AdminGetUserResponse[]> {
+    return this.paginateUsers(params).toArray();
+  }
+
+  /**
+   * Exports users as NDJSON or CSV lines, with their groups and optionally their MFA settings.
+   * Lines are produced page by page, so large pools can be streamed to a file
+   * @param params - Format, attribute selection, redaction rules and optional filter, limits and abort signal
+   * @returns An async generator of lines, each ending in a newline; CSV starts with a header line
+   */
+  async *exportUsers(params: ExportUsersParams = {}): AsyncGenerator<string> {
+    const {
+      format = 'ndjson',
+      attributes,
+      includeGroups = true,
+      includeMfa = false,
+      redact,
+      concurrency = DEFAULT_EXPORT_CONCURRENCY,
+      ...paginateParams
+    } = params;
+
+    if (format === 'csv' && !attributes) {
+      throw new Error('Invalid export options: attributes are required for CSV');
+    }
+
+    const columns = getUserExportCsvColumns(attributes || [], { includeGroups, includeMfa });
+    if (format === 'csv') {
+      yield formatUserExportCsvHeader(columns);
+    }
+
+    for await (const users of this.paginateUsers(paginateParams).pages()) {
+      const exported = await mapWithConcurrency(users, concurrency, async (user) => {
+        const selected = attributes
+          ? Object.fromEntries(
+              Object.entries(user.userAttributes).filter(([name]) => attributes.includes(name)),
+            )
+          : user.userAttributes;
+        const details = includeMfa ? await this.getUser({ username: user.username }) : undefined;
+        const groups = includeGroups
+          ? (await this.paginateGroupsForUser({ username: user.username }).toArray()).map(
+              (group) => group.groupName,
+            )
+          : undefined;
+
+        return redactExportedUser(
+          {
+            username: user.username,
+            status: user.userStatus,
+            enabled: user.enabled,
+            createdAt: user.userCreateDate.toISOString(),
+            updatedAt: user.userLastModifiedDate.toISOString(),
+            attributes: selected,
+            ...(groups ? { groups } : {}),
+            ...(details
+              ? {
+                  mfa: {
+                    preferredMfaSetting: details.preferredMfaSetting,
+                    mfaSettings: details.userMfaSettingList || [],
+                  },
+                }
+              : {}),
+          },
+          redact,
+        );
+      });
+
+      for (const user of exported) {
+        yield format === 'csv'
+          ? formatUserExportCsvLine(user, columns)
+          : `${JSON.stringify(user)}\n`;
+      }
+    }
+  }
+
+  /**
+   * Searches users by several criteria, including custom attributes, date ranges and group membership.
+   * The most selective supported criterion is sent to Cognito; the others are applied to each page as it arrives
+   * @param params - Search criteria with optional page size, maximum number of results and abort signal
+   * @returns A paginator over the matching users
+   */
+  searchUsers(params: SearchUsersParams = {}): Paginator<AdminGetUserResponse> {
+    const { maxItems, signal, ...criteria } = params;
+    const pageSize = resolvePageSize(params.pageSize);
+    const plan = planUserSearch(criteria);
+
+    const listPage = async (nextToken?: string): Promise<Page<AdminGetUserResponse>> => {
+      if (plan.groupName) {
+        const { users, nextToken: next } = await this.listUsersInGroup({
+          groupName: plan.groupName,
+          limit: pageSize,
+          nextToken,
+        });
+        return { items: users, nextToken: next };
+      }
+
+      const { users, paginationToken } = await this.listUsers({
+        limit: pageSize,
+        paginationToken: nextToken,
+        filter: plan.filter,
+      });
+      return { items: users, nextToken: paginationToken };
+    };
+
+    return createPaginator(
+      async ({ nextToken }) => {
+        const page = await listPage(nextToken);
+        const items: AdminGetUserResponse[] = [];
+
+        for (const user of page.items.filter(plan.matches)) {
+          if (
+            !plan.requiresGroupCheck ||
+            (await this.isUserInGroup(user.username, criteria.groupName))
+          ) {
+            items.push(user);
+          }
+        }
+
+        return { items, nextToken: page.nextToken };
+      },
+      { maxItems, signal },
+    );
+  }
+
+  /**
+   * Checks whether a user belongs to a group
+   * @param username - The username
+   * @param groupName - The group name
+   * @returns True if the user is a member of the group
+   */
+  private async isUserInGroup(username: string, groupName?: string): Promise<boolean> {
+    for await (const group of this.paginateGroupsForUser({ username })) {
+      if (group.groupName === groupName) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Initiates authentication as an admin
    * @param params - Auth parameters with username and password
@@ -334,7 +721,8 @@ export class CognitoAdminClient {
   async initiateAuth(params: AdminInitiateAuthParams): Promise<AdminInitiateAuthResponse> {
     const { username, password, clientMetadata } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'AdminInitiateAuth',
       new AdminInitiateAuthCommand({
         UserPoolId: this.config.userPoolId,
         ClientId: this.config.clientId,
@@ -342,6 +730,7 @@ export class CognitoAdminClient {
         AuthParameters: {
           USERNAME: username,
           PASSWORD: password,
+          ...this.getSecretHashParameter(username),
         },
         ClientMetadata: clientMetadata,
       }),
@@ -370,12 +759,18 @@ export class CognitoAdminClient {
   ): Promise<AdminRespondToAuthChallengeResponse> {
     const { challengeName, challengeResponses, session, clientMetadata } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'AdminRespondToAuthChallenge',
       new AdminRespondToAuthChallengeCommand({
         UserPoolId: this.config.userPoolId,
         ClientId: this.config.clientId,
         ChallengeName: challengeName as ChallengeNameType,
-        ChallengeResponses: challengeResponses,
+        ChallengeResponses: {
+          ...challengeResponses,
+          ...(challengeResponses.USERNAME
+            ? this.getSecretHashParameter(challengeResponses.USERNAME)
+            : {}),
+        },
         Session: session,
         ClientMetadata: clientMetadata,
       }),
@@ -394,6 +789,187 @@ export class CognitoAdminClient {
     return result;
   }
 
+  /**
+   * Answers an SMS_MFA challenge with the code sent to the user's phone
+   * @param params - Username, session and the SMS code
+   * @returns Either the issued tokens or the next challenge to complete
+   */
+  async respondToSmsMfa(params: RespondToMfaParams): Promise<SignInResult> {
+    const { username, session, code, clientMetadata } = params;
+
+    return this.respondToSignInChallenge(
+      ChallengeNameType.SMS_MFA,
+      username,
+      session,
+      { SMS_MFA_CODE: code },
+      clientMetadata,
+    );
+  }
+
+  /**
+   * Answers a SOFTWARE_TOKEN_MFA challenge with a code from the user's authenticator app
+   * @param params - Username, session and the TOTP code
+   * @returns Either the issued tokens or the next challenge to complete
+   */
+  async respondToTotpMfa(params: RespondToMfaParams): Promise<SignInResult> {
+    const { username, session, code, clientMetadata } = params;
+
+    return this.respondToSignInChallenge(
+      ChallengeNameType.SOFTWARE_TOKEN_MFA,
+      username,
+      session,
+      { SOFTWARE_TOKEN_MFA_CODE: code },
+      clientMetadata,
+    );
+  }
+
+  /**
+   * Answers an EMAIL_OTP challenge with the code sent to the user's email address
+   * @param params - Username, session and the email code
+   * @returns Either the issued tokens or the next challenge to complete
+   */
+  async respondToEmailOtp(params: RespondToMfaParams): Promise<SignInResult> {
+    const { username, session, code, clientMetadata } = params;
+
+    return this.respondToSignInChallenge(
+      ChallengeNameType.EMAIL_OTP,
+      username,
+      session,
+      { EMAIL_OTP_CODE: code },
+      clientMetadata,
+    );
+  }
+
+  /**
+   * Answers a SELECT_MFA_TYPE challenge with the MFA method the user picked
+   * @param params - Username, session and the chosen MFA type
+   * @returns The challenge for the chosen MFA method
+   */
+  async selectMfaType(params: SelectMfaTypeParams): Promise<SignInResult> {
+    const { username, session, mfaType, clientMetadata } = params;
+
+    return this.respondToSignInChallenge(
+      ChallengeNameType.SELECT_MFA_TYPE,
+      username,
+      session,
+      { ANSWER: mfaType },
+      clientMetadata,
+    );
+  }
+
+  /**
+   * Starts software token setup for an MFA_SETUP challenge
+   * @param params - Parameters with the session of the MFA_SETUP challenge
+   * @returns Software token secret code and the session to pass to completeMfaSetup
+   */
+  async associateSoftwareToken(
+    params: AssociateSoftwareTokenParams,
+  ): Promise<AssociateSoftwareTokenResponse> {
+    const { accessToken, session } = params;
+
+    if (!accessToken && !session) {
+      throw new Error('Failed to associate software token: Access token or session is required');
+    }
+
+    const response = await this.send(
+      'AssociateSoftwareToken',
+      new AssociateSoftwareTokenCommand({
+        AccessToken: accessToken,
+        Session: session,
+      }),
+    );
+
+    if (!response.SecretCode) {
+      throw new Error('Failed to associate software token: No secret code returned');
+    }
+
+    return {
+      secretCode: response.SecretCode,
+      session: response.Session,
+    };
+  }
+
+  /**
+   * Completes an MFA_SETUP challenge by verifying the first code from the user's authenticator app.
+   * Call associateSoftwareToken with the challenge session first and pass on the session it returns.
+   * @param params - Username, session from associateSoftwareToken and the code from the app
+   * @returns Either the issued tokens or the next challenge to complete
+   */
+  async completeMfaSetup(params: CompleteMfaSetupParams): Promise<SignInResult> {
+    const { username, session, userCode, friendlyDeviceName, clientMetadata } = params;
+
+    const verifyResponse = await this.send(
+      'VerifySoftwareToken',
+      new VerifySoftwareTokenCommand({
+        Session: session,
+        UserCode: userCode,
+        FriendlyDeviceName: friendlyDeviceName,
+      }),
+    );
+
+    if (verifyResponse.Status !== 'SUCCESS') {
+      throw new Error('Failed to verify software token: Verification was not successful');
+    }
+
+    return this.respondToSignInChallenge(
+      ChallengeNameType.MFA_SETUP,
+      username,
+      verifyResponse.Session || session,
+      {},
+      clientMetadata,
+    );
+  }
+
+  /**
+   * Builds the SECRET_HASH entry for AuthParameters and ChallengeResponses maps
+   * @param username - The username of the user signing in
+   * @returns An object containing SECRET_HASH, or an empty object if no client secret is configured
+   */
+  private getSecretHashParameter(username: string): Record<string, string> {
+    if (!this.config.clientSecret) {
+      return {};
+    }
+
+    return {
+      SECRET_HASH: calculateSecretHash(username, this.config.clientId, this.config.clientSecret),
+    };
+  }
+
+  /**
+   * Sends an AdminRespondToAuthChallenge request and maps the result to the next sign-in step
+   * @param challengeName - The challenge being answered
+   * @param username - The username of the user signing in
+   * @param session - The session from the challenge
+   * @param challengeResponses - Challenge-specific responses, USERNAME is added automatically
+   * @param clientMetadata - Optional metadata passed to Lambda triggers
+   * @returns Either the issued tokens or the next challenge to complete
+   */
+  private async respondToSignInChallenge(
+    challengeName: ChallengeNameType,
+    username: string,
+    session: string,
+    challengeResponses: Record<string, string>,
+    clientMetadata?: Record<string, string>,
+  ): Promise<SignInResult> {
+    const response = await this.send(
+      'AdminRespondToAuthChallenge',
+      new AdminRespondToAuthChallengeCommand({
+        UserPoolId: this.config.userPoolId,
+        ClientId: this.config.clientId,
+        ChallengeName: challengeName,
+        ChallengeResponses: {
+          USERNAME: username,
+          ...challengeResponses,
+          ...this.getSecretHashParameter(username),
+        },
+        Session: session,
+        ClientMetadata: clientMetadata,
+      }),
+    );
+
+    return mapSignInResult(response, username);
+  }
+
   /**
    * Resets a user's password as an admin
    * @param params - Parameters with username
@@ -402,7 +978,8 @@ export class CognitoAdminClient {
   async resetUserPassword(params: AdminResetUserPasswordParams): Promise<boolean> {
     const { username } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminResetUserPassword',
       new AdminResetUserPasswordCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -424,7 +1001,8 @@ export class CognitoAdminClient {
     password: string,
     permanent: boolean = true,
   ): Promise<boolean> {
-    await this.client.send(
+    await this.send(
+      'AdminSetUserPassword',
       new AdminSetUserPasswordCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -439,21 +1017,10 @@ export class CognitoAdminClient {
   /**
    * Gets error information from an Error object
    * @param error - The error object
-   * @returns The original error - no longer mapped
+   * @returns The normalized error code, exception name and message
    */
   getErrorInfo(error: unknown): CognitoErrorInfo {
-    if (error instanceof Error) {
-      return {
-        code: 'UnknownError',
-        name: error.name,
-        message: error.message,
-      };
-    }
-    return {
-      code: 'UnknownError',
-      name: 'Error',
-      message: String(error),
-    };
+    return formatError(error);
   }
 
   /**
@@ -464,7 +1031,8 @@ export class CognitoAdminClient {
   async adminConfirmSignUp(params: AdminConfirmSignUpParams): Promise<boolean> {
     const { username } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminConfirmSignUp',
       new AdminConfirmSignUpCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -482,7 +1050,8 @@ export class CognitoAdminClient {
   async adminAddUserToGroup(params: AdminAddUserToGroupParams): Promise<boolean> {
     const { username, groupName } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminAddUserToGroup',
       new AdminAddUserToGroupCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -501,7 +1070,8 @@ export class CognitoAdminClient {
   async adminRemoveUserFromGroup(params: AdminRemoveUserFromGroupParams): Promise<boolean> {
     const { username, groupName } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminRemoveUserFromGroup',
       new AdminRemoveUserFromGroupCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -520,7 +1090,8 @@ export class CognitoAdminClient {
   async listGroups(params: ListGroupsParams = {}): Promise<ListGroupsResponse> {
     const { limit, nextToken } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'ListGroups',
       new ListGroupsCommand({
         UserPoolId: this.config.userPoolId,
         Limit: limit,
@@ -544,6 +1115,27 @@ export class CognitoAdminClient {
     };
   }
 
+  /**
+   * Iterates over the groups in the user pool, fetching pages as needed
+   * @param options - Optional page size, maximum number of groups and abort signal
+   * @returns A paginator over the groups
+   */
+  paginateGroups(options: PaginationOptions = {}): Paginator<GroupType> {
+    return createPaginator(async ({ limit, nextToken }) => {
+      const { groups, nextToken: next } = await this.listGroups({ limit, nextToken });
+      return { items: groups, nextToken: next };
+    }, options);
+  }
+
+  /**
+   * Lists every group in the user pool
+   * @param options - Optional page size, maximum number of groups and abort signal
+   * @returns All groups
+   */
+  async listAllGroups(options: PaginationOptions = {}): Promise<GroupType[]> {
+    return this.paginateGroups(options).toArray();
+  }
+
   /**
    * Creates a new group in the user pool
    * @param params - Parameters with group name and optional description, precedence, and role ARN
@@ -552,7 +1144,8 @@ export class CognitoAdminClient {
   async createGroup(params: CreateGroupParams): Promise<GroupType> {
     const { groupName, description, precedence, roleArn } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'CreateGroup',
       new CreateGroupCommand({
         UserPoolId: this.config.userPoolId,
         GroupName: groupName,
@@ -586,7 +1179,8 @@ export class CognitoAdminClient {
   async getGroup(params: GetGroupParams): Promise<GroupType> {
     const { groupName } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'GetGroup',
       new GetGroupCommand({
         UserPoolId: this.config.userPoolId,
         GroupName: groupName,
@@ -617,7 +1211,8 @@ export class CognitoAdminClient {
   async updateGroup(params: UpdateGroupParams): Promise<GroupType> {
     const { groupName, description, precedence, roleArn } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'UpdateGroup',
       new UpdateGroupCommand({
         UserPoolId: this.config.userPoolId,
         GroupName: groupName,
@@ -651,7 +1246,8 @@ export class CognitoAdminClient {
   async deleteGroup(params: DeleteGroupParams): Promise<boolean> {
     const { groupName } = params;
 
-    await this.client.send(
+    await this.send(
+      'DeleteGroup',
       new DeleteGroupCommand({
         UserPoolId: this.config.userPoolId,
         GroupName: groupName,
@@ -661,6 +1257,55 @@ export class CognitoAdminClient {
     return true;
   }
 
+  /**
+   * Reconciles the user pool's groups with the desired ones: creates missing groups, updates changed
+   * descriptions, precedences and role ARNs, and deletes groups that are not desired.
+   * Changes that fail are reported and do not stop the others, so the sync can simply be run again
+   * @param desired - The desired groups
+   * @param options - Optional dry run and delete settings
+   * @returns A report with the outcome of every change
+   */
+  async syncGroups(
+    desired: GroupSpec[],
+    options: SyncGroupsOptions = {},
+  ): Promise<GroupSyncReport> {
+    const { dryRun = false, allowDeletes = true } = options;
+    const plan = planGroupSync(desired, await this.listAllGroups(), {
+      userPoolId: this.config.userPoolId,
+      allowDeletes,
+    });
+
+    const changes: GroupChangeResult[] = [];
+    for (const change of plan.changes) {
+      if (dryRun) {
+        changes.push({ ...change, status: 'planned' });
+        continue;
+      }
+
+      try {
+        if (change.action === 'create') {
+          await this.createGroup(change.spec);
+        } else if (change.action === 'update') {
+          // UpdateGroup clears the fields it is not given, so the whole spec is sent
+          await this.updateGroup(change.spec);
+        } else {
+          await this.deleteGroup({ groupName: change.groupName });
+        }
+        changes.push({ ...change, status: 'applied' });
+      } catch (error) {
+        const { code, message } = formatError(error);
+        changes.push({ ...change, status: 'failed', errorCode: code, message });
+      }
+    }
+
+    return {
+      dryRun,
+      changes,
+      unchanged: plan.unchanged,
+      skippedDeletes: plan.skippedDeletes,
+    };
+  }
+
   /**
    * Lists users in a specific group
    * @param params - Parameters with group name, optional limit and pagination token
@@ -669,7 +1314,8 @@ export class CognitoAdminClient {
   async listUsersInGroup(params: ListUsersInGroupParams): Promise<ListUsersInGroupResponse> {
     const { groupName, limit, nextToken } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'ListUsersInGroup',
       new ListUsersInGroupCommand({
         UserPoolId: this.config.userPoolId,
         GroupName: groupName,
@@ -699,6 +1345,24 @@ export class CognitoAdminClient {
     };
   }
 
+  /**
+   * Iterates over the users in a group, fetching pages as needed
+   * @param params - Group name with optional page size, maximum number of users and abort signal
+   * @returns A paginator over the users
+   */
+  paginateUsersInGroup(params: PaginateUsersInGroupParams): Paginator<AdminGetUserResponse> {
+    const { groupName, ...options } = params;
+
+    return createPaginator(async ({ limit, nextToken }) => {
+      const { users, nextToken: next } = await this.listUsersInGroup({
+        groupName,
+        limit,
+        nextToken,
+      });
+      return { items: users, nextToken: next };
+    }, options);
+  }
+
   /**
    * Lists the groups that a user belongs to
    * @param params - Parameters with username, optional limit and pagination token
@@ -709,7 +1373,8 @@ export class CognitoAdminClient {
   ): Promise<AdminListGroupsForUserResponse> {
     const { username, limit, nextToken } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'AdminListGroupsForUser',
       new AdminListGroupsForUserCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -734,6 +1399,24 @@ export class CognitoAdminClient {
     };
   }
 
+  /**
+   * Iterates over the groups a user belongs to, fetching pages as needed
+   * @param params - Username with optional page size, maximum number of groups and abort signal
+   * @returns A paginator over the groups
+   */
+  paginateGroupsForUser(params: PaginateGroupsForUserParams): Paginator<GroupType> {
+    const { username, ...options } = params;
+
+    return createPaginator(async ({ limit, nextToken }) => {
+      const { groups, nextToken: next } = await this.adminListGroupsForUser({
+        username,
+        limit,
+        nextToken,
+      });
+      return { items: groups, nextToken: next };
+    }, options);
+  }
+
   /**
    * Sets MFA preferences for a user
    * @param params - Parameters with username and MFA settings
@@ -742,7 +1425,8 @@ export class CognitoAdminClient {
   async adminSetUserMFAPreference(params: AdminSetUserMFAPreferenceParams): Promise<boolean> {
     const { username, smsMfaSettings, softwareTokenMfaSettings } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminSetUserMFAPreference',
       new AdminSetUserMFAPreferenceCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -772,7 +1456,8 @@ export class CognitoAdminClient {
   async adminLinkProviderForUser(params: AdminLinkProviderForUserParams): Promise<boolean> {
     const { username, providerName, providerAttributeName, providerAttributeValue } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminLinkProviderForUser',
       new AdminLinkProviderForUserCommand({
         UserPoolId: this.config.userPoolId,
         DestinationUser: {
@@ -799,7 +1484,8 @@ export class CognitoAdminClient {
   async adminGetDevice(params: AdminGetDeviceParams): Promise<DeviceType> {
     const { username, deviceKey } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'AdminGetDevice',
       new AdminGetDeviceCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -833,7 +1519,8 @@ export class CognitoAdminClient {
   async adminForgetDevice(params: AdminForgetDeviceParams): Promise<boolean> {
     const { username, deviceKey } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminForgetDevice',
       new AdminForgetDeviceCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -852,7 +1539,8 @@ export class CognitoAdminClient {
   async adminListDevices(params: AdminListDevicesParams): Promise<ListDevicesResponse> {
     const { username, limit, paginationToken } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'AdminListDevices',
       new AdminListDevicesCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -879,6 +1567,24 @@ export class CognitoAdminClient {
     };
   }
 
+  /**
+   * Iterates over a user's remembered devices, fetching pages as needed
+   * @param params - Username with optional page size, maximum number of devices and abort signal
+   * @returns A paginator over the devices
+   */
+  paginateDevices(params: AdminPaginateDevicesParams): Paginator<DeviceType> {
+    const { username, ...options } = params;
+
+    return createPaginator(async ({ limit, nextToken }) => {
+      const { devices, paginationToken } = await this.adminListDevices({
+        username,
+        limit,
+        paginationToken: nextToken,
+      });
+      return { items: devices, nextToken: paginationToken };
+    }, options);
+  }
+
   /**
    * Signs out a user from all devices
    * @param params - Parameters with username
@@ -887,7 +1593,8 @@ export class CognitoAdminClient {
   async adminUserGlobalSignOut(params: AdminUserGlobalSignOutParams): Promise<boolean> {
     const { username } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminUserGlobalSignOut',
       new AdminUserGlobalSignOutCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -905,7 +1612,8 @@ export class CognitoAdminClient {
   async adminDeleteUserAttributes(params: AdminDeleteUserAttributesParams): Promise<boolean> {
     const { username, attributeNames } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminDeleteUserAttributes',
       new AdminDeleteUserAttributesCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -924,7 +1632,8 @@ export class CognitoAdminClient {
   async adminDisableProviderForUser(params: AdminDisableProviderForUserParams): Promise<boolean> {
     const { userProviderName, providerAttributeName, providerAttributeValue } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminDisableProviderForUser',
       new AdminDisableProviderForUserCommand({
         UserPoolId: this.config.userPoolId,
         User: {
@@ -948,7 +1657,8 @@ export class CognitoAdminClient {
   ): Promise<AdminListUserAuthEventsResponse> {
     const { username, maxResults, nextToken } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'AdminListUserAuthEvents',
       new AdminListUserAuthEventsCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -991,6 +1701,24 @@ export class CognitoAdminClient {
     };
   }
 
+  /**
+   * Iterates over a user's auth events, newest first, fetching pages as needed
+   * @param params - Username with optional page size, maximum number of events and abort signal
+   * @returns A paginator over the auth events
+   */
+  paginateUserAuthEvents(params: PaginateUserAuthEventsParams): Paginator<AuthEventType> {
+    const { username, ...options } = params;
+
+    return createPaginator(async ({ limit, nextToken }) => {
+      const { authEvents, nextToken: next } = await this.adminListUserAuthEvents({
+        username,
+        maxResults: limit,
+        nextToken,
+      });
+      return { items: authEvents, nextToken: next };
+    }, options);
+  }
+
   /**
    * Sets user settings as an admin
    * @param params - Parameters with username and MFA options
@@ -999,7 +1727,8 @@ export class CognitoAdminClient {
   async adminSetUserSettings(params: AdminSetUserSettingsParams): Promise<boolean> {
     const { username, mfaOptions } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminSetUserSettings',
       new AdminSetUserSettingsCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -1021,7 +1750,8 @@ export class CognitoAdminClient {
   async adminUpdateAuthEventFeedback(params: AdminUpdateAuthEventFeedbackParams): Promise<boolean> {
     const { username, eventId, feedbackValue } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminUpdateAuthEventFeedback',
       new AdminUpdateAuthEventFeedbackCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -1041,7 +1771,8 @@ export class CognitoAdminClient {
   async adminUpdateDeviceStatus(params: AdminUpdateDeviceStatusParams): Promise<boolean> {
     const { username, deviceKey, deviceRememberedStatus } = params;
 
-    await this.client.send(
+    await this.send(
+      'AdminUpdateDeviceStatus',
       new AdminUpdateDeviceStatusCommand({
         UserPoolId: this.config.userPoolId,
         Username: username,
@@ -1052,4 +1783,153 @@ export class CognitoAdminClient {
 
     return true;
   }
+
+  /**
+   * Gets the CSV headers a user import job expects for this user pool
+   * @returns The CSV headers, in order
+   */
+  async getCsvHeader(): Promise<string[]> {
+    const response = await this.send(
+      'GetCSVHeader',
+      new GetCSVHeaderCommand({
+        UserPoolId: this.config.userPoolId,
+      }),
+    );
+
+    return response.CSVHeader || [];
+  }
+
+  /**
+   * Creates a user import job. Upload the CSV to the job's preSignedUrl, then start the job
+   * @param params - Parameters with job name and the CloudWatch Logs role ARN
+   * @returns The created job
+   */
+  async createUserImportJob(params: CreateUserImportJobParams): Promise<UserImportJob> {
+    const { jobName, cloudWatchLogsRoleArn } = params;
+
+    const response = await this.send(
+      'CreateUserImportJob',
+      new CreateUserImportJobCommand({
+        UserPoolId: this.config.userPoolId,
+        JobName: jobName,
+        CloudWatchLogsRoleArn: cloudWatchLogsRoleArn,
+      }),
+    );
+
+    return mapUserImportJob(response.UserImportJob);
+  }
+
+  /**
+   * Starts a user import job
+   * @param params - Parameters with job ID
+   * @returns The started job
+   */
+  async startUserImportJob(params: UserImportJobParams): Promise<UserImportJob> {
+    const { jobId } = params;
+
+    const response = await this.send(
+      'StartUserImportJob',
+      new StartUserImportJobCommand({
+        UserPoolId: this.config.userPoolId,
+        JobId: jobId,
+      }),
+    );
+
+    return mapUserImportJob(response.UserImportJob);
+  }
+
+  /**
+   * Gets the status and statistics of a user import job
+   * @param params - Parameters with job ID
+   * @returns The job
+   */
+  async describeUserImportJob(params: UserImportJobParams): Promise<UserImportJob> {
+    const { jobId } = params;
+
+    const response = await this.send(
+      'DescribeUserImportJob',
+      new DescribeUserImportJobCommand({
+        UserPoolId: this.config.userPoolId,
+        JobId: jobId,
+      }),
+    );
+
+    return mapUserImportJob(response.UserImportJob);
+  }
+
+  /**
+   * Lists the user import jobs of the user pool
+   * @param params - List parameters with optional limit (default 60) and pagination token
+   * @returns List of jobs and pagination token
+   */
+  async listUserImportJobs(
+    params: ListUserImportJobsParams = {},
+  ): Promise<ListUserImportJobsResponse> {
+    const { limit = MAX_PAGE_SIZE, paginationToken } = params;
+
+    const response = await this.send(
+      'ListUserImportJobs',
+      new ListUserImportJobsCommand({
+        UserPoolId: this.config.userPoolId,
+        MaxResults: limit,
+        PaginationToken: paginationToken,
+      }),
+    );
+
+    return {
+      jobs: (response.UserImportJobs || []).map(mapUserImportJob),
+      paginationToken: response.PaginationToken,
+    };
+  }
+
+  /**
+   * Stops a running user import job
+   * @param params - Parameters with job ID
+   * @returns The stopped job
+   */
+  async stopUserImportJob(params: UserImportJobParams): Promise<UserImportJob> {
+    const { jobId } = params;
+
+    const response = await this.send(
+      'StopUserImportJob',
+      new StopUserImportJobCommand({
+        UserPoolId: this.config.userPoolId,
+        JobId: jobId,
+      }),
+    );
+
+    return mapUserImportJob(response.UserImportJob);
+  }
+
+  /**
+   * Polls a user import job until it succeeds, fails, stops or expires
+   * @param params - Parameters with job ID, optional poll interval, timeout, abort signal and poll callback
+   * @returns The finished job with its statistics; check its status for the outcome
+   */
+  async waitForUserImportJob(params: WaitForUserImportJobParams): Promise<UserImportJob> {
+    const {
+      jobId,
+      pollIntervalMs = DEFAULT_IMPORT_JOB_POLL_INTERVAL_MS,
+      timeoutMs,
+      signal,
+      onPoll,
+    } = params;
+    const deadline = timeoutMs !== undefined ? Date.now() + timeoutMs : Infinity;
+
+    for (;;) {
+      signal?.throwIfAborted();
+      const job = await this.describeUserImportJob({ jobId });
+      onPoll?.(job);
+
+      if (FINISHED_IMPORT_JOB_STATUSES.includes(job.status)) {
+        return job;
+      }
+
+      if (Date.now() + pollIntervalMs > deadline) {
+        throw new Error(`Failed to wait for user import job: Timed out in status ${job.status}`);
+      }
+
+      await sleep(pollIntervalMs);
+    }
+  }
 }
@@ -0,0 +1,191 @@
+import { KeyObject, createPublicKey, verify as verifySignature } from 'crypto';
+
+import {
+  CognitoAccessTokenPayload,
+  CognitoIdTokenPayload,
+  CognitoJwtVerifierConfig,
+  DecodedJwt,
+  Jwk,
+  JwksProvider,
+} from '../types';
+
+import { decodeJwt, extractAccessToken } from '../utils/tokenUtils';
+
+import { createRemoteJwksProvider } from '../utils/jwksUtils';
+
+const DEFAULT_JWKS_REFRESH_COOLDOWN_SECONDS = 60;
+const MAX_CACHED_KEYS = 20;
+
+/**
+ * Verifies Cognito access and ID tokens locally against the user pool JWKS,
+ * without a network round trip per request
+ */
+export class CognitoJwtVerifier {
+  private config: CognitoJwtVerifierConfig;
+  private jwksProvider: JwksProvider;
+  private issuer: string;
+  private clientIds: string[];
+  private keyCache = new Map<string, KeyObject>();
+  private lastJwksRefresh = 0;
+
+  /**
+   * Creates a new instance of CognitoJwtVerifier
+   * @param config - Configuration containing region, user pool ID, allowed client IDs and optional JWKS provider.
+   * If no JWKS provider is given, the user pool's published JWKS is downloaded and cached
+   */
+  constructor(config: CognitoJwtVerifierConfig) {
+    this.config = config;
+    this.issuer = `https://cognito-idp.${config.region}.amazonaws.com/${config.userPoolId}`;
+    this.clientIds = Array.isArray(config.clientId) ? config.clientId : [config.clientId];
+    this.jwksProvider =
+      config.jwksProvider || createRemoteJwksProvider(config.region, config.userPoolId);
+  }
+
+  /**
+   * Verifies an access token
+   * @param token - The access token, optionally prefixed with "Bearer "
+   * @returns The verified token claims
+   */
+  async verifyAccessToken(token: string): Promise<CognitoAccessTokenPayload> {
+    const payload = await this.verifyToken(token, 'access');
+
+    if (!this.clientIds.includes(payload.client_id as string)) {
+      throw new Error('Invalid token: Client ID not allowed');
+    }
+
+    return payload as CognitoAccessTokenPayload;
+  }
+
+  /**
+   * Verifies an ID token
+   * @param token - The ID token, optionally prefixed with "Bearer "
+   * @returns The verified token claims
+   */
+  async verifyIdToken(token: string): Promise<CognitoIdTokenPayload> {
+    const payload = await this.verifyToken(token, 'id');
+
+    if (!this.clientIds.includes(payload.aud as string)) {
+      throw new Error('Invalid token: Audience not allowed');
+    }
+
+    return payload as CognitoIdTokenPayload;
+  }
+
+  /**
+   * Verifies the signature and the claims shared by access and ID tokens
+   * @param token - The encoded token
+   * @param tokenUse - The expected token_use claim
+   * @returns The token payload
+   */
+  private async verifyToken(
+    token: string,
+    tokenUse: 'access' | 'id',
+  ): Promise<Record<string, unknown>> {
+    const decoded = decodeJwt(extractAccessToken(token));
+    const { header, payload } = decoded;
+
+    if (header.alg !== 'RS256') {
+      throw new Error(`Invalid token: Unsupported algorithm ${header.alg}`);
+    }
+
+    if (!header.kid) {
+      throw new Error('Invalid token: Missing key ID');
+    }
+
+    const key = await this.getKey(header.kid);
+    this.assertSignature(decoded, key);
+
+    if (payload.iss !== this.issuer) {
+      throw new Error('Invalid token: Issuer mismatch');
+    }
+
+    if (payload.token_use !== tokenUse) {
+      throw new Error(`Invalid token: Expected ${tokenUse} token`);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const skew = this.config.clockSkewSeconds ?? 0;
+
+    if (typeof payload.exp !== 'number' || now > payload.exp + skew) {
+      throw new Error('Invalid token: Token expired');
+    }
+
+    if (typeof payload.nbf === 'number' && now + skew < payload.nbf) {
+      throw new Error('Invalid token: Token not yet valid');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Checks the RS256 signature of a decoded token
+   * @param decoded - The decoded token
+   * @param key - The public key to verify with
+   */
+  private assertSignature(decoded: DecodedJwt, key: KeyObject): void {
+    const valid = verifySignature(
+      'RSA-SHA256',
+      Buffer.from(decoded.signingInput),
+      key,
+      decoded.signature,
+    );
+
+    if (!valid) {
+      throw new Error('Invalid token: Signature verification failed');
+    }
+  }
+
+  /**
+   * Gets the public key for a key ID, reloading the JWKS once if the key is unknown.
+   * Reloads are rate-limited, so tokens with made-up key IDs cannot flood the JWKS endpoint
+   * @param kid - The key ID from the token header
+   * @returns The public key
+   */
+  private async getKey(kid: string): Promise<KeyObject> {
+    const cachedKey = this.keyCache.get(kid);
+    if (cachedKey) {
+      return cachedKey;
+    }
+
+    let jwk = this.findKey((await this.jwksProvider.getJwks()).keys, kid);
+    const cooldownMs =
+      (this.config.jwksRefreshCooldownSeconds ?? DEFAULT_JWKS_REFRESH_COOLDOWN_SECONDS) * 1000;
+    if (!jwk && Date.now() - this.lastJwksRefresh >= cooldownMs) {
+      // Set before awaiting, so concurrent requests with unknown keys share the cooldown
+      this.lastJwksRefresh = Date.now();
+      jwk = this.findKey((await this.jwksProvider.getJwks(true)).keys, kid);
+    }
+
+    if (!jwk) {
+      throw new Error(`Invalid token: No matching key found for kid ${kid}`);
+    }
+
+    let key: KeyObject;
+    try {
+      key = createPublicKey({ key: { kty: jwk.kty, n: jwk.n, e: jwk.e }, format: 'jwk' });
+    } catch {
+      // A malformed key in the JWKS cannot verify anything, so its tokens are rejected
+      throw new Error(`Invalid token: Malformed JWKS key for kid ${kid}`);
+    }
+
+    if (this.keyCache.size >= MAX_CACHED_KEYS) {
+      // Maps keep insertion order, so the first key is the oldest
+      this.keyCache.delete(this.keyCache.keys().next().value as string);
+    }
+    this.keyCache.set(kid, key);
+
+    return key;
+  }
+
+  /**
+   * Finds an RSA signing key by key ID
+   * @param keys - The keys of the JWKS
+   * @param kid - The key ID
+   * @returns The matching key, if any
+   */
+  private findKey(keys: Jwk[], kid: string): Jwk | undefined {
+    return keys.find(
+      (key) => key.kid === kid && key.kty === 'RSA' && (!key.use || key.use === 'sig'),
+    );
+  }
+}
@@ -0,0 +1,273 @@
+import { EventEmitter } from 'events';
+
+import {
+  AuthParams,
+  AuthResponse,
+  CognitoSessionEvents,
+  CognitoSessionOptions,
+  SessionSignOutParams,
+  TokenStorage,
+} from '../types';
+
+import { CognitoUserClient } from './CognitoUserClient';
+
+const DEFAULT_REFRESH_WINDOW_SECONDS = 300;
+
+/**
+ * Keeps the tokens of a signed-in user and refreshes them before they expire
+ */
+export class CognitoSession {
+  private client: CognitoUserClient;
+  private refreshWindowMs: number;
+  private storage?: TokenStorage;
+  private events = new EventEmitter();
+  private authResponse?: AuthResponse;
+  private expiresAt?: Date;
+  private userSub?: string;
+  private refreshPromise?: Promise<AuthResponse>;
+  // Incremented whenever the session ends, so refreshes started before then are discarded
+  private epoch = 0;
+
+  /**
+   * Creates a new instance of CognitoSession
+   * @param client - The user client used to sign in, refresh and sign out
+   * @param options - Optional initial tokens, user sub, refresh window and token storage
+   */
+  constructor(client: CognitoUserClient, options: CognitoSessionOptions = {}) {
+    this.client = client;
+    this.refreshWindowMs = (options.refreshWindowSeconds ?? DEFAULT_REFRESH_WINDOW_SECONDS) * 1000;
+    this.storage = options.storage;
+
+    if (options.authResponse) {
+      this.applyAuthResponse(options.authResponse, options.userSub);
+    }
+  }
+
+  /**
+   * Restores the session saved in the token storage
+   * @returns True if a session was restored
+   */
+  async restore(): Promise<boolean> {
+    const stored = await this.storage?.load();
+
+    if (!stored) {
+      return false;
+    }
+
+    this.authResponse = stored.authResponse;
+    this.expiresAt = new Date(stored.expiresAt);
+    this.userSub = stored.userSub || stored.authResponse.claims?.idToken.sub;
+
+    return true;
+  }
+
+  /**
+   * Signs in with username and password and starts the session
+   * @param params - Authentication parameters containing username and password
+   * @returns Authentication result with tokens
+   */
+  async signIn(params: AuthParams): Promise<AuthResponse> {
+    const authResponse = await this.client.signIn(params);
+    await this.setAuthResponse(authResponse);
+
+    return authResponse;
+  }
+
+  /**
+   * Starts the session with tokens obtained elsewhere, e.g. after answering a challenge
+   * @param authResponse - The tokens to hold
+   * @param userSub - Optional user sub, required for refresh when a client secret is set and the ID token cannot be decoded
+   */
+  async setAuthResponse(authResponse: AuthResponse, userSub?: string): Promise<void> {
+    this.applyAuthResponse(authResponse, userSub);
+    await this.persist();
+  }
+
+  /**
+   * Gets the tokens currently held by the session
+   * @returns The tokens, or undefined when signed out
+   */
+  getAuthResponse(): AuthResponse | undefined {
+    return this.authResponse;
+  }
+
+  /**
+   * Gets the absolute time at which the access token expires
+   * @returns The expiry time, or undefined when signed out
+   */
+  getExpiresAt(): Date | undefined {
+    return this.expiresAt;
+  }
+
+  /**
+   * Checks whether the access token has expired
+   * @returns True if there are no tokens or the access token has expired
+   */
+  isExpired(): boolean {
+    return !this.expiresAt || Date.now() >= this.expiresAt.getTime();
+  }
+
+  /**
+   * Gets an access token that is valid for at least the refresh window, refreshing it if needed
+   * @returns The access token
+   */
+  async getValidAccessToken(): Promise<string> {
+    if (!this.authResponse || !this.expiresAt) {
+      throw new Error('Failed to get access token: No active session');
+    }
+
+    if (Date.now() < this.expiresAt.getTime() - this.refreshWindowMs) {
+      return this.authResponse.accessToken;
+    }
+
+    const authResponse = await this.refresh();
+
+    return authResponse.accessToken;
+  }
+
+  /**
+   * Refreshes the tokens. Concurrent calls share a single request to Cognito
+   * @returns The refreshed tokens
+   */
+  refresh(): Promise<AuthResponse> {
+    if (!this.refreshPromise) {
+      const refreshPromise = this.refreshTokens().finally(() => {
+        if (this.refreshPromise === refreshPromise) {
+          this.refreshPromise = undefined;
+        }
+      });
+      this.refreshPromise = refreshPromise;
+    }
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Ends the session and clears the token storage, optionally revoking the tokens on every device.
+   * The session ends even if revoking the tokens fails; that error is then rethrown
+   * @param params - Optional sign-out parameters
+   */
+  async signOut(params: SessionSignOutParams = {}): Promise<void> {
+    const authResponse = this.authResponse;
+
+    try {
+      if (params.global && authResponse) {
+        await this.client.globalSignOut({ accessToken: authResponse.accessToken });
+      }
+    } finally {
+      await this.end();
+    }
+  }
+
+  /**
+   * Deletes the signed-in user and ends the session
+   * @returns Success status
+   */
+  async deleteMe(): Promise<boolean> {
+    const accessToken = await this.getValidAccessToken();
+
+    await this.client.deleteMe({ authorization: `Bearer ${accessToken}` });
+    await this.end();
+
+    return true;
+  }
+
+  /**
+   * Registers a listener for a session event
+   * @param event - The event name
+   * @param listener - The listener to call
+   * @returns The session, for chaining
+   */
+  on<TEvent extends keyof CognitoSessionEvents>(
+    event: TEvent,
+    listener: (...args: CognitoSessionEvents[TEvent]) => void,
+  ): this {
+    this.events.on(event, listener as (...args: unknown[]) => void);
+    return this;
+  }
+
+  /**
+   * Removes a listener for a session event
+   * @param event - The event name
+   * @param listener - The listener to remove
+   * @returns The session, for chaining
+   */
+  off<TEvent extends keyof CognitoSessionEvents>(
+    event: TEvent,
+    listener: (...args: CognitoSessionEvents[TEvent]) => void,
+  ): this {
+    this.events.off(event, listener as (...args: unknown[]) => void);
+    return this;
+  }
+
+  /**
+   * Calls Cognito to refresh the tokens and emits the outcome. If the session ends while
+   * the request is in flight, the new tokens are discarded instead of being held and stored
+   * @returns The refreshed tokens
+   */
+  private async refreshTokens(): Promise<AuthResponse> {
+    if (!this.authResponse) {
+      throw new Error('Failed to refresh token: No active session');
+    }
+
+    const epoch = this.epoch;
+
+    try {
+      const authResponse = await this.client.refreshToken({
+        refreshToken: this.authResponse.refreshToken,
+        userSub: this.userSub,
+      });
+
+      if (epoch !== this.epoch) {
+        throw new Error('Failed to refresh token: Session ended');
+      }
+
+      await this.setAuthResponse(authResponse);
+      this.events.emit('refresh', authResponse);
+
+      return authResponse;
+    } catch (error) {
+      if (epoch === this.epoch) {
+        this.events.emit('refreshFailure', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Holds new tokens and computes their absolute expiry
+   * @param authResponse - The tokens to hold
+   * @param userSub - Optional user sub
+   */
+  private applyAuthResponse(authResponse: AuthResponse, userSub?: string): void {
+    this.authResponse = authResponse;
+    this.expiresAt = new Date(Date.now() + authResponse.expiresIn * 1000);
+    this.userSub = userSub || authResponse.claims?.idToken.sub || this.userSub;
+  }
+
+  /**
+   * Saves the current tokens to the token storage, if any
+   */
+  private async persist(): Promise<void> {
+    if (this.storage && this.authResponse && this.expiresAt) {
+      await this.storage.save({
+        authResponse: this.authResponse,
+        expiresAt: this.expiresAt.getTime(),
+        userSub: this.userSub,
+      });
+    }
+  }
+
+  /**
+   * Forgets the tokens, cancels a pending refresh, clears the token storage and emits signOut
+   */
+  private async end(): Promise<void> {
+    this.epoch += 1;
+    this.refreshPromise = undefined;
+    this.authResponse = undefined;
+    this.expiresAt = undefined;
+    this.userSub = undefined;
+    await this.storage?.clear();
+    this.events.emit('signOut');
+  }
+}
@@ -27,6 +27,9 @@ import {
   SetUserSettingsCommand,
   UpdateDeviceStatusCommand,
   DeliveryMediumType,
+  RespondToAuthChallengeCommandOutput,
+  ServiceInputTypes,
+  ServiceOutputTypes,
 } from '@aws-sdk/client-cognito-identity-provider';
 
 import {
@@ -68,12 +71,34 @@ import {
   GetMeResponse,
   UpdateMeParams,
   DeleteMeParams,
+  InitiateSignInParams,
+  SignInResult,
+  RespondToChallengeParams,
+  RespondToMfaParams,
+  SelectMfaTypeParams,
+  CompleteMfaSetupParams,
+  RetryPolicy,
+  Paginator,
+  PaginateDevicesParams,
 } from '../types';
 
-import { mapAuthResult, mapToAttributeList, mapAttributes } from '../utils/cognitoMapper';
+import {
+  mapAuthResult,
+  mapToAttributeList,
+  mapAttributes,
+  mapSignInResult,
+  formatError,
+} from '../utils/cognitoMapper';
+
+import { createPaginator } from '../utils/pagination';
+import { CognitoCommand, sendCommand } from '../utils/sendCommand';
 
 import { extractAccessToken } from '../utils/tokenUtils';
 
+import { calculatePasswordClaim, createSrpSession } from '../utils/srpUtils';
+
+import { calculateSecretHash } from '../utils/secretHash';
+
 /**
  * Client for Cognito user operations that don't require admin privileges
  */
@@ -108,30 +133,313 @@ export class CognitoUserClient {
     });
   }
 
+  /**
+   * Creates a client that shares this client's connection and rate limiter but uses a different retry policy
+   * @param retry - Retry policy settings that override the configured ones
+   * @returns A new CognitoUserClient instance
+   */
+  withRetry(retry: RetryPolicy): CognitoUserClient {
+    return new CognitoUserClient(
+      { ...this.config, retry: { ...this.config.retry, ...retry } },
+      this.client,
+    );
+  }
+
+  /**
+   * Sends a command to Cognito with this client's retry policy and rate limiter
+   * @param operation - The operation name used for rate limiting and retries
+   * @param command - The command to send
+   * @returns The command output
+   */
+  private send<TInput extends ServiceInputTypes, TOutput extends ServiceOutputTypes>(
+    operation: string,
+    command: CognitoCommand<TInput, TOutput>,
+  ): Promise<TOutput> {
+    return sendCommand(this.client, operation, command, this.config);
+  }
+
   /**
    * Authenticates a user with username and password
    * @param params - Authentication parameters containing username and password
    * @returns Authentication result with tokens
    */
   async signIn(params: AuthParams): Promise<AuthResponse> {
+    const result = await this.initiateSignIn(params);
+
+    if (result.type !== 'tokens') {
+      throw new Error(
+        `Authentication failed: ${result.challengeName} challenge must be completed, use initiateSignIn`,
+      );
+    }
+
+    return result.tokens;
+  }
+
+  /**
+   * Authenticates a user with the Secure Remote Password protocol (USER_SRP_AUTH),
+   * so the password never leaves the client
+   * @param params - Authentication parameters containing username and password
+   * @returns Authentication result with tokens
+   */
+  async signInWithSrp(params: AuthParams): Promise<AuthResponse> {
     const { username, password } = params;
 
-    const response = await this.client.send(
+    const { response } = await this.authenticateWithSrp(username, password);
+
+    if (!response.AuthenticationResult) {
+      throw new Error('Authentication failed: No authentication result returned');
+    }
+
+    return mapAuthResult(response.AuthenticationResult);
+  }
+
+  /**
+   * Starts a sign-in that may require further challenges such as MFA or a new password
+   * @param params - Authentication parameters with optional auth flow and client metadata
+   * @returns Either the issued tokens or the next challenge to complete
+   */
+  async initiateSignIn(params: InitiateSignInParams): Promise<SignInResult> {
+    const { username, password, authFlow = 'USER_PASSWORD_AUTH', clientMetadata } = params;
+
+    if (authFlow === 'USER_SRP_AUTH') {
+      const { response, userIdForSrp } = await this.authenticateWithSrp(
+        username,
+        password,
+        clientMetadata,
+      );
+      return mapSignInResult(response, userIdForSrp);
+    }
+
+    const response = await this.send(
+      'InitiateAuth',
       new InitiateAuthCommand({
         AuthFlow: AuthFlowType.USER_PASSWORD_AUTH,
         ClientId: this.config.clientId,
         AuthParameters: {
           USERNAME: username,
           PASSWORD: password,
+          ...this.getSecretHashParameter(username),
         },
+        ClientMetadata: clientMetadata,
       }),
     );
 
-    if (!response.AuthenticationResult) {
-      throw new Error('Authentication failed: No authentication result returned');
+    return mapSignInResult(response, username);
+  }
+
+  /**
+   * Responds to any sign-in challenge returned by initiateSignIn
+   * @param params - Challenge name, username, session and the challenge responses
+   * @returns Either the issued tokens or the next challenge to complete
+   */
+  async respondToChallenge(params: RespondToChallengeParams): Promise<SignInResult> {
+    const { challengeName, username, session, challengeResponses, clientMetadata } = params;
+
+    const response = await this.send(
+      'RespondToAuthChallenge',
+      new RespondToAuthChallengeCommand({
+        ClientId: this.config.clientId,
+        ChallengeName: challengeName as ChallengeNameType,
+        Session: session,
+        ChallengeResponses: {
+          USERNAME: username,
+          ...challengeResponses,
+          ...this.getSecretHashParameter(username),
+        },
+        ClientMetadata: clientMetadata,
+      }),
+    );
+
+    return mapSignInResult(response, username);
+  }
+
+  /**
+   * Answers an SMS_MFA challenge with the code sent to the user's phone
+   * @param params - Username, session and the SMS code
+   * @returns Either the issued tokens or the next challenge to complete
+   */
+  async respondToSmsMfa(params: RespondToMfaParams): Promise<SignInResult> {
+    const { username, session, code, clientMetadata } = params;
+
+    return this.respondToChallenge({
+      challengeName: ChallengeNameType.SMS_MFA,
+      username,
+      session,
+      challengeResponses: { SMS_MFA_CODE: code },
+      clientMetadata,
+    });
+  }
+
+  /**
+   * Answers a SOFTWARE_TOKEN_MFA challenge with a code from the user's authenticator app
+   * @param params - Username, session and the TOTP code
+   * @returns Either the issued tokens or the next challenge to complete
+   */
+  async respondToTotpMfa(params: RespondToMfaParams): Promise<SignInResult> {
+    const { username, session, code, clientMetadata } = params;
+
+    return this.respondToChallenge({
+      challengeName: ChallengeNameType.SOFTWARE_TOKEN_MFA,
+      username,
+      session,
+      challengeResponses: { SOFTWARE_TOKEN_MFA_CODE: code },
+      clientMetadata,
+    });
+  }
+
+  /**
+   * Answers an EMAIL_OTP challenge with the code sent to the user's email address
+   * @param params - Username, session and the email code
+   * @returns Either the issued tokens or the next challenge to complete
+   */
+  async respondToEmailOtp(params: RespondToMfaParams): Promise<SignInResult> {
+    const { username, session, code, clientMetadata } = params;
+
+    return this.respondToChallenge({
+      challengeName: ChallengeNameType.EMAIL_OTP,
+      username,
+      session,
+      challengeResponses: { EMAIL_OTP_CODE: code },
+      clientMetadata,
+    });
+  }
+
+  /**
+   * Answers a SELECT_MFA_TYPE challenge with the MFA method the user picked
+   * @param params - Username, session and the chosen MFA type
+   * @returns The challenge for the chosen MFA method
+   */
+  async selectMfaType(params: SelectMfaTypeParams): Promise<SignInResult> {
+    const { username, session, mfaType, clientMetadata } = params;
+
+    return this.respondToChallenge({
+      challengeName: ChallengeNameType.SELECT_MFA_TYPE,
+      username,
+      session,
+      challengeResponses: { ANSWER: mfaType },
+      clientMetadata,
+    });
+  }
+
+  /**
+   * Completes an MFA_SETUP challenge by verifying the first code from the user's authenticator app.
+   * Call associateSoftwareToken with the challenge session first and pass on the session it returns.
+   * @param params - Username, session from associateSoftwareToken and the code from the app
+   * @returns Either the issued tokens or the next challenge to complete
+   */
+  async completeMfaSetup(params: CompleteMfaSetupParams): Promise<SignInResult> {
+    const { username, session, userCode, friendlyDeviceName, clientMetadata } = params;
+
+    const verifyResponse = await this.send(
+      'VerifySoftwareToken',
+      new VerifySoftwareTokenCommand({
+        Session: session,
+        UserCode: userCode,
+        FriendlyDeviceName: friendlyDeviceName,
+      }),
+    );
+
+    if (verifyResponse.Status !== 'SUCCESS') {
+      throw new Error('Failed to verify software token: Verification was not successful');
     }
 
-    return mapAuthResult(response.AuthenticationResult);
+    return this.respondToChallenge({
+      challengeName: ChallengeNameType.MFA_SETUP,
+      username,
+      session: verifyResponse.Session || session,
+      challengeResponses: {},
+      clientMetadata,
+    });
+  }
+
+  /**
+   * Calculates the SECRET_HASH for a user when the app client has a client secret
+   * @param username - The username, or the user's sub for the refresh token flow
+   * @returns The secret hash, or undefined if no client secret is configured
+   */
+  private getSecretHash(username: string): string | undefined {
+    if (!this.config.clientSecret) {
+      return undefined;
+    }
+
+    return calculateSecretHash(username, this.config.clientId, this.config.clientSecret);
+  }
+
+  /**
+   * Builds the SECRET_HASH entry for AuthParameters and ChallengeResponses maps
+   * @param username - The username, or the user's sub for the refresh token flow
+   * @returns An object containing SECRET_HASH, or an empty object if no client secret is configured
+   */
+  private getSecretHashParameter(username: string): Record<string, string> {
+    const secretHash = this.getSecretHash(username);
+    return secretHash ? { SECRET_HASH: secretHash } : {};
+  }
+
+  /**
+   * Runs the SRP handshake up to and including the PASSWORD_VERIFIER challenge
+   * @param username - The username
+   * @param password - The password
+   * @param clientMetadata - Optional metadata passed to Lambda triggers
+   * @returns The response to the PASSWORD_VERIFIER challenge and the user ID Cognito assigned for SRP
+   */
+  private async authenticateWithSrp(
+    username: string,
+    password: string,
+    clientMetadata?: Record<string, string>,
+  ): Promise<{ response: RespondToAuthChallengeCommandOutput; userIdForSrp: string }> {
+    const srpSession = createSrpSession();
+
+    const initResponse = await this.send(
+      'InitiateAuth',
+      new InitiateAuthCommand({
+        AuthFlow: AuthFlowType.USER_SRP_AUTH,
+        ClientId: this.config.clientId,
+        AuthParameters: {
+          USERNAME: username,
+          SRP_A: srpSession.largeA.toString(16),
+          ...this.getSecretHashParameter(username),
+        },
+        ClientMetadata: clientMetadata,
+      }),
+    );
+
+    const challengeParameters = initResponse.ChallengeParameters;
+    if (
+      initResponse.ChallengeName !== ChallengeNameType.PASSWORD_VERIFIER ||
+      !challengeParameters
+    ) {
+      throw new Error('Authentication failed: Expected PASSWORD_VERIFIER challenge');
+    }
+
+    const userIdForSrp = challengeParameters.USER_ID_FOR_SRP || username;
+    const claim = calculatePasswordClaim({
+      userPoolId: this.config.userPoolId,
+      userIdForSrp,
+      password,
+      srpB: challengeParameters.SRP_B,
+      salt: challengeParameters.SALT,
+      secretBlock: challengeParameters.SECRET_BLOCK,
+      session: srpSession,
+    });
+
+    const response = await this.send(
+      'RespondToAuthChallenge',
+      new RespondToAuthChallengeCommand({
+        ClientId: this.config.clientId,
+        ChallengeName: ChallengeNameType.PASSWORD_VERIFIER,
+        Session: initResponse.Session,
+        ChallengeResponses: {
+          USERNAME: userIdForSrp,
+          PASSWORD_CLAIM_SECRET_BLOCK: claim.passwordClaimSecretBlock,
+          PASSWORD_CLAIM_SIGNATURE: claim.passwordClaimSignature,
+          TIMESTAMP: claim.timestamp,
+          ...this.getSecretHashParameter(userIdForSrp),
+        },
+        ClientMetadata: clientMetadata,
+      }),
+    );
+
+    return { response, userIdForSrp };
   }
 
   /**
@@ -149,9 +457,11 @@ export class CognitoUserClient {
       ...mapToAttributeList(attributes),
     ];
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'SignUp',
       new SignUpCommand({
         ClientId: this.config.clientId,
+        SecretHash: this.getSecretHash(username),
         Username: username,
         Password: password,
         UserAttributes: userAttributes,
@@ -173,9 +483,11 @@ export class CognitoUserClient {
   async confirmSignUp(params: ConfirmSignUpParams): Promise<boolean> {
     const { username, confirmationCode } = params;
 
-    await this.client.send(
+    await this.send(
+      'ConfirmSignUp',
       new ConfirmSignUpCommand({
         ClientId: this.config.clientId,
+        SecretHash: this.getSecretHash(username),
         Username: username,
         ConfirmationCode: confirmationCode,
       }),
@@ -192,9 +504,11 @@ export class CognitoUserClient {
   async forgotPassword(params: ForgotPasswordParams): Promise<boolean> {
     const { username } = params;
 
-    await this.client.send(
+    await this.send(
+      'ForgotPassword',
       new ForgotPasswordCommand({
         ClientId: this.config.clientId,
+        SecretHash: this.getSecretHash(username),
         Username: username,
       }),
     );
@@ -210,9 +524,11 @@ export class CognitoUserClient {
   async confirmForgotPassword(params: ConfirmForgotPasswordParams): Promise<boolean> {
     const { username, confirmationCode, newPassword } = params;
 
-    await this.client.send(
+    await this.send(
+      'ConfirmForgotPassword',
       new ConfirmForgotPasswordCommand({
         ClientId: this.config.clientId,
+        SecretHash: this.getSecretHash(username),
         Username: username,
         ConfirmationCode: confirmationCode,
         Password: newPassword,
@@ -224,18 +540,24 @@ export class CognitoUserClient {
 
   /**
    * Refreshes the authentication tokens using a refresh token
-   * @param params - Parameters with refresh token
+   * @param params - Parameters with refresh token, and the user's sub when the client has a secret
    * @returns New authentication tokens
    */
   async refreshToken(params: RefreshTokenParams): Promise<AuthResponse> {
-    const { refreshToken } = params;
+    const { refreshToken, userSub } = params;
 
-    const response = await this.client.send(
+    if (this.config.clientSecret && !userSub) {
+      throw new Error('Failed to refresh token: userSub is required when a client secret is set');
+    }
+
+    const response = await this.send(
+      'InitiateAuth',
       new InitiateAuthCommand({
         AuthFlow: AuthFlowType.REFRESH_TOKEN_AUTH,
         ClientId: this.config.clientId,
         AuthParameters: {
           REFRESH_TOKEN: refreshToken,
+          ...(userSub ? this.getSecretHashParameter(userSub) : {}),
         },
       }),
     );
@@ -261,7 +583,8 @@ export class CognitoUserClient {
   async changePassword(params: ChangePasswordParams): Promise<boolean> {
     const { accessToken, oldPassword, newPassword } = params;
 
-    await this.client.send(
+    await this.send(
+      'ChangePassword',
       new ChangePasswordCommand({
         AccessToken: accessToken,
         PreviousPassword: oldPassword,
@@ -280,7 +603,8 @@ export class CognitoUserClient {
   async getUserAttributes(params: GetUserAttributesParams): Promise<GetUserAttributesResponse> {
     const { accessToken } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'GetUser',
       new GetUserCommand({
         AccessToken: accessToken,
       }),
@@ -303,7 +627,8 @@ export class CognitoUserClient {
   async updateUserAttributes(params: UpdateUserAttributesParams): Promise<boolean> {
     const { accessToken, attributes } = params;
 
-    await this.client.send(
+    await this.send(
+      'UpdateUserAttributes',
       new UpdateUserAttributesCommand({
         AccessToken: accessToken,
         UserAttributes: mapToAttributeList(attributes),
@@ -319,7 +644,8 @@ export class CognitoUserClient {
    * @returns Success status
    */
   async getAttributeVerificationCode(accessToken: string, attributeName: string): Promise<boolean> {
-    await this.client.send(
+    await this.send(
+      'GetUserAttributeVerificationCode',
       new GetUserAttributeVerificationCodeCommand({
         AccessToken: accessToken,
         AttributeName: attributeName,
@@ -337,7 +663,8 @@ export class CognitoUserClient {
   async verifyUserAttribute(params: VerifyAttributeParams): Promise<boolean> {
     const { accessToken, attributeName, code } = params;
 
-    await this.client.send(
+    await this.send(
+      'VerifyUserAttribute',
       new VerifyUserAttributeCommand({
         AccessToken: accessToken,
         AttributeName: attributeName,
@@ -356,7 +683,8 @@ export class CognitoUserClient {
   async getMFAOptions(params: GetMFAOptionsParams): Promise<MFAOption[]> {
     const { accessToken } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'GetUser',
       new GetUserCommand({
         AccessToken: accessToken,
       }),
@@ -374,17 +702,23 @@ export class CognitoUserClient {
 
   /**
    * Associates a software token for MFA
-   * @param params - Parameters with access token
-   * @returns Software token secret code
+   * @param params - Parameters with access token, or the session of an MFA_SETUP challenge
+   * @returns Software token secret code and, when a session was used, the session for the next step
    */
   async associateSoftwareToken(
     params: AssociateSoftwareTokenParams,
   ): Promise<AssociateSoftwareTokenResponse> {
-    const { accessToken } = params;
+    const { accessToken, session } = params;
 
-    const response = await this.client.send(
+    if (!accessToken && !session) {
+      throw new Error('Failed to associate software token: Access token or session is required');
+    }
+
+    const response = await this.send(
+      'AssociateSoftwareToken',
       new AssociateSoftwareTokenCommand({
         AccessToken: accessToken,
+        Session: session,
       }),
     );
 
@@ -406,7 +740,8 @@ export class CognitoUserClient {
   async verifySoftwareToken(params: VerifySoftwareTokenParams): Promise<boolean> {
     const { accessToken, userCode, friendlyDeviceName, session } = params;
 
-    await this.client.send(
+    await this.send(
+      'VerifySoftwareToken',
       new VerifySoftwareTokenCommand({
         AccessToken: accessToken,
         UserCode: userCode,
@@ -426,7 +761,8 @@ export class CognitoUserClient {
   async setUserMFAPreference(params: SetUserMFAPreferenceParams): Promise<boolean> {
     const { accessToken, smsMfaSettings, softwareTokenMfaSettings } = params;
 
-    await this.client.send(
+    await this.send(
+      'SetUserMFAPreference',
       new SetUserMFAPreferenceCommand({
         AccessToken: accessToken,
         SMSMfaSettings: smsMfaSettings
@@ -455,7 +791,8 @@ export class CognitoUserClient {
   async getDevice(params: GetDeviceParams): Promise<DeviceType> {
     const { accessToken, deviceKey } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'GetDevice',
       new GetDeviceCommand({
         AccessToken: accessToken,
         DeviceKey: deviceKey,
@@ -488,7 +825,8 @@ export class CognitoUserClient {
   async forgetDevice(params: ForgetDeviceParams): Promise<boolean> {
     const { accessToken, deviceKey } = params;
 
-    await this.client.send(
+    await this.send(
+      'ForgetDevice',
       new ForgetDeviceCommand({
         AccessToken: accessToken,
         DeviceKey: deviceKey,
@@ -506,7 +844,8 @@ export class CognitoUserClient {
   async listDevices(params: ListDevicesParams): Promise<ListDevicesResponse> {
     const { accessToken, limit, paginationToken } = params;
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'ListDevices',
       new ListDevicesCommand({
         AccessToken: accessToken,
         Limit: limit,
@@ -532,6 +871,24 @@ export class CognitoUserClient {
     };
   }
 
+  /**
+   * Iterates over the user's remembered devices, fetching pages as needed
+   * @param params - Access token with optional page size, maximum number of devices and abort signal
+   * @returns A paginator over the devices
+   */
+  paginateDevices(params: PaginateDevicesParams): Paginator<DeviceType> {
+    const { accessToken, ...options } = params;
+
+    return createPaginator(async ({ limit, nextToken }) => {
+      const { devices, paginationToken } = await this.listDevices({
+        accessToken,
+        limit,
+        paginationToken: nextToken,
+      });
+      return { items: devices, nextToken: paginationToken };
+    }, options);
+  }
+
   /**
    * Signs out from all devices
    * @param params - Parameters with access token
@@ -540,7 +897,8 @@ export class CognitoUserClient {
   async globalSignOut(params: GlobalSignOutParams): Promise<boolean> {
     const { accessToken } = params;
 
-    await this.client.send(
+    await this.send(
+      'GlobalSignOut',
       new GlobalSignOutCommand({
         AccessToken: accessToken,
       }),
@@ -551,6 +909,7 @@ export class CognitoUserClient {
 
   /**
    * Responds to a new password required challenge
+   * @deprecated Use respondToChallenge, which also handles MFA and other challenges
    * @param challengeName - The name of the challenge
    * @param username - The username of the user
    * @param newPassword - The new password
@@ -563,23 +922,20 @@ export class CognitoUserClient {
     newPassword: string,
     session: string,
   ): Promise<AuthResponse> {
-    const response = await this.client.send(
-      new RespondToAuthChallengeCommand({
-        ClientId: this.config.clientId,
-        ChallengeName: challengeName as ChallengeNameType,
-        Session: session,
-        ChallengeResponses: {
-          USERNAME: username,
-          NEW_PASSWORD: newPassword,
-        },
-      }),
-    );
+    const result = await this.respondToChallenge({
+      challengeName,
+      username,
+      session,
+      challengeResponses: {
+        NEW_PASSWORD: newPassword,
+      },
+    });
 
-    if (!response.AuthenticationResult) {
+    if (result.type !== 'tokens') {
       throw new Error('Authentication challenge failed: No authentication result returned');
     }
 
-    return mapAuthResult(response.AuthenticationResult);
+    return result.tokens;
   }
 
   /**
@@ -590,7 +946,8 @@ export class CognitoUserClient {
   async deleteUserAttributes(params: DeleteUserAttributesParams): Promise<boolean> {
     const { accessToken, attributeNames } = params;
 
-    await this.client.send(
+    await this.send(
+      'DeleteUserAttributes',
       new DeleteUserAttributesCommand({
         AccessToken: accessToken,
         UserAttributeNames: attributeNames,
@@ -608,7 +965,8 @@ export class CognitoUserClient {
   async confirmDevice(params: ConfirmDeviceParams): Promise<boolean> {
     const { accessToken, deviceKey, deviceName, deviceSecretVerifierConfig } = params;
 
-    await this.client.send(
+    await this.send(
+      'ConfirmDevice',
       new ConfirmDeviceCommand({
         AccessToken: accessToken,
         DeviceKey: deviceKey,
@@ -633,7 +991,8 @@ export class CognitoUserClient {
   async deleteUser(params: DeleteUserParams): Promise<boolean> {
     const { accessToken } = params;
 
-    await this.client.send(
+    await this.send(
+      'DeleteUser',
       new DeleteUserCommand({
         AccessToken: accessToken,
       }),
@@ -650,9 +1009,11 @@ export class CognitoUserClient {
   async resendConfirmationCode(params: ResendConfirmationCodeParams): Promise<boolean> {
     const { username, clientMetadata } = params;
 
-    await this.client.send(
+    await this.send(
+      'ResendConfirmationCode',
       new ResendConfirmationCodeCommand({
         ClientId: this.config.clientId,
+        SecretHash: this.getSecretHash(username),
         Username: username,
         ClientMetadata: clientMetadata,
       }),
@@ -669,7 +1030,8 @@ export class CognitoUserClient {
   async setUserSettings(params: SetUserSettingsParams): Promise<boolean> {
     const { accessToken, mfaOptions } = params;
 
-    await this.client.send(
+    await this.send(
+      'SetUserSettings',
       new SetUserSettingsCommand({
         AccessToken: accessToken,
         MFAOptions: mfaOptions.map((option) => ({
@@ -690,7 +1052,8 @@ export class CognitoUserClient {
   async updateDeviceStatus(params: UpdateDeviceStatusParams): Promise<boolean> {
     const { accessToken, deviceKey, deviceRememberedStatus } = params;
 
-    await this.client.send(
+    await this.send(
+      'UpdateDeviceStatus',
       new UpdateDeviceStatusCommand({
         AccessToken: accessToken,
         DeviceKey: deviceKey,
@@ -704,21 +1067,10 @@ export class CognitoUserClient {
   /**
    * Gets error information from an Error object
    * @param error - The error object
-   * @returns The original error - no longer mapped
+   * @returns The normalized error code, exception name and message
    */
   getErrorInfo(error: unknown): CognitoErrorInfo {
-    if (error instanceof Error) {
-      return {
-        code: 'UnknownError',
-        name: error.name,
-        message: error.message,
-      };
-    }
-    return {
-      code: 'UnknownError',
-      name: 'Error',
-      message: String(error),
-    };
+    return formatError(error);
   }
 
   /**
@@ -734,7 +1086,8 @@ export class CognitoUserClient {
       throw new Error('No access token provided in authorization header');
     }
 
-    const response = await this.client.send(
+    const response = await this.send(
+      'GetUser',
       new GetUserCommand({
         AccessToken: accessToken,
       }),
@@ -763,7 +1116,8 @@ export class CognitoUserClient {
       throw new Error('No access token provided in authorization header');
     }
 
-    await this.client.send(
+    await this.send(
+      'UpdateUserAttributes',
       new UpdateUserAttributesCommand({
         AccessToken: accessToken,
         UserAttributes: mapToAttributeList(attributes),
@@ -786,7 +1140,8 @@ export class CognitoUserClient {
       throw new Error('No access token provided in authorization header');
     }
 
-    await this.client.send(
+    await this.send(
+      'DeleteUser',
       new DeleteUserCommand({
         AccessToken: accessToken,
       }),
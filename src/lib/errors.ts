@@ -0,0 +1,263 @@
+import { CognitoClientErrorOptions, CognitoErrorCode } from '../types';
+
+/**
+ * Base class of every error thrown by the clients for a failed Cognito request.
+ * The original SDK exception is kept as cause
+ */
+export class CognitoClientError extends Error {
+  static readonly defaultCode: CognitoErrorCode = 'UnknownError';
+
+  readonly code: CognitoErrorCode;
+  readonly cause?: unknown;
+  readonly exceptionName?: string;
+  readonly requestId?: string;
+  readonly httpStatusCode?: number;
+
+  /**
+   * Creates a new instance of CognitoClientError
+   * @param message - The error message
+   * @param options - Optional code, cause, exception name, request ID and HTTP status
+   */
+  constructor(message: string, options: CognitoClientErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = options.code ?? (new.target as typeof CognitoClientError).defaultCode;
+    this.cause = options.cause;
+    this.exceptionName = options.exceptionName;
+    this.requestId = options.requestId;
+    this.httpStatusCode = options.httpStatusCode;
+  }
+}
+
+/** The user does not exist */
+export class UserNotFoundError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'UserNotFound';
+}
+
+/** Wrong credentials, or an invalid, expired or revoked token */
+export class NotAuthorizedError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'NotAuthorized';
+}
+
+/** The user has not confirmed their account */
+export class UserNotConfirmedError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'UserNotConfirmed';
+}
+
+/** The user must reset their password before signing in */
+export class PasswordResetRequiredError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'PasswordResetRequired';
+}
+
+/** The verification or MFA code is wrong */
+export class CodeMismatchError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'CodeMismatch';
+}
+
+/** The verification code has expired */
+export class ExpiredCodeError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'ExpiredCode';
+}
+
+/** The username, email or phone number is already in use */
+export class UsernameExistsError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'UsernameExists';
+}
+
+/** The password does not meet the user pool's password policy or was used before */
+export class PasswordPolicyError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'InvalidPassword';
+}
+
+/** The request was throttled */
+export class TooManyRequestsError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'TooManyRequests';
+}
+
+/** A service limit was reached, e.g. too many verification messages */
+export class LimitExceededError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'LimitExceeded';
+}
+
+/** The user failed too many attempts and is temporarily blocked */
+export class TooManyFailedAttemptsError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'TooManyFailedAttempts';
+}
+
+/** A request parameter is invalid */
+export class InvalidParameterError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'InvalidParameter';
+}
+
+/** The user pool, client, group or other resource does not exist */
+export class ResourceNotFoundError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'ResourceNotFound';
+}
+
+/** The group, provider, device or other resource already exists */
+export class ResourceExistsError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'GroupExists';
+}
+
+/** The verification code could not be sent */
+export class CodeDeliveryFailureError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'CodeDeliveryFailure';
+}
+
+/** MFA is not set up for the user or the software token could not be enabled */
+export class MfaError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'MFAMethodNotFound';
+}
+
+/** A Lambda trigger rejected the request or failed */
+export class LambdaTriggerError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'UserLambdaValidation';
+}
+
+/** A WebAuthn ceremony failed */
+export class WebAuthnError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'WebAuthnChallengeNotFound';
+}
+
+/** The user pool, its roles or its feature plan do not allow the request */
+export class ConfigurationError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'InvalidUserPoolConfiguration';
+}
+
+/** The operation, identity provider, token type or user state is not supported */
+export class UnsupportedOperationError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'UnsupportedOperation';
+}
+
+/** The request conflicts with the current state, e.g. a running user import */
+export class ConflictError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'ConcurrentModification';
+}
+
+/** The request was blocked by AWS WAF */
+export class ForbiddenError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'Forbidden';
+}
+
+/** Cognito failed internally */
+export class InternalServiceError extends CognitoClientError {
+  static readonly defaultCode: CognitoErrorCode = 'InternalError';
+}
+
+/**
+ * The error class of every known error code
+ */
+const ERROR_CLASSES: Record<
+  Exclude<CognitoErrorCode, 'UnknownError'>,
+  typeof CognitoClientError
+> = {
+  AliasExists: UsernameExistsError,
+  CodeDeliveryFailure: CodeDeliveryFailureError,
+  CodeMismatch: CodeMismatchError,
+  ConcurrentModification: ConflictError,
+  DeviceKeyExists: ResourceExistsError,
+  DuplicateProvider: ResourceExistsError,
+  EnableSoftwareTokenMFA: MfaError,
+  ExpiredCode: ExpiredCodeError,
+  FeatureUnavailableInTier: ConfigurationError,
+  Forbidden: ForbiddenError,
+  GroupExists: ResourceExistsError,
+  InternalError: InternalServiceError,
+  InvalidEmailRoleAccessPolicy: ConfigurationError,
+  InvalidLambdaResponse: LambdaTriggerError,
+  InvalidOAuthFlow: ConfigurationError,
+  InvalidParameter: InvalidParameterError,
+  InvalidPassword: PasswordPolicyError,
+  InvalidSmsRoleAccessPolicy: ConfigurationError,
+  InvalidSmsRoleTrustRelationship: ConfigurationError,
+  InvalidUserPoolConfiguration: ConfigurationError,
+  LimitExceeded: LimitExceededError,
+  MFAMethodNotFound: MfaError,
+  ManagedLoginBrandingExists: ResourceExistsError,
+  NotAuthorized: NotAuthorizedError,
+  PasswordHistoryPolicyViolation: PasswordPolicyError,
+  PasswordResetRequired: PasswordResetRequiredError,
+  PreconditionNotMet: ConflictError,
+  RefreshTokenReuse: NotAuthorizedError,
+  ResourceNotFound: ResourceNotFoundError,
+  ScopeDoesNotExist: ConfigurationError,
+  SoftwareTokenMFANotFound: MfaError,
+  TierChangeNotAllowed: ConfigurationError,
+  TooManyFailedAttempts: TooManyFailedAttemptsError,
+  TooManyRequests: TooManyRequestsError,
+  Unauthorized: NotAuthorizedError,
+  UnexpectedLambda: LambdaTriggerError,
+  UnsupportedIdentityProvider: UnsupportedOperationError,
+  UnsupportedOperation: UnsupportedOperationError,
+  UnsupportedTokenType: UnsupportedOperationError,
+  UnsupportedUserState: UnsupportedOperationError,
+  UserImportInProgress: ConflictError,
+  UserLambdaValidation: LambdaTriggerError,
+  UserNotConfirmed: UserNotConfirmedError,
+  UserNotFound: UserNotFoundError,
+  UserPoolAddOnNotEnabled: ConfigurationError,
+  UserPoolTagging: ConfigurationError,
+  UsernameExists: UsernameExistsError,
+  WebAuthnChallengeNotFound: WebAuthnError,
+  WebAuthnClientMismatch: WebAuthnError,
+  WebAuthnConfigurationMissing: ConfigurationError,
+  WebAuthnCredentialNotSupported: UnsupportedOperationError,
+  WebAuthnNotEnabled: ConfigurationError,
+  WebAuthnOriginNotAllowed: WebAuthnError,
+  WebAuthnRelyingPartyMismatch: WebAuthnError,
+};
+
+/**
+ * Converts an error thrown by the AWS SDK into the matching CognitoClientError subclass.
+ * CognitoClientErrors are returned unchanged
+ * @param error - The error thrown by the AWS SDK
+ * @returns The typed error, carrying the original error as cause
+ */
+export const toCognitoClientError = (error: unknown): CognitoClientError => {
+  if (error instanceof CognitoClientError) {
+    return error;
+  }
+
+  const details = (typeof error === 'object' && error !== null ? error : {}) as {
+    name?: unknown;
+    message?: unknown;
+    $metadata?: { requestId?: string; httpStatusCode?: number };
+  };
+  const exceptionName = typeof details.name === 'string' ? details.name : undefined;
+  const code = exceptionName?.replace(/Exception$/, '');
+  const knownCode =
+    code && Object.prototype.hasOwnProperty.call(ERROR_CLASSES, code)
+      ? (code as keyof typeof ERROR_CLASSES)
+      : undefined;
+  const ErrorClass = knownCode ? ERROR_CLASSES[knownCode] : CognitoClientError;
+
+  return new ErrorClass(typeof details.message === 'string' ? details.message : String(error), {
+    code: knownCode ?? 'UnknownError',
+    cause: error,
+    exceptionName,
+    requestId: details.$metadata?.requestId,
+    httpStatusCode: details.$metadata?.httpStatusCode,
+  });
+};
+
+/**
+ * Checks whether an error is a CognitoClientError
+ * @param error - The error to check
+ * @returns True if the error is a CognitoClientError
+ */
+export const isCognitoClientError = (error: unknown): error is CognitoClientError => {
+  return error instanceof CognitoClientError;
+};
+
+/**
+ * Checks whether an error is a CognitoClientError with one of the given codes
+ * @param error - The error to check
+ * @param codes - The codes to match
+ * @returns True if the error has one of the codes
+ */
+export const hasErrorCode = (
+  error: unknown,
+  ...codes: CognitoErrorCode[]
+): error is CognitoClientError => {
+  return isCognitoClientError(error) && codes.includes(error.code);
+};
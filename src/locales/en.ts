@@ -0,0 +1,37 @@
+import { ErrorMessageBundle } from '../types';
+
+/**
+ * English error messages, used as the default fallback
+ */
+export const en: ErrorMessageBundle = {
+  AliasExists: 'An account with this email address or phone number already exists.',
+  CodeDeliveryFailure: 'We could not send the verification code. Please try again.',
+  CodeMismatch: 'The verification code is incorrect.',
+  EnableSoftwareTokenMFA: 'The authenticator code is incorrect.',
+  ExpiredCode: 'The verification code has expired. Please request a new one.',
+  Forbidden: 'This request was blocked.',
+  InvalidCredentials: 'Incorrect username or password.',
+  InvalidParameter: 'Some of the information you entered is invalid.',
+  InvalidPassword: 'Your password does not meet the requirements.',
+  LimitExceeded: 'Too many attempts. Please try again later.',
+  MFAMethodNotFound: 'Multi-factor authentication is not set up for this account.',
+  NotAuthorized: 'Incorrect username or password.',
+  PasswordHistoryPolicyViolation: 'You cannot reuse a previous password.',
+  PasswordResetRequired: 'You need to reset your password before signing in.',
+  SessionExpired: 'Your session has expired. Please sign in again.',
+  SoftwareTokenMFANotFound: 'An authenticator app is not set up for this account.',
+  TooManyFailedAttempts: 'Too many failed attempts. Please try again later.',
+  TooManyRequests: 'Too many requests. Please wait a moment and try again.',
+  UserLambdaValidation: 'Your request could not be completed.',
+  UserNotConfirmed: 'Please confirm your account before signing in.',
+  UserNotFound: 'No account was found for this username.',
+  UsernameExists: 'An account with this username already exists.',
+  UnknownError: 'Something went wrong. Please try again.',
+  PasswordRequirements: 'Your password must contain {requirements}.',
+  PasswordRequirementMinimumLength: 'at least {minimumLength} characters',
+  PasswordRequirementUppercase: 'an uppercase letter',
+  PasswordRequirementLowercase: 'a lowercase letter',
+  PasswordRequirementNumbers: 'a number',
+  PasswordRequirementSymbols: 'a special character',
+  ListSeparator: ', ',
+};
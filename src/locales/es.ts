@@ -0,0 +1,37 @@
+import { ErrorMessageBundle } from '../types';
+
+/**
+ * Spanish error messages
+ */
+export const es: ErrorMessageBundle = {
+  AliasExists: 'Ya existe una cuenta con este correo electrónico o número de teléfono.',
+  CodeDeliveryFailure: 'No pudimos enviar el código de verificación. Inténtalo de nuevo.',
+  CodeMismatch: 'El código de verificación es incorrecto.',
+  EnableSoftwareTokenMFA: 'El código del autenticador es incorrecto.',
+  ExpiredCode: 'El código de verificación ha caducado. Solicita uno nuevo.',
+  Forbidden: 'Esta solicitud fue bloqueada.',
+  InvalidCredentials: 'Usuario o contraseña incorrectos.',
+  InvalidParameter: 'Parte de la información introducida no es válida.',
+  InvalidPassword: 'Tu contraseña no cumple los requisitos.',
+  LimitExceeded: 'Demasiados intentos. Inténtalo de nuevo más tarde.',
+  MFAMethodNotFound: 'La autenticación multifactor no está configurada para esta cuenta.',
+  NotAuthorized: 'Usuario o contraseña incorrectos.',
+  PasswordHistoryPolicyViolation: 'No puedes reutilizar una contraseña anterior.',
+  PasswordResetRequired: 'Debes restablecer tu contraseña antes de iniciar sesión.',
+  SessionExpired: 'Tu sesión ha caducado. Vuelve a iniciar sesión.',
+  SoftwareTokenMFANotFound: 'No hay una aplicación de autenticación configurada para esta cuenta.',
+  TooManyFailedAttempts: 'Demasiados intentos fallidos. Inténtalo de nuevo más tarde.',
+  TooManyRequests: 'Demasiadas solicitudes. Espera un momento e inténtalo de nuevo.',
+  UserLambdaValidation: 'No se pudo completar tu solicitud.',
+  UserNotConfirmed: 'Confirma tu cuenta antes de iniciar sesión.',
+  UserNotFound: 'No se encontró ninguna cuenta con este nombre de usuario.',
+  UsernameExists: 'Ya existe una cuenta con este nombre de usuario.',
+  UnknownError: 'Algo salió mal. Inténtalo de nuevo.',
+  PasswordRequirements: 'Tu contraseña debe contener {requirements}.',
+  PasswordRequirementMinimumLength: 'al menos {minimumLength} caracteres',
+  PasswordRequirementUppercase: 'una letra mayúscula',
+  PasswordRequirementLowercase: 'una letra minúscula',
+  PasswordRequirementNumbers: 'un número',
+  PasswordRequirementSymbols: 'un carácter especial',
+  ListSeparator: ', ',
+};
@@ -0,0 +1,37 @@
+import { ErrorMessageBundle } from '../types';
+
+/**
+ * Simplified Chinese error messages
+ */
+export const zhCN: ErrorMessageBundle = {
+  AliasExists: '该邮箱地址或手机号已被其他账户使用。',
+  CodeDeliveryFailure: '验证码发送失败，请重试。',
+  CodeMismatch: '验证码不正确。',
+  EnableSoftwareTokenMFA: '身份验证器代码不正确。',
+  ExpiredCode: '验证码已过期，请重新获取。',
+  Forbidden: '该请求已被拦截。',
+  InvalidCredentials: '用户名或密码不正确。',
+  InvalidParameter: '您输入的部分信息无效。',
+  InvalidPassword: '密码不符合要求。',
+  LimitExceeded: '尝试次数过多，请稍后再试。',
+  MFAMethodNotFound: '该账户尚未设置多重身份验证。',
+  NotAuthorized: '用户名或密码不正确。',
+  PasswordHistoryPolicyViolation: '不能使用以前用过的密码。',
+  PasswordResetRequired: '登录前需要重置密码。',
+  SessionExpired: '您的会话已过期，请重新登录。',
+  SoftwareTokenMFANotFound: '该账户尚未设置身份验证器应用。',
+  TooManyFailedAttempts: '失败次数过多，请稍后再试。',
+  TooManyRequests: '请求过于频繁，请稍后再试。',
+  UserLambdaValidation: '无法完成您的请求。',
+  UserNotConfirmed: '登录前请先确认您的账户。',
+  UserNotFound: '未找到该用户名对应的账户。',
+  UsernameExists: '该用户名已存在。',
+  UnknownError: '出现错误，请重试。',
+  PasswordRequirements: '密码必须包含{requirements}。',
+  PasswordRequirementMinimumLength: '至少 {minimumLength} 个字符',
+  PasswordRequirementUppercase: '大写字母',
+  PasswordRequirementLowercase: '小写字母',
+  PasswordRequirementNumbers: '数字',
+  PasswordRequirementSymbols: '特殊字符',
+  ListSeparator: '、',
+};
@@ -0,0 +1,165 @@
+import {
+  AccessTokenVerifier,
+  AuthErrorBody,
+  AuthOutcome,
+  AuthRejection,
+  AuthRequirements,
+  AuthenticatedUser,
+  CurrentUserLookup,
+  RequireAuthOptions,
+} from '../types';
+import { NotAuthorizedError, toCognitoClientError } from '../lib/errors';
+import { mapAccessTokenClaims } from '../utils/cognitoMapper';
+import { decodeAccessToken } from '../utils/tokenClaims';
+import { extractAccessToken } from '../utils/tokenUtils';
+
+/**
+ * Builds a rejected outcome with the matching WWW-Authenticate challenge (RFC 6750)
+ * @param statusCode - 401 for missing or invalid tokens, 403 for insufficient permissions
+ * @param error - The error code
+ * @param message - The human-readable reason
+ * @param realm - Optional realm to include in the challenge
+ * @param scope - Optional scopes the resource requires
+ * @returns The rejected outcome
+ */
+const reject = (
+  statusCode: 401 | 403,
+  error: AuthErrorBody['error'],
+  message: string,
+  realm?: string,
+  scope?: string[],
+): AuthRejection => {
+  const params: string[] = [];
+  if (realm) params.push(`realm="${realm}"`);
+
+  // A request without credentials gets a bare challenge, as RFC 6750 recommends
+  if (error !== 'unauthorized') {
+    const challengeError = error === 'invalid_token' ? 'invalid_token' : 'insufficient_scope';
+    params.push(`error="${challengeError}"`, `error_description="${message.replace(/"/g, "'")}"`);
+  }
+  if (scope && scope.length > 0) params.push(`scope="${scope.join(' ')}"`);
+
+  return {
+    type: 'rejected',
+    statusCode,
+    body: { error, message },
+    wwwAuthenticate: params.length > 0 ? `Bearer ${params.join(', ')}` : 'Bearer',
+  };
+};
+
+/**
+ * Checks whether an error means the token itself was rejected, rather than a service failure
+ * @param error - The error thrown while verifying the token
+ * @returns True if the request should get a 401 response
+ */
+const isTokenRejection = (error: unknown): error is Error => {
+  return (
+    toCognitoClientError(error) instanceof NotAuthorizedError ||
+    (error instanceof Error && error.message.startsWith('Invalid token'))
+  );
+};
+
+/**
+ * Verifies the access token locally
+ * @param verifier - The access token verifier
+ * @param accessToken - The access token
+ * @returns The authenticated user, with the token's sub as its only attribute
+ */
+const verifyLocally = async (
+  verifier: AccessTokenVerifier,
+  accessToken: string,
+): Promise<AuthenticatedUser> => {
+  const payload = await verifier.verifyAccessToken(accessToken);
+  const claims = mapAccessTokenClaims(payload);
+
+  return {
+    username: claims.username,
+    attributes: { sub: claims.sub },
+    sub: claims.sub,
+    groups: claims.groups,
+    scopes: claims.scopes,
+    accessToken,
+    claims,
+  };
+};
+
+/**
+ * Verifies the access token by looking up the user in Cognito
+ * @param userClient - The user lookup
+ * @param accessToken - The access token
+ * @returns The authenticated user with all attributes
+ */
+const verifyRemotely = async (
+  userClient: CurrentUserLookup,
+  accessToken: string,
+): Promise<AuthenticatedUser> => {
+  const me = await userClient.getMe({ authorization: `Bearer ${accessToken}` });
+
+  // Cognito accepted the token, so its claims can be read without verifying the signature again
+  const claims = decodeAccessToken(accessToken);
+
+  return {
+    ...me,
+    sub: me.attributes.sub || claims.sub,
+    groups: claims.groups,
+    scopes: claims.scopes,
+    accessToken,
+    claims,
+  };
+};
+
+/**
+ * Creates the authentication pipeline shared by the framework integrations.
+ * Errors other than token rejections, such as a failure to reach Cognito, are thrown.
+ * @param options - The verifier or user client, and optional group and scope requirements
+ * @returns A function that authenticates a request from its Authorization header,
+ * optionally with route-level requirements that replace the configured ones
+ */
+export const createAuthPipeline = (
+  options: RequireAuthOptions,
+): ((authorization?: string, requirements?: AuthRequirements) => Promise<AuthOutcome>) => {
+  const { verifier, userClient, realm } = options;
+
+  if (!verifier && !userClient) {
+    throw new Error('Invalid auth options: A verifier or userClient is required');
+  }
+
+  return async (authorization?: string, requirements?: AuthRequirements): Promise<AuthOutcome> => {
+    const requireGroups = requirements?.requireGroups ?? options.requireGroups ?? [];
+    const requireScopes = requirements?.requireScopes ?? options.requireScopes ?? [];
+    const accessToken = extractAccessToken(authorization || '');
+
+    if (!accessToken) {
+      return reject(401, 'unauthorized', 'No access token provided', realm);
+    }
+
+    let user: AuthenticatedUser;
+    try {
+      user = verifier
+        ? await verifyLocally(verifier, accessToken)
+        : await verifyRemotely(userClient as CurrentUserLookup, accessToken);
+    } catch (error) {
+      if (isTokenRejection(error)) {
+        return reject(401, 'invalid_token', error.message, realm);
+      }
+      throw error;
+    }
+
+    if (requireGroups.length > 0 && !requireGroups.some((group) => user.groups.includes(group))) {
+      return reject(403, 'forbidden', 'User is not a member of a required group', realm);
+    }
+
+    const missingScopes = requireScopes.filter((scope) => !user.scopes.includes(scope));
+    if (missingScopes.length > 0) {
+      return reject(
+        403,
+        'insufficient_scope',
+        `Missing required scopes: ${missingScopes.join(', ')}`,
+        realm,
+        requireScopes,
+      );
+    }
+
+    return { type: 'authenticated', user };
+  };
+};
@@ -0,0 +1,59 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { AuthenticatedUser, AuthRejection, RequireAuthOptions } from '../types';
+import { createAuthPipeline } from './authPipeline';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    cognitoUser?: AuthenticatedUser;
+  }
+}
+
+/**
+ * A request that has passed requireAuth
+ */
+export type AuthenticatedRequest = IncomingMessage & {
+  cognitoUser: AuthenticatedUser;
+};
+
+/**
+ * Connect-style middleware signature, compatible with Express
+ */
+export type AuthMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: (error?: unknown) => void,
+) => void;
+
+/**
+ * Sends a 401 or 403 JSON response with a WWW-Authenticate header
+ * @param res - The response
+ * @param outcome - The rejected outcome
+ */
+const sendRejection = (res: ServerResponse, outcome: AuthRejection): void => {
+  res.statusCode = outcome.statusCode;
+  res.setHeader('WWW-Authenticate', outcome.wwwAuthenticate);
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(outcome.body));
+};
+
+/**
+ * Creates Express/Connect middleware that authenticates requests with a Bearer access token
+ * and attaches the user as req.cognitoUser. Unexpected errors are passed to next.
+ * @param options - The verifier or user client, and optional group and scope requirements
+ * @returns The middleware
+ */
+export const requireAuth = (options: RequireAuthOptions): AuthMiddleware => {
+  const authenticate = createAuthPipeline(options);
+
+  return (req, res, next) => {
+    authenticate(req.headers.authorization).then((outcome) => {
+      if (outcome.type === 'rejected') {
+        sendRejection(res, outcome);
+        return;
+      }
+
+      (req as AuthenticatedRequest).cognitoUser = outcome.user;
+      next();
+    }, next);
+  };
+};
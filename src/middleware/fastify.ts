@@ -0,0 +1,109 @@
+// Loads Fastify's types for the augmentation below; the import is erased at runtime
+import type {} from 'fastify';
+import { IncomingHttpHeaders } from 'http';
+import { AuthenticatedUser, RequireAuthOptions, RouteAuthConfig } from '../types';
+import { createAuthPipeline } from './authPipeline';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    cognitoUser: AuthenticatedUser | null;
+  }
+
+  interface FastifyContextConfig {
+    auth?: RouteAuthConfig;
+  }
+}
+
+/**
+ * The parts of a Fastify request used by the plugin
+ */
+export type FastifyAuthRequest = {
+  headers: IncomingHttpHeaders;
+  cognitoUser?: AuthenticatedUser | null;
+  routeOptions?: { config?: { auth?: RouteAuthConfig } };
+  routeConfig?: { auth?: RouteAuthConfig };
+};
+
+/**
+ * The parts of a Fastify reply used by the plugin
+ */
+export type FastifyAuthReply = {
+  code(statusCode: number): FastifyAuthReply;
+  header(name: string, value: string): FastifyAuthReply;
+  send(payload: unknown): FastifyAuthReply;
+};
+
+/**
+ * The parts of a Fastify instance used by the plugin
+ */
+export type FastifyAuthInstance = {
+  decorateRequest(name: 'cognitoUser', value: null): unknown;
+  addHook(
+    name: 'onRequest',
+    hook: (request: FastifyAuthRequest, reply: FastifyAuthReply) => Promise<unknown>,
+  ): unknown;
+};
+
+/**
+ * Options for the Fastify plugin. Routes without config.auth are authenticated
+ * unless authByDefault is false
+ */
+export type CognitoFastifyOptions = RequireAuthOptions & {
+  authByDefault?: boolean;
+};
+
+/**
+ * Fastify plugin that authenticates requests in an onRequest hook and sets request.cognitoUser.
+ * Routes can opt out with config: { auth: false } or set their own requirements with
+ * config: { auth: { requireGroups, requireScopes } }.
+ * @param instance - The Fastify instance
+ * @param options - The verifier or user client, default requirements and authByDefault
+ * @param done - Callback signalling the plugin is registered
+ */
+const plugin = (
+  instance: FastifyAuthInstance,
+  options: CognitoFastifyOptions,
+  done: (error?: Error) => void,
+): void => {
+  const { authByDefault = true, ...authOptions } = options;
+  let authenticate: ReturnType<typeof createAuthPipeline>;
+
+  try {
+    authenticate = createAuthPipeline(authOptions);
+  } catch (error) {
+    done(error as Error);
+    return;
+  }
+
+  instance.decorateRequest('cognitoUser', null);
+  instance.addHook('onRequest', async (request, reply) => {
+    // routeConfig was replaced by routeOptions.config in Fastify 4.22
+    const auth = (request.routeOptions?.config ?? request.routeConfig)?.auth ?? authByDefault;
+
+    if (auth === false) {
+      return;
+    }
+
+    const outcome = await authenticate(
+      request.headers.authorization,
+      typeof auth === 'object' ? auth : undefined,
+    );
+
+    if (outcome.type === 'rejected') {
+      return reply
+        .code(outcome.statusCode)
+        .header('WWW-Authenticate', outcome.wwwAuthenticate)
+        .send(outcome.body);
+    }
+
+    request.cognitoUser = outcome.user;
+  });
+
+  done();
+};
+
+// Share the hook and decorator with the parent context instead of encapsulating them, like fastify-plugin does
+export const cognitoAuthPlugin = Object.assign(plugin, {
+  [Symbol.for('skip-override')]: true,
+  [Symbol.for('fastify.display-name')]: 'cognito-client',
+});
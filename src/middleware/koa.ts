@@ -0,0 +1,46 @@
+import { IncomingHttpHeaders } from 'http';
+import { AuthenticatedUser, RequireAuthOptions } from '../types';
+import { createAuthPipeline } from './authPipeline';
+
+/**
+ * The parts of a Koa context used by the middleware
+ */
+export type KoaAuthContext = {
+  headers: IncomingHttpHeaders;
+  state: { cognitoUser?: AuthenticatedUser; [key: string]: unknown };
+  status: number;
+  body: unknown;
+  set(field: string, value: string): void;
+};
+
+/**
+ * Koa middleware signature
+ */
+export type KoaAuthMiddleware = (
+  ctx: KoaAuthContext,
+  next: () => Promise<unknown>,
+) => Promise<void>;
+
+/**
+ * Creates Koa middleware that authenticates requests with a Bearer access token
+ * and sets ctx.state.cognitoUser. Unexpected errors are thrown to Koa's error handling.
+ * @param options - The verifier or user client, and optional group and scope requirements
+ * @returns The middleware
+ */
+export const requireAuth = (options: RequireAuthOptions): KoaAuthMiddleware => {
+  const authenticate = createAuthPipeline(options);
+
+  return async (ctx, next) => {
+    const outcome = await authenticate(ctx.headers.authorization);
+
+    if (outcome.type === 'rejected') {
+      ctx.status = outcome.statusCode;
+      ctx.set('WWW-Authenticate', outcome.wwwAuthenticate);
+      ctx.body = outcome.body;
+      return;
+    }
+
+    ctx.state.cognitoUser = outcome.user;
+    await next();
+  };
+};
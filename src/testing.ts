@@ -2,7 +2,20 @@
  * Testing utilities for Cognito IO
  *
  * This file exports utilities for testing applications that use Cognito IO.
- * Note: Using these utilities requires installing @faker-js/faker as a dev dependency.
+ * They work with any test runner and their types do not depend on Jest's. createMockCognitoClient and
+ * createJestCognitoStub use Jest's jest object unless another spy framework, such as vi, is passed.
  */
 
 export * from './utils/testUtils';
+export {
+  createCognitoStub,
+  createJestCognitoStub,
+  createVitestCognitoStub,
+} from './utils/cognitoStub';
+export * from './utils/testTokens';
+export { FakeCognitoUserPool } from './testing/FakeCognitoUserPool';
+export {
+  createRecordingClient,
+  createReplayClient,
+  loadCognitoFixtures,
+} from './utils/cognitoFixtures';
@@ -0,0 +1,2039 @@
+import { randomBytes, randomInt, randomUUID } from 'crypto';
+import {
+  AdminAddUserToGroupCommandInput,
+  AdminConfirmSignUpCommandInput,
+  AdminCreateUserCommandInput,
+  AdminDeleteUserAttributesCommandInput,
+  AdminDeleteUserCommandInput,
+  AdminDisableUserCommandInput,
+  AdminEnableUserCommandInput,
+  AdminForgetDeviceCommandInput,
+  AdminGetDeviceCommandInput,
+  AdminGetUserCommandInput,
+  AdminInitiateAuthCommandInput,
+  AdminListDevicesCommandInput,
+  AdminListGroupsForUserCommandInput,
+  AdminRemoveUserFromGroupCommandInput,
+  AdminResetUserPasswordCommandInput,
+  AdminRespondToAuthChallengeCommandInput,
+  AdminSetUserMFAPreferenceCommandInput,
+  AdminSetUserPasswordCommandInput,
+  AdminUpdateDeviceStatusCommandInput,
+  AdminUpdateUserAttributesCommandInput,
+  AdminUserGlobalSignOutCommandInput,
+  AttributeType,
+  ChangePasswordCommandInput,
+  CodeMismatchException,
+  CognitoIdentityProviderClient,
+  ConfirmDeviceCommandInput,
+  ConfirmForgotPasswordCommandInput,
+  ConfirmSignUpCommandInput,
+  CreateGroupCommandInput,
+  DeleteGroupCommandInput,
+  DeleteUserAttributesCommandInput,
+  DeleteUserCommandInput,
+  ExpiredCodeException,
+  ForgetDeviceCommandInput,
+  ForgotPasswordCommandInput,
+  GetDeviceCommandInput,
+  GetGroupCommandInput,
+  GetUserAttributeVerificationCodeCommandInput,
+  GetUserCommandInput,
+  GlobalSignOutCommandInput,
+  GroupExistsException,
+  InitiateAuthCommandInput,
+  InvalidParameterException,
+  InvalidPasswordException,
+  ListDevicesCommandInput,
+  ListGroupsCommandInput,
+  ListUsersCommandInput,
+  ListUsersInGroupCommandInput,
+  NotAuthorizedException,
+  PasswordResetRequiredException,
+  ResendConfirmationCodeCommandInput,
+  ResourceNotFoundException,
+  RespondToAuthChallengeCommandInput,
+  SetUserMFAPreferenceCommandInput,
+  SignUpCommandInput,
+  UnsupportedOperationException,
+  UpdateDeviceStatusCommandInput,
+  UpdateGroupCommandInput,
+  UpdateUserAttributesCommandInput,
+  UserNotConfirmedException,
+  UserNotFoundException,
+  UsernameExistsException,
+  VerifyUserAttributeCommandInput,
+} from '@aws-sdk/client-cognito-identity-provider';
+
+import {
+  CognitoConfig,
+  CognitoUserStatus,
+  FakeCognitoMessage,
+  FakeCognitoUserPoolOptions,
+  FakeCognitoUserSeed,
+  FakeCognitoUserSnapshot,
+  PasswordPolicy,
+  TestTokenIssuer,
+} from '../types';
+
+import { getCommandName } from '../utils/cognitoStub';
+import { calculateSecretHash } from '../utils/secretHash';
+
+import { createTestTokenIssuer } from '../utils/testTokens';
+
+const DEFAULT_PASSWORD_POLICY: Required<PasswordPolicy> = {
+  minimumLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumbers: true,
+  requireSymbols: true,
+};
+const DEFAULT_ACCESS_TOKEN_VALIDITY_SECONDS = 3600;
+const CODE_VALIDITY_MS = 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_CODE_VALIDITY_MS = 60 * 60 * 1000;
+const SESSION_VALIDITY_MS = 3 * 60 * 1000;
+const MAX_PAGE_SIZE = 60;
+const FILTERABLE_ATTRIBUTES = [
+  'username',
+  'email',
+  'phone_number',
+  'name',
+  'given_name',
+  'family_name',
+  'preferred_username',
+  'cognito:user_status',
+  'status',
+  'sub',
+];
+
+/**
+ * Output of a fake command, without the response metadata
+ */
+type Output = Record<string, unknown>;
+
+/**
+ * An SDK exception class, e.g. UserNotFoundException
+ */
+type ExceptionConstructor = new (options: {
+  message: string;
+  $metadata: { httpStatusCode?: number; requestId?: string };
+}) => Error;
+
+type FakeDevice = {
+  key: string;
+  name?: string;
+  status: 'remembered' | 'not_remembered';
+  createdAt: Date;
+  updatedAt: Date;
+  lastAuthenticatedAt: Date;
+};
+
+type FakeCode = {
+  code: string;
+  expiresAt: number;
+};
+
+type FakeUser = {
+  username: string;
+  password?: string;
+  status: CognitoUserStatus;
+  enabled: boolean;
+  attributes: Map<string, string>;
+  groups: Set<string>;
+  devices: Map<string, FakeDevice>;
+  codes: Map<string, FakeCode>;
+  mfaSettings: string[];
+  preferredMfa?: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type FakeGroup = {
+  name: string;
+  description?: string;
+  precedence?: number;
+  roleArn?: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type FakeToken = {
+  username: string;
+  kind: 'access' | 'refresh';
+  expiresAt?: number;
+  revoked: boolean;
+};
+
+type FakeSession = {
+  username: string;
+  expiresAt: number;
+};
+
+/**
+ * An in-memory user pool that answers the commands sent by CognitoUserClient and CognitoAdminClient.
+ * Users move through the same statuses as in Cognito, codes are captured in the outbox instead of
+ * being delivered, and failures are thrown as the SDK's own exceptions with Cognito's messages.
+ * Tokens are signed by tokenIssuer, so they verify against its JWKS
+ */
+export class FakeCognitoUserPool {
+  readonly region: string;
+  readonly userPoolId: string;
+  readonly clientId: string;
+  readonly clientSecret?: string;
+
+  /** Messages the user pool would have sent, oldest first */
+  readonly outbox: FakeCognitoMessage[] = [];
+
+  /** A client to pass to the CognitoUserClient or CognitoAdminClient constructor */
+  readonly client: CognitoIdentityProviderClient;
+
+  /** Signs the pool's tokens; pass it to CognitoJwtVerifier as jwksProvider */
+  readonly tokenIssuer: TestTokenIssuer;
+
+  private options: FakeCognitoUserPoolOptions;
+  private passwordPolicy: Required<PasswordPolicy>;
+  private users = new Map<string, FakeUser>();
+  private groups = new Map<string, FakeGroup>();
+  private tokens = new Map<string, FakeToken>();
+  private sessions = new Map<string, FakeSession>();
+
+  /** Handlers of the supported commands, keyed by command class name */
+  private handlers: Record<string, (input: never) => Output> = {
+    SignUpCommand: (input: SignUpCommandInput) => this.signUp(input),
+    ConfirmSignUpCommand: (input: ConfirmSignUpCommandInput) => this.confirmSignUp(input),
+    ResendConfirmationCodeCommand: (input: ResendConfirmationCodeCommandInput) =>
+      this.resendConfirmationCode(input),
+    InitiateAuthCommand: (input: InitiateAuthCommandInput) => this.initiateAuth(input),
+    AdminInitiateAuthCommand: (input: AdminInitiateAuthCommandInput) => this.initiateAuth(input),
+    RespondToAuthChallengeCommand: (input: RespondToAuthChallengeCommandInput) =>
+      this.respondToAuthChallenge(input),
+    AdminRespondToAuthChallengeCommand: (input: AdminRespondToAuthChallengeCommandInput) =>
+      this.respondToAuthChallenge(input),
+    GetUserCommand: (input: GetUserCommandInput) => this.getUser(input),
+    UpdateUserAttributesCommand: (input: UpdateUserAttributesCommandInput) =>
+      this.updateUserAttributes(input),
+    DeleteUserAttributesCommand: (input: DeleteUserAttributesCommandInput) =>
+      this.deleteUserAttributes(input),
+    GetUserAttributeVerificationCodeCommand: (
+      input: GetUserAttributeVerificationCodeCommandInput,
+    ) => this.getUserAttributeVerificationCode(input),
+    VerifyUserAttributeCommand: (input: VerifyUserAttributeCommandInput) =>
+      this.verifyUserAttribute(input),
+    ChangePasswordCommand: (input: ChangePasswordCommandInput) => this.changePassword(input),
+    ForgotPasswordCommand: (input: ForgotPasswordCommandInput) => this.forgotPassword(input),
+    ConfirmForgotPasswordCommand: (input: ConfirmForgotPasswordCommandInput) =>
+      this.confirmForgotPassword(input),
+    GlobalSignOutCommand: (input: GlobalSignOutCommandInput) => this.globalSignOut(input),
+    DeleteUserCommand: (input: DeleteUserCommandInput) => this.deleteUser(input),
+    SetUserMFAPreferenceCommand: (input: SetUserMFAPreferenceCommandInput) =>
+      this.setUserMfaPreference(input),
+    ConfirmDeviceCommand: (input: ConfirmDeviceCommandInput) => this.confirmDevice(input),
+    ListDevicesCommand: (input: ListDevicesCommandInput) => this.listDevices(input),
+    GetDeviceCommand: (input: GetDeviceCommandInput) => this.getDevice(input),
+    ForgetDeviceCommand: (input: ForgetDeviceCommandInput) => this.forgetDevice(input),
+    UpdateDeviceStatusCommand: (input: UpdateDeviceStatusCommandInput) =>
+      this.updateDeviceStatus(input),
+    AdminCreateUserCommand: (input: AdminCreateUserCommandInput) => this.adminCreateUser(input),
+    AdminGetUserCommand: (input: AdminGetUserCommandInput) => this.adminGetUser(input),
+    AdminDeleteUserCommand: (input: AdminDeleteUserCommandInput) => this.adminDeleteUser(input),
+    AdminConfirmSignUpCommand: (input: AdminConfirmSignUpCommandInput) =>
+      this.adminConfirmSignUp(input),
+    AdminEnableUserCommand: (input: AdminEnableUserCommandInput) =>
+      this.adminSetEnabled(input, true),
+    AdminDisableUserCommand: (input: AdminDisableUserCommandInput) =>
+      this.adminSetEnabled(input, false),
+    AdminResetUserPasswordCommand: (input: AdminResetUserPasswordCommandInput) =>
+      this.adminResetUserPassword(input),
+    AdminSetUserPasswordCommand: (input: AdminSetUserPasswordCommandInput) =>
+      this.adminSetUserPassword(input),
+    AdminUpdateUserAttributesCommand: (input: AdminUpdateUserAttributesCommandInput) =>
+      this.adminUpdateUserAttributes(input),
+    AdminDeleteUserAttributesCommand: (input: AdminDeleteUserAttributesCommandInput) =>
+      this.adminDeleteUserAttributes(input),
+    AdminUserGlobalSignOutCommand: (input: AdminUserGlobalSignOutCommandInput) =>
+      this.adminUserGlobalSignOut(input),
+    AdminSetUserMFAPreferenceCommand: (input: AdminSetUserMFAPreferenceCommandInput) =>
+      this.adminSetUserMfaPreference(input),
+    AdminAddUserToGroupCommand: (input: AdminAddUserToGroupCommandInput) =>
+      this.adminAddUserToGroup(input),
+    AdminRemoveUserFromGroupCommand: (input: AdminRemoveUserFromGroupCommandInput) =>
+      this.adminRemoveUserFromGroup(input),
+    AdminListGroupsForUserCommand: (input: AdminListGroupsForUserCommandInput) =>
+      this.adminListGroupsForUser(input),
+    AdminListDevicesCommand: (input: AdminListDevicesCommandInput) => this.adminListDevices(input),
+    AdminGetDeviceCommand: (input: AdminGetDeviceCommandInput) => this.adminGetDevice(input),
+    AdminForgetDeviceCommand: (input: AdminForgetDeviceCommandInput) =>
+      this.adminForgetDevice(input),
+    AdminUpdateDeviceStatusCommand: (input: AdminUpdateDeviceStatusCommandInput) =>
+      this.adminUpdateDeviceStatus(input),
+    ListUsersCommand: (input: ListUsersCommandInput) => this.listUsers(input),
+    ListUsersInGroupCommand: (input: ListUsersInGroupCommandInput) => this.listUsersInGroup(input),
+    CreateGroupCommand: (input: CreateGroupCommandInput) => this.createGroup(input),
+    GetGroupCommand: (input: GetGroupCommandInput) => this.getGroup(input),
+    UpdateGroupCommand: (input: UpdateGroupCommandInput) => this.updateGroup(input),
+    DeleteGroupCommand: (input: DeleteGroupCommandInput) => this.deleteGroup(input),
+    ListGroupsCommand: (input: ListGroupsCommandInput) => this.listGroups(input),
+  };
+
+  /**
+   * Creates a new instance of FakeCognitoUserPool
+   * @param options - Optional IDs, client secret, password policy and token validity
+   */
+  constructor(options: FakeCognitoUserPoolOptions = {}) {
+    this.options = options;
+    this.region = options.region ?? 'us-east-1';
+    this.userPoolId = options.userPoolId ?? `${this.region}_FakePool1`;
+    this.clientId = options.clientId ?? 'fakeclient1234567890abcdef';
+    this.clientSecret = options.clientSecret;
+    this.passwordPolicy = { ...DEFAULT_PASSWORD_POLICY, ...options.passwordPolicy };
+    this.tokenIssuer = createTestTokenIssuer({
+      region: this.region,
+      userPoolId: this.userPoolId,
+      clientId: this.clientId,
+    });
+    this.client = {
+      send: async (command: object) => this.send(command),
+    } as unknown as CognitoIdentityProviderClient;
+  }
+
+  /**
+   * The client configuration matching this user pool
+   */
+  get config(): CognitoConfig {
+    return {
+      region: this.region,
+      userPoolId: this.userPoolId,
+      clientId: this.clientId,
+      ...(this.clientSecret ? { clientSecret: this.clientSecret } : {}),
+    };
+  }
+
+  /**
+   * Runs a command against the user pool
+   * @param command - An SDK command, e.g. new SignUpCommand(...)
+   * @returns The command output
+   */
+  async send(command: object): Promise<Output> {
+    const name = getCommandName(command.constructor);
+    const handler = this.handlers[name];
+
+    if (!handler) {
+      throw this.exception(
+        UnsupportedOperationException,
+        `${name} is not supported by FakeCognitoUserPool`,
+      );
+    }
+
+    const output = handler((command as { input?: unknown }).input as never);
+    return { ...output, $metadata: { httpStatusCode: 200, requestId: randomUUID() } };
+  }
+
+  /**
+   * Adds a user directly, without sending any message
+   * @param seed - The user, CONFIRMED and enabled by default
+   * @returns The state of the new user
+   */
+  addUser(seed: FakeCognitoUserSeed): FakeCognitoUserSnapshot {
+    const { username, password, status = 'CONFIRMED', enabled = true, attributes = {} } = seed;
+
+    if (this.users.has(username)) {
+      throw this.exception(UsernameExistsException, 'User account already exists');
+    }
+
+    const user = this.createUser(username, status, password);
+    user.enabled = enabled;
+    Object.entries(attributes).forEach(([name, value]) => user.attributes.set(name, value));
+    (seed.groups ?? []).forEach((groupName) => {
+      if (!this.groups.has(groupName)) {
+        this.createGroup({ UserPoolId: this.userPoolId, GroupName: groupName });
+      }
+      user.groups.add(groupName);
+    });
+
+    return this.inspectUser(username) as FakeCognitoUserSnapshot;
+  }
+
+  /**
+   * Gets the current state of a user
+   * @param username - The username or sub
+   * @returns The state of the user, or undefined if the user does not exist
+   */
+  inspectUser(username: string): FakeCognitoUserSnapshot | undefined {
+    const user = this.findUser(username);
+    if (!user) {
+      return undefined;
+    }
+
+    return {
+      username: user.username,
+      sub: user.attributes.get('sub') as string,
+      password: user.password,
+      status: user.status,
+      enabled: user.enabled,
+      attributes: Object.fromEntries(user.attributes),
+      groups: [...user.groups],
+      deviceKeys: [...user.devices.keys()],
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+  }
+
+  /**
+   * Gets the code of the last message sent to a user
+   * @param username - The username
+   * @param kind - Optional kind of message to look for
+   * @returns The code or temporary password, or undefined if nothing was sent
+   */
+  lastCode(username: string, kind?: FakeCognitoMessage['kind']): string | undefined {
+    const message = [...this.outbox]
+      .reverse()
+      .find((item) => item.username === username && (!kind || item.kind === kind));
+    return message?.code;
+  }
+
+  /**
+   * Removes every user, group, token and message
+   */
+  reset(): void {
+    this.users.clear();
+    this.groups.clear();
+    this.tokens.clear();
+    this.sessions.clear();
+    this.outbox.length = 0;
+  }
+
+  /**
+   * Creates an UNCONFIRMED user and sends them a confirmation code
+   * @param input - The SignUp input
+   * @returns The SignUp output
+   */
+  private signUp(input: SignUpCommandInput): Output {
+    const username = input.Username as string;
+    this.assertClient(input.ClientId, username, input.SecretHash);
+
+    if (this.users.has(username)) {
+      throw this.exception(UsernameExistsException, 'User already exists');
+    }
+
+    const password = input.Password as string;
+    this.assertPasswordPolicy(password);
+
+    const user = this.createUser(username, 'UNCONFIRMED', password);
+    this.setAttributes(user, input.UserAttributes);
+    const details = this.sendCode(user, 'SignUp', 'signUp', CODE_VALIDITY_MS);
+
+    return {
+      UserConfirmed: false,
+      UserSub: user.attributes.get('sub'),
+      CodeDeliveryDetails: details,
+    };
+  }
+
+  /**
+   * Confirms a user with the code sent at sign-up
+   * @param input - The ConfirmSignUp input
+   * @returns The ConfirmSignUp output
+   */
+  private confirmSignUp(input: ConfirmSignUpCommandInput): Output {
+    const user = this.getExistingUser(input.Username);
+    this.assertClient(input.ClientId, user.username, input.SecretHash);
+
+    if (user.status !== 'UNCONFIRMED') {
+      throw this.exception(
+        NotAuthorizedException,
+        `User cannot be confirmed. Current status is ${user.status}`,
+      );
+    }
+
+    this.useCode(user, 'signUp', input.ConfirmationCode);
+    this.confirmUser(user);
+
+    return {};
+  }
+
+  /**
+   * Sends a new confirmation code to an unconfirmed user
+   * @param input - The ResendConfirmationCode input
+   * @returns The ResendConfirmationCode output
+   */
+  private resendConfirmationCode(input: ResendConfirmationCodeCommandInput): Output {
+    const user = this.getExistingUser(input.Username);
+    this.assertClient(input.ClientId, user.username, input.SecretHash);
+
+    if (user.status !== 'UNCONFIRMED') {
+      throw this.exception(InvalidParameterException, 'User is already confirmed.');
+    }
+
+    return {
+      CodeDeliveryDetails: this.sendCode(user, 'ResendCode', 'signUp', CODE_VALIDITY_MS),
+    };
+  }
+
+  /**
+   * Starts a password or refresh-token sign-in; other auth flows are not supported
+   * @param input - The InitiateAuth or AdminInitiateAuth input
+   * @returns The command output
+   */
+  private initiateAuth(input: InitiateAuthCommandInput | AdminInitiateAuthCommandInput): Output {
+    if ('UserPoolId' in input) {
+      this.assertUserPool(input.UserPoolId);
+    }
+
+    const parameters = input.AuthParameters ?? {};
+
+    switch (input.AuthFlow) {
+      case 'USER_PASSWORD_AUTH':
+      case 'ADMIN_USER_PASSWORD_AUTH':
+      case 'ADMIN_NO_SRP_AUTH':
+        return this.authenticatePassword(
+          input.ClientId,
+          parameters.USERNAME,
+          parameters.PASSWORD,
+          parameters.SECRET_HASH,
+        );
+      case 'REFRESH_TOKEN_AUTH':
+      case 'REFRESH_TOKEN':
+        return this.authenticateRefreshToken(
+          input.ClientId,
+          parameters.REFRESH_TOKEN,
+          parameters.SECRET_HASH,
+        );
+      default:
+        throw this.exception(
+          UnsupportedOperationException,
+          `Auth flow ${input.AuthFlow} is not supported by FakeCognitoUserPool`,
+        );
+    }
+  }
+
+  /**
+   * Signs a user in with their password. Users with a temporary password get a
+   * NEW_PASSWORD_REQUIRED challenge instead of tokens
+   * @param clientId - The client ID of the command
+   * @param username - The USERNAME auth parameter
+   * @param password - The PASSWORD auth parameter
+   * @param secretHash - The SECRET_HASH auth parameter
+   * @returns The InitiateAuth output
+   */
+  private authenticatePassword(
+    clientId: string | undefined,
+    username: string | undefined,
+    password: string | undefined,
+    secretHash: string | undefined,
+  ): Output {
+    const user = this.findUser(username);
+    if (!user) {
+      throw this.options.preventUserExistenceErrors
+        ? this.exception(NotAuthorizedException, 'Incorrect username or password.')
+        : this.exception(UserNotFoundException, 'User does not exist.');
+    }
+
+    this.assertClient(clientId, user.username, secretHash);
+
+    if (!user.enabled) {
+      throw this.exception(NotAuthorizedException, 'User is disabled.');
+    }
+
+    if (!password || user.password !== password) {
+      throw this.exception(NotAuthorizedException, 'Incorrect username or password.');
+    }
+
+    if (user.status === 'UNCONFIRMED') {
+      throw this.exception(UserNotConfirmedException, 'User is not confirmed.');
+    }
+
+    if (user.status === 'RESET_REQUIRED') {
+      throw this.exception(PasswordResetRequiredException, 'Password reset required for the user');
+    }
+
+    if (user.status === 'FORCE_CHANGE_PASSWORD') {
+      const session = randomBytes(32).toString('base64url');
+      this.sessions.set(session, {
+        username: user.username,
+        expiresAt: Date.now() + SESSION_VALIDITY_MS,
+      });
+      const userAttributes = Object.fromEntries(
+        [...user.attributes].filter(([name]) => name !== 'sub'),
+      );
+
+      return {
+        ChallengeName: 'NEW_PASSWORD_REQUIRED',
+        Session: session,
+        ChallengeParameters: {
+          USER_ID_FOR_SRP: user.username,
+          requiredAttributes: '[]',
+          userAttributes: JSON.stringify(userAttributes),
+        },
+      };
+    }
+
+    return { ChallengeParameters: {}, AuthenticationResult: this.issueTokens(user, true) };
+  }
+
+  /**
+   * Issues new access and ID tokens for a refresh token that has not been revoked
+   * @param clientId - The client ID of the command
+   * @param refreshToken - The REFRESH_TOKEN auth parameter
+   * @param secretHash - The SECRET_HASH auth parameter, computed from the username or the sub
+   * @returns The InitiateAuth output
+   */
+  private authenticateRefreshToken(
+    clientId: string | undefined,
+    refreshToken: string | undefined,
+    secretHash: string | undefined,
+  ): Output {
+    const token = refreshToken ? this.tokens.get(refreshToken) : undefined;
+    if (!token || token.kind !== 'refresh') {
+      throw this.exception(NotAuthorizedException, 'Invalid Refresh Token');
+    }
+
+    if (token.revoked) {
+      throw this.exception(NotAuthorizedException, 'Refresh Token has been revoked');
+    }
+
+    const user = this.users.get(token.username);
+    if (!user) {
+      throw this.exception(NotAuthorizedException, 'Invalid Refresh Token');
+    }
+
+    // The refresh flow accepts a SECRET_HASH computed from either the username or the sub
+    const sub = user.attributes.get('sub') as string;
+    const hashedName =
+      this.clientSecret && secretHash === this.secretHash(sub) ? sub : user.username;
+    this.assertClient(clientId, hashedName, secretHash);
+
+    if (!user.enabled) {
+      throw this.exception(NotAuthorizedException, 'User is disabled.');
+    }
+
+    return { ChallengeParameters: {}, AuthenticationResult: this.issueTokens(user, false) };
+  }
+
+  /**
+   * Answers a NEW_PASSWORD_REQUIRED challenge, setting the new password and any required attributes
+   * @param input - The RespondToAuthChallenge or AdminRespondToAuthChallenge input
+   * @returns The command output
+   */
+  private respondToAuthChallenge(
+    input: RespondToAuthChallengeCommandInput | AdminRespondToAuthChallengeCommandInput,
+  ): Output {
+    if ('UserPoolId' in input) {
+      this.assertUserPool(input.UserPoolId);
+    }
+
+    if (input.ChallengeName !== 'NEW_PASSWORD_REQUIRED') {
+      throw this.exception(
+        UnsupportedOperationException,
+        `Challenge ${input.ChallengeName} is not supported by FakeCognitoUserPool`,
+      );
+    }
+
+    const responses = input.ChallengeResponses ?? {};
+    const session = input.Session ? this.sessions.get(input.Session) : undefined;
+    if (!session || session.username !== this.findUser(responses.USERNAME)?.username) {
+      throw this.exception(NotAuthorizedException, 'Invalid session for the user.');
+    }
+
+    if (Date.now() > session.expiresAt) {
+      throw this.exception(
+        NotAuthorizedException,
+        'Invalid session for the user, session is expired.',
+      );
+    }
+
+    const user = this.getExistingUser(session.username);
+    this.assertClient(input.ClientId, user.username, responses.SECRET_HASH);
+
+    const password = responses.NEW_PASSWORD;
+    if (!password) {
+      throw this.exception(InvalidParameterException, 'Missing required parameter NEW_PASSWORD');
+    }
+
+    this.assertPasswordPolicy(password);
+    this.sessions.delete(input.Session as string);
+
+    Object.entries(responses)
+      .filter(([name]) => name.startsWith('userAttributes.'))
+      .forEach(([name, value]) => user.attributes.set(name.slice('userAttributes.'.length), value));
+    user.password = password;
+    user.status = 'CONFIRMED';
+    user.updatedAt = new Date();
+
+    return { ChallengeParameters: {}, AuthenticationResult: this.issueTokens(user, true) };
+  }
+
+  /**
+   * Gets the attributes and MFA settings of the user an access token belongs to
+   * @param input - The GetUser input
+   * @returns The GetUser output
+   */
+  private getUser(input: GetUserCommandInput): Output {
+    const user = this.authenticate(input.AccessToken);
+
+    return {
+      Username: user.username,
+      UserAttributes: this.toAttributeList(user),
+      ...this.toMfaOutput(user),
+    };
+  }
+
+  /**
+   * Updates the attributes of the user an access token belongs to
+   * @param input - The UpdateUserAttributes input
+   * @returns The UpdateUserAttributes output
+   */
+  private updateUserAttributes(input: UpdateUserAttributesCommandInput): Output {
+    const user = this.authenticate(input.AccessToken);
+
+    return { CodeDeliveryDetailsList: this.updateAttributes(user, input.UserAttributes) };
+  }
+
+  /**
+   * Deletes attributes of the user an access token belongs to
+   * @param input - The DeleteUserAttributes input
+   * @returns The DeleteUserAttributes output
+   */
+  private deleteUserAttributes(input: DeleteUserAttributesCommandInput): Output {
+    const user = this.authenticate(input.AccessToken);
+    this.deleteAttributes(user, input.UserAttributeNames);
+
+    return {};
+  }
+
+  /**
+   * Sends a code to verify the email address or phone number of a signed-in user
+   * @param input - The GetUserAttributeVerificationCode input
+   * @returns The GetUserAttributeVerificationCode output
+   */
+  private getUserAttributeVerificationCode(
+    input: GetUserAttributeVerificationCodeCommandInput,
+  ): Output {
+    const user = this.authenticate(input.AccessToken);
+    const name = input.AttributeName as string;
+
+    if (name !== 'email' && name !== 'phone_number') {
+      throw this.exception(InvalidParameterException, `Cannot verify attribute ${name}`);
+    }
+
+    return { CodeDeliveryDetails: this.sendVerificationCode(user, name) };
+  }
+
+  /**
+   * Marks an attribute as verified with the code sent for it
+   * @param input - The VerifyUserAttribute input
+   * @returns The VerifyUserAttribute output
+   */
+  private verifyUserAttribute(input: VerifyUserAttributeCommandInput): Output {
+    const user = this.authenticate(input.AccessToken);
+    const name = input.AttributeName as string;
+
+    this.useCode(user, `verify:${name}`, input.Code);
+    user.attributes.set(`${name}_verified`, 'true');
+    user.updatedAt = new Date();
+
+    return {};
+  }
+
+  /**
+   * Changes the password of a signed-in user after checking the previous one
+   * @param input - The ChangePassword input
+   * @returns The ChangePassword output
+   */
+  private changePassword(input: ChangePasswordCommandInput): Output {
+    const user = this.authenticate(input.AccessToken);
+
+    if (user.password !== input.PreviousPassword) {
+      throw this.exception(NotAuthorizedException, 'Incorrect username or password.');
+    }
+
+    const password = input.ProposedPassword as string;
+    this.assertPasswordPolicy(password);
+    user.password = password;
+    user.updatedAt = new Date();
+
+    return {};
+  }
+
+  /**
+   * Sends a password reset code to a verified email address or phone number
+   * @param input - The ForgotPassword input
+   * @returns The ForgotPassword output
+   */
+  private forgotPassword(input: ForgotPasswordCommandInput): Output {
+    const user = this.findUser(input.Username);
+    if (!user) {
+      throw this.exception(UserNotFoundException, 'Username/client id combination not found.');
+    }
+
+    this.assertClient(input.ClientId, user.username, input.SecretHash);
+
+    if (!user.enabled) {
+      throw this.exception(NotAuthorizedException, 'User is disabled.');
+    }
+
+    return {
+      CodeDeliveryDetails: this.sendCode(
+        user,
+        'ForgotPassword',
+        'forgotPassword',
+        PASSWORD_RESET_CODE_VALIDITY_MS,
+        true,
+      ),
+    };
+  }
+
+  /**
+   * Sets a new password with a password reset code and confirms the user
+   * @param input - The ConfirmForgotPassword input
+   * @returns The ConfirmForgotPassword output
+   */
+  private confirmForgotPassword(input: ConfirmForgotPasswordCommandInput): Output {
+    const user = this.getExistingUser(input.Username);
+    this.assertClient(input.ClientId, user.username, input.SecretHash);
+
+    const password = input.Password as string;
+    this.useCode(user, 'forgotPassword', input.ConfirmationCode);
+    this.assertPasswordPolicy(password);
+
+    user.password = password;
+    user.status = 'CONFIRMED';
+    user.updatedAt = new Date();
+
+    return {};
+  }
+
+  /**
+   * Revokes every token of the user an access token belongs to
+   * @param input - The GlobalSignOut input
+   * @returns The GlobalSignOut output
+   */
+  private globalSignOut(input: GlobalSignOutCommandInput): Output {
+    this.revokeTokens(this.authenticate(input.AccessToken));
+
+    return {};
+  }
+
+  /**
+   * Deletes the user an access token belongs to
+   * @param input - The DeleteUser input
+   * @returns The DeleteUser output
+   */
+  private deleteUser(input: DeleteUserCommandInput): Output {
+    this.removeUser(this.authenticate(input.AccessToken));
+
+    return {};
+  }
+
+  /**
+   * Stores the MFA settings of a signed-in user
+   * @param input - The SetUserMFAPreference input
+   * @returns The SetUserMFAPreference output
+   */
+  private setUserMfaPreference(input: SetUserMFAPreferenceCommandInput): Output {
+    this.setMfaPreference(this.authenticate(input.AccessToken), input);
+
+    return {};
+  }
+
+  /**
+   * Tracks a new device of a signed-in user; devices start as not remembered
+   * @param input - The ConfirmDevice input
+   * @returns The ConfirmDevice output
+   */
+  private confirmDevice(input: ConfirmDeviceCommandInput): Output {
+    const user = this.authenticate(input.AccessToken);
+    const key = input.DeviceKey as string;
+
+    if (user.devices.has(key)) {
+      throw this.exception(InvalidParameterException, 'Device has already been confirmed.');
+    }
+
+    const now = new Date();
+    user.devices.set(key, {
+      key,
+      name: input.DeviceName,
+      status: 'not_remembered',
+      createdAt: now,
+      updatedAt: now,
+      lastAuthenticatedAt: now,
+    });
+
+    return { UserConfirmationNecessary: false };
+  }
+
+  /**
+   * Lists a page of the devices of a signed-in user
+   * @param input - The ListDevices input
+   * @returns The ListDevices output
+   */
+  private listDevices(input: ListDevicesCommandInput): Output {
+    const user = this.authenticate(input.AccessToken);
+
+    return this.pageDevices(user, input.Limit, input.PaginationToken);
+  }
+
+  /**
+   * Gets a device of a signed-in user
+   * @param input - The GetDevice input
+   * @returns The GetDevice output
+   */
+  private getDevice(input: GetDeviceCommandInput): Output {
+    const user = this.authenticate(input.AccessToken);
+
+    return { Device: this.toDeviceType(this.getExistingDevice(user, input.DeviceKey)) };
+  }
+
+  /**
+   * Stops tracking a device of a signed-in user
+   * @param input - The ForgetDevice input
+   * @returns The ForgetDevice output
+   */
+  private forgetDevice(input: ForgetDeviceCommandInput): Output {
+    const user = this.authenticate(input.AccessToken);
+    user.devices.delete(this.getExistingDevice(user, input.DeviceKey).key);
+
+    return {};
+  }
+
+  /**
+   * Changes whether a device of a signed-in user is remembered
+   * @param input - The UpdateDeviceStatus input
+   * @returns The UpdateDeviceStatus output
+   */
+  private updateDeviceStatus(input: UpdateDeviceStatusCommandInput): Output {
+    const user = this.authenticate(input.AccessToken);
+    this.setDeviceStatus(user, input.DeviceKey, input.DeviceRememberedStatus);
+
+    return {};
+  }
+
+  /**
+   * Creates a FORCE_CHANGE_PASSWORD user and sends the invitation, or resends it with MessageAction RESEND
+   * @param input - The AdminCreateUser input
+   * @returns The AdminCreateUser output
+   */
+  private adminCreateUser(input: AdminCreateUserCommandInput): Output {
+    this.assertUserPool(input.UserPoolId);
+    const username = input.Username as string;
+    const existing = this.users.get(username);
+
+    if (input.MessageAction === 'RESEND') {
+      if (!existing) {
+        throw this.exception(UserNotFoundException, 'User does not exist.');
+      }
+      if (existing.status !== 'FORCE_CHANGE_PASSWORD') {
+        throw this.exception(
+          UnsupportedOperationException,
+          'Resend not possible. User is not in FORCE_CHANGE_PASSWORD status.',
+        );
+      }
+      this.sendInvitation(existing, input.DesiredDeliveryMediums);
+      return { User: this.toUserType(existing) };
+    }
+
+    if (existing) {
+      throw this.exception(UsernameExistsException, 'User account already exists');
+    }
+
+    const temporaryPassword = input.TemporaryPassword ?? this.generatePassword();
+    this.assertPasswordPolicy(temporaryPassword);
+
+    const user = this.createUser(username, 'FORCE_CHANGE_PASSWORD', temporaryPassword);
+    this.setAttributes(user, input.UserAttributes);
+
+    if (input.MessageAction !== 'SUPPRESS') {
+      this.sendInvitation(user, input.DesiredDeliveryMediums);
+    }
+
+    return { User: this.toUserType(user) };
+  }
+
+  /**
+   * Gets a user with their status, dates and MFA settings
+   * @param input - The AdminGetUser input
+   * @returns The AdminGetUser output
+   */
+  private adminGetUser(input: AdminGetUserCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+
+    return {
+      Username: user.username,
+      UserAttributes: this.toAttributeList(user),
+      UserCreateDate: user.createdAt,
+      UserLastModifiedDate: user.updatedAt,
+      Enabled: user.enabled,
+      UserStatus: user.status,
+      ...this.toMfaOutput(user),
+    };
+  }
+
+  /**
+   * Deletes a user and revokes their tokens
+   * @param input - The AdminDeleteUser input
+   * @returns The AdminDeleteUser output
+   */
+  private adminDeleteUser(input: AdminDeleteUserCommandInput): Output {
+    this.removeUser(this.getAdminUser(input.UserPoolId, input.Username));
+
+    return {};
+  }
+
+  /**
+   * Confirms an unconfirmed user without a code
+   * @param input - The AdminConfirmSignUp input
+   * @returns The AdminConfirmSignUp output
+   */
+  private adminConfirmSignUp(input: AdminConfirmSignUpCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+
+    if (user.status !== 'UNCONFIRMED') {
+      throw this.exception(
+        NotAuthorizedException,
+        `User cannot be confirmed. Current status is ${user.status}`,
+      );
+    }
+
+    user.status = 'CONFIRMED';
+    user.codes.delete('signUp');
+    user.updatedAt = new Date();
+
+    return {};
+  }
+
+  /**
+   * Enables or disables a user
+   * @param input - The AdminEnableUser or AdminDisableUser input
+   * @param enabled - Whether the user is enabled
+   * @returns The command output
+   */
+  private adminSetEnabled(
+    input: AdminEnableUserCommandInput | AdminDisableUserCommandInput,
+    enabled: boolean,
+  ): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+    user.enabled = enabled;
+    user.updatedAt = new Date();
+
+    return {};
+  }
+
+  /**
+   * Sends a password reset code and moves the user to RESET_REQUIRED
+   * @param input - The AdminResetUserPassword input
+   * @returns The AdminResetUserPassword output
+   */
+  private adminResetUserPassword(input: AdminResetUserPasswordCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+
+    if (!user.enabled) {
+      throw this.exception(NotAuthorizedException, 'User is disabled.');
+    }
+
+    this.sendCode(user, 'ForgotPassword', 'forgotPassword', PASSWORD_RESET_CODE_VALIDITY_MS, true);
+    user.status = 'RESET_REQUIRED';
+    user.updatedAt = new Date();
+
+    return {};
+  }
+
+  /**
+   * Sets a permanent password, or a temporary one that must be changed at the next sign-in
+   * @param input - The AdminSetUserPassword input
+   * @returns The AdminSetUserPassword output
+   */
+  private adminSetUserPassword(input: AdminSetUserPasswordCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+    const password = input.Password as string;
+
+    this.assertPasswordPolicy(password);
+    user.password = password;
+    user.status = input.Permanent ? 'CONFIRMED' : 'FORCE_CHANGE_PASSWORD';
+    user.updatedAt = new Date();
+
+    return {};
+  }
+
+  /**
+   * Updates the attributes of a user
+   * @param input - The AdminUpdateUserAttributes input
+   * @returns The AdminUpdateUserAttributes output
+   */
+  private adminUpdateUserAttributes(input: AdminUpdateUserAttributesCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+    this.updateAttributes(user, input.UserAttributes);
+
+    return {};
+  }
+
+  /**
+   * Deletes attributes of a user
+   * @param input - The AdminDeleteUserAttributes input
+   * @returns The AdminDeleteUserAttributes output
+   */
+  private adminDeleteUserAttributes(input: AdminDeleteUserAttributesCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+    this.deleteAttributes(user, input.UserAttributeNames);
+
+    return {};
+  }
+
+  /**
+   * Revokes every token of a user
+   * @param input - The AdminUserGlobalSignOut input
+   * @returns The AdminUserGlobalSignOut output
+   */
+  private adminUserGlobalSignOut(input: AdminUserGlobalSignOutCommandInput): Output {
+    this.revokeTokens(this.getAdminUser(input.UserPoolId, input.Username));
+
+    return {};
+  }
+
+  /**
+   * Stores the MFA settings of a user
+   * @param input - The AdminSetUserMFAPreference input
+   * @returns The AdminSetUserMFAPreference output
+   */
+  private adminSetUserMfaPreference(input: AdminSetUserMFAPreferenceCommandInput): Output {
+    this.setMfaPreference(this.getAdminUser(input.UserPoolId, input.Username), input);
+
+    return {};
+  }
+
+  /**
+   * Adds a user to an existing group; adding a member again has no effect
+   * @param input - The AdminAddUserToGroup input
+   * @returns The AdminAddUserToGroup output
+   */
+  private adminAddUserToGroup(input: AdminAddUserToGroupCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+    user.groups.add(this.getExistingGroup(input.GroupName).name);
+
+    return {};
+  }
+
+  /**
+   * Removes a user from a group
+   * @param input - The AdminRemoveUserFromGroup input
+   * @returns The AdminRemoveUserFromGroup output
+   */
+  private adminRemoveUserFromGroup(input: AdminRemoveUserFromGroupCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+    user.groups.delete(this.getExistingGroup(input.GroupName).name);
+
+    return {};
+  }
+
+  /**
+   * Lists a page of the groups of a user, in the order the groups were created
+   * @param input - The AdminListGroupsForUser input
+   * @returns The AdminListGroupsForUser output
+   */
+  private adminListGroupsForUser(input: AdminListGroupsForUserCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+    const groups = [...this.groups.values()].filter((group) => user.groups.has(group.name));
+    const { items, nextToken } = this.paginate(groups, input.Limit, input.NextToken);
+
+    return { Groups: items.map((group) => this.toGroupType(group)), NextToken: nextToken };
+  }
+
+  /**
+   * Lists a page of the devices of a user
+   * @param input - The AdminListDevices input
+   * @returns The AdminListDevices output
+   */
+  private adminListDevices(input: AdminListDevicesCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+
+    return this.pageDevices(user, input.Limit, input.PaginationToken);
+  }
+
+  /**
+   * Gets a device of a user
+   * @param input - The AdminGetDevice input
+   * @returns The AdminGetDevice output
+   */
+  private adminGetDevice(input: AdminGetDeviceCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+
+    return { Device: this.toDeviceType(this.getExistingDevice(user, input.DeviceKey)) };
+  }
+
+  /**
+   * Stops tracking a device of a user
+   * @param input - The AdminForgetDevice input
+   * @returns The AdminForgetDevice output
+   */
+  private adminForgetDevice(input: AdminForgetDeviceCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+    user.devices.delete(this.getExistingDevice(user, input.DeviceKey).key);
+
+    return {};
+  }
+
+  /**
+   * Changes whether a device of a user is remembered
+   * @param input - The AdminUpdateDeviceStatus input
+   * @returns The AdminUpdateDeviceStatus output
+   */
+  private adminUpdateDeviceStatus(input: AdminUpdateDeviceStatusCommandInput): Output {
+    const user = this.getAdminUser(input.UserPoolId, input.Username);
+    this.setDeviceStatus(user, input.DeviceKey, input.DeviceRememberedStatus);
+
+    return {};
+  }
+
+  /**
+   * Lists a page of the users that match a filter
+   * @param input - The ListUsers input
+   * @returns The ListUsers output
+   */
+  private listUsers(input: ListUsersCommandInput): Output {
+    this.assertUserPool(input.UserPoolId);
+    const matches = this.parseFilter(input.Filter);
+    const users = [...this.users.values()].filter(matches);
+    const { items, nextToken } = this.paginate(users, input.Limit, input.PaginationToken);
+
+    return {
+      Users: items.map((user) => this.toUserType(user, input.AttributesToGet)),
+      PaginationToken: nextToken,
+    };
+  }
+
+  /**
+   * Lists a page of the members of a group
+   * @param input - The ListUsersInGroup input
+   * @returns The ListUsersInGroup output
+   */
+  private listUsersInGroup(input: ListUsersInGroupCommandInput): Output {
+    this.assertUserPool(input.UserPoolId);
+    const group = this.getExistingGroup(input.GroupName);
+    const users = [...this.users.values()].filter((user) => user.groups.has(group.name));
+    const { items, nextToken } = this.paginate(users, input.Limit, input.NextToken);
+
+    return { Users: items.map((user) => this.toUserType(user)), NextToken: nextToken };
+  }
+
+  /**
+   * Creates a group
+   * @param input - The CreateGroup input
+   * @returns The CreateGroup output
+   */
+  private createGroup(input: CreateGroupCommandInput): Output {
+    this.assertUserPool(input.UserPoolId);
+    const name = input.GroupName as string;
+
+    if (this.groups.has(name)) {
+      throw this.exception(GroupExistsException, 'A group with the name already exists.');
+    }
+
+    const now = new Date();
+    const group: FakeGroup = {
+      name,
+      description: input.Description,
+      precedence: input.Precedence,
+      roleArn: input.RoleArn,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.groups.set(name, group);
+
+    return { Group: this.toGroupType(group) };
+  }
+
+  /**
+   * Gets a group
+   * @param input - The GetGroup input
+   * @returns The GetGroup output
+   */
+  private getGroup(input: GetGroupCommandInput): Output {
+    this.assertUserPool(input.UserPoolId);
+
+    return { Group: this.toGroupType(this.getExistingGroup(input.GroupName)) };
+  }
+
+  /**
+   * Replaces the description, precedence and role of a group
+   * @param input - The UpdateGroup input
+   * @returns The UpdateGroup output
+   */
+  private updateGroup(input: UpdateGroupCommandInput): Output {
+    this.assertUserPool(input.UserPoolId);
+    const group = this.getExistingGroup(input.GroupName);
+
+    // Like Cognito, fields left out of the request are cleared
+    group.description = input.Description;
+    group.precedence = input.Precedence;
+    group.roleArn = input.RoleArn;
+    group.updatedAt = new Date();
+
+    return { Group: this.toGroupType(group) };
+  }
+
+  /**
+   * Deletes a group and removes its members from it
+   * @param input - The DeleteGroup input
+   * @returns The DeleteGroup output
+   */
+  private deleteGroup(input: DeleteGroupCommandInput): Output {
+    this.assertUserPool(input.UserPoolId);
+    const group = this.getExistingGroup(input.GroupName);
+
+    this.groups.delete(group.name);
+    this.users.forEach((user) => user.groups.delete(group.name));
+
+    return {};
+  }
+
+  /**
+   * Lists a page of the groups, in the order they were created
+   * @param input - The ListGroups input
+   * @returns The ListGroups output
+   */
+  private listGroups(input: ListGroupsCommandInput): Output {
+    this.assertUserPool(input.UserPoolId);
+    const { items, nextToken } = this.paginate(
+      [...this.groups.values()],
+      input.Limit,
+      input.NextToken,
+    );
+
+    return { Groups: items.map((group) => this.toGroupType(group)), NextToken: nextToken };
+  }
+
+  /**
+   * Creates a user with a new sub and stores it
+   * @param username - The username
+   * @param status - The initial status
+   * @param password - Optional password
+   * @returns The new user
+   */
+  private createUser(username: string, status: CognitoUserStatus, password?: string): FakeUser {
+    const now = new Date();
+    const user: FakeUser = {
+      username,
+      password,
+      status,
+      enabled: true,
+      attributes: new Map([['sub', randomUUID()]]),
+      groups: new Set(),
+      devices: new Map(),
+      codes: new Map(),
+      mfaSettings: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.users.set(username, user);
+
+    return user;
+  }
+
+  /**
+   * Finds a user by username or sub
+   * @param username - The username or sub
+   * @returns The user, if any
+   */
+  private findUser(username: string | undefined): FakeUser | undefined {
+    if (!username) {
+      return undefined;
+    }
+
+    return (
+      this.users.get(username) ??
+      [...this.users.values()].find((user) => user.attributes.get('sub') === username)
+    );
+  }
+
+  /**
+   * Finds a user by username or sub
+   * @param username - The username or sub
+   * @returns The user
+   */
+  private getExistingUser(username: string | undefined): FakeUser {
+    const user = this.findUser(username);
+    if (!user) {
+      throw this.exception(UserNotFoundException, 'User does not exist.');
+    }
+
+    return user;
+  }
+
+  /**
+   * Finds a user for an admin command
+   * @param userPoolId - The user pool ID of the command
+   * @param username - The username or sub
+   * @returns The user
+   */
+  private getAdminUser(userPoolId: string | undefined, username: string | undefined): FakeUser {
+    this.assertUserPool(userPoolId);
+
+    return this.getExistingUser(username);
+  }
+
+  /**
+   * Removes a user and revokes their tokens
+   * @param user - The user to remove
+   */
+  private removeUser(user: FakeUser): void {
+    this.revokeTokens(user);
+    this.users.delete(user.username);
+  }
+
+  /**
+   * Marks a user as confirmed, verifying the attribute the confirmation code was sent to
+   * @param user - The user
+   */
+  private confirmUser(user: FakeUser): void {
+    const message = [...this.outbox]
+      .reverse()
+      .find(
+        (item) =>
+          item.username === user.username && (item.kind === 'SignUp' || item.kind === 'ResendCode'),
+      );
+
+    user.status = 'CONFIRMED';
+    if (message) {
+      user.attributes.set(
+        message.deliveryMedium === 'EMAIL' ? 'email_verified' : 'phone_number_verified',
+        'true',
+      );
+    }
+    user.updatedAt = new Date();
+  }
+
+  /**
+   * Finds a group by name
+   * @param name - The group name
+   * @returns The group
+   */
+  private getExistingGroup(name: string | undefined): FakeGroup {
+    const group = name ? this.groups.get(name) : undefined;
+    if (!group) {
+      throw this.exception(ResourceNotFoundException, 'Group not found.');
+    }
+
+    return group;
+  }
+
+  /**
+   * Finds a device of a user
+   * @param user - The user
+   * @param deviceKey - The device key
+   * @returns The device
+   */
+  private getExistingDevice(user: FakeUser, deviceKey: string | undefined): FakeDevice {
+    const device = deviceKey ? user.devices.get(deviceKey) : undefined;
+    if (!device) {
+      throw this.exception(ResourceNotFoundException, 'Device does not exist.');
+    }
+
+    return device;
+  }
+
+  /**
+   * Changes whether a device is remembered
+   * @param user - The user
+   * @param deviceKey - The device key
+   * @param status - The new status
+   */
+  private setDeviceStatus(
+    user: FakeUser,
+    deviceKey: string | undefined,
+    status: string | undefined,
+  ): void {
+    const device = this.getExistingDevice(user, deviceKey);
+    device.status = status === 'remembered' ? 'remembered' : 'not_remembered';
+    device.updatedAt = new Date();
+  }
+
+  /**
+   * Lists a page of a user's devices
+   * @param user - The user
+   * @param limit - The page size
+   * @param token - The pagination token of the previous page
+   * @returns The ListDevices output
+   */
+  private pageDevices(user: FakeUser, limit?: number, token?: string): Output {
+    const { items, nextToken } = this.paginate([...user.devices.values()], limit, token);
+
+    return {
+      Devices: items.map((device) => this.toDeviceType(device)),
+      PaginationToken: nextToken,
+    };
+  }
+
+  /**
+   * Stores MFA settings sent by SetUserMFAPreference or AdminSetUserMFAPreference
+   * @param user - The user
+   * @param input - The MFA settings of the command
+   */
+  private setMfaPreference(
+    user: FakeUser,
+    input: SetUserMFAPreferenceCommandInput | AdminSetUserMFAPreferenceCommandInput,
+  ): void {
+    const settings = [
+      ['SMS_MFA', input.SMSMfaSettings],
+      ['SOFTWARE_TOKEN_MFA', input.SoftwareTokenMfaSettings],
+      ['EMAIL_OTP', input.EmailMfaSettings],
+    ] as const;
+
+    settings.forEach(([method, setting]) => {
+      if (!setting) return;
+
+      const enabled = setting.Enabled ?? user.mfaSettings.includes(method);
+      user.mfaSettings = user.mfaSettings.filter((item) => item !== method);
+      if (enabled) user.mfaSettings.push(method);
+
+      if (setting.PreferredMfa) {
+        user.preferredMfa = method;
+      } else if (user.preferredMfa === method && (setting.PreferredMfa === false || !enabled)) {
+        user.preferredMfa = undefined;
+      }
+    });
+    user.updatedAt = new Date();
+  }
+
+  /**
+   * Sets attributes without verification side effects
+   * @param user - The user
+   * @param attributes - The attributes to set
+   */
+  private setAttributes(user: FakeUser, attributes: AttributeType[] = []): void {
+    attributes.forEach(({ Name, Value }) => {
+      if (Name === 'sub') {
+        throw this.exception(
+          InvalidParameterException,
+          'Invalid user attributes: sub: Attribute cannot be updated.',
+        );
+      }
+      if (Name) user.attributes.set(Name, Value ?? '');
+    });
+  }
+
+  /**
+   * Updates attributes. A changed email or phone number becomes unverified and a code is sent,
+   * unless the request marks it as verified
+   * @param user - The user
+   * @param attributes - The attributes to update
+   * @returns The delivery details of the codes sent
+   */
+  private updateAttributes(user: FakeUser, attributes: AttributeType[] = []): Output[] {
+    const changed = (['email', 'phone_number'] as const).filter((name) => {
+      const update = attributes.find((attribute) => attribute.Name === name);
+      return update && update.Value !== user.attributes.get(name);
+    });
+
+    this.setAttributes(user, attributes);
+    user.updatedAt = new Date();
+
+    return changed
+      .filter(
+        (name) =>
+          !attributes.some(({ Name, Value }) => Name === `${name}_verified` && Value === 'true'),
+      )
+      .map((name) => {
+        user.attributes.set(`${name}_verified`, 'false');
+        return this.sendVerificationCode(user, name);
+      });
+  }
+
+  /**
+   * Deletes attributes
+   * @param user - The user
+   * @param names - The attribute names
+   */
+  private deleteAttributes(user: FakeUser, names: string[] = []): void {
+    if (names.includes('sub')) {
+      throw this.exception(
+        InvalidParameterException,
+        'Invalid user attributes: sub: Attribute cannot be deleted.',
+      );
+    }
+
+    names.forEach((name) => user.attributes.delete(name));
+    user.updatedAt = new Date();
+  }
+
+  /**
+   * Sends a code to verify an email address or phone number
+   * @param user - The user
+   * @param name - The attribute to verify
+   * @returns The delivery details
+   */
+  private sendVerificationCode(user: FakeUser, name: 'email' | 'phone_number'): Output {
+    const destination = user.attributes.get(name);
+    if (!destination) {
+      throw this.exception(InvalidParameterException, `User does not have attribute ${name}`);
+    }
+
+    return this.deliver(
+      user,
+      'VerifyAttribute',
+      name === 'email' ? 'EMAIL' : 'SMS',
+      this.storeCode(user, `verify:${name}`, CODE_VALIDITY_MS),
+    );
+  }
+
+  /**
+   * Sends a code to the user's email address, or their phone number if they have no email
+   * @param user - The user
+   * @param kind - The kind of message
+   * @param purpose - What the code confirms
+   * @param validityMs - How long the code is valid
+   * @param verifiedOnly - Whether only verified destinations may be used
+   * @returns The delivery details
+   */
+  private sendCode(
+    user: FakeUser,
+    kind: FakeCognitoMessage['kind'],
+    purpose: string,
+    validityMs: number,
+    verifiedOnly = false,
+  ): Output {
+    const usable = (name: string): boolean =>
+      user.attributes.has(name) &&
+      (!verifiedOnly || user.attributes.get(`${name}_verified`) === 'true');
+    const medium = usable('email') ? 'EMAIL' : usable('phone_number') ? 'SMS' : undefined;
+
+    if (!medium) {
+      throw this.exception(
+        InvalidParameterException,
+        verifiedOnly
+          ? 'Cannot reset password for the user as there is no registered/verified email or phone_number'
+          : 'Cannot send the code as there is no registered email or phone_number',
+      );
+    }
+
+    return this.deliver(user, kind, medium, this.storeCode(user, purpose, validityMs));
+  }
+
+  /**
+   * Sends the invitation with the temporary password of a user created by an admin
+   * @param user - The user
+   * @param mediums - The requested delivery mediums, SMS by default like Cognito
+   */
+  private sendInvitation(user: FakeUser, mediums: string[] = ['SMS']): void {
+    const available = mediums.filter((medium) =>
+      user.attributes.has(medium === 'EMAIL' ? 'email' : 'phone_number'),
+    );
+    // Fall back to email when the user has no phone number, so the temporary password is not lost
+    const targets = available.length > 0 || !user.attributes.has('email') ? available : ['EMAIL'];
+
+    targets.forEach((medium) =>
+      this.deliver(user, 'Invitation', medium as 'EMAIL' | 'SMS', user.password as string),
+    );
+  }
+
+  /**
+   * Records a message in the outbox
+   * @param user - The recipient
+   * @param kind - The kind of message
+   * @param deliveryMedium - EMAIL or SMS
+   * @param code - The code or temporary password
+   * @returns The CodeDeliveryDetails Cognito would return
+   */
+  private deliver(
+    user: FakeUser,
+    kind: FakeCognitoMessage['kind'],
+    deliveryMedium: 'EMAIL' | 'SMS',
+    code: string,
+  ): Output {
+    const attributeName = deliveryMedium === 'EMAIL' ? 'email' : 'phone_number';
+    const destination = user.attributes.get(attributeName) as string;
+
+    this.outbox.push({
+      kind,
+      username: user.username,
+      deliveryMedium,
+      destination,
+      code,
+      sentAt: new Date(),
+    });
+
+    return {
+      Destination: this.maskDestination(destination, deliveryMedium),
+      DeliveryMedium: deliveryMedium,
+      AttributeName: attributeName,
+    };
+  }
+
+  /**
+   * Masks a destination the way Cognito does in CodeDeliveryDetails
+   * @param destination - The email address or phone number
+   * @param deliveryMedium - EMAIL or SMS
+   * @returns The masked destination, e.g. j***@e***
+   */
+  private maskDestination(destination: string, deliveryMedium: 'EMAIL' | 'SMS'): string {
+    if (deliveryMedium === 'SMS') {
+      return `+*******${destination.slice(-4)}`;
+    }
+
+    const [local, domain = ''] = destination.split('@');
+    return `${local.charAt(0)}***@${domain.charAt(0)}***`;
+  }
+
+  /**
+   * Generates and stores a six digit code
+   * @param user - The user
+   * @param purpose - What the code confirms
+   * @param validityMs - How long the code is valid
+   * @returns The code
+   */
+  private storeCode(user: FakeUser, purpose: string, validityMs: number): string {
+    const code = String(randomInt(0, 1000000)).padStart(6, '0');
+    user.codes.set(purpose, { code, expiresAt: Date.now() + validityMs });
+
+    return code;
+  }
+
+  /**
+   * Checks and consumes a code
+   * @param user - The user
+   * @param purpose - What the code confirms
+   * @param code - The code sent by the caller
+   */
+  private useCode(user: FakeUser, purpose: string, code: string | undefined): void {
+    const stored = user.codes.get(purpose);
+
+    if (!stored || stored.code !== code) {
+      throw this.exception(
+        CodeMismatchException,
+        'Invalid verification code provided, please try again.',
+      );
+    }
+
+    if (Date.now() > stored.expiresAt) {
+      throw this.exception(
+        ExpiredCodeException,
+        'Invalid code provided, please request a code again.',
+      );
+    }
+
+    user.codes.delete(purpose);
+  }
+
+  /**
+   * Checks a password against the user pool's password policy
+   * @param password - The password
+   */
+  private assertPasswordPolicy(password: string): void {
+    const policy = this.passwordPolicy;
+    const problems: [boolean, string][] = [
+      [password.length < policy.minimumLength, 'Password not long enough'],
+      [
+        policy.requireUppercase && !/[A-Z]/.test(password),
+        'Password must have uppercase characters',
+      ],
+      [
+        policy.requireLowercase && !/[a-z]/.test(password),
+        'Password must have lowercase characters',
+      ],
+      [policy.requireNumbers && !/[0-9]/.test(password), 'Password must have numeric characters'],
+      [
+        policy.requireSymbols && !/[^A-Za-z0-9\s]/.test(password),
+        'Password must have symbol characters',
+      ],
+    ];
+    const problem = problems.find(([failed]) => failed);
+
+    if (problem) {
+      throw this.exception(
+        InvalidPasswordException,
+        `Password did not conform with policy: ${problem[1]}`,
+      );
+    }
+  }
+
+  /**
+   * Generates a temporary password that satisfies the password policy
+   * @returns The password
+   */
+  private generatePassword(): string {
+    const length = Math.max(this.passwordPolicy.minimumLength - 4, 4);
+    return `Aa1!${randomBytes(length).toString('base64url').slice(0, length)}`;
+  }
+
+  /**
+   * Checks the user pool ID of an admin command
+   * @param userPoolId - The user pool ID of the command
+   */
+  private assertUserPool(userPoolId: string | undefined): void {
+    if (userPoolId !== this.userPoolId) {
+      throw this.exception(ResourceNotFoundException, `User pool ${userPoolId} does not exist.`);
+    }
+  }
+
+  /**
+   * Checks the app client ID and, when the pool has a client secret, the SECRET_HASH
+   * @param clientId - The client ID of the command
+   * @param username - The name the SECRET_HASH should be computed from
+   * @param secretHash - The SECRET_HASH of the command
+   */
+  private assertClient(
+    clientId: string | undefined,
+    username: string,
+    secretHash: string | undefined,
+  ): void {
+    if (clientId !== this.clientId) {
+      throw this.exception(
+        ResourceNotFoundException,
+        `User pool client ${clientId} does not exist.`,
+      );
+    }
+
+    if (!this.clientSecret) {
+      return;
+    }
+
+    if (!secretHash) {
+      throw this.exception(
+        NotAuthorizedException,
+        `Client ${clientId} is configured with secret but SECRET_HASH was not received`,
+      );
+    }
+
+    if (secretHash !== this.secretHash(username)) {
+      throw this.exception(
+        NotAuthorizedException,
+        `Unable to verify secret hash for client ${clientId}`,
+      );
+    }
+  }
+
+  /**
+   * Calculates the SECRET_HASH for a name with the pool's client secret
+   * @param username - The username or sub
+   * @returns The SECRET_HASH
+   */
+  private secretHash(username: string): string {
+    return calculateSecretHash(username, this.clientId, this.clientSecret as string);
+  }
+
+  /**
+   * Finds the user an access token was issued to
+   * @param accessToken - The access token
+   * @returns The user
+   */
+  private authenticate(accessToken: string | undefined): FakeUser {
+    const token = accessToken ? this.tokens.get(accessToken) : undefined;
+    if (!token || token.kind !== 'access') {
+      throw this.exception(NotAuthorizedException, 'Invalid Access Token');
+    }
+
+    if (token.revoked) {
+      throw this.exception(NotAuthorizedException, 'Access Token has been revoked');
+    }
+
+    if (Date.now() >= (token.expiresAt as number)) {
+      throw this.exception(NotAuthorizedException, 'Access Token has expired');
+    }
+
+    const user = this.users.get(token.username);
+    if (!user) {
+      throw this.exception(NotAuthorizedException, 'User does not exist.');
+    }
+
+    if (!user.enabled) {
+      throw this.exception(NotAuthorizedException, 'User is disabled.');
+    }
+
+    return user;
+  }
+
+  /**
+   * Revokes every token issued to a user
+   * @param user - The user
+   */
+  private revokeTokens(user: FakeUser): void {
+    this.tokens.forEach((token) => {
+      if (token.username === user.username) token.revoked = true;
+    });
+  }
+
+  /**
+   * Issues access and ID tokens, and a refresh token for a new sign-in
+   * @param user - The user
+   * @param withRefreshToken - Whether to issue a refresh token
+   * @returns The AuthenticationResult
+   */
+  private issueTokens(user: FakeUser, withRefreshToken: boolean): Output {
+    const validity =
+      this.options.accessTokenValiditySeconds ?? DEFAULT_ACCESS_TOKEN_VALIDITY_SECONDS;
+    const issuedAt = new Date();
+    const { RefreshToken, ...result } = this.tokenIssuer.mintAuthResult({
+      sub: user.attributes.get('sub'),
+      username: user.username,
+      groups: user.groups.size > 0 ? [...user.groups] : undefined,
+      attributes: Object.fromEntries(user.attributes),
+      issuedAt,
+      expiresInSeconds: validity,
+    });
+
+    // Token lifetimes are whole seconds, as in the exp claim
+    this.tokens.set(result.AccessToken as string, {
+      username: user.username,
+      kind: 'access',
+      expiresAt: (Math.floor(issuedAt.getTime() / 1000) + validity) * 1000,
+      revoked: false,
+    });
+
+    if (!withRefreshToken) {
+      return result;
+    }
+
+    this.tokens.set(RefreshToken as string, {
+      username: user.username,
+      kind: 'refresh',
+      revoked: false,
+    });
+    return { ...result, RefreshToken };
+  }
+
+  /**
+   * Builds a predicate from a ListUsers filter, e.g. email ^= "jane"
+   * @param filter - The filter expression
+   * @returns The predicate
+   */
+  private parseFilter(filter: string | undefined): (user: FakeUser) => boolean {
+    if (!filter) {
+      return () => true;
+    }
+
+    const match = /^\s*([\w:]+)\s*(=|\^=)\s*"((?:[^"\\]|\\.)*)"\s*$/.exec(filter);
+    if (!match || !FILTERABLE_ATTRIBUTES.includes(match[1])) {
+      throw this.exception(InvalidParameterException, 'Error while parsing filter.');
+    }
+
+    const [, attribute, operator] = match;
+    const expected = match[3].replace(/\\(.)/g, '$1');
+    const valueOf = (user: FakeUser): string | undefined => {
+      if (attribute === 'username') return user.username;
+      if (attribute === 'cognito:user_status') return user.status;
+      if (attribute === 'status') return user.enabled ? 'Enabled' : 'Disabled';
+      return user.attributes.get(attribute);
+    };
+
+    return (user) => {
+      const value = valueOf(user);
+      return (
+        value !== undefined && (operator === '=' ? value === expected : value.startsWith(expected))
+      );
+    };
+  }
+
+  /**
+   * Slices a page from a list, with pagination tokens encoding the offset
+   * @param items - All items
+   * @param limit - The page size, 60 at most
+   * @param token - The pagination token of the previous page
+   * @returns The page and the token of the next page
+   */
+  private paginate<T>(
+    items: T[],
+    limit: number = MAX_PAGE_SIZE,
+    token?: string,
+  ): { items: T[]; nextToken?: string } {
+    if (limit < 0 || limit > MAX_PAGE_SIZE) {
+      throw this.exception(
+        InvalidParameterException,
+        `1 validation error detected: Value '${limit}' at 'limit' failed to satisfy constraint: Member must have value less than or equal to ${MAX_PAGE_SIZE}`,
+      );
+    }
+
+    const offset = token ? Number(Buffer.from(token, 'base64url').toString('utf8')) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw this.exception(InvalidParameterException, 'Invalid pagination token.');
+    }
+
+    const end = offset + (limit || MAX_PAGE_SIZE);
+    return {
+      items: items.slice(offset, end),
+      nextToken: end < items.length ? Buffer.from(String(end)).toString('base64url') : undefined,
+    };
+  }
+
+  /**
+   * Converts a user's attributes to the SDK shape
+   * @param user - The user
+   * @param names - Optional names of the attributes to include
+   * @returns The attribute list
+   */
+  private toAttributeList(user: FakeUser, names?: string[]): AttributeType[] {
+    return [...user.attributes]
+      .filter(([name]) => !names || names.includes(name))
+      .map(([Name, Value]) => ({ Name, Value }));
+  }
+
+  /**
+   * Converts a user to the SDK UserType
+   * @param user - The user
+   * @param attributesToGet - Optional names of the attributes to include
+   * @returns The UserType
+   */
+  private toUserType(user: FakeUser, attributesToGet?: string[]): Output {
+    return {
+      Username: user.username,
+      Attributes: this.toAttributeList(user, attributesToGet),
+      UserCreateDate: user.createdAt,
+      UserLastModifiedDate: user.updatedAt,
+      Enabled: user.enabled,
+      UserStatus: user.status,
+    };
+  }
+
+  /**
+   * Builds the MFA fields of GetUser and AdminGetUser
+   * @param user - The user
+   * @returns The MFA settings and preferred method, when set
+   */
+  private toMfaOutput(user: FakeUser): Output {
+    return {
+      ...(user.mfaSettings.length > 0 ? { UserMFASettingList: [...user.mfaSettings] } : {}),
+      ...(user.preferredMfa ? { PreferredMfaSetting: user.preferredMfa } : {}),
+    };
+  }
+
+  /**
+   * Converts a group to the SDK GroupType
+   * @param group - The group
+   * @returns The GroupType
+   */
+  private toGroupType(group: FakeGroup): Output {
+    return {
+      GroupName: group.name,
+      UserPoolId: this.userPoolId,
+      Description: group.description,
+      Precedence: group.precedence,
+      RoleArn: group.roleArn,
+      CreationDate: group.createdAt,
+      LastModifiedDate: group.updatedAt,
+    };
+  }
+
+  /**
+   * Converts a device to the SDK DeviceType
+   * @param device - The device
+   * @returns The DeviceType
+   */
+  private toDeviceType(device: FakeDevice): Output {
+    return {
+      DeviceKey: device.key,
+      DeviceAttributes: [
+        ...(device.name ? [{ Name: 'device_name', Value: device.name }] : []),
+        { Name: 'device_status', Value: device.status },
+      ],
+      DeviceCreateDate: device.createdAt,
+      DeviceLastModifiedDate: device.updatedAt,
+      DeviceLastAuthenticatedDate: device.lastAuthenticatedAt,
+    };
+  }
+
+  /**
+   * Creates an SDK exception, as the real client would throw it
+   * @param Exception - The SDK exception class
+   * @param message - The Cognito error message
+   * @returns The exception
+   */
+  private exception(Exception: ExceptionConstructor, message: string): Error {
+    return new Exception({ message, $metadata: { httpStatusCode: 400, requestId: randomUUID() } });
+  }
+}
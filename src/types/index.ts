@@ -1,10 +1,21 @@
+import type {
+  AuthenticationResultType,
+  CognitoIdentityProviderClient,
+} from '@aws-sdk/client-cognito-identity-provider';
+import type { KeyObject } from 'crypto';
+import type { CognitoClientError } from '../lib/errors';
+
 /**
- * Basic configuration for all Cognito clients
+ * Basic configuration for all Cognito clients.
+ * Requests are retried according to retry and throttled by rateLimiter when they are set
  */
 export type CognitoConfig = {
   region: string;
   userPoolId: string;
   clientId: string;
+  clientSecret?: string;
+  retry?: RetryPolicy;
+  rateLimiter?: RateLimiter;
 };
 
 /**
@@ -50,7 +61,8 @@ export type SignUpParams = {
 };
 
 /**
- * Response from authentication operations
+ * Response from authentication operations.
+ * claims is populated when the returned tokens can be decoded.
  */
 export type AuthResponse = {
   accessToken: string;
@@ -58,6 +70,207 @@ export type AuthResponse = {
   refreshToken: string;
   expiresIn: number;
   tokenType: string;
+  claims?: AuthClaims;
+};
+
+/**
+ * Decoded claims of an access token
+ */
+export type AccessTokenClaims = {
+  sub: string;
+  username: string;
+  clientId: string;
+  tokenUse: 'access';
+  issuer: string;
+  scopes: string[];
+  groups: string[];
+  authTime?: Date;
+  issuedAt?: Date;
+  expiresAt: Date;
+  jti?: string;
+  originJti?: string;
+  deviceKey?: string;
+};
+
+/**
+ * Decoded claims of an ID token.
+ * attributes holds every user attribute in the token, camel-cased like mapAttributes (custom:role becomes customRole).
+ */
+export type IdTokenClaims = {
+  sub: string;
+  username: string;
+  audience: string;
+  tokenUse: 'id';
+  issuer: string;
+  groups: string[];
+  email?: string;
+  emailVerified?: boolean;
+  phoneNumber?: string;
+  phoneNumberVerified?: boolean;
+  attributes: Record<string, string>;
+  authTime?: Date;
+  issuedAt?: Date;
+  expiresAt: Date;
+  jti?: string;
+  originJti?: string;
+};
+
+/**
+ * Decoded claims of the tokens returned by a sign-in
+ */
+export type AuthClaims = {
+  accessToken: AccessTokenClaims;
+  idToken: IdTokenClaims;
+};
+
+/**
+ * Authentication flows supported by initiateSignIn
+ */
+export type SignInAuthFlow = 'USER_PASSWORD_AUTH' | 'USER_SRP_AUTH';
+
+/**
+ * Parameters for initiating a challenge-aware sign-in
+ */
+export type InitiateSignInParams = AuthParams & {
+  authFlow?: SignInAuthFlow;
+  clientMetadata?: Record<string, string>;
+};
+
+/**
+ * Fields shared by every challenge step of a sign-in
+ */
+export type SignInChallengeBase<TType extends string, TChallengeName extends string> = {
+  type: TType;
+  challengeName: TChallengeName;
+  session: string;
+  username: string;
+  challengeParameters: Record<string, string>;
+};
+
+/**
+ * Sign-in completed and tokens were issued
+ */
+export type SignInTokensResult = {
+  type: 'tokens';
+  tokens: AuthResponse;
+};
+
+/**
+ * The user must choose a new password before signing in
+ */
+export type NewPasswordRequiredChallenge = SignInChallengeBase<
+  'newPasswordRequired',
+  'NEW_PASSWORD_REQUIRED'
+> & {
+  requiredAttributes: string[];
+  userAttributes: Record<string, string>;
+};
+
+/**
+ * A code was sent by SMS and must be entered
+ */
+export type SmsMfaChallenge = SignInChallengeBase<'smsMfa', 'SMS_MFA'> & {
+  codeDeliveryDestination?: string;
+  codeDeliveryMedium?: string;
+};
+
+/**
+ * A code from the user's authenticator app must be entered
+ */
+export type SoftwareTokenMfaChallenge = SignInChallengeBase<
+  'softwareTokenMfa',
+  'SOFTWARE_TOKEN_MFA'
+>;
+
+/**
+ * A code was sent by email and must be entered
+ */
+export type EmailOtpChallenge = SignInChallengeBase<'emailOtp', 'EMAIL_OTP'> & {
+  codeDeliveryDestination?: string;
+  codeDeliveryMedium?: string;
+};
+
+/**
+ * The user must pick which MFA method to use
+ */
+export type SelectMfaTypeChallenge = SignInChallengeBase<'selectMfaType', 'SELECT_MFA_TYPE'> & {
+  mfasCanChoose: string[];
+};
+
+/**
+ * The user must set up MFA before signing in
+ */
+export type MfaSetupChallenge = SignInChallengeBase<'mfaSetup', 'MFA_SETUP'> & {
+  mfasCanSetup: string[];
+};
+
+/**
+ * Any other challenge returned by Cognito, such as CUSTOM_CHALLENGE
+ */
+export type OtherChallenge = SignInChallengeBase<'challenge', string>;
+
+/**
+ * A challenge step of a sign-in
+ */
+export type SignInChallenge =
+  | NewPasswordRequiredChallenge
+  | SmsMfaChallenge
+  | SoftwareTokenMfaChallenge
+  | EmailOtpChallenge
+  | SelectMfaTypeChallenge
+  | MfaSetupChallenge
+  | OtherChallenge;
+
+/**
+ * Result of a challenge-aware sign-in step, either tokens or the next challenge
+ */
+export type SignInResult = SignInTokensResult | SignInChallenge;
+
+/**
+ * Parameters for responding to a sign-in challenge
+ */
+export type RespondToChallengeParams = {
+  challengeName: string;
+  username: string;
+  session: string;
+  challengeResponses: Record<string, string>;
+  clientMetadata?: Record<string, string>;
+};
+
+/**
+ * MFA methods a user can select during sign-in
+ */
+export type MfaType = 'SMS_MFA' | 'SOFTWARE_TOKEN_MFA' | 'EMAIL_OTP';
+
+/**
+ * Parameters for answering an SMS, TOTP or email code challenge
+ */
+export type RespondToMfaParams = {
+  username: string;
+  session: string;
+  code: string;
+  clientMetadata?: Record<string, string>;
+};
+
+/**
+ * Parameters for answering a SELECT_MFA_TYPE challenge
+ */
+export type SelectMfaTypeParams = {
+  username: string;
+  session: string;
+  mfaType: MfaType;
+  clientMetadata?: Record<string, string>;
+};
+
+/**
+ * Parameters for completing an MFA_SETUP challenge with an authenticator app
+ */
+export type CompleteMfaSetupParams = {
+  username: string;
+  session: string;
+  userCode: string;
+  friendlyDeviceName?: string;
+  clientMetadata?: Record<string, string>;
 };
 
 /**
@@ -94,10 +307,12 @@ export type ConfirmForgotPasswordParams = {
 };
 
 /**
- * Parameters for refreshing tokens
+ * Parameters for refreshing tokens.
+ * userSub is required when the app client has a client secret, as the SECRET_HASH is based on it.
  */
 export type RefreshTokenParams = {
   refreshToken: string;
+  userSub?: string;
 };
 
 /**
@@ -156,10 +371,12 @@ export type MFAOption = {
 };
 
 /**
- * Parameters for associating a software token for MFA
+ * Parameters for associating a software token for MFA.
+ * Provide an access token for a signed-in user, or the session from an MFA_SETUP challenge.
  */
 export type AssociateSoftwareTokenParams = {
-  accessToken: string;
+  accessToken?: string;
+  session?: string;
 };
 
 /**
@@ -174,7 +391,7 @@ export type AssociateSoftwareTokenResponse = {
  * Parameters for verifying a software token
  */
 export type VerifySoftwareTokenParams = {
-  accessToken: string;
+  accessToken?: string;
   userCode: string;
   friendlyDeviceName?: string;
   session?: string;
@@ -349,7 +566,7 @@ export type AdminDeleteUserParams = {
 };
 
 /**
- * Parameters for admin listing users
+ * Parameters for admin listing users. Build filter with UserFilter
  */
 export type AdminListUsersParams = {
   limit?: number;
@@ -578,11 +795,83 @@ export type AdminLinkProviderForUserParams = {
  * Error info returned by the Cognito client
  */
 export type CognitoErrorInfo = {
-  code: string;
+  code: CognitoErrorCode;
   name: string;
   message: string;
 };
 
+/**
+ * Stable error codes of CognitoClientError, derived from the Cognito exception names.
+ * UnknownError is used for exceptions this library does not know and for non-service errors
+ */
+export type CognitoErrorCode =
+  | 'AliasExists'
+  | 'CodeDeliveryFailure'
+  | 'CodeMismatch'
+  | 'ConcurrentModification'
+  | 'DeviceKeyExists'
+  | 'DuplicateProvider'
+  | 'EnableSoftwareTokenMFA'
+  | 'ExpiredCode'
+  | 'FeatureUnavailableInTier'
+  | 'Forbidden'
+  | 'GroupExists'
+  | 'InternalError'
+  | 'InvalidEmailRoleAccessPolicy'
+  | 'InvalidLambdaResponse'
+  | 'InvalidOAuthFlow'
+  | 'InvalidParameter'
+  | 'InvalidPassword'
+  | 'InvalidSmsRoleAccessPolicy'
+  | 'InvalidSmsRoleTrustRelationship'
+  | 'InvalidUserPoolConfiguration'
+  | 'LimitExceeded'
+  | 'MFAMethodNotFound'
+  | 'ManagedLoginBrandingExists'
+  | 'NotAuthorized'
+  | 'PasswordHistoryPolicyViolation'
+  | 'PasswordResetRequired'
+  | 'PreconditionNotMet'
+  | 'RefreshTokenReuse'
+  | 'ResourceNotFound'
+  | 'ScopeDoesNotExist'
+  | 'SoftwareTokenMFANotFound'
+  | 'TierChangeNotAllowed'
+  | 'TooManyFailedAttempts'
+  | 'TooManyRequests'
+  | 'Unauthorized'
+  | 'UnexpectedLambda'
+  | 'UnsupportedIdentityProvider'
+  | 'UnsupportedOperation'
+  | 'UnsupportedTokenType'
+  | 'UnsupportedUserState'
+  | 'UserImportInProgress'
+  | 'UserLambdaValidation'
+  | 'UserNotConfirmed'
+  | 'UserNotFound'
+  | 'UserPoolAddOnNotEnabled'
+  | 'UserPoolTagging'
+  | 'UsernameExists'
+  | 'WebAuthnChallengeNotFound'
+  | 'WebAuthnClientMismatch'
+  | 'WebAuthnConfigurationMissing'
+  | 'WebAuthnCredentialNotSupported'
+  | 'WebAuthnNotEnabled'
+  | 'WebAuthnOriginNotAllowed'
+  | 'WebAuthnRelyingPartyMismatch'
+  | 'UnknownError';
+
+/**
+ * Details attached to a CognitoClientError
+ */
+export type CognitoClientErrorOptions = {
+  code?: CognitoErrorCode;
+  cause?: unknown;
+  exceptionName?: string;
+  requestId?: string;
+  httpStatusCode?: number;
+};
+
 /**
  * Parameters for deleting user attributes
  */
@@ -761,3 +1050,1033 @@ export type UpdateMeParams = {
 export type DeleteMeParams = {
   authorization: string;
 };
+
+/**
+ * Decoded JWT header
+ */
+export type JwtHeader = {
+  alg: string;
+  kid?: string;
+  typ?: string;
+};
+
+/**
+ * A JWT split into its decoded parts
+ */
+export type DecodedJwt = {
+  header: JwtHeader;
+  payload: Record<string, unknown>;
+  signature: Buffer;
+  signingInput: string;
+};
+
+/**
+ * A JSON Web Key as published in a user pool's JWKS
+ */
+export type Jwk = {
+  kid: string;
+  kty: string;
+  alg?: string;
+  use?: string;
+  n?: string;
+  e?: string;
+};
+
+/**
+ * A JSON Web Key Set
+ */
+export type Jwks = {
+  keys: Jwk[];
+};
+
+/**
+ * Source of the JWKS used to verify token signatures
+ */
+export type JwksProvider = {
+  getJwks: (forceRefresh?: boolean) => Promise<Jwks>;
+};
+
+/**
+ * Options for the cached JWKS provider
+ */
+export type CachedJwksProviderOptions = {
+  cacheTtlMs?: number;
+};
+
+/**
+ * Configuration for verifying Cognito JWTs locally. jwksRefreshCooldownSeconds is the minimum time
+ * between JWKS reloads triggered by unknown key IDs, 60 seconds by default
+ */
+export type CognitoJwtVerifierConfig = {
+  region: string;
+  userPoolId: string;
+  clientId: string | string[];
+  clockSkewSeconds?: number;
+  jwksProvider?: JwksProvider;
+  jwksRefreshCooldownSeconds?: number;
+};
+
+/**
+ * Claims shared by Cognito access and ID tokens
+ */
+export type CognitoJwtPayloadBase = {
+  sub: string;
+  iss: string;
+  exp: number;
+  iat: number;
+  auth_time: number;
+  nbf?: number;
+  jti?: string;
+  origin_jti?: string;
+  event_id?: string;
+  'cognito:groups'?: string[];
+  [claim: string]: unknown;
+};
+
+/**
+ * Claims of a verified Cognito access token
+ */
+export type CognitoAccessTokenPayload = CognitoJwtPayloadBase & {
+  token_use: 'access';
+  client_id: string;
+  username: string;
+  scope?: string;
+  version?: number;
+  device_key?: string;
+};
+
+/**
+ * Claims of a verified Cognito ID token
+ */
+export type CognitoIdTokenPayload = CognitoJwtPayloadBase & {
+  token_use: 'id';
+  aud: string;
+  'cognito:username': string;
+  email?: string;
+  email_verified?: boolean;
+  phone_number?: string;
+  phone_number_verified?: boolean;
+};
+
+/**
+ * Options for a CognitoSession.
+ * userSub is only needed for refresh with a client secret when the ID token cannot be decoded; refreshWindowSeconds defaults to 300.
+ * When storage is set, the session is saved on every change and cleared on sign-out.
+ */
+export type CognitoSessionOptions = {
+  authResponse?: AuthResponse;
+  userSub?: string;
+  refreshWindowSeconds?: number;
+  storage?: TokenStorage;
+};
+
+/**
+ * Events emitted by a CognitoSession and their listener arguments
+ */
+export type CognitoSessionEvents = {
+  refresh: [authResponse: AuthResponse];
+  refreshFailure: [error: unknown];
+  signOut: [];
+};
+
+/**
+ * Parameters for signing out of a CognitoSession; global also revokes the tokens on every device
+ */
+export type SessionSignOutParams = {
+  global?: boolean;
+};
+
+/**
+ * Session state persisted by a TokenStorage; expiresAt is the access token expiry in epoch milliseconds
+ */
+export type StoredSession = {
+  authResponse: AuthResponse;
+  expiresAt: number;
+  userSub?: string;
+};
+
+/**
+ * Persists the session of a single user
+ */
+export type TokenStorage = {
+  load(): Promise<StoredSession | undefined>;
+  save(session: StoredSession): Promise<void>;
+  clear(): Promise<void>;
+};
+
+/**
+ * Options for an encrypted file token storage; a string key is treated as a passphrase
+ */
+export type FileTokenStorageOptions = {
+  path: string;
+  key: string | Buffer;
+};
+
+/**
+ * The subset of the Web Storage API (e.g. window.localStorage) used by the web storage adapter
+ */
+export type WebStorageLike = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+};
+
+/**
+ * Attributes of the cookie written by the cookie token storage
+ */
+export type SessionCookieOptions = {
+  name?: string;
+  domain?: string;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  maxAgeSeconds?: number;
+};
+
+/**
+ * Options for a cookie token storage; cookieHeader is the Cookie header of the incoming request
+ */
+export type CookieTokenStorageOptions = SessionCookieOptions & {
+  cookieHeader?: string;
+};
+
+/**
+ * A token storage that reads from a Cookie header and produces Set-Cookie header values.
+ * The cookie holds the tokens unencrypted
+ */
+export type CookieTokenStorage = TokenStorage & {
+  getSetCookieHeader(): string | undefined;
+};
+
+/**
+ * Anything that verifies access tokens locally, such as CognitoJwtVerifier
+ */
+export type AccessTokenVerifier = {
+  verifyAccessToken(token: string): Promise<CognitoAccessTokenPayload>;
+};
+
+/**
+ * Anything that looks up the current user with GetUserCommand, such as CognitoUserClient
+ */
+export type CurrentUserLookup = {
+  getMe(params: GetMeParams): Promise<GetMeResponse>;
+};
+
+/**
+ * Group and scope requirements for a protected route.
+ * requireGroups passes when the user belongs to any of the groups; requireScopes requires every scope.
+ */
+export type AuthRequirements = {
+  requireGroups?: string[];
+  requireScopes?: string[];
+};
+
+/**
+ * Options for the authentication middleware.
+ * Tokens are verified locally when a verifier is given, otherwise with the user client.
+ */
+export type RequireAuthOptions = AuthRequirements & {
+  verifier?: AccessTokenVerifier;
+  userClient?: CurrentUserLookup;
+  realm?: string;
+};
+
+/**
+ * Route-level auth config for the Fastify plugin: false to skip authentication,
+ * true to apply the plugin's requirements, or requirements that replace them
+ */
+export type RouteAuthConfig = boolean | AuthRequirements;
+
+/**
+ * The authenticated user attached to a request
+ */
+export type AuthenticatedUser = GetMeResponse & {
+  sub: string;
+  groups: string[];
+  scopes: string[];
+  accessToken: string;
+  claims: AccessTokenClaims;
+};
+
+/**
+ * JSON body sent when a request is rejected
+ */
+export type AuthErrorBody = {
+  error: 'unauthorized' | 'invalid_token' | 'forbidden' | 'insufficient_scope';
+  message: string;
+};
+
+/**
+ * A rejected request: the status, JSON body and WWW-Authenticate header to respond with
+ */
+export type AuthRejection = {
+  type: 'rejected';
+  statusCode: 401 | 403;
+  body: AuthErrorBody;
+  wwwAuthenticate: string;
+};
+
+/**
+ * Outcome of authenticating a request
+ */
+export type AuthOutcome = { type: 'authenticated'; user: AuthenticatedUser } | AuthRejection;
+
+/**
+ * Keys of an error message bundle: one per error code, InvalidCredentials for collapsed
+ * sign-in errors, SessionExpired for NotAuthorized errors caused by an expired or revoked
+ * token or session, and the parts used to describe password policy requirements
+ */
+export type ErrorMessageKey =
+  | CognitoErrorCode
+  | 'InvalidCredentials'
+  | 'SessionExpired'
+  | 'PasswordRequirements'
+  | 'PasswordRequirementMinimumLength'
+  | 'PasswordRequirementUppercase'
+  | 'PasswordRequirementLowercase'
+  | 'PasswordRequirementNumbers'
+  | 'PasswordRequirementSymbols'
+  | 'ListSeparator';
+
+/**
+ * User-facing messages for one locale. Messages may contain {placeholders}
+ */
+export type ErrorMessageBundle = Partial<Record<ErrorMessageKey, string>>;
+
+/**
+ * Password policy of a user pool, used to explain why a password was rejected
+ */
+export type PasswordPolicy = {
+  minimumLength?: number;
+  requireUppercase?: boolean;
+  requireLowercase?: boolean;
+  requireNumbers?: boolean;
+  requireSymbols?: boolean;
+};
+
+/**
+ * Options for an error message formatter.
+ * Bundles are merged over the built-in en, zh-CN and es bundles; collapseUserEnumeration
+ * reports UserNotFound and NotAuthorized with the same InvalidCredentials message
+ */
+export type ErrorMessageOptions = {
+  locale?: string;
+  fallbackLocale?: string;
+  bundles?: Record<string, ErrorMessageBundle>;
+  collapseUserEnumeration?: boolean;
+  passwordPolicy?: PasswordPolicy;
+};
+
+/**
+ * Turns an error into a user-facing message, with optional values for its placeholders
+ */
+export type ErrorMessageFormatter = (
+  error: unknown,
+  params?: Record<string, string | number>,
+) => string;
+
+/**
+ * Retry policy for failed Cognito requests.
+ * Delays grow exponentially from baseDelayMs up to maxDelayMs; full jitter picks a random delay below that.
+ * By default throttling errors are retried, and limit, internal and 5xx errors only for read operations.
+ * These retries run on top of the SDK client's own retries (its maxAttempts, 3 by default)
+ */
+export type RetryPolicy = {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  jitter?: 'full' | 'none';
+  isRetryable?: (error: CognitoClientError, attempt: number, operation?: string) => boolean;
+};
+
+/**
+ * Cognito API quota categories, see "Quotas in Amazon Cognito" in the AWS documentation
+ */
+export type CognitoQuotaCategory =
+  | 'UserAuthentication'
+  | 'UserCreation'
+  | 'UserAccountRecovery'
+  | 'UserRead'
+  | 'UserUpdate'
+  | 'UserResourceRead'
+  | 'UserResourceUpdate'
+  | 'UserList'
+  | 'UserPoolResourceRead'
+  | 'UserPoolResourceUpdate';
+
+/**
+ * Options for the token-bucket rate limiter.
+ * quotas overrides the requests per second of a category, a positive number; utilization scales
+ * every quota, above 0 and at most 1 (default 1)
+ */
+export type RateLimiterOptions = {
+  quotas?: Partial<Record<CognitoQuotaCategory, number>>;
+  utilization?: number;
+};
+
+/**
+ * Waits until a request for an operation may be sent
+ */
+export type RateLimiter = {
+  acquire(operation: string): Promise<void>;
+};
+
+/**
+ * Options shared by all paginators.
+ * pageSize is the number of items requested per call (at least 1; larger values are lowered to 60),
+ * maxItems stops iteration early
+ * and signal aborts it between pages
+ */
+export type PaginationOptions = {
+  pageSize?: number;
+  maxItems?: number;
+  signal?: AbortSignal;
+};
+
+/**
+ * A single page returned by a list operation, with the token of the next page
+ */
+export type Page<T> = {
+  items: T[];
+  nextToken?: string;
+};
+
+/**
+ * Iterates over the items of a list operation, fetching pages lazily.
+ * pages() iterates over whole pages instead, and toArray() collects every item
+ */
+export type Paginator<T> = AsyncIterable<T> & {
+  pages(): AsyncIterable<T[]>;
+  toArray(): Promise<T[]>;
+};
+
+/**
+ * Parameters for paginating users. Build filter with UserFilter
+ */
+export type PaginateUsersParams = PaginationOptions & {
+  filter?: string;
+};
+
+/**
+ * Parameters for paginating the users of a group
+ */
+export type PaginateUsersInGroupParams = PaginationOptions & {
+  groupName: string;
+};
+
+/**
+ * Parameters for paginating the groups of a user
+ */
+export type PaginateGroupsForUserParams = PaginationOptions & {
+  username: string;
+};
+
+/**
+ * Parameters for paginating remembered devices
+ */
+export type PaginateDevicesParams = PaginationOptions & {
+  accessToken: string;
+};
+
+/**
+ * Parameters for paginating the remembered devices of a user as an admin
+ */
+export type AdminPaginateDevicesParams = PaginationOptions & {
+  username: string;
+};
+
+/**
+ * Parameters for paginating the auth events of a user
+ */
+export type PaginateUserAuthEventsParams = PaginationOptions & {
+  username: string;
+};
+
+/**
+ * Cognito user statuses
+ */
+export type CognitoUserStatus =
+  | 'UNCONFIRMED'
+  | 'CONFIRMED'
+  | 'ARCHIVED'
+  | 'COMPROMISED'
+  | 'UNKNOWN'
+  | 'RESET_REQUIRED'
+  | 'FORCE_CHANGE_PASSWORD'
+  | 'EXTERNAL_PROVIDER';
+
+/**
+ * Camel-cased names of the attributes ListUsers can filter on.
+ * status is the user status (cognito:user_status) and enabled the Enabled/Disabled state
+ */
+export type UserFilterAttribute =
+  | 'username'
+  | 'email'
+  | 'phoneNumber'
+  | 'name'
+  | 'givenName'
+  | 'familyName'
+  | 'preferredUsername'
+  | 'status'
+  | 'enabled'
+  | 'sub';
+
+/**
+ * ListUsers filter operators: exact match and prefix match
+ */
+export type UserFilterOperator = '=' | '^=';
+
+/**
+ * Builds filter strings for one attribute
+ */
+export type UserFilterCondition<T extends string = string> = {
+  equals(value: T): string;
+  startsWith(value: string): string;
+};
+
+/**
+ * Matches an attribute value exactly, or by prefix with startsWith
+ */
+export type AttributeMatcher = string | { startsWith: string };
+
+/**
+ * Criteria for searching users; a user must match all of them.
+ * Attribute names are camel-cased like the userAttributes of AdminGetUserResponse, e.g. customTenantId.
+ * Date ranges are exclusive
+ */
+export type UserSearchCriteria = {
+  username?: AttributeMatcher;
+  attributes?: Record<string, AttributeMatcher>;
+  status?: CognitoUserStatus | CognitoUserStatus[];
+  enabled?: boolean;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  modifiedAfter?: Date;
+  modifiedBefore?: Date;
+  groupName?: string;
+};
+
+/**
+ * Parameters for searching users. maxItems limits the number of results
+ */
+export type SearchUsersParams = UserSearchCriteria & PaginationOptions;
+
+/**
+ * How a user search is run: the source listed server-side and the predicates applied client-side
+ */
+export type UserSearchPlan = {
+  filter?: string;
+  groupName?: string;
+  requiresGroupCheck: boolean;
+  matches(user: AdminGetUserResponse): boolean;
+};
+
+/**
+ * Formats accepted by importUsers: CSV with a header row, newline-delimited JSON or a JSON array
+ */
+export type UserImportFormat = 'csv' | 'ndjson' | 'json';
+
+/**
+ * Progress of an import, used to resume it.
+ * Every row before nextRow is done, as are the rows in completedRows
+ */
+export type UserImportCheckpoint = {
+  nextRow: number;
+  completedRows: number[];
+};
+
+/**
+ * A validated import row.
+ * groups are the groups of this row only, attributes use the names accepted by mapToAttributeList
+ */
+export type UserImportRow = {
+  username: string;
+  email: string;
+  phone?: string;
+  password?: string;
+  temporaryPassword?: string;
+  groups: string[];
+  attributes: Record<string, string>;
+};
+
+/**
+ * Parameters for importing users.
+ * columns renames source columns to username, email, phone, password, temporaryPassword, groups or an attribute name;
+ * groups lists the groups every user is added to. In CSV, a row's groups are separated by semicolons
+ */
+export type ImportUsersParams = {
+  input: string;
+  format: UserImportFormat;
+  columns?: Record<string, string>;
+  groups?: string[];
+  messageAction?: 'RESEND' | 'SUPPRESS';
+  concurrency?: number;
+  checkpoint?: UserImportCheckpoint;
+  onProgress?: (
+    result: UserImportRowResult,
+    checkpoint: UserImportCheckpoint,
+  ) => void | Promise<void>;
+  signal?: AbortSignal;
+};
+
+/**
+ * The outcome of one import row. Rows are numbered from 1, not counting a CSV header.
+ * Existing users are skipped, or updated when the row has a password, and still added to the row's groups
+ */
+export type UserImportRowResult = {
+  row: number;
+  username?: string;
+  status: 'created' | 'updated' | 'skipped' | 'failed';
+  errorCode?: CognitoErrorCode | 'InvalidRow';
+  message?: string;
+};
+
+/**
+ * Report of an import run; rows completed by an earlier run are not included
+ */
+export type UserImportReport = {
+  results: UserImportRowResult[];
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  checkpoint: UserImportCheckpoint;
+};
+
+/**
+ * Status of a Cognito user import job
+ */
+export type UserImportJobStatus =
+  | 'Created'
+  | 'Pending'
+  | 'InProgress'
+  | 'Stopping'
+  | 'Expired'
+  | 'Stopped'
+  | 'Failed'
+  | 'Succeeded';
+
+/**
+ * User counts of an import job
+ */
+export type UserImportJobStatistics = {
+  importedUsers: number;
+  skippedUsers: number;
+  failedUsers: number;
+};
+
+/**
+ * A Cognito user import job. Upload the CSV to preSignedUrl before starting the job
+ */
+export type UserImportJob = {
+  jobId: string;
+  jobName: string;
+  userPoolId: string;
+  status: UserImportJobStatus;
+  preSignedUrl?: string;
+  cloudWatchLogsRoleArn?: string;
+  creationDate?: Date;
+  startDate?: Date;
+  completionDate?: Date;
+  completionMessage?: string;
+  statistics: UserImportJobStatistics;
+};
+
+/**
+ * Parameters for creating a user import job
+ */
+export type CreateUserImportJobParams = {
+  jobName: string;
+  cloudWatchLogsRoleArn: string;
+};
+
+/**
+ * Parameters for starting, describing or stopping a user import job
+ */
+export type UserImportJobParams = {
+  jobId: string;
+};
+
+/**
+ * Parameters for listing user import jobs
+ */
+export type ListUserImportJobsParams = {
+  limit?: number;
+  paginationToken?: string;
+};
+
+/**
+ * Response for listing user import jobs
+ */
+export type ListUserImportJobsResponse = {
+  jobs: UserImportJob[];
+  paginationToken?: string;
+};
+
+/**
+ * Parameters for waiting until a user import job finishes.
+ * The job is polled every pollIntervalMs (default 5000); timeoutMs limits the total wait
+ */
+export type WaitForUserImportJobParams = {
+  jobId: string;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onPoll?: (job: UserImportJob) => void;
+};
+
+/**
+ * A user for a Cognito import CSV, keyed by camel-cased CSV header,
+ * e.g. cognitoUsername (or username), email, emailVerified, givenName, customTenantId
+ */
+export type UserImportCsvRecord = Record<string, string | number | boolean | undefined>;
+
+/**
+ * How an exported value is redacted: left out, masked (e.g. j***@example.com),
+ * replaced by its SHA-256 hash, or transformed by a function
+ */
+export type RedactionRule = 'omit' | 'mask' | 'hash' | ((value: string) => string);
+
+/**
+ * A user as written by exportUsers. groups and mfa are only present when requested
+ */
+export type ExportedUser = {
+  username: string;
+  status: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  attributes: Record<string, string>;
+  groups?: string[];
+  mfa?: {
+    preferredMfaSetting?: string;
+    mfaSettings: string[];
+  };
+};
+
+/**
+ * Parameters for exporting users.
+ * attributes selects camel-cased attributes (all by default, but required for CSV);
+ * redact maps attribute names, or username, to redaction rules
+ */
+export type ExportUsersParams = PaginateUsersParams & {
+  format?: 'ndjson' | 'csv';
+  attributes?: string[];
+  includeGroups?: boolean;
+  includeMfa?: boolean;
+  redact?: Record<string, RedactionRule>;
+  concurrency?: number;
+};
+
+/**
+ * The desired state of a group. Fields left out are cleared on existing groups
+ */
+export type GroupSpec = {
+  groupName: string;
+  description?: string;
+  precedence?: number;
+  roleArn?: string;
+};
+
+/**
+ * A field that differs between the desired and the current group
+ */
+export type GroupFieldChange = {
+  field: 'description' | 'precedence' | 'roleArn';
+  from?: string | number;
+  to?: string | number;
+};
+
+/**
+ * A change needed to reach the desired groups
+ */
+export type GroupChange =
+  | { action: 'create'; groupName: string; spec: GroupSpec }
+  | { action: 'update'; groupName: string; spec: GroupSpec; fields: GroupFieldChange[] }
+  | { action: 'delete'; groupName: string };
+
+/**
+ * The changes needed to reach the desired groups.
+ * skippedDeletes lists groups that are not desired but are kept because deletes are not allowed
+ */
+export type GroupSyncPlan = {
+  changes: GroupChange[];
+  unchanged: string[];
+  skippedDeletes: string[];
+};
+
+/**
+ * Options for syncing groups.
+ * dryRun only plans the changes; allowDeletes (default true) deletes groups that are not desired
+ */
+export type SyncGroupsOptions = {
+  dryRun?: boolean;
+  allowDeletes?: boolean;
+};
+
+/**
+ * The outcome of a planned change
+ */
+export type GroupChangeResult = GroupChange & {
+  status: 'planned' | 'applied' | 'failed';
+  errorCode?: CognitoErrorCode;
+  message?: string;
+};
+
+/**
+ * Report of a group sync
+ */
+export type GroupSyncReport = {
+  dryRun: boolean;
+  changes: GroupChangeResult[];
+  unchanged: string[];
+  skippedDeletes: string[];
+};
+
+/**
+ * Options for the in-memory fake user pool.
+ * Passwords are checked against passwordPolicy (Cognito's default policy unless given),
+ * and with a clientSecret, SECRET_HASH is verified like Cognito does
+ */
+export type FakeCognitoUserPoolOptions = {
+  region?: string;
+  userPoolId?: string;
+  clientId?: string;
+  clientSecret?: string;
+  passwordPolicy?: PasswordPolicy;
+  preventUserExistenceErrors?: boolean;
+  accessTokenValiditySeconds?: number;
+};
+
+/**
+ * A message the fake user pool would have sent, with the code or temporary password it contains
+ */
+export type FakeCognitoMessage = {
+  kind: 'SignUp' | 'ResendCode' | 'ForgotPassword' | 'VerifyAttribute' | 'Invitation';
+  username: string;
+  deliveryMedium: 'EMAIL' | 'SMS';
+  destination: string;
+  code: string;
+  sentAt: Date;
+};
+
+/**
+ * A user to add to the fake user pool. Attributes use Cognito names, e.g. given_name or custom:tenantId
+ */
+export type FakeCognitoUserSeed = {
+  username: string;
+  password?: string;
+  status?: CognitoUserStatus;
+  enabled?: boolean;
+  attributes?: Record<string, string>;
+  groups?: string[];
+};
+
+/**
+ * The state of a user in the fake user pool
+ */
+export type FakeCognitoUserSnapshot = {
+  username: string;
+  sub: string;
+  password?: string;
+  status: CognitoUserStatus;
+  enabled: boolean;
+  attributes: Record<string, string>;
+  groups: string[];
+  deviceKeys: string[];
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * Options for a test token issuer. A 2048-bit RSA key pair is generated on first use
+ * unless privateKey is given
+ */
+export type TestTokenIssuerOptions = {
+  region?: string;
+  userPoolId?: string;
+  clientId?: string;
+  keyId?: string;
+  privateKey?: KeyObject;
+};
+
+/**
+ * Claims of a minted test token. attributes go into the ID token, e.g. email or custom:tenantId;
+ * claims are added last and override any standard claim. A negative expiresInSeconds mints an expired token
+ */
+export type MintTokenOptions = {
+  sub?: string;
+  username?: string;
+  groups?: string[];
+  scopes?: string[];
+  attributes?: Record<string, string>;
+  deviceKey?: string;
+  issuedAt?: Date;
+  expiresInSeconds?: number;
+  claims?: Record<string, unknown>;
+};
+
+/**
+ * Mints RS256-signed Cognito tokens offline and serves the matching JWKS,
+ * so it can be passed to CognitoJwtVerifier as its jwksProvider
+ */
+export type TestTokenIssuer = JwksProvider & {
+  region: string;
+  userPoolId: string;
+  clientId: string;
+  keyId: string;
+  issuer: string;
+  readonly jwks: Jwks;
+  sign: (payload: Record<string, unknown>, header?: Record<string, unknown>) => string;
+  mintAccessToken: (options?: MintTokenOptions) => string;
+  mintIdToken: (options?: MintTokenOptions) => string;
+  mintRefreshToken: () => string;
+  mintAuthResult: (options?: MintTokenOptions) => AuthenticationResultType;
+};
+
+/**
+ * An SDK command class, e.g. SignUpCommand. Commands are matched by their SDK export name
+ */
+export type CognitoCommandClass = { name: string };
+
+/**
+ * The send function of a Cognito stub
+ */
+export type CognitoStubSend = (command: object) => Promise<unknown>;
+
+/**
+ * A command received by a Cognito stub
+ */
+export type CognitoStubCall = {
+  commandName: string;
+  input: Record<string, unknown>;
+  command: object;
+};
+
+/**
+ * Queued responses of a stub or of a routed command. Once responses are used first, in order,
+ * then the response set by resolves, rejects or callsFake is used for every later call
+ */
+export type CognitoStubBehavior = {
+  resolves: (output: object) => CognitoStubBehavior;
+  resolvesOnce: (output: object) => CognitoStubBehavior;
+  rejects: (error: unknown) => CognitoStubBehavior;
+  rejectsOnce: (error: unknown) => CognitoStubBehavior;
+  callsFake: (
+    handler: (input: Record<string, unknown>, command: object) => unknown,
+  ) => CognitoStubBehavior;
+};
+
+/**
+ * A framework-neutral stand-in for CognitoIdentityProviderClient that records every call.
+ * on routes responses by command class and input shape; the stub's own responses answer
+ * any command no route matches. Input shapes match partially and recursively, and accept
+ * asymmetric matchers such as expect.any. expectCommandSent throws, listing the commands sent,
+ * when no call matches
+ */
+export type CognitoStub<TSend = CognitoStubSend> = CognitoStubBehavior & {
+  client: CognitoIdentityProviderClient;
+  send: TSend;
+  calls: CognitoStubCall[];
+  on: (command: CognitoCommandClass, input?: Record<string, unknown>) => CognitoStubBehavior;
+  callsOf: (command: CognitoCommandClass, input?: Record<string, unknown>) => CognitoStubCall[];
+  expectCommandSent: (
+    command: CognitoCommandClass,
+    input?: Record<string, unknown>,
+  ) => CognitoStubCall[];
+  reset: () => void;
+};
+
+/**
+ * A test framework that creates spies, such as jest or vi
+ */
+export type SpyFramework<TSpy> = {
+  fn: (implementation?: CognitoStubSend) => TSpy;
+};
+
+/**
+ * The mock functions of a Jest or Vitest spy wrapping send, typed without either framework
+ */
+export type MockCognitoSend = CognitoStubSend & {
+  mock: { calls: unknown[][] };
+  mockClear: () => MockCognitoSend;
+  mockReset: () => MockCognitoSend;
+  mockImplementation: (implementation: CognitoStubSend) => MockCognitoSend;
+  mockImplementationOnce: (implementation: CognitoStubSend) => MockCognitoSend;
+  mockResolvedValue: (value: unknown) => MockCognitoSend;
+  mockResolvedValueOnce: (value: unknown) => MockCognitoSend;
+  mockRejectedValue: (error: unknown) => MockCognitoSend;
+  mockRejectedValueOnce: (error: unknown) => MockCognitoSend;
+};
+
+/**
+ * Options for a Cognito stub. spy wraps send, e.g. jest.fn or vi.fn
+ */
+export type CognitoStubOptions<TSend> = {
+  spy?: (implementation: CognitoStubSend) => TSend;
+};
+
+/**
+ * An error recorded from a Cognito command
+ */
+export type CognitoFixtureError = {
+  name: string;
+  message: string;
+  fault: 'client' | 'server';
+  httpStatusCode?: number;
+};
+
+/**
+ * A recorded Cognito command with its sanitized input and either its output or its error.
+ * Dates are stored as { $date: ISO string }
+ */
+export type CognitoFixture = {
+  commandName: string;
+  input: Record<string, unknown>;
+  output?: Record<string, unknown>;
+  error?: CognitoFixtureError;
+};
+
+/**
+ * The contents of a fixture file
+ */
+export type CognitoFixtureFile = {
+  version: 1;
+  fixtures: CognitoFixture[];
+};
+
+/**
+ * Options for scrubbing fixtures. sensitiveKeys are replaced outright, like tokens and codes;
+ * personalAttributes are replaced with a stable hash, like email, so recorded inputs still match
+ */
+export type CognitoFixtureSanitizeOptions = {
+  sensitiveKeys?: string[];
+  personalAttributes?: string[];
+};
+
+/**
+ * Options for a recording client. path is where save writes the fixture file
+ */
+export type RecordingClientOptions = CognitoFixtureSanitizeOptions & {
+  path?: string;
+};
+
+/**
+ * A client wrapper that records every command sent through it as a sanitized fixture
+ */
+export type RecordingClient = {
+  client: CognitoIdentityProviderClient;
+  fixtures: CognitoFixture[];
+  save: (path?: string) => Promise<void>;
+};
+
+/**
+ * A client that answers commands from recorded fixtures, each fixture once and in recorded order.
+ * pending lists the fixtures not replayed yet
+ */
+export type ReplayClient = {
+  client: CognitoIdentityProviderClient;
+  pending: () => CognitoFixture[];
+  expectAllReplayed: () => void;
+};
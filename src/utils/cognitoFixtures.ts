@@ -0,0 +1,412 @@
+import {
+  CognitoIdentityProviderClient,
+  CognitoIdentityProviderServiceException,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  CognitoFixture,
+  CognitoFixtureError,
+  CognitoFixtureFile,
+  CognitoFixtureSanitizeOptions,
+  CognitoStubSend,
+  RecordingClient,
+  RecordingClientOptions,
+  ReplayClient,
+} from '../types';
+import { getCommandName, matchesShape } from './cognitoStub';
+import { decodeJwt } from './tokenUtils';
+
+const REDACTED = '[REDACTED]';
+const HASH_PREFIX = 'redacted-';
+
+/**
+ * Keys whose values are secrets or differ on every run: tokens, sessions, passwords, codes and
+ * the SRP client values. SRP_B and SALT are public and kept, so a replayed SRP login can compute
+ * its password claim
+ */
+const DEFAULT_SENSITIVE_KEYS = [
+  'AccessToken',
+  'IdToken',
+  'RefreshToken',
+  'Session',
+  'SecretHash',
+  'ClientSecret',
+  'Password',
+  'PreviousPassword',
+  'ProposedPassword',
+  'TemporaryPassword',
+  'ConfirmationCode',
+  'SecretCode',
+  'UserCode',
+  'PasswordVerifier',
+  'Salt',
+  'PASSWORD',
+  'NEW_PASSWORD',
+  'SECRET_HASH',
+  'REFRESH_TOKEN',
+  'SRP_A',
+  'SECRET_BLOCK',
+  'PASSWORD_CLAIM_SIGNATURE',
+  'PASSWORD_CLAIM_SECRET_BLOCK',
+  'TIMESTAMP',
+  'SMS_MFA_CODE',
+  'SOFTWARE_TOKEN_MFA_CODE',
+  'EMAIL_OTP_CODE',
+  'ANSWER',
+];
+
+/**
+ * User attributes and keys holding personal data
+ */
+const DEFAULT_PERSONAL_ATTRIBUTES = [
+  'email',
+  'phone_number',
+  'name',
+  'given_name',
+  'family_name',
+  'middle_name',
+  'nickname',
+  'preferred_username',
+  'address',
+  'birthdate',
+  'picture',
+  'profile',
+  'website',
+  'Destination',
+];
+
+const EMAIL_PATTERN = /[^\s@"]+@[^\s@"]+\.[^\s@"]+/g;
+const PHONE_PATTERN = /^\+\d{7,15}$/;
+
+/**
+ * The resolved scrubbing rules
+ */
+type SanitizeRules = {
+  sensitiveKeys: Set<string>;
+  personalAttributes: Set<string>;
+  keepTokenClaims: boolean;
+};
+
+/**
+ * Resolves scrubbing options into rules, adding the defaults
+ * @param options - Extra sensitive keys and personal attributes
+ * @param keepTokenClaims - Whether JWTs keep their scrubbed claims instead of being replaced
+ * @returns The rules
+ */
+const createRules = (
+  options: CognitoFixtureSanitizeOptions,
+  keepTokenClaims: boolean,
+): SanitizeRules => {
+  return {
+    sensitiveKeys: new Set([...DEFAULT_SENSITIVE_KEYS, ...(options.sensitiveKeys ?? [])]),
+    personalAttributes: new Set([
+      ...DEFAULT_PERSONAL_ATTRIBUTES,
+      ...(options.personalAttributes ?? []),
+    ]),
+    keepTokenClaims,
+  };
+};
+
+/**
+ * Replaces personal data with a stable hash, so the same value always scrubs to the same placeholder
+ * @param value - The personal value
+ * @returns The placeholder, unchanged if the value is already one
+ */
+const hashValue = (value: string): string => {
+  if (value.startsWith(HASH_PREFIX)) {
+    return value;
+  }
+  return `${HASH_PREFIX}${createHash('sha256').update(value).digest('hex').slice(0, 16)}`;
+};
+
+/**
+ * Hashes strings that look like email addresses or phone numbers
+ * @param value - The string
+ * @returns The string with email addresses and phone numbers replaced
+ */
+const scrubString = (value: string): string => {
+  if (PHONE_PATTERN.test(value)) {
+    return hashValue(value);
+  }
+  return value.replace(EMAIL_PATTERN, (email) => hashValue(email));
+};
+
+/**
+ * Rebuilds a JWT with scrubbed claims and without a signature, so claims can still be decoded
+ * @param token - The JWT
+ * @param rules - The scrubbing rules
+ * @returns The unsigned token, or the placeholder if the value is not a JWT
+ */
+const scrubToken = (token: string, rules: SanitizeRules): string => {
+  try {
+    const { header, payload } = decodeJwt(token);
+    const encode = (value: unknown): string =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+    return `${encode(header)}.${encode(sanitizeValue(payload, rules))}.${encode(REDACTED)}`;
+  } catch {
+    return REDACTED;
+  }
+};
+
+/**
+ * Scrubs a value recursively and converts it to plain JSON. Dates become { $date: ISO string },
+ * undefined properties are dropped and $metadata keeps only the HTTP status code
+ * @param value - The command input or output
+ * @param rules - The scrubbing rules
+ * @returns The sanitized value
+ */
+const sanitizeValue = (value: unknown, rules: SanitizeRules): unknown => {
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeValue(item, rules));
+  }
+
+  if (typeof value === 'string') {
+    return scrubString(value);
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  // Attribute lists are { Name, Value } pairs
+  const personalPair = typeof record.Name === 'string' && rules.personalAttributes.has(record.Name);
+
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(record)) {
+    if (item === undefined) {
+      continue;
+    }
+
+    if (key === '$metadata') {
+      const { httpStatusCode } = item as { httpStatusCode?: number };
+      sanitized[key] = httpStatusCode === undefined ? {} : { httpStatusCode };
+    } else if (rules.sensitiveKeys.has(key)) {
+      sanitized[key] =
+        rules.keepTokenClaims && typeof item === 'string' ? scrubToken(item, rules) : REDACTED;
+    } else if (
+      typeof item === 'string' &&
+      (rules.personalAttributes.has(key) || (personalPair && key === 'Value'))
+    ) {
+      sanitized[key] = hashValue(item);
+    } else {
+      sanitized[key] = sanitizeValue(item, rules);
+    }
+  }
+
+  return sanitized;
+};
+
+/**
+ * Converts { $date } values in a fixture back to Dates
+ * @param value - The sanitized value
+ * @returns A fresh copy with Dates restored
+ */
+const reviveValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(reviveValue);
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  const keys = Object.keys(record);
+  if (keys.length === 1 && keys[0] === '$date' && typeof record.$date === 'string') {
+    return new Date(record.$date);
+  }
+
+  return Object.fromEntries(keys.map((key) => [key, reviveValue(record[key])]));
+};
+
+/**
+ * Reads the command name and input of a command
+ * @param command - The SDK command
+ * @returns The command name and its input
+ */
+const describeCommand = (command: object): { commandName: string; input: unknown } => {
+  return {
+    commandName: getCommandName(command.constructor),
+    input: (command as { input?: unknown }).input ?? {},
+  };
+};
+
+/**
+ * Records the details of an error thrown by the SDK
+ * @param error - The error
+ * @returns The fixture error, with personal data scrubbed from the message
+ */
+const toFixtureError = (error: unknown): CognitoFixtureError => {
+  const details = (typeof error === 'object' && error !== null ? error : {}) as {
+    name?: unknown;
+    message?: unknown;
+    $fault?: unknown;
+    $metadata?: { httpStatusCode?: number };
+  };
+
+  return {
+    name: typeof details.name === 'string' ? details.name : 'Error',
+    message: scrubString(typeof details.message === 'string' ? details.message : String(error)),
+    fault: details.$fault === 'server' ? 'server' : 'client',
+    ...(details.$metadata?.httpStatusCode !== undefined
+      ? { httpStatusCode: details.$metadata.httpStatusCode }
+      : {}),
+  };
+};
+
+/**
+ * Returns a view of a client whose send is replaced and whose other members are the client's own
+ * @param client - The client
+ * @param send - The send function to use instead
+ * @returns The client view
+ */
+const replaceSend = (
+  client: CognitoIdentityProviderClient,
+  send: CognitoStubSend,
+): CognitoIdentityProviderClient => {
+  return new Proxy(client, {
+    get: (target, property, receiver): unknown =>
+      property === 'send' ? send : Reflect.get(target, property, receiver),
+  });
+};
+
+/**
+ * Wraps a CognitoIdentityProviderClient so every command sent through it is recorded as a fixture,
+ * with tokens, passwords and codes replaced and personal data hashed. Tokens in outputs keep their
+ * scrubbed claims but lose their signature. Errors are recorded and rethrown unchanged
+ * @param client - The client connected to a real user pool
+ * @param options - Optional fixture path and extra keys and attributes to scrub
+ * @returns The recording client, whose client can be passed to either client constructor
+ */
+export const createRecordingClient = (
+  client: CognitoIdentityProviderClient,
+  options: RecordingClientOptions = {},
+): RecordingClient => {
+  const inputRules = createRules(options, false);
+  const outputRules = createRules(options, true);
+  const fixtures: CognitoFixture[] = [];
+  const originalSend = client.send.bind(client) as CognitoStubSend;
+
+  const send: CognitoStubSend = async (command) => {
+    const { commandName, input } = describeCommand(command);
+    const fixture: CognitoFixture = {
+      commandName,
+      input: sanitizeValue(input, inputRules) as Record<string, unknown>,
+    };
+
+    try {
+      const output = await originalSend(command);
+      fixtures.push({
+        ...fixture,
+        output: sanitizeValue(output ?? {}, outputRules) as Record<string, unknown>,
+      });
+      return output;
+    } catch (error) {
+      fixtures.push({ ...fixture, error: toFixtureError(error) });
+      throw error;
+    }
+  };
+
+  return {
+    client: replaceSend(client, send),
+    fixtures,
+    save: async (path = options.path): Promise<void> => {
+      if (!path) {
+        throw new Error('Failed to save fixtures: No path given');
+      }
+
+      const file: CognitoFixtureFile = { version: 1, fixtures };
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, `${JSON.stringify(file, null, 2)}\n`);
+    },
+  };
+};
+
+/**
+ * Reads a fixture file written by a recording client
+ * @param path - The fixture file path
+ * @returns The fixture file
+ */
+export const loadCognitoFixtures = async (path: string): Promise<CognitoFixtureFile> => {
+  const file = JSON.parse(await readFile(path, 'utf8')) as CognitoFixtureFile;
+  if (file?.version !== 1 || !Array.isArray(file.fixtures)) {
+    throw new Error(`Invalid fixture file: ${path}`);
+  }
+  return file;
+};
+
+/**
+ * Creates a client that answers commands from recorded fixtures without network access.
+ * A command matches a fixture with the same command name and the same input once scrubbed,
+ * so codes, passwords and tokens may differ from the recording. Each fixture answers once,
+ * in recorded order; unrecorded commands reject with their name and scrubbed input
+ * @param source - The fixture file or its fixtures
+ * @param options - The extra keys and attributes scrubbed when recording
+ * @returns The replay client, whose client can be passed to either client constructor
+ */
+export const createReplayClient = (
+  source: CognitoFixtureFile | CognitoFixture[],
+  options: CognitoFixtureSanitizeOptions = {},
+): ReplayClient => {
+  const rules = createRules(options, false);
+  const fixtures = Array.isArray(source) ? source : source.fixtures;
+  const replayed = new Set<CognitoFixture>();
+
+  const describeFixture = (fixture: Pick<CognitoFixture, 'commandName' | 'input'>): string => {
+    return `${fixture.commandName} ${JSON.stringify(fixture.input)}`;
+  };
+
+  const send: CognitoStubSend = async (command) => {
+    const { commandName, input } = describeCommand(command);
+    const sanitized = sanitizeValue(input, rules) as Record<string, unknown>;
+
+    const fixture = fixtures.find(
+      (item) =>
+        !replayed.has(item) &&
+        item.commandName === commandName &&
+        matchesShape(sanitized, item.input) &&
+        matchesShape(item.input, sanitized),
+    );
+
+    if (!fixture) {
+      throw new Error(
+        `No recorded response for ${describeFixture({ commandName, input: sanitized })}`,
+      );
+    }
+
+    replayed.add(fixture);
+
+    if (fixture.error) {
+      throw new CognitoIdentityProviderServiceException({
+        name: fixture.error.name,
+        message: fixture.error.message,
+        $fault: fixture.error.fault,
+        $metadata: { httpStatusCode: fixture.error.httpStatusCode },
+      });
+    }
+
+    return reviveValue(fixture.output ?? {});
+  };
+
+  const pending = (): CognitoFixture[] => fixtures.filter((fixture) => !replayed.has(fixture));
+
+  return {
+    // The SDK client never sends anything; it only gives the replay client a real client's members
+    client: replaceSend(new CognitoIdentityProviderClient({ region: 'us-east-1' }), send),
+    pending,
+    expectAllReplayed: (): void => {
+      const remaining = pending();
+      if (remaining.length > 0) {
+        const list = remaining.map((fixture) => `\n  ${describeFixture(fixture)}`).join('');
+        throw new Error(`Expected all fixtures to be replayed. Not replayed:${list}`);
+      }
+    },
+  };
+};
@@ -1,14 +1,25 @@
 import {
   AuthenticationResultType,
+  ChallengeNameType,
   AdminCreateUserResponse,
   AdminGetUserResponse,
   AttributeType,
+  UserImportJobType,
 } from '@aws-sdk/client-cognito-identity-provider';
 import {
   AuthResponse,
+  AuthClaims,
+  CognitoErrorInfo,
+  AccessTokenClaims,
+  IdTokenClaims,
+  SignInResult,
   AdminCreateUserResponse as CustomAdminCreateUserResponse,
   AdminGetUserResponse as CustomAdminGetUserResponse,
+  UserImportJob,
+  UserImportJobStatus,
 } from '../types';
+import { decodeJwt } from './tokenUtils';
+import { toCognitoClientError } from '../lib/errors';
 
 /**
  * Maps a Cognito AuthenticationResultType to our simplified AuthResponse
@@ -20,15 +31,277 @@ export const mapAuthResult = (result: AuthenticationResultType): AuthResponse =>
     throw new Error('Invalid authentication result from Cognito');
   }
 
+  const claims = decodeAuthClaims(result.AccessToken, result.IdToken);
+
   return {
     accessToken: result.AccessToken,
     idToken: result.IdToken,
     refreshToken: result.RefreshToken,
     expiresIn: result.ExpiresIn,
     tokenType: result.TokenType || 'Bearer',
+    ...(claims ? { claims } : {}),
   };
 };
 
+/**
+ * JWT claims that describe the token itself rather than the user
+ */
+const RESERVED_ID_TOKEN_CLAIMS = [
+  'iss',
+  'aud',
+  'exp',
+  'iat',
+  'nbf',
+  'auth_time',
+  'token_use',
+  'jti',
+  'origin_jti',
+  'event_id',
+  'at_hash',
+  'identities',
+];
+
+/**
+ * Converts an epoch-seconds claim to a Date
+ * @param value - The claim value
+ * @returns The date, or undefined if the claim is not a number
+ */
+const toDate = (value: unknown): Date | undefined => {
+  return typeof value === 'number' ? new Date(value * 1000) : undefined;
+};
+
+/**
+ * Reads an optional string claim
+ * @param value - The claim value
+ * @returns The string, or undefined if the claim is not a string
+ */
+const toOptionalString = (value: unknown): string | undefined => {
+  return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * Reads a boolean claim, which Cognito may encode as a string
+ * @param value - The claim value
+ * @returns The boolean, or undefined if the claim is missing
+ */
+const toOptionalBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return undefined;
+};
+
+/**
+ * Reads the cognito:groups claim
+ * @param value - The claim value
+ * @returns The group names, or an empty array
+ */
+const toGroups = (value: unknown): string[] => {
+  return Array.isArray(value) ? value.map(String) : [];
+};
+
+/**
+ * Maps a raw access token payload to typed claims
+ * @param payload - The decoded access token payload
+ * @returns The typed access token claims
+ */
+export const mapAccessTokenClaims = (payload: Record<string, unknown>): AccessTokenClaims => {
+  if (payload.token_use !== 'access') {
+    throw new Error('Invalid token: Expected access token');
+  }
+
+  return {
+    sub: String(payload.sub || ''),
+    username: String(payload.username || ''),
+    clientId: String(payload.client_id || ''),
+    tokenUse: 'access',
+    issuer: String(payload.iss || ''),
+    scopes: typeof payload.scope === 'string' ? payload.scope.split(' ').filter(Boolean) : [],
+    groups: toGroups(payload['cognito:groups']),
+    authTime: toDate(payload.auth_time),
+    issuedAt: toDate(payload.iat),
+    expiresAt: toDate(payload.exp) || new Date(0),
+    jti: toOptionalString(payload.jti),
+    originJti: toOptionalString(payload.origin_jti),
+    deviceKey: toOptionalString(payload.device_key),
+  };
+};
+
+/**
+ * Maps a raw ID token payload to typed claims
+ * @param payload - The decoded ID token payload
+ * @returns The typed ID token claims with camel-cased user attributes
+ */
+export const mapIdTokenClaims = (payload: Record<string, unknown>): IdTokenClaims => {
+  if (payload.token_use !== 'id') {
+    throw new Error('Invalid token: Expected id token');
+  }
+
+  const attributes = mapAttributes(
+    Object.entries(payload)
+      .filter(([name]) => !RESERVED_ID_TOKEN_CLAIMS.includes(name) && !name.startsWith('cognito:'))
+      .map(([Name, value]) => ({
+        Name,
+        Value: typeof value === 'string' ? value : JSON.stringify(value),
+      })),
+  );
+
+  return {
+    sub: String(payload.sub || ''),
+    username: String(payload['cognito:username'] || ''),
+    audience: String(payload.aud || ''),
+    tokenUse: 'id',
+    issuer: String(payload.iss || ''),
+    groups: toGroups(payload['cognito:groups']),
+    email: toOptionalString(payload.email),
+    emailVerified: toOptionalBoolean(payload.email_verified),
+    phoneNumber: toOptionalString(payload.phone_number),
+    phoneNumberVerified: toOptionalBoolean(payload.phone_number_verified),
+    attributes,
+    authTime: toDate(payload.auth_time),
+    issuedAt: toDate(payload.iat),
+    expiresAt: toDate(payload.exp) || new Date(0),
+    jti: toOptionalString(payload.jti),
+    originJti: toOptionalString(payload.origin_jti),
+  };
+};
+
+/**
+ * Decodes the claims of a token pair returned by Cognito
+ * @param accessToken - The access token
+ * @param idToken - The ID token
+ * @returns The decoded claims, or undefined if either token is not a decodable JWT
+ */
+export const decodeAuthClaims = (accessToken: string, idToken: string): AuthClaims | undefined => {
+  try {
+    return {
+      accessToken: mapAccessTokenClaims(decodeJwt(accessToken).payload),
+      idToken: mapIdTokenClaims(decodeJwt(idToken).payload),
+    };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Parses a JSON-encoded array from a challenge parameter
+ * @param value - The raw challenge parameter value
+ * @returns The parsed array, or an empty array if the value is missing or malformed
+ */
+const parseJsonArray = (value?: string): string[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Parses a JSON-encoded object from a challenge parameter
+ * @param value - The raw challenge parameter value
+ * @returns The parsed object, or an empty object if the value is missing or malformed
+ */
+const parseJsonObject = (value?: string): Record<string, string> => {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Maps an InitiateAuth or RespondToAuthChallenge response to a SignInResult
+ * @param response - The Cognito response containing tokens or a challenge
+ * @param username - The username that started the sign-in
+ * @returns Either the issued tokens or the next challenge to complete
+ */
+export const mapSignInResult = (
+  response: {
+    ChallengeName?: string;
+    Session?: string;
+    ChallengeParameters?: Record<string, string>;
+    AuthenticationResult?: AuthenticationResultType;
+  },
+  username: string,
+): SignInResult => {
+  if (response.AuthenticationResult) {
+    return { type: 'tokens', tokens: mapAuthResult(response.AuthenticationResult) };
+  }
+
+  if (!response.ChallengeName) {
+    throw new Error('Authentication failed: No authentication result returned');
+  }
+
+  const challengeParameters = response.ChallengeParameters || {};
+  const base = {
+    session: response.Session || '',
+    username: challengeParameters.USER_ID_FOR_SRP || username,
+    challengeParameters,
+  };
+
+  switch (response.ChallengeName) {
+    case ChallengeNameType.NEW_PASSWORD_REQUIRED: {
+      const userAttributes = parseJsonObject(challengeParameters.userAttributes);
+      return {
+        ...base,
+        type: 'newPasswordRequired',
+        challengeName: ChallengeNameType.NEW_PASSWORD_REQUIRED,
+        requiredAttributes: parseJsonArray(challengeParameters.requiredAttributes).map((name) =>
+          name.replace(/^userAttributes\./, ''),
+        ),
+        userAttributes: mapAttributes(
+          Object.entries(userAttributes).map(([Name, Value]) => ({ Name, Value: String(Value) })),
+        ),
+      };
+    }
+    case ChallengeNameType.SMS_MFA:
+      return {
+        ...base,
+        type: 'smsMfa',
+        challengeName: ChallengeNameType.SMS_MFA,
+        codeDeliveryDestination: challengeParameters.CODE_DELIVERY_DESTINATION,
+        codeDeliveryMedium: challengeParameters.CODE_DELIVERY_DELIVERY_MEDIUM,
+      };
+    case ChallengeNameType.SOFTWARE_TOKEN_MFA:
+      return {
+        ...base,
+        type: 'softwareTokenMfa',
+        challengeName: ChallengeNameType.SOFTWARE_TOKEN_MFA,
+      };
+    case ChallengeNameType.EMAIL_OTP:
+      return {
+        ...base,
+        type: 'emailOtp',
+        challengeName: ChallengeNameType.EMAIL_OTP,
+        codeDeliveryDestination: challengeParameters.CODE_DELIVERY_DESTINATION,
+        codeDeliveryMedium: challengeParameters.CODE_DELIVERY_DELIVERY_MEDIUM,
+      };
+    case ChallengeNameType.SELECT_MFA_TYPE:
+      return {
+        ...base,
+        type: 'selectMfaType',
+        challengeName: ChallengeNameType.SELECT_MFA_TYPE,
+        mfasCanChoose: parseJsonArray(challengeParameters.MFAS_CAN_CHOOSE),
+      };
+    case ChallengeNameType.MFA_SETUP:
+      return {
+        ...base,
+        type: 'mfaSetup',
+        challengeName: ChallengeNameType.MFA_SETUP,
+        mfasCanSetup: parseJsonArray(challengeParameters.MFAS_CAN_SETUP),
+      };
+    default:
+      return {
+        ...base,
+        type: 'challenge',
+        challengeName: response.ChallengeName,
+      };
+  }
+};
+
 /**
  * Maps a list of Cognito AttributeType to a simple object
  * @param attributes - The array of Cognito attributes
@@ -65,9 +338,10 @@ export const mapAttributes = (attributes: AttributeType[] = []): Record<string,
  */
 export const mapToAttributeList = (attributes: Record<string, string> = {}): AttributeType[] => {
   return Object.entries(attributes).map(([key, value]) => {
-    // Convert from camelCase to format like 'custom:role' if it starts with 'custom'
+    // Convert from camelCase to format like 'custom:role' if it starts with 'custom';
+    // keys that already have the 'custom:' prefix are attribute names
     let name = key;
-    if (key.startsWith('custom') && key !== 'custom' && key.length > 6) {
+    if (key.startsWith('custom') && !key.startsWith('custom:') && key.length > 6) {
       const restOfKey = key.slice(6); // Remove 'custom' prefix
       // Convert first character to lowercase
       const firstChar = restOfKey.charAt(0).toLowerCase();
@@ -143,33 +417,42 @@ export const mapAdminGetUserResponse = (
   };
 };
 
+/**
+ * Maps a Cognito UserImportJobType to our simplified format
+ * @param job - The Cognito user import job
+ * @returns A simplified user import job
+ */
+export const mapUserImportJob = (job: UserImportJobType = {}): UserImportJob => {
+  return {
+    jobId: job.JobId || '',
+    jobName: job.JobName || '',
+    userPoolId: job.UserPoolId || '',
+    status: (job.Status || 'Created') as UserImportJobStatus,
+    preSignedUrl: job.PreSignedUrl,
+    cloudWatchLogsRoleArn: job.CloudWatchLogsRoleArn,
+    creationDate: job.CreationDate ? new Date(job.CreationDate) : undefined,
+    startDate: job.StartDate ? new Date(job.StartDate) : undefined,
+    completionDate: job.CompletionDate ? new Date(job.CompletionDate) : undefined,
+    completionMessage: job.CompletionMessage,
+    statistics: {
+      importedUsers: job.ImportedUsers ?? 0,
+      skippedUsers: job.SkippedUsers ?? 0,
+      failedUsers: job.FailedUsers ?? 0,
+    },
+  };
+};
+
 /**
  * Formats error information from Cognito API errors
  * @param error - The error thrown by the AWS SDK
  * @returns An object with error details
  */
-export const formatError = (error: unknown): { code: string; name: string; message: string } => {
-  if (error instanceof Error) {
-    const anyError = error as unknown as { code: string; name: string; message: string };
-    return {
-      code: anyError.code || 'UnknownError',
-      name: error.name,
-      message: error.message,
-    };
-  }
-
-  if (typeof error === 'object' && error !== null) {
-    const obj = error as unknown as { code: string; name: string; message: string };
-    return {
-      code: obj.code || 'UnknownError',
-      name: obj.name || 'UnknownError',
-      message: obj.message || JSON.stringify(obj),
-    };
-  }
+export const formatError = (error: unknown): CognitoErrorInfo => {
+  const clientError = toCognitoClientError(error);
 
   return {
-    code: 'UnknownError',
-    name: 'UnknownError',
-    message: String(error),
+    code: clientError.code,
+    name: clientError.exceptionName || clientError.name,
+    message: clientError.message,
   };
 };
@@ -0,0 +1,264 @@
+import * as CognitoIdentityProvider from '@aws-sdk/client-cognito-identity-provider';
+import { CognitoIdentityProviderClient } from '@aws-sdk/client-cognito-identity-provider';
+import {
+  CognitoCommandClass,
+  CognitoStub,
+  CognitoStubBehavior,
+  CognitoStubCall,
+  CognitoStubOptions,
+  CognitoStubSend,
+  MockCognitoSend,
+  SpyFramework,
+} from '../types';
+
+/**
+ * A stubbed response: a value to resolve, an error to reject or a handler to call
+ */
+type StubResponse =
+  | { type: 'resolve'; output: object }
+  | { type: 'reject'; error: unknown }
+  | { type: 'fake'; handler: (input: Record<string, unknown>, command: object) => unknown };
+
+/**
+ * The responses registered for a command and input shape
+ */
+type StubRule = {
+  commandName?: string;
+  input?: Record<string, unknown>;
+  once: StubResponse[];
+  always?: StubResponse;
+};
+
+/**
+ * The SDK command classes by export name. Minifiers may rename classes but not the SDK's exports
+ */
+const COMMAND_NAMES = new Map<unknown, string>(
+  Object.entries(CognitoIdentityProvider)
+    .filter(([name]) => name.endsWith('Command'))
+    .map(([name, value]) => [value, name]),
+);
+
+/**
+ * Finds the name of an SDK command class, e.g. 'SignUpCommand', from the SDK's exports
+ * @param command - The command class, e.g. SignUpCommand or command.constructor
+ * @returns The export name, or the class name for classes the SDK does not export
+ */
+export const getCommandName = (command: CognitoCommandClass): string => {
+  return COMMAND_NAMES.get(command) ?? command.name;
+};
+
+/**
+ * Checks whether a value matches an expected shape. Objects match when every expected key matches,
+ * arrays when every element matches, and asymmetric matchers such as expect.any are honoured
+ * @param actual - The value sent
+ * @param expected - The expected shape
+ * @returns True if the value matches
+ */
+export const matchesShape = (actual: unknown, expected: unknown): boolean => {
+  if (typeof expected === 'object' && expected !== null) {
+    const matcher = expected as { asymmetricMatch?: (value: unknown) => boolean };
+    if (typeof matcher.asymmetricMatch === 'function') {
+      return matcher.asymmetricMatch(actual);
+    }
+
+    if (Array.isArray(expected)) {
+      return (
+        Array.isArray(actual) &&
+        actual.length === expected.length &&
+        expected.every((item, index) => matchesShape(actual[index], item))
+      );
+    }
+
+    if (expected instanceof Date) {
+      return actual instanceof Date && actual.getTime() === expected.getTime();
+    }
+
+    if (typeof actual !== 'object' || actual === null) {
+      return false;
+    }
+
+    return Object.entries(expected).every(([key, value]) =>
+      matchesShape((actual as Record<string, unknown>)[key], value),
+    );
+  }
+
+  return Object.is(actual, expected);
+};
+
+/**
+ * Checks whether a call matches a command class and optional input shape
+ * @param call - The recorded call
+ * @param commandName - Optional command class name
+ * @param input - Optional input shape
+ * @returns True if the call matches
+ */
+const matchesCall = (
+  call: CognitoStubCall,
+  commandName: string | undefined,
+  input: Record<string, unknown> | undefined,
+): boolean => {
+  return (
+    (!commandName || call.commandName === commandName) && matchesShape(call.input, input ?? {})
+  );
+};
+
+/**
+ * Describes a call for failure messages
+ * @param call - The recorded call
+ * @returns The command name and its input as JSON
+ */
+const describeCall = (call: CognitoStubCall): string => {
+  return `${call.commandName} ${JSON.stringify(call.input)}`;
+};
+
+/**
+ * Creates a stand-in for CognitoIdentityProviderClient that works with any test framework.
+ * Every call is recorded; responses are routed per command class and optional input shape,
+ * and the most recently registered matching route answers, so the order in which a method sends
+ * its commands does not matter. The stub's own responses answer commands no route matches,
+ * and commands without a response reject with their name and input
+ * @param options - Optional spy factory wrapping send, e.g. jest.fn or vi.fn
+ * @returns The stub, whose client can be passed to either client constructor
+ */
+export function createCognitoStub(): CognitoStub;
+export function createCognitoStub<TSend>(options: CognitoStubOptions<TSend>): CognitoStub<TSend>;
+export function createCognitoStub<TSend>(
+  options: CognitoStubOptions<TSend> = {},
+): CognitoStub<TSend | CognitoStubSend> {
+  const calls: CognitoStubCall[] = [];
+  // The stub's own responses form the first rule, matching any command, so every route wins over it
+  const anyCommand: StubRule = { once: [] };
+  let rules: StubRule[] = [anyCommand];
+
+  const respond = async (response: StubResponse, call: CognitoStubCall): Promise<unknown> => {
+    if (response.type === 'reject') {
+      throw response.error;
+    }
+    if (response.type === 'fake') {
+      return response.handler(call.input, call.command);
+    }
+    return response.output;
+  };
+
+  const stubSend: CognitoStubSend = async (command) => {
+    const call: CognitoStubCall = {
+      commandName: getCommandName(command.constructor),
+      input: { ...(command as { input?: Record<string, unknown> }).input },
+      command,
+    };
+    calls.push(call);
+
+    const rule = [...rules]
+      .reverse()
+      .find(
+        (item) =>
+          (item.once.length > 0 || item.always) && matchesCall(call, item.commandName, item.input),
+      );
+
+    if (!rule) {
+      throw new Error(`No response stubbed for ${describeCall(call)}`);
+    }
+
+    return respond(rule.once.shift() ?? (rule.always as StubResponse), call);
+  };
+
+  const createBehavior = (rule: StubRule): CognitoStubBehavior => {
+    const behavior: CognitoStubBehavior = {
+      resolves: (output) => {
+        rule.always = { type: 'resolve', output };
+        return behavior;
+      },
+      resolvesOnce: (output) => {
+        rule.once.push({ type: 'resolve', output });
+        return behavior;
+      },
+      rejects: (error) => {
+        rule.always = { type: 'reject', error };
+        return behavior;
+      },
+      rejectsOnce: (error) => {
+        rule.once.push({ type: 'reject', error });
+        return behavior;
+      },
+      callsFake: (handler) => {
+        rule.always = { type: 'fake', handler };
+        return behavior;
+      },
+    };
+
+    return behavior;
+  };
+
+  const send = options.spy ? options.spy(stubSend) : stubSend;
+
+  return {
+    ...createBehavior(anyCommand),
+    client: { send } as unknown as CognitoIdentityProviderClient,
+    send,
+    calls,
+    on: (command: CognitoCommandClass, input?: Record<string, unknown>): CognitoStubBehavior => {
+      const rule: StubRule = { commandName: getCommandName(command), input, once: [] };
+      rules.push(rule);
+      return createBehavior(rule);
+    },
+    callsOf: (command: CognitoCommandClass, input?: Record<string, unknown>) =>
+      calls.filter((call) => matchesCall(call, getCommandName(command), input)),
+    expectCommandSent: (
+      command: CognitoCommandClass,
+      input?: Record<string, unknown>,
+    ): CognitoStubCall[] => {
+      const commandName = getCommandName(command);
+      const matching = calls.filter((call) => matchesCall(call, commandName, input));
+      if (matching.length === 0) {
+        const expected = input ? `${commandName} ${JSON.stringify(input)}` : commandName;
+        const sent = calls.map((call) => `\n  ${describeCall(call)}`).join('') || ' none';
+        throw new Error(`Expected ${expected} to be sent. Commands sent:${sent}`);
+      }
+      return matching;
+    },
+    reset: (): void => {
+      calls.length = 0;
+      anyCommand.once = [];
+      anyCommand.always = undefined;
+      rules = [anyCommand];
+    },
+  };
+}
+
+/**
+ * Finds the jest object Jest injects into every module, so Jest helpers fail with a clear message
+ * in other test runners
+ * @returns The jest object, typed without Jest's own types
+ */
+export const getJest = (): SpyFramework<MockCognitoSend> => {
+  if (typeof jest === 'undefined') {
+    throw new Error(
+      'Jest is not available: Pass the spy framework, e.g. vi, or use createCognitoStub',
+    );
+  }
+
+  return jest;
+};
+
+/**
+ * Creates a Cognito stub whose send is a Jest mock, for expect(stub.send) assertions
+ * @param jestObject - Optional jest object, the global one by default
+ * @returns The stub, whose send is typed by the framework passed, or as MockCognitoSend
+ */
+export function createJestCognitoStub(): CognitoStub<MockCognitoSend>;
+export function createJestCognitoStub<TSpy>(jestObject: SpyFramework<TSpy>): CognitoStub<TSpy>;
+export function createJestCognitoStub<TSpy>(
+  jestObject?: SpyFramework<TSpy>,
+): CognitoStub<TSpy | MockCognitoSend> {
+  const framework: SpyFramework<TSpy | MockCognitoSend> = jestObject ?? getJest();
+  return createCognitoStub({ spy: framework.fn });
+}
+
+/**
+ * Creates a Cognito stub whose send is a Vitest spy, for expect(stub.send) assertions
+ * @param vi - The vi object imported from vitest
+ * @returns The stub
+ */
+export const createVitestCognitoStub = <TSpy>(vi: SpyFramework<TSpy>): CognitoStub<TSpy> => {
+  return createCognitoStub({ spy: vi.fn });
+};
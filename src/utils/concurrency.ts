@@ -0,0 +1,42 @@
+/**
+ * Waits for the given time
+ * @param ms - The time to wait in milliseconds
+ */
+export const sleep = (ms: number): Promise<void> => {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+};
+
+/**
+ * Maps items with an async function, running at most `concurrency` calls at a time
+ * @param items - The items to map
+ * @param concurrency - The maximum number of concurrent calls
+ * @param mapper - The async function to run for each item
+ * @returns The results, in the order of the items
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  mapper: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let stopped = false;
+
+  // Once a call fails no new calls are started; calls already running are left to finish
+  const worker = async (): Promise<void> => {
+    while (!stopped && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await mapper(items[index], index);
+      } catch (error) {
+        stopped = true;
+        throw error;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+};
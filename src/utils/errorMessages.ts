@@ -0,0 +1,105 @@
+import {
+  ErrorMessageBundle,
+  ErrorMessageFormatter,
+  ErrorMessageKey,
+  ErrorMessageOptions,
+  PasswordPolicy,
+} from '../types';
+import { en } from '../locales/en';
+import { es } from '../locales/es';
+import { zhCN } from '../locales/zh-CN';
+import { formatError } from './cognitoMapper';
+
+/**
+ * The bundles shipped with the library, keyed by locale
+ */
+export const builtInErrorMessages: Record<string, ErrorMessageBundle> = {
+  en,
+  'zh-CN': zhCN,
+  es,
+};
+
+/**
+ * Replaces {placeholders} in a message. Placeholders without a value are left as they are
+ * @param template - The message template
+ * @param params - The placeholder values
+ * @returns The interpolated message
+ */
+export const interpolateMessage = (
+  template: string,
+  params: Record<string, string | number> = {},
+): string => {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder,
+  );
+};
+
+/**
+ * Matches the NotAuthorized messages Cognito sends for an expired, revoked or invalid
+ * token or sign-in session, as opposed to wrong credentials
+ */
+const SESSION_ERROR_PATTERN = /\b(access|refresh) token\b|\binvalid session\b/i;
+
+/**
+ * Lists the requirements of a password policy, in the order Cognito checks them
+ * @param policy - The password policy
+ * @returns The message keys of the requirements that apply
+ */
+const getPasswordRequirementKeys = (policy: PasswordPolicy): ErrorMessageKey[] => {
+  const keys: ErrorMessageKey[] = [];
+  if (policy.minimumLength) keys.push('PasswordRequirementMinimumLength');
+  if (policy.requireUppercase) keys.push('PasswordRequirementUppercase');
+  if (policy.requireLowercase) keys.push('PasswordRequirementLowercase');
+  if (policy.requireNumbers) keys.push('PasswordRequirementNumbers');
+  if (policy.requireSymbols) keys.push('PasswordRequirementSymbols');
+  return keys;
+};
+
+/**
+ * Creates a function that turns errors into user-facing messages in the given locale.
+ * Locales fall back from e.g. es-MX to es, then to the fallback locale, then to English.
+ * @param options - Optional locale, extra bundles, enumeration collapsing and password policy
+ * @returns The error message formatter
+ */
+export const createErrorMessageFormatter = (
+  options: ErrorMessageOptions = {},
+): ErrorMessageFormatter => {
+  const {
+    locale = 'en',
+    fallbackLocale = 'en',
+    bundles = {},
+    collapseUserEnumeration = false,
+    passwordPolicy,
+  } = options;
+
+  const locales = [locale, locale.split('-')[0], fallbackLocale, 'en'];
+  const chain = locales
+    .filter((value, index) => locales.indexOf(value) === index)
+    .map((value) => ({ ...builtInErrorMessages[value], ...bundles[value] }));
+
+  const lookup = (key: ErrorMessageKey): string | undefined => {
+    return chain.map((bundle) => bundle[key]).find((message) => message !== undefined);
+  };
+
+  return (error, params = {}) => {
+    const { code, message } = formatError(error);
+    const values = { ...passwordPolicy, ...params } as Record<string, string | number>;
+    let key: ErrorMessageKey = code;
+
+    if (code === 'NotAuthorized' && SESSION_ERROR_PATTERN.test(message)) {
+      key = 'SessionExpired';
+    } else if (collapseUserEnumeration && (code === 'UserNotFound' || code === 'NotAuthorized')) {
+      key = 'InvalidCredentials';
+    }
+
+    const requirementKeys = passwordPolicy ? getPasswordRequirementKeys(passwordPolicy) : [];
+    if (code === 'InvalidPassword' && requirementKeys.length > 0) {
+      key = 'PasswordRequirements';
+      values.requirements = requirementKeys
+        .map((requirementKey) => interpolateMessage(lookup(requirementKey) || '', values))
+        .join(lookup('ListSeparator') ?? ', ');
+    }
+
+    return interpolateMessage(lookup(key) ?? lookup('UnknownError') ?? '', values);
+  };
+};
@@ -0,0 +1,77 @@
+import { GroupChange, GroupFieldChange, GroupSpec, GroupSyncPlan, GroupType } from '../types';
+
+const SYNCED_FIELDS: GroupFieldChange['field'][] = ['description', 'precedence', 'roleArn'];
+
+/**
+ * Compares a desired group with the current one
+ * @param spec - The desired group
+ * @param group - The current group
+ * @returns The fields that differ
+ */
+const diffGroup = (spec: GroupSpec, group: GroupType): GroupFieldChange[] => {
+  return SYNCED_FIELDS.filter((field) => spec[field] !== group[field]).map((field) => ({
+    field,
+    from: group[field],
+    to: spec[field],
+  }));
+};
+
+/**
+ * Plans the changes that turn the current groups into the desired ones: creates first, then updates, then deletes.
+ * Groups Cognito creates for federated identity providers (named after the user pool ID) are never deleted
+ * @param desired - The desired groups
+ * @param current - The current groups of the user pool
+ * @param options - The user pool ID and whether groups may be deleted
+ * @returns The plan
+ */
+export const planGroupSync = (
+  desired: GroupSpec[],
+  current: GroupType[],
+  options: { userPoolId: string; allowDeletes?: boolean },
+): GroupSyncPlan => {
+  const { userPoolId, allowDeletes = true } = options;
+  const desiredNames = new Set<string>();
+
+  for (const spec of desired) {
+    if (desiredNames.has(spec.groupName)) {
+      throw new Error(`Invalid group spec: Duplicate group ${spec.groupName}`);
+    }
+    desiredNames.add(spec.groupName);
+  }
+
+  const currentGroups = new Map(current.map((group) => [group.groupName, group]));
+  const creates: GroupChange[] = [];
+  const updates: GroupChange[] = [];
+  const unchanged: string[] = [];
+
+  for (const spec of desired) {
+    const group = currentGroups.get(spec.groupName);
+    if (!group) {
+      creates.push({ action: 'create', groupName: spec.groupName, spec });
+      continue;
+    }
+
+    const fields = diffGroup(spec, group);
+    if (fields.length > 0) {
+      updates.push({ action: 'update', groupName: spec.groupName, spec, fields });
+    } else {
+      unchanged.push(spec.groupName);
+    }
+  }
+
+  const extra = current
+    .map((group) => group.groupName)
+    .filter((groupName) => !desiredNames.has(groupName) && !groupName.startsWith(`${userPoolId}_`));
+
+  return {
+    changes: [
+      ...creates,
+      ...updates,
+      ...(allowDeletes
+        ? extra.map((groupName): GroupChange => ({ action: 'delete', groupName }))
+        : []),
+    ],
+    unchanged,
+    skippedDeletes: allowDeletes ? [] : extra,
+  };
+};
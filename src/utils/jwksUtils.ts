@@ -0,0 +1,114 @@
+import { readFile } from 'fs/promises';
+import { CachedJwksProviderOptions, Jwks, JwksProvider } from '../types';
+
+const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Validates that a parsed document looks like a JWKS
+ * @param document - The parsed JSON document
+ * @returns The document typed as a JWKS
+ */
+const assertJwks = (document: unknown): Jwks => {
+  const keys = (document as Jwks | undefined)?.keys;
+  if (!Array.isArray(keys)) {
+    throw new Error('Invalid JWKS: Missing keys array');
+  }
+  return document as Jwks;
+};
+
+/**
+ * Builds the JWKS URL of a user pool
+ * @param region - The AWS region of the user pool
+ * @param userPoolId - The user pool ID
+ * @returns The URL of the user pool's JWKS document
+ */
+export const getJwksUrl = (region: string, userPoolId: string): string => {
+  return `https://cognito-idp.${region}.amazonaws.com/${userPoolId}/.well-known/jwks.json`;
+};
+
+/**
+ * Creates a JWKS provider that always returns the given key set
+ * @param jwks - The key set
+ * @returns A JWKS provider
+ */
+export const createStaticJwksProvider = (jwks: Jwks): JwksProvider => {
+  const validated = assertJwks(jwks);
+  return {
+    getJwks: async (): Promise<Jwks> => validated,
+  };
+};
+
+/**
+ * Creates a JWKS provider that caches the result of a fetcher.
+ * The key set is fetched again when the cache expires or a refresh is forced,
+ * and concurrent requests share a single fetch.
+ * @param fetcher - Function that loads the key set
+ * @param options - Optional cache TTL in milliseconds, one hour by default
+ * @returns A JWKS provider
+ */
+export const createCachedJwksProvider = (
+  fetcher: () => Promise<Jwks>,
+  options: CachedJwksProviderOptions = {},
+): JwksProvider => {
+  const { cacheTtlMs = DEFAULT_CACHE_TTL_MS } = options;
+  let cached: Jwks | undefined;
+  let fetchedAt = 0;
+  let pending: Promise<Jwks> | undefined;
+
+  return {
+    getJwks: async (forceRefresh = false): Promise<Jwks> => {
+      if (cached && !forceRefresh && Date.now() - fetchedAt < cacheTtlMs) {
+        return cached;
+      }
+
+      if (!pending) {
+        pending = fetcher()
+          .then((jwks) => {
+            cached = assertJwks(jwks);
+            fetchedAt = Date.now();
+            return cached;
+          })
+          .finally(() => {
+            pending = undefined;
+          });
+      }
+
+      return pending;
+    },
+  };
+};
+
+/**
+ * Creates a JWKS provider that reads the key set from a local JSON file once
+ * @param filePath - Path to the JWKS JSON file
+ * @returns A JWKS provider
+ */
+export const createFileJwksProvider = (filePath: string): JwksProvider => {
+  return createCachedJwksProvider(
+    async () => JSON.parse(await readFile(filePath, 'utf8')) as Jwks,
+    { cacheTtlMs: Infinity },
+  );
+};
+
+/**
+ * Creates a cached JWKS provider that downloads the user pool's published key set
+ * @param region - The AWS region of the user pool
+ * @param userPoolId - The user pool ID
+ * @param options - Optional cache TTL in milliseconds
+ * @returns A JWKS provider
+ */
+export const createRemoteJwksProvider = (
+  region: string,
+  userPoolId: string,
+  options: CachedJwksProviderOptions = {},
+): JwksProvider => {
+  const url = getJwksUrl(region, userPoolId);
+
+  return createCachedJwksProvider(async () => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch JWKS: ${response.status} ${response.statusText}`);
+    }
+    return (await response.json()) as Jwks;
+  }, options);
+};
@@ -0,0 +1,79 @@
+import { Page, PaginationOptions, Paginator } from '../types';
+
+/**
+ * The largest page size accepted by the Cognito list operations
+ */
+export const MAX_PAGE_SIZE = 60;
+
+/**
+ * Checks a requested page size and limits it to the largest page Cognito accepts
+ * @param pageSize - The requested page size, MAX_PAGE_SIZE by default
+ * @returns The page size, at most MAX_PAGE_SIZE
+ */
+export const resolvePageSize = (pageSize: number = MAX_PAGE_SIZE): number => {
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new Error(`Invalid page size: ${pageSize} is not a whole number of at least 1`);
+  }
+  return Math.min(pageSize, MAX_PAGE_SIZE);
+};
+
+/**
+ * Fetches one page of a list operation
+ */
+export type PageFetcher<T> = (request: { limit: number; nextToken?: string }) => Promise<Page<T>>;
+
+/**
+ * Creates a paginator that fetches pages lazily until there is no next token or maxItems is reached
+ * @param fetchPage - Fetches one page given a limit and the token of the previous page
+ * @param options - Optional page size, maximum number of items and abort signal
+ * @returns A paginator over the items
+ */
+export const createPaginator = <T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginationOptions = {},
+): Paginator<T> => {
+  const { maxItems = Infinity, signal } = options;
+  const pageSize = resolvePageSize(options.pageSize);
+
+  const pages = async function* (): AsyncGenerator<T[]> {
+    let remaining = maxItems;
+    let nextToken: string | undefined;
+
+    while (remaining > 0) {
+      signal?.throwIfAborted();
+      const page = await fetchPage({ limit: Math.min(pageSize, remaining), nextToken });
+      signal?.throwIfAborted();
+
+      const items = page.items.slice(0, remaining);
+      remaining -= items.length;
+      nextToken = page.nextToken;
+
+      // Cognito may return empty pages with a next token, e.g. for filtered user lists
+      if (items.length > 0) {
+        yield items;
+      }
+
+      if (!nextToken) {
+        return;
+      }
+    }
+  };
+
+  const items = async function* (): AsyncGenerator<T> {
+    for await (const page of pages()) {
+      yield* page;
+    }
+  };
+
+  return {
+    [Symbol.asyncIterator]: () => items(),
+    pages,
+    toArray: async (): Promise<T[]> => {
+      const all: T[] = [];
+      for await (const page of pages()) {
+        all.push(...page);
+      }
+      return all;
+    },
+  };
+};
@@ -0,0 +1,196 @@
+import { CognitoQuotaCategory, RateLimiter, RateLimiterOptions } from '../types';
+import { sleep } from './concurrency';
+
+/**
+ * Default requests per second of each quota category
+ */
+export const DEFAULT_COGNITO_QUOTAS: Record<CognitoQuotaCategory, number> = {
+  UserAuthentication: 120,
+  UserCreation: 50,
+  UserAccountRecovery: 30,
+  UserRead: 120,
+  UserUpdate: 25,
+  UserResourceRead: 50,
+  UserResourceUpdate: 25,
+  UserList: 30,
+  UserPoolResourceRead: 20,
+  UserPoolResourceUpdate: 15,
+};
+
+/**
+ * The quota category of each operation used by the clients
+ */
+const OPERATION_CATEGORIES: Record<string, CognitoQuotaCategory> = {
+  InitiateAuth: 'UserAuthentication',
+  RespondToAuthChallenge: 'UserAuthentication',
+  AdminInitiateAuth: 'UserAuthentication',
+  AdminRespondToAuthChallenge: 'UserAuthentication',
+  SignUp: 'UserCreation',
+  AdminCreateUser: 'UserCreation',
+  ForgotPassword: 'UserAccountRecovery',
+  ConfirmForgotPassword: 'UserAccountRecovery',
+  ResendConfirmationCode: 'UserAccountRecovery',
+  AdminResetUserPassword: 'UserAccountRecovery',
+  GetUser: 'UserRead',
+  AdminGetUser: 'UserRead',
+  ConfirmSignUp: 'UserUpdate',
+  AdminConfirmSignUp: 'UserUpdate',
+  ChangePassword: 'UserUpdate',
+  AdminSetUserPassword: 'UserUpdate',
+  UpdateUserAttributes: 'UserUpdate',
+  AdminUpdateUserAttributes: 'UserUpdate',
+  DeleteUserAttributes: 'UserUpdate',
+  AdminDeleteUserAttributes: 'UserUpdate',
+  GetUserAttributeVerificationCode: 'UserUpdate',
+  VerifyUserAttribute: 'UserUpdate',
+  DeleteUser: 'UserUpdate',
+  AdminDeleteUser: 'UserUpdate',
+  AdminDisableUser: 'UserUpdate',
+  AdminEnableUser: 'UserUpdate',
+  AdminAddUserToGroup: 'UserUpdate',
+  AdminRemoveUserFromGroup: 'UserUpdate',
+  GlobalSignOut: 'UserUpdate',
+  AdminUserGlobalSignOut: 'UserUpdate',
+  AssociateSoftwareToken: 'UserUpdate',
+  VerifySoftwareToken: 'UserUpdate',
+  SetUserMFAPreference: 'UserUpdate',
+  AdminSetUserMFAPreference: 'UserUpdate',
+  SetUserSettings: 'UserUpdate',
+  AdminSetUserSettings: 'UserUpdate',
+  AdminListGroupsForUser: 'UserResourceRead',
+  AdminListUserAuthEvents: 'UserResourceRead',
+  GetDevice: 'UserResourceRead',
+  AdminGetDevice: 'UserResourceRead',
+  ListDevices: 'UserResourceRead',
+  AdminListDevices: 'UserResourceRead',
+  ConfirmDevice: 'UserResourceUpdate',
+  ForgetDevice: 'UserResourceUpdate',
+  AdminForgetDevice: 'UserResourceUpdate',
+  UpdateDeviceStatus: 'UserResourceUpdate',
+  AdminUpdateDeviceStatus: 'UserResourceUpdate',
+  ListUsers: 'UserList',
+  ListUsersInGroup: 'UserList',
+  GetGroup: 'UserPoolResourceRead',
+  ListGroups: 'UserPoolResourceRead',
+  GetCSVHeader: 'UserPoolResourceRead',
+  DescribeUserImportJob: 'UserPoolResourceRead',
+  ListUserImportJobs: 'UserPoolResourceRead',
+  CreateGroup: 'UserPoolResourceUpdate',
+  UpdateGroup: 'UserPoolResourceUpdate',
+  DeleteGroup: 'UserPoolResourceUpdate',
+  CreateUserImportJob: 'UserPoolResourceUpdate',
+  StartUserImportJob: 'UserPoolResourceUpdate',
+  StopUserImportJob: 'UserPoolResourceUpdate',
+};
+
+/**
+ * Gets the quota category of an operation
+ * @param operation - The operation name, with or without the Command suffix
+ * @returns The quota category, or undefined if the operation is not rate limited
+ */
+export const getQuotaCategory = (operation: string): CognitoQuotaCategory | undefined => {
+  const name = operation.replace(/Command$/, '');
+  return Object.prototype.hasOwnProperty.call(OPERATION_CATEGORIES, name)
+    ? OPERATION_CATEGORIES[name]
+    : undefined;
+};
+
+/**
+ * Quota categories whose operations only read data and can safely be sent again
+ */
+const READ_CATEGORIES: CognitoQuotaCategory[] = [
+  'UserRead',
+  'UserResourceRead',
+  'UserList',
+  'UserPoolResourceRead',
+];
+
+/**
+ * Checks whether an operation only reads data
+ * @param operation - The operation name, with or without the Command suffix
+ * @returns True if the operation belongs to a read quota category
+ */
+export const isReadOperation = (operation: string): boolean => {
+  const category = getQuotaCategory(operation);
+  return category !== undefined && READ_CATEGORIES.includes(category);
+};
+
+/**
+ * Creates a token bucket that holds one second of requests, and at least one request,
+ * and refills continuously
+ * @param requestsPerSecond - The refill rate, a positive number
+ * @returns A function that resolves when a token has been taken
+ */
+const createTokenBucket = (requestsPerSecond: number): (() => Promise<void>) => {
+  // Below one request per second the bucket must still hold a whole token
+  const capacity = Math.max(1, requestsPerSecond);
+  let tokens = capacity;
+  let refilledAt = Date.now();
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = (): void => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) / 1000) * requestsPerSecond);
+    refilledAt = now;
+  };
+
+  const take = async (): Promise<void> => {
+    refill();
+    if (tokens < 1) {
+      await sleep(Math.ceil(((1 - tokens) / requestsPerSecond) * 1000));
+      refill();
+    }
+    tokens -= 1;
+  };
+
+  // Waiters are served in order so a burst cannot starve earlier callers
+  return () => {
+    const turn = queue.then(take);
+    queue = turn;
+    return turn;
+  };
+};
+
+/**
+ * Creates a client-side rate limiter with one token bucket per Cognito quota category.
+ * Share one limiter between clients that use the same user pool
+ * @param options - Optional quota overrides and utilization factor
+ * @returns A rate limiter
+ */
+export const createRateLimiter = (options: RateLimiterOptions = {}): RateLimiter => {
+  const { quotas = {}, utilization = 1 } = options;
+
+  if (!Number.isFinite(utilization) || utilization <= 0 || utilization > 1) {
+    throw new Error(
+      `Invalid rate limiter options: utilization must be above 0 and at most 1, got ${utilization}`,
+    );
+  }
+
+  for (const [category, quota] of Object.entries(quotas)) {
+    if (quota !== undefined && (!Number.isFinite(quota) || quota <= 0)) {
+      throw new Error(
+        `Invalid rate limiter options: The quota of ${category} must be a positive number, got ${quota}`,
+      );
+    }
+  }
+  const buckets = new Map<CognitoQuotaCategory, () => Promise<void>>();
+
+  return {
+    acquire: async (operation: string): Promise<void> => {
+      const category = getQuotaCategory(operation);
+      if (!category) {
+        return;
+      }
+
+      let bucket = buckets.get(category);
+      if (!bucket) {
+        const requestsPerSecond =
+          (quotas[category] ?? DEFAULT_COGNITO_QUOTAS[category]) * utilization;
+        bucket = createTokenBucket(requestsPerSecond);
+        buckets.set(category, bucket);
+      }
+
+      await bucket();
+    },
+  };
+};
@@ -0,0 +1,83 @@
+import { CognitoClientError, toCognitoClientError } from '../lib/errors';
+import { RetryPolicy } from '../types';
+import { sleep } from './concurrency';
+import { isReadOperation } from './rateLimiter';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 100;
+const DEFAULT_MAX_DELAY_MS = 20000;
+
+/**
+ * The default retryable-error predicate. Throttling errors are always retried because Cognito
+ * rejects the request before running it. Limit errors are retried for read operations, whose
+ * limits are request quotas that clear with backoff; for writes such as ForgotPassword they mean
+ * a per-user attempt limit that waiting seconds does not lift. Internal errors and 5xx responses
+ * are only retried for read operations: a write may have been applied before the error, so
+ * sending it again could, for example, create a user twice or send a second confirmation code
+ * @param error - The error of the failed attempt
+ * @param operation - The name of the Cognito operation, e.g. 'AdminGetUser'
+ * @returns True if the request should be retried
+ */
+export const isRetryableError = (error: CognitoClientError, operation?: string): boolean => {
+  if (error.code === 'TooManyRequests') {
+    return true;
+  }
+
+  const isTransientError =
+    error.code === 'LimitExceeded' ||
+    error.code === 'InternalError' ||
+    (error.httpStatusCode !== undefined && error.httpStatusCode >= 500);
+
+  return isTransientError && operation !== undefined && isReadOperation(operation);
+};
+
+/**
+ * Computes the delay before the next attempt
+ * @param attempt - The number of the attempt that failed, starting at 1
+ * @param policy - The retry policy
+ * @returns The delay in milliseconds
+ */
+export const getRetryDelay = (attempt: number, policy: RetryPolicy = {}): number => {
+  const {
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    jitter = 'full',
+  } = policy;
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+  return jitter === 'full' ? Math.floor(Math.random() * delay) : delay;
+};
+
+/**
+ * Runs an operation, retrying it according to the policy.
+ * Errors are converted to CognitoClientError subclasses
+ * @param operation - The operation to run
+ * @param policy - The retry policy; without one the operation runs once
+ * @param operationName - The name of the Cognito operation, passed to the retryable-error predicate
+ * @returns The result of the first successful attempt
+ */
+export const executeWithRetry = async <T>(
+  operation: () => Promise<T>,
+  policy?: RetryPolicy,
+  operationName?: string,
+): Promise<T> => {
+  const maxAttempts = policy ? (policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS) : 1;
+  const isRetryable = (error: CognitoClientError, attempt: number): boolean =>
+    policy?.isRetryable
+      ? policy.isRetryable(error, attempt, operationName)
+      : isRetryableError(error, operationName);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const clientError = toCognitoClientError(error);
+
+      if (attempt >= maxAttempts || !isRetryable(clientError, attempt)) {
+        throw clientError;
+      }
+
+      await sleep(getRetryDelay(attempt, policy));
+    }
+  }
+};
@@ -0,0 +1,16 @@
+import { createHmac } from 'crypto';
+
+/**
+ * Calculates the SECRET_HASH required by app clients that have a client secret
+ * @param username - The username (or sub, for the refresh token flow)
+ * @param clientId - The app client ID
+ * @param clientSecret - The app client secret
+ * @returns The Base64-encoded HMAC-SHA256 of username + clientId keyed with the client secret
+ */
+export const calculateSecretHash = (
+  username: string,
+  clientId: string,
+  clientSecret: string,
+): string => {
+  return createHmac('sha256', clientSecret).update(`${username}${clientId}`).digest('base64');
+};
@@ -0,0 +1,47 @@
+import {
+  $Command,
+  CognitoIdentityProviderClient,
+  CognitoIdentityProviderClientResolvedConfig,
+  ServiceInputTypes,
+  ServiceOutputTypes,
+} from '@aws-sdk/client-cognito-identity-provider';
+import { RateLimiter, RetryPolicy } from '../types';
+import { executeWithRetry } from './retry';
+
+/**
+ * A Cognito Identity Provider command with the given input and output types
+ */
+export type CognitoCommand<
+  TInput extends ServiceInputTypes,
+  TOutput extends ServiceOutputTypes,
+> = $Command<
+  TInput,
+  TOutput,
+  CognitoIdentityProviderClientResolvedConfig,
+  ServiceInputTypes,
+  ServiceOutputTypes
+>;
+
+/**
+ * Sends a command to Cognito, converting SDK exceptions to CognitoClientError subclasses.
+ * The command waits for the rate limiter and is retried according to the retry policy
+ * @param client - The Cognito Identity Provider client
+ * @param operation - The operation name used for rate limiting and retries, e.g. 'AdminGetUser'
+ * @param command - The command to send
+ * @param options - The retry policy and rate limiter
+ * @returns The command output
+ */
+export const sendCommand = <TInput extends ServiceInputTypes, TOutput extends ServiceOutputTypes>(
+  client: CognitoIdentityProviderClient,
+  operation: string,
+  command: CognitoCommand<TInput, TOutput>,
+  options: { retry?: RetryPolicy; rateLimiter?: RateLimiter },
+): Promise<TOutput> =>
+  executeWithRetry(
+    async () => {
+      await options.rateLimiter?.acquire(operation);
+      return client.send(command);
+    },
+    options.retry,
+    operation,
+  );
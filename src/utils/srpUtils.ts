@@ -0,0 +1,227 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+
+/**
+ * The 3072-bit safe prime used by Cognito for SRP (RFC 5054 / RFC 3526 group 15)
+ */
+const N_HEX =
+  'FFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD1' +
+  '29024E088A67CC74020BBEA63B139B22514A08798E3404DD' +
+  'EF9519B3CD3A431B302B0A6DF25F14374FE1356D6D51C245' +
+  'E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7ED' +
+  'EE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3D' +
+  'C2007CB8A163BF0598DA48361C55D39A69163FA8FD24CF5F' +
+  '83655D23DCA3AD961C62F356208552BB9ED529077096966D' +
+  '670C354E4ABC9804F1746C08CA18217C32905E462E36CE3B' +
+  'E39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9' +
+  'DE2BCBF6955817183995497CEA956AE515D2261898FA0510' +
+  '15728E5A8AAAC42DAD33170D04507A33A85521ABDF1CBA64' +
+  'ECFB850458DBEF0A8AEA71575D060C7DB3970F85A6E1E4C7' +
+  'ABF5AE8CDB0933D71E8C94E04A25619DCEE3D2261AD2EE6B' +
+  'F12FFA06D98A0864D87602733EC86A64521F2B18177B200C' +
+  'BBE117577A615D6C770988C0BAD946E208E24FA074E5AB31' +
+  '43DB5BFCE0FD108E4B82D120A93AD2CAFFFFFFFFFFFFFFFF';
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+export const SRP_N = BigInt(`0x${N_HEX}`);
+export const SRP_G = TWO;
+
+const WEEK_DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Client-side state for a single SRP handshake
+ */
+export type SrpSession = {
+  smallA: bigint;
+  largeA: bigint;
+};
+
+/**
+ * Values needed to answer a PASSWORD_VERIFIER challenge
+ */
+export type SrpPasswordClaimParams = {
+  userPoolId: string;
+  userIdForSrp: string;
+  password: string;
+  srpB: string;
+  salt: string;
+  secretBlock: string;
+  session: SrpSession;
+  timestamp?: string;
+};
+
+/**
+ * Challenge responses produced for a PASSWORD_VERIFIER challenge
+ */
+export type SrpPasswordClaim = {
+  passwordClaimSignature: string;
+  passwordClaimSecretBlock: string;
+  timestamp: string;
+};
+
+/**
+ * Computes base^exponent mod modulus using square-and-multiply
+ * @param base - The base
+ * @param exponent - The exponent
+ * @param modulus - The modulus
+ * @returns The result of the modular exponentiation
+ */
+export const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = ONE;
+  let b = ((base % modulus) + modulus) % modulus;
+  let e = exponent;
+
+  while (e > ZERO) {
+    if (e & ONE) {
+      result = (result * b) % modulus;
+    }
+    e >>= ONE;
+    b = (b * b) % modulus;
+  }
+
+  return result;
+};
+
+/**
+ * Converts a non-negative big integer to a hex string that Cognito treats as positive.
+ * The string is padded to an even length and prefixed with '00' when the high bit is set.
+ * @param value - The value to convert
+ * @returns The padded hex string
+ */
+export const padHex = (value: bigint): string => {
+  let hex = value.toString(16);
+  if (hex.length % 2 === 1) {
+    hex = `0${hex}`;
+  } else if ('89abcdef'.includes(hex[0])) {
+    hex = `00${hex}`;
+  }
+  return hex;
+};
+
+/**
+ * Hashes a hex-encoded byte string with SHA-256
+ * @param hex - The hex-encoded input
+ * @returns The hex-encoded digest, padded to 64 characters
+ */
+const hexHash = (hex: string): string => {
+  return createHash('sha256').update(Buffer.from(hex, 'hex')).digest('hex').padStart(64, '0');
+};
+
+/**
+ * The SRP multiplier parameter k = H(N | g)
+ */
+const SRP_K = BigInt(`0x${hexHash(`${padHex(SRP_N)}${padHex(SRP_G)}`)}`);
+
+/**
+ * Formats a date the way Cognito expects the TIMESTAMP challenge response,
+ * e.g. "Tue Sep 3 07:04:05 UTC 2024"
+ * @param date - The date to format, defaults to now
+ * @returns The formatted timestamp
+ */
+export const formatSrpTimestamp = (date: Date = new Date()): string => {
+  const pad = (n: number): string => String(n).padStart(2, '0');
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+
+  return `${WEEK_DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()} ${time} UTC ${date.getUTCFullYear()}`;
+};
+
+/**
+ * Starts an SRP handshake by generating the client's ephemeral key pair
+ * @param smallA - Optional private value, random 128 bytes if not provided
+ * @returns The private value a and public value A = g^a mod N
+ */
+export const createSrpSession = (smallA?: bigint): SrpSession => {
+  const a = smallA ?? BigInt(`0x${randomBytes(128).toString('hex')}`) % SRP_N;
+  const largeA = modPow(SRP_G, a, SRP_N);
+
+  if (largeA % SRP_N === ZERO) {
+    throw new Error('SRP error: Illegal parameter, A mod N cannot be 0');
+  }
+
+  return { smallA: a, largeA };
+};
+
+/**
+ * Derives the 16-byte password authentication key shared with Cognito
+ * @param poolName - The user pool ID without the region prefix
+ * @param userIdForSrp - The USER_ID_FOR_SRP challenge parameter
+ * @param password - The user's password
+ * @param serverB - The server's public value B
+ * @param salt - The salt returned by Cognito
+ * @param session - The client's SRP session
+ * @returns The derived HKDF key
+ */
+const getPasswordAuthenticationKey = (
+  poolName: string,
+  userIdForSrp: string,
+  password: string,
+  serverB: bigint,
+  salt: bigint,
+  session: SrpSession,
+): Buffer => {
+  if (serverB % SRP_N === ZERO) {
+    throw new Error('SRP error: Illegal parameter, B mod N cannot be 0');
+  }
+
+  const u = BigInt(`0x${hexHash(`${padHex(session.largeA)}${padHex(serverB)}`)}`);
+  if (u === ZERO) {
+    throw new Error('SRP error: Illegal parameter, U cannot be 0');
+  }
+
+  const usernamePasswordHash = createHash('sha256')
+    .update(`${poolName}${userIdForSrp}:${password}`, 'utf8')
+    .digest('hex')
+    .padStart(64, '0');
+  const x = BigInt(`0x${hexHash(`${padHex(salt)}${usernamePasswordHash}`)}`);
+
+  const gModPowX = modPow(SRP_G, x, SRP_N);
+  const base = (((serverB - SRP_K * gModPowX) % SRP_N) + SRP_N) % SRP_N;
+  const s = modPow(base, session.smallA + u * x, SRP_N);
+
+  const prk = createHmac('sha256', Buffer.from(padHex(u), 'hex'))
+    .update(Buffer.from(padHex(s), 'hex'))
+    .digest();
+  const info = Buffer.concat([Buffer.from('Caldera Derived Key', 'utf8'), Buffer.from([1])]);
+
+  return createHmac('sha256', prk).update(info).digest().subarray(0, 16);
+};
+
+/**
+ * Computes the challenge responses for a PASSWORD_VERIFIER challenge
+ * @param params - The challenge parameters returned by Cognito plus the user's password
+ * @returns The signature, secret block and timestamp to send back
+ */
+export const calculatePasswordClaim = (params: SrpPasswordClaimParams): SrpPasswordClaim => {
+  const { userPoolId, userIdForSrp, password, srpB, salt, secretBlock, session } = params;
+  const timestamp = params.timestamp ?? formatSrpTimestamp();
+  const poolName = userPoolId.split('_')[1];
+
+  if (!poolName) {
+    throw new Error(`SRP error: Invalid user pool ID '${userPoolId}'`);
+  }
+
+  const key = getPasswordAuthenticationKey(
+    poolName,
+    userIdForSrp,
+    password,
+    BigInt(`0x${srpB}`),
+    BigInt(`0x${salt}`),
+    session,
+  );
+
+  const message = Buffer.concat([
+    Buffer.from(poolName, 'utf8'),
+    Buffer.from(userIdForSrp, 'utf8'),
+    Buffer.from(secretBlock, 'base64'),
+    Buffer.from(timestamp, 'utf8'),
+  ]);
+
+  return {
+    passwordClaimSignature: createHmac('sha256', key).update(message).digest('base64'),
+    passwordClaimSecretBlock: secretBlock,
+    timestamp,
+  };
+};
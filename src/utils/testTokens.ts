@@ -0,0 +1,146 @@
+import { AuthenticationResultType } from '@aws-sdk/client-cognito-identity-provider';
+import {
+  KeyObject,
+  createPublicKey,
+  generateKeyPairSync,
+  randomBytes,
+  randomUUID,
+  sign,
+} from 'crypto';
+import { Jwk, Jwks, MintTokenOptions, TestTokenIssuer, TestTokenIssuerOptions } from '../types';
+
+const DEFAULT_EXPIRES_IN_SECONDS = 3600;
+
+/**
+ * Encodes a JSON value as a base64url JWT segment
+ * @param value - The header or payload
+ * @returns The encoded segment
+ */
+const encodeSegment = (value: object): string => {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+};
+
+/**
+ * Creates an issuer that mints RS256-signed Cognito access, ID and refresh tokens offline
+ * and serves the matching JWKS. Tokens verify with CognitoJwtVerifier when the issuer is its jwksProvider
+ * @param options - Optional region, user pool ID, client ID, key ID and private key
+ * @returns A test token issuer
+ */
+export const createTestTokenIssuer = (options: TestTokenIssuerOptions = {}): TestTokenIssuer => {
+  const region = options.region ?? 'us-east-1';
+  const userPoolId = options.userPoolId ?? `${region}_TestPool1`;
+  const clientId = options.clientId ?? 'testclient1234567890abcdef';
+  const keyId = options.keyId ?? randomBytes(32).toString('base64');
+  const issuer = `https://cognito-idp.${region}.amazonaws.com/${userPoolId}`;
+
+  // Generating a key pair takes a moment, so it is deferred until the first token or JWKS request
+  let privateKey = options.privateKey;
+  const getPrivateKey = (): KeyObject => {
+    if (!privateKey) {
+      privateKey = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+    }
+    return privateKey;
+  };
+
+  const getJwks = (): Jwks => {
+    const { kty, n, e } = createPublicKey(getPrivateKey()).export({ format: 'jwk' }) as Jwk;
+    return { keys: [{ alg: 'RS256', e, kid: keyId, kty, n, use: 'sig' }] };
+  };
+
+  const signPayload = (
+    payload: Record<string, unknown>,
+    header: Record<string, unknown> = {},
+  ): string => {
+    const encodedHeader = encodeSegment({ kid: keyId, alg: 'RS256', ...header });
+    const signingInput = `${encodedHeader}.${encodeSegment(payload)}`;
+    const signature = sign('RSA-SHA256', Buffer.from(signingInput), getPrivateKey());
+    return `${signingInput}.${signature.toString('base64url')}`;
+  };
+
+  const getSharedClaims = (mint: MintTokenOptions, sub: string): Record<string, unknown> => {
+    const issuedAt = Math.floor((mint.issuedAt?.getTime() ?? Date.now()) / 1000);
+    return {
+      sub,
+      ...(mint.groups ? { 'cognito:groups': mint.groups } : {}),
+      iss: issuer,
+      origin_jti: randomUUID(),
+      event_id: randomUUID(),
+      auth_time: issuedAt,
+      iat: issuedAt,
+      exp: issuedAt + (mint.expiresInSeconds ?? DEFAULT_EXPIRES_IN_SECONDS),
+      jti: randomUUID(),
+    };
+  };
+
+  const mintAccessToken = (mint: MintTokenOptions = {}): string => {
+    const sub = mint.sub ?? randomUUID();
+    return signPayload({
+      ...getSharedClaims(mint, sub),
+      client_id: clientId,
+      token_use: 'access',
+      scope: (mint.scopes ?? ['aws.cognito.signin.user.admin']).join(' '),
+      username: mint.username ?? sub,
+      version: 2,
+      ...(mint.deviceKey ? { device_key: mint.deviceKey } : {}),
+      ...mint.claims,
+    });
+  };
+
+  const mintIdToken = (mint: MintTokenOptions = {}): string => {
+    const sub = mint.sub ?? randomUUID();
+    const attributes = Object.fromEntries(
+      Object.entries(mint.attributes ?? {}).map(([name, value]) => [
+        name,
+        name.endsWith('_verified') ? value === 'true' : value,
+      ]),
+    );
+
+    return signPayload({
+      ...attributes,
+      ...getSharedClaims(mint, sub),
+      aud: clientId,
+      token_use: 'id',
+      'cognito:username': mint.username ?? sub,
+      ...mint.claims,
+    });
+  };
+
+  // Cognito refresh tokens are opaque JWEs with five segments
+  const mintRefreshToken = (): string => {
+    return [
+      encodeSegment({ cty: 'JWT', enc: 'A256GCM', alg: 'RSA-OAEP' }),
+      randomBytes(256).toString('base64url'),
+      randomBytes(12).toString('base64url'),
+      randomBytes(512).toString('base64url'),
+      randomBytes(16).toString('base64url'),
+    ].join('.');
+  };
+
+  const mintAuthResult = (mint: MintTokenOptions = {}): AuthenticationResultType => {
+    const shared = { ...mint, sub: mint.sub ?? randomUUID() };
+    return {
+      AccessToken: mintAccessToken(shared),
+      IdToken: mintIdToken(shared),
+      RefreshToken: mintRefreshToken(),
+      ExpiresIn: mint.expiresInSeconds ?? DEFAULT_EXPIRES_IN_SECONDS,
+      TokenType: 'Bearer',
+    };
+  };
+
+  return {
+    region,
+    userPoolId,
+    clientId,
+    keyId,
+    issuer,
+    get jwks(): Jwks {
+      return getJwks();
+    },
+    getJwks: async (): Promise<Jwks> => getJwks(),
+    sign: signPayload,
+    mintAccessToken,
+    mintIdToken,
+    mintRefreshToken,
+    mintAuthResult,
+  };
+};
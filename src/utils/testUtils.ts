@@ -4,23 +4,43 @@ import {
   AdminGetUserCommandOutput,
   UserType,
 } from '@aws-sdk/client-cognito-identity-provider';
-import { faker } from '@faker-js/faker';
+import { randomBytes, randomUUID } from 'crypto';
+import { MockCognitoSend, SpyFramework } from '../types';
+import { getJest } from './cognitoStub';
 
 /**
- * Creates a mock CognitoIdentityProviderClient for testing
- * @returns A mock CognitoIdentityProviderClient instance
+ * Creates a mock CognitoIdentityProviderClient whose send is a bare mock function
+ * @deprecated Use createCognitoStub, or createJestCognitoStub for a send that is a Jest mock
+ * @param framework - Optional spy framework, e.g. vi; Jest's jest object by default
+ * @returns A mock CognitoIdentityProviderClient instance, and its send typed by the framework
+ * passed, or as MockCognitoSend
  */
-export const createMockCognitoClient = (): {
+export function createMockCognitoClient(): {
   mockClient: CognitoIdentityProviderClient;
-  mockSend: jest.Mock;
-} => {
-  const mockSend = jest.fn();
+  mockSend: MockCognitoSend;
+};
+export function createMockCognitoClient<TMock>(framework: SpyFramework<TMock>): {
+  mockClient: CognitoIdentityProviderClient;
+  mockSend: TMock;
+};
+export function createMockCognitoClient<TMock>(framework?: SpyFramework<TMock>): {
+  mockClient: CognitoIdentityProviderClient;
+  mockSend: TMock | MockCognitoSend;
+} {
+  const spyFramework: SpyFramework<TMock | MockCognitoSend> = framework ?? getJest();
+  const mockSend = spyFramework.fn();
   const mockClient = {
     send: mockSend,
   } as unknown as CognitoIdentityProviderClient;
 
   return { mockClient, mockSend };
-};
+}
+
+/**
+ * Generates a random username
+ * @returns A username such as user_3f9a1c2b
+ */
+const generateUsername = (): string => `user_${randomBytes(4).toString('hex')}`;
 
 /**
  * Creates a mock authentication response for testing
@@ -31,9 +51,9 @@ export const createMockAuthResult = (
   overrides?: Partial<AuthenticationResultType>,
 ): AuthenticationResultType => {
   return {
-    AccessToken: overrides?.AccessToken || faker.string.uuid(),
-    IdToken: overrides?.IdToken || faker.string.uuid(),
-    RefreshToken: overrides?.RefreshToken || faker.string.uuid(),
+    AccessToken: overrides?.AccessToken || randomUUID(),
+    IdToken: overrides?.IdToken || randomUUID(),
+    RefreshToken: overrides?.RefreshToken || randomUUID(),
     ExpiresIn: overrides?.ExpiresIn || 3600,
     TokenType: overrides?.TokenType || 'Bearer',
   };
@@ -49,14 +69,14 @@ export const createMockUser = (username?: string, overrides?: Partial<UserType>)
   const mockDate = new Date();
 
   return {
-    Username: username || faker.internet.userName(),
+    Username: username || generateUsername(),
     UserCreateDate: overrides?.UserCreateDate || mockDate,
     UserLastModifiedDate: overrides?.UserLastModifiedDate || mockDate,
     Enabled: overrides?.Enabled !== undefined ? overrides.Enabled : true,
     UserStatus: overrides?.UserStatus || 'CONFIRMED',
     Attributes: overrides?.Attributes || [
-      { Name: 'sub', Value: faker.string.uuid() },
-      { Name: 'email', Value: faker.internet.email() },
+      { Name: 'sub', Value: randomUUID() },
+      { Name: 'email', Value: `${generateUsername()}@example.com` },
     ],
   };
 };
@@ -85,7 +105,7 @@ export const createMockAdminGetUserResponse = (
     UserMFASettingList: overrides?.UserMFASettingList,
     $metadata: {
       httpStatusCode: 200,
-      requestId: faker.string.uuid(),
+      requestId: randomUUID(),
       attempts: 1,
       totalRetryDelay: 0,
     },
@@ -0,0 +1,23 @@
+import { AccessTokenClaims, IdTokenClaims } from '../types';
+import { mapAccessTokenClaims, mapIdTokenClaims } from './cognitoMapper';
+import { decodeJwt, extractAccessToken } from './tokenUtils';
+
+/**
+ * Decodes an access token into typed claims without verifying its signature.
+ * Use CognitoJwtVerifier when the token comes from an untrusted source.
+ * @param token - The access token, optionally prefixed with "Bearer "
+ * @returns The typed access token claims
+ */
+export function decodeAccessToken(token: string): AccessTokenClaims {
+  return mapAccessTokenClaims(decodeJwt(extractAccessToken(token)).payload);
+}
+
+/**
+ * Decodes an ID token into typed claims without verifying its signature.
+ * Use CognitoJwtVerifier when the token comes from an untrusted source.
+ * @param token - The ID token
+ * @returns The typed ID token claims with camel-cased user attributes
+ */
+export function decodeIdToken(token: string): IdTokenClaims {
+  return mapIdTokenClaims(decodeJwt(extractAccessToken(token)).payload);
+}
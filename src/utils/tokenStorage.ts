@@ -0,0 +1,312 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { readFile, rename, unlink, writeFile } from 'fs/promises';
+import {
+  CookieTokenStorage,
+  CookieTokenStorageOptions,
+  FileTokenStorageOptions,
+  SessionCookieOptions,
+  StoredSession,
+  TokenStorage,
+  WebStorageLike,
+} from '../types';
+import { decodeAuthClaims } from './cognitoMapper';
+
+const DEFAULT_WEB_STORAGE_KEY = 'cognito-client.session';
+const DEFAULT_COOKIE_NAME = 'cognito_session';
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+
+/**
+ * Encrypted file layout written by the file token storage
+ */
+type EncryptedFile = {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+/**
+ * Serializes a session for storage. Decoded claims are left out and derived again on load
+ * @param session - The session to serialize
+ * @returns The JSON representation of the session
+ */
+export const serializeStoredSession = (session: StoredSession): string => {
+  return JSON.stringify({
+    ...session,
+    authResponse: { ...session.authResponse, claims: undefined },
+  });
+};
+
+/**
+ * Parses a session written by serializeStoredSession
+ * @param value - The serialized session
+ * @returns The session with its token claims decoded again
+ */
+export const parseStoredSession = (value: string): StoredSession => {
+  let session: StoredSession;
+  try {
+    session = JSON.parse(value);
+  } catch {
+    throw new Error('Invalid stored session: Malformed JSON');
+  }
+
+  const authResponse = session?.authResponse;
+  if (
+    !authResponse ||
+    typeof authResponse.accessToken !== 'string' ||
+    typeof authResponse.refreshToken !== 'string' ||
+    typeof session.expiresAt !== 'number'
+  ) {
+    throw new Error('Invalid stored session: Missing tokens or expiry');
+  }
+
+  const claims = decodeAuthClaims(authResponse.accessToken, authResponse.idToken);
+
+  return {
+    ...session,
+    authResponse: { ...authResponse, ...(claims ? { claims } : {}) },
+  };
+};
+
+/**
+ * Creates a token storage that keeps the session in memory
+ * @param initial - Optional session to start with
+ * @returns A token storage
+ */
+export const createMemoryTokenStorage = (initial?: StoredSession): TokenStorage => {
+  let stored = initial ? serializeStoredSession(initial) : undefined;
+
+  return {
+    load: async (): Promise<StoredSession | undefined> =>
+      stored ? parseStoredSession(stored) : undefined,
+    save: async (session: StoredSession): Promise<void> => {
+      stored = serializeStoredSession(session);
+    },
+    clear: async (): Promise<void> => {
+      stored = undefined;
+    },
+  };
+};
+
+/**
+ * Derives the AES-256 key for the file token storage
+ * @param key - A 32-byte key, or a passphrase
+ * @param salt - The salt used to stretch a passphrase
+ * @returns The encryption key
+ */
+const deriveKey = (key: string | Buffer, salt: Buffer): Buffer => {
+  if (typeof key === 'string') {
+    return scryptSync(key, salt, KEY_LENGTH);
+  }
+
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`Invalid token storage key: Expected ${KEY_LENGTH} bytes`);
+  }
+
+  return key;
+};
+
+/**
+ * Creates a token storage that keeps the session in a file, encrypted with AES-256-GCM
+ * @param options - The file path and the encryption key or passphrase
+ * @returns A token storage
+ */
+export const createFileTokenStorage = (options: FileTokenStorageOptions): TokenStorage => {
+  const { path, key } = options;
+
+  return {
+    load: async (): Promise<StoredSession | undefined> => {
+      let contents: string;
+      try {
+        contents = await readFile(path, 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      }
+
+      let plaintext: string;
+      try {
+        const file: EncryptedFile = JSON.parse(contents);
+        const decipher = createDecipheriv(
+          ENCRYPTION_ALGORITHM,
+          deriveKey(key, Buffer.from(file.salt, 'base64')),
+          Buffer.from(file.iv, 'base64'),
+        );
+        decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+        plaintext = Buffer.concat([
+          decipher.update(Buffer.from(file.data, 'base64')),
+          decipher.final(),
+        ]).toString('utf8');
+      } catch {
+        throw new Error('Failed to load session: Unable to decrypt token storage');
+      }
+
+      return parseStoredSession(plaintext);
+    },
+    save: async (session: StoredSession): Promise<void> => {
+      const salt = randomBytes(16);
+      const iv = randomBytes(12);
+      const cipher = createCipheriv(ENCRYPTION_ALGORITHM, deriveKey(key, salt), iv);
+      const data = Buffer.concat([
+        cipher.update(serializeStoredSession(session), 'utf8'),
+        cipher.final(),
+      ]);
+      const file: EncryptedFile = {
+        version: 1,
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      };
+
+      // Write to a temporary file first so a crash never leaves a truncated session behind
+      const tempPath = `${path}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(file), { mode: 0o600 });
+      await rename(tempPath, path);
+    },
+    clear: async (): Promise<void> => {
+      try {
+        await unlink(path);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    },
+  };
+};
+
+/**
+ * Creates a token storage backed by window.localStorage or any object with the same API
+ * @param storage - The Web Storage compatible object
+ * @param key - Optional storage key, 'cognito-client.session' by default
+ * @returns A token storage
+ */
+export const createWebStorageTokenStorage = (
+  storage: WebStorageLike,
+  key: string = DEFAULT_WEB_STORAGE_KEY,
+): TokenStorage => {
+  return {
+    load: async (): Promise<StoredSession | undefined> => {
+      const value = storage.getItem(key);
+      return value ? parseStoredSession(value) : undefined;
+    },
+    save: async (session: StoredSession): Promise<void> => {
+      storage.setItem(key, serializeStoredSession(session));
+    },
+    clear: async (): Promise<void> => {
+      storage.removeItem(key);
+    },
+  };
+};
+
+/**
+ * Builds a Set-Cookie header value
+ * @param value - The cookie value
+ * @param options - The cookie attributes
+ * @returns The Set-Cookie header value
+ */
+const buildSetCookie = (value: string, options: SessionCookieOptions): string => {
+  const {
+    name = DEFAULT_COOKIE_NAME,
+    domain,
+    path = '/',
+    secure = true,
+    httpOnly = true,
+    sameSite = 'Lax',
+    maxAgeSeconds,
+  } = options;
+
+  const parts = [`${name}=${value}`, `Path=${path}`];
+  if (domain) parts.push(`Domain=${domain}`);
+  if (maxAgeSeconds !== undefined) parts.push(`Max-Age=${maxAgeSeconds}`);
+  if (secure) parts.push('Secure');
+  if (httpOnly) parts.push('HttpOnly');
+  parts.push(`SameSite=${sameSite}`);
+
+  return parts.join('; ');
+};
+
+/**
+ * Serializes a session into a Set-Cookie header value. The value is base64url-encoded JSON,
+ * not encrypted: anyone who can read the cookie can read the refresh token.
+ * Browsers limit cookies to about 4 KB, which large ID tokens can exceed.
+ * @param session - The session to store
+ * @param options - Optional cookie attributes; Secure, HttpOnly and SameSite=Lax by default
+ * @returns The Set-Cookie header value
+ */
+export const serializeSessionCookie = (
+  session: StoredSession,
+  options: SessionCookieOptions = {},
+): string => {
+  return buildSetCookie(
+    Buffer.from(serializeStoredSession(session)).toString('base64url'),
+    options,
+  );
+};
+
+/**
+ * Reads a session from a Cookie header
+ * @param cookieHeader - The Cookie header of the request
+ * @param name - Optional cookie name, 'cognito_session' by default
+ * @returns The session, or undefined if the cookie is not present
+ */
+export const parseSessionCookie = (
+  cookieHeader: string,
+  name: string = DEFAULT_COOKIE_NAME,
+): StoredSession | undefined => {
+  const cookie = cookieHeader
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${name}=`));
+
+  if (!cookie) {
+    return undefined;
+  }
+
+  return parseStoredSession(
+    Buffer.from(cookie.slice(name.length + 1), 'base64url').toString('utf8'),
+  );
+};
+
+/**
+ * Creates a token storage that reads the session from a request's Cookie header
+ * and records the Set-Cookie header to send back in the response.
+ * Unlike the file token storage, the cookie is not encrypted, so keep it Secure and HttpOnly
+ * @param options - The incoming Cookie header and optional cookie attributes
+ * @returns A cookie token storage
+ */
+export const createCookieTokenStorage = (
+  options: CookieTokenStorageOptions = {},
+): CookieTokenStorage => {
+  const { cookieHeader, ...cookieOptions } = options;
+  let unparsedHeader = cookieHeader;
+  let current: StoredSession | undefined;
+  let setCookieHeader: string | undefined;
+
+  return {
+    load: async (): Promise<StoredSession | undefined> => {
+      if (unparsedHeader !== undefined) {
+        const header = unparsedHeader;
+        unparsedHeader = undefined;
+        current = parseSessionCookie(header, cookieOptions.name);
+      }
+      return current;
+    },
+    save: async (session: StoredSession): Promise<void> => {
+      unparsedHeader = undefined;
+      current = session;
+      setCookieHeader = serializeSessionCookie(session, cookieOptions);
+    },
+    clear: async (): Promise<void> => {
+      unparsedHeader = undefined;
+      current = undefined;
+      setCookieHeader = buildSetCookie('', { ...cookieOptions, maxAgeSeconds: 0 });
+    },
+    getSetCookieHeader: (): string | undefined => setCookieHeader,
+  };
+};
@@ -1,3 +1,5 @@
+import { DecodedJwt, JwtHeader } from '../types';
+
 /**
  * Extracts an access token from an authorization header
  * @param authHeader - The authorization header, typically in format "Bearer token"
@@ -8,3 +10,41 @@ export function extractAccessToken(authHeader: string): string {
   if (authHeader.startsWith('Bearer ')) return authHeader.slice(7);
   return authHeader;
 }
+
+/**
+ * Decodes a Base64URL-encoded JSON segment of a JWT
+ * @param segment - The Base64URL-encoded segment
+ * @returns The parsed JSON object
+ */
+function decodeSegment<T>(segment: string): T {
+  const parsed = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Invalid token: Malformed JWT');
+  }
+  return parsed as T;
+}
+
+/**
+ * Decodes a JWT without verifying its signature
+ * @param token - The encoded JWT
+ * @returns The decoded header, payload, raw signature and the signed part of the token
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = (token || '').split('.');
+  if (parts.length !== 3 || parts.some((part) => !part)) {
+    throw new Error('Invalid token: Malformed JWT');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  try {
+    return {
+      header: decodeSegment<JwtHeader>(encodedHeader),
+      payload: decodeSegment<Record<string, unknown>>(encodedPayload),
+      signature: Buffer.from(encodedSignature, 'base64url'),
+      signingInput: `${encodedHeader}.${encodedPayload}`,
+    };
+  } catch {
+    throw new Error('Invalid token: Malformed JWT');
+  }
+}
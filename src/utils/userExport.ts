@@ -0,0 +1,118 @@
+import { createHash } from 'crypto';
+import { ExportedUser, RedactionRule } from '../types';
+import { toCsvField } from './userImport';
+
+/**
+ * Columns written before the attributes of a CSV export
+ */
+const CSV_USER_COLUMNS = ['username', 'status', 'enabled', 'createdAt', 'updatedAt'];
+
+/**
+ * Masks a value, keeping its first character and the domain of an email address
+ * @param value - The value to mask
+ * @returns The masked value
+ */
+const maskValue = (value: string): string => {
+  const at = value.lastIndexOf('@');
+  if (at > 0) {
+    return `${value.charAt(0)}***${value.slice(at)}`;
+  }
+  return value ? `${value.charAt(0)}***` : value;
+};
+
+/**
+ * Redacts a value
+ * @param value - The value to redact
+ * @param rule - The redaction rule
+ * @returns The redacted value, or undefined if it is left out
+ */
+export const redactValue = (value: string, rule: RedactionRule): string | undefined => {
+  if (typeof rule === 'function') {
+    return rule(value);
+  }
+
+  switch (rule) {
+    case 'omit':
+      return undefined;
+    case 'mask':
+      return maskValue(value);
+    case 'hash':
+      return createHash('sha256').update(value).digest('hex');
+    default:
+      throw new Error(`Invalid redaction rule: ${rule}`);
+  }
+};
+
+/**
+ * Applies redaction rules to the username and attributes of an exported user
+ * @param user - The exported user
+ * @param rules - Redaction rules keyed by attribute name, or username
+ * @returns The redacted user
+ */
+export const redactExportedUser = (
+  user: ExportedUser,
+  rules: Record<string, RedactionRule> = {},
+): ExportedUser => {
+  const attributes: Record<string, string> = {};
+  for (const [name, value] of Object.entries(user.attributes)) {
+    const redacted = rules[name] ? redactValue(value, rules[name]) : value;
+    if (redacted !== undefined) {
+      attributes[name] = redacted;
+    }
+  }
+
+  return {
+    ...user,
+    username: rules.username ? (redactValue(user.username, rules.username) ?? '') : user.username,
+    attributes,
+  };
+};
+
+/**
+ * Gets the CSV columns of an export
+ * @param attributes - The exported attributes
+ * @param options - Whether groups and MFA settings are exported
+ * @returns The column names
+ */
+export const getUserExportCsvColumns = (
+  attributes: string[],
+  options: { includeGroups?: boolean; includeMfa?: boolean } = {},
+): string[] => {
+  return [
+    ...CSV_USER_COLUMNS,
+    ...attributes,
+    ...(options.includeGroups ? ['groups'] : []),
+    ...(options.includeMfa ? ['preferredMfaSetting', 'mfaSettings'] : []),
+  ];
+};
+
+/**
+ * Formats the header line of a CSV export
+ * @param columns - The columns from getUserExportCsvColumns
+ * @returns The header line, ending in a newline
+ */
+export const formatUserExportCsvHeader = (columns: string[]): string => {
+  return `${columns.map(toCsvField).join(',')}\n`;
+};
+
+/**
+ * Formats an exported user as a CSV line. Groups and MFA settings are separated by semicolons
+ * @param user - The exported user
+ * @param columns - The columns from getUserExportCsvColumns
+ * @returns The CSV line, ending in a newline
+ */
+export const formatUserExportCsvLine = (user: ExportedUser, columns: string[]): string => {
+  const values: Record<string, string | undefined> = {
+    ...user.attributes,
+    username: user.username,
+    status: user.status,
+    enabled: String(user.enabled),
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+    groups: user.groups?.join(';'),
+    preferredMfaSetting: user.mfa?.preferredMfaSetting,
+    mfaSettings: user.mfa?.mfaSettings.join(';'),
+  };
+
+  return `${columns.map((column) => toCsvField(values[column] ?? '')).join(',')}\n`;
+};
@@ -0,0 +1,108 @@
+import {
+  CognitoUserStatus,
+  UserFilterAttribute,
+  UserFilterCondition,
+  UserFilterOperator,
+} from '../types';
+
+/**
+ * The Cognito name of every searchable attribute
+ */
+const SEARCHABLE_ATTRIBUTES: Record<UserFilterAttribute, string> = {
+  username: 'username',
+  email: 'email',
+  phoneNumber: 'phone_number',
+  name: 'name',
+  givenName: 'given_name',
+  familyName: 'family_name',
+  preferredUsername: 'preferred_username',
+  status: 'cognito:user_status',
+  enabled: 'status',
+  sub: 'sub',
+};
+
+/**
+ * Escapes a value for use inside a quoted filter value
+ * @param value - The raw value
+ * @returns The value with backslashes and quotes escaped
+ */
+const escapeFilterValue = (value: string): string => {
+  return value.replace(/[\\"]/g, (char) => `\\${char}`);
+};
+
+/**
+ * Resolves a camel-cased or Cognito attribute name to the name ListUsers expects
+ * @param attribute - The attribute name, e.g. phoneNumber or phone_number
+ * @returns The Cognito attribute name
+ */
+const resolveFilterAttribute = (attribute: string): string => {
+  if (Object.prototype.hasOwnProperty.call(SEARCHABLE_ATTRIBUTES, attribute)) {
+    return SEARCHABLE_ATTRIBUTES[attribute as UserFilterAttribute];
+  }
+
+  if (attribute !== 'status' && Object.values(SEARCHABLE_ATTRIBUTES).includes(attribute)) {
+    return attribute;
+  }
+
+  throw new Error(`Invalid user filter: ${attribute} is not a searchable attribute`);
+};
+
+/**
+ * Builds a ListUsers filter string
+ * @param attribute - A searchable attribute, camel-cased (phoneNumber) or as named by Cognito (phone_number)
+ * @param operator - '=' for an exact match or '^=' for a prefix match
+ * @param value - The value to compare with
+ * @returns The filter string, e.g. email ^= "a"
+ */
+export const buildUserFilter = (
+  attribute: string,
+  operator: UserFilterOperator,
+  value: string,
+): string => {
+  if (operator !== '=' && operator !== '^=') {
+    throw new Error(`Invalid user filter: Unsupported operator ${operator}`);
+  }
+
+  return `${resolveFilterAttribute(attribute)} ${operator} "${escapeFilterValue(value)}"`;
+};
+
+/**
+ * Creates the condition builders for an attribute
+ * @param attribute - The attribute name
+ * @returns The condition builders
+ */
+const createCondition = <T extends string = string>(attribute: string): UserFilterCondition<T> => ({
+  equals: (value: T): string => buildUserFilter(attribute, '=', value),
+  startsWith: (value: string): string => buildUserFilter(attribute, '^=', value),
+});
+
+/**
+ * Type-safe builder for the filter of listUsers and paginateUsers.
+ * ListUsers supports a single condition on one of these attributes
+ * @example
+ * await adminClient.listUsers({ filter: UserFilter.email.startsWith('a') });
+ */
+export const UserFilter = {
+  username: createCondition('username'),
+  email: createCondition('email'),
+  phoneNumber: createCondition('phoneNumber'),
+  name: createCondition('name'),
+  givenName: createCondition('givenName'),
+  familyName: createCondition('familyName'),
+  preferredUsername: createCondition('preferredUsername'),
+  status: createCondition<CognitoUserStatus>('status'),
+  sub: createCondition('sub'),
+  enabled: {
+    equals: (value: boolean): string =>
+      buildUserFilter('enabled', '=', value ? 'Enabled' : 'Disabled'),
+  },
+  /**
+   * Gets the condition builders of an attribute by name, e.g. from user input
+   * @param attribute - A searchable attribute, camel-cased or as named by Cognito
+   * @returns The condition builders
+   */
+  attribute: (attribute: string): UserFilterCondition => {
+    resolveFilterAttribute(attribute);
+    return createCondition(attribute);
+  },
+};
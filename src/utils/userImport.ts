@@ -0,0 +1,265 @@
+import {
+  UserImportCheckpoint,
+  UserImportCsvRecord,
+  UserImportFormat,
+  UserImportRow,
+} from '../types';
+
+/**
+ * Fields of an import row that are not user attributes
+ */
+const ROW_FIELDS = ['username', 'email', 'phone', 'password', 'temporaryPassword', 'groups'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+const PHONE_PATTERN = /^\+[1-9]\d{1,14}$/;
+
+/**
+ * Parses CSV with a header row, following RFC 4180: quoted fields may contain commas,
+ * newlines and doubled quotes
+ * @param input - The CSV text
+ * @returns One record per data row, keyed by header
+ */
+export const parseCsv = (input: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = input.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Invalid CSV: Unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header = [], ...data] = rows.filter((values) => values.some((value) => value !== ''));
+  const columns = header.map((name) => name.trim());
+
+  return data.map((values) =>
+    columns.reduce(
+      (record, column, index) => {
+        record[column] = values[index] ?? '';
+        return record;
+      },
+      {} as Record<string, string>,
+    ),
+  );
+};
+
+/**
+ * Parses import input into records
+ * @param input - The CSV, NDJSON or JSON text
+ * @param format - The input format
+ * @returns One record per user
+ */
+export const parseUserImportRecords = (
+  input: string,
+  format: UserImportFormat,
+): Record<string, unknown>[] => {
+  if (format === 'csv') {
+    return parseCsv(input);
+  }
+
+  try {
+    const records: unknown =
+      format === 'ndjson'
+        ? input
+            .split(/\r?\n/)
+            .filter((line) => line.trim() !== '')
+            .map((line) => JSON.parse(line))
+        : JSON.parse(input);
+
+    if (
+      !Array.isArray(records) ||
+      records.some((record) => typeof record !== 'object' || !record)
+    ) {
+      throw new Error('Expected objects');
+    }
+
+    return records as Record<string, unknown>[];
+  } catch (error) {
+    throw new Error(`Invalid ${format.toUpperCase()}: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Validates a record and maps its columns to the fields of an import row
+ * @param record - The parsed record
+ * @param columns - Optional renames from source column to row field or attribute name
+ * @returns The import row; the username defaults to the email
+ */
+export const mapUserImportRecord = (
+  record: Record<string, unknown>,
+  columns: Record<string, string> = {},
+): UserImportRow => {
+  const fields: Record<string, string> = {};
+  const groups: string[] = [];
+
+  for (const [column, value] of Object.entries(record)) {
+    const field = columns[column] ?? column;
+
+    if (field === 'groups') {
+      const names = Array.isArray(value) ? value.map(String) : String(value ?? '').split(';');
+      groups.push(...names.map((name) => name.trim()).filter(Boolean));
+    } else if (value !== undefined && value !== null && String(value).trim() !== '') {
+      fields[field] = String(value).trim();
+    }
+  }
+
+  const { username, email, phone, password, temporaryPassword } = fields;
+
+  if (!email || !EMAIL_PATTERN.test(email)) {
+    throw new Error('Invalid row: A valid email is required');
+  }
+
+  if (phone && !PHONE_PATTERN.test(phone)) {
+    throw new Error('Invalid row: Phone must be in E.164 format');
+  }
+
+  const attributes = Object.fromEntries(
+    Object.entries(fields).filter(([field]) => !ROW_FIELDS.includes(field)),
+  );
+
+  return {
+    username: username || email,
+    email,
+    phone,
+    password,
+    temporaryPassword,
+    groups,
+    attributes,
+  };
+};
+
+/**
+ * Tracks which rows of an import are done
+ * @param checkpoint - Optional checkpoint of an earlier run
+ * @returns Functions to check and record rows and to read the current checkpoint
+ */
+export const createImportProgress = (
+  checkpoint?: UserImportCheckpoint,
+): {
+  isCompleted: (row: number) => boolean;
+  complete: (row: number) => UserImportCheckpoint;
+  getCheckpoint: () => UserImportCheckpoint;
+} => {
+  let nextRow = checkpoint?.nextRow ?? 1;
+  const completedRows = new Set(checkpoint?.completedRows ?? []);
+
+  const getCheckpoint = (): UserImportCheckpoint => ({
+    nextRow,
+    completedRows: [...completedRows].sort((a, b) => a - b),
+  });
+
+  return {
+    isCompleted: (row: number): boolean => row < nextRow || completedRows.has(row),
+    complete: (row: number): UserImportCheckpoint => {
+      completedRows.add(row);
+      while (completedRows.has(nextRow)) {
+        completedRows.delete(nextRow);
+        nextRow++;
+      }
+      return getCheckpoint();
+    },
+    getCheckpoint,
+  };
+};
+
+/**
+ * Converts a header of a Cognito import CSV to the camel-cased key used in UserImportCsvRecord,
+ * e.g. custom:tenantId to customTenantId and cognito:mfa_enabled to cognitoMfaEnabled
+ * @param header - The CSV header
+ * @returns The record key
+ */
+export const toUserImportCsvKey = (header: string): string => {
+  const [prefix, name] = header.includes(':') ? header.split(':', 2) : ['', header];
+  const camelCaseName = name.replace(/[-_]([a-z])/g, (_, c: string) => c.toUpperCase());
+
+  return prefix
+    ? `${prefix}${camelCaseName.charAt(0).toUpperCase()}${camelCaseName.slice(1)}`
+    : camelCaseName;
+};
+
+/**
+ * Quotes a CSV field when it contains a comma, quote or line break
+ * @param value - The field value
+ * @returns The CSV field
+ */
+export const toCsvField = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Generates the lines of a Cognito import CSV, header first, each ending in a newline.
+ * Records use camel-cased keys; username may be used for cognitoUsername and
+ * cognitoMfaEnabled defaults to false
+ * @param headers - The headers returned by getCsvHeader
+ * @param users - The users to import
+ * @returns A generator of CSV lines, suitable for streaming large files
+ */
+export function* generateUserImportCsv(
+  headers: string[],
+  users: Iterable<UserImportCsvRecord>,
+): Generator<string> {
+  const keys = headers.map(toUserImportCsvKey);
+  yield `${headers.map(toCsvField).join(',')}\n`;
+
+  for (const user of users) {
+    const { username, ...record } = user;
+    const values: UserImportCsvRecord = {
+      cognitoMfaEnabled: false,
+      cognitoUsername: username,
+      ...record,
+    };
+
+    const unknownKey = Object.keys(record).find((key) => !keys.includes(key));
+    if (unknownKey) {
+      throw new Error(`Invalid user import record: ${unknownKey} is not a column of the user pool`);
+    }
+
+    yield `${keys.map((key) => toCsvField(values[key] === undefined ? '' : String(values[key]))).join(',')}\n`;
+  }
+}
+
+/**
+ * Creates a Cognito import CSV
+ * @param headers - The headers returned by getCsvHeader
+ * @param users - The users to import
+ * @returns The CSV text
+ */
+export const createUserImportCsv = (
+  headers: string[],
+  users: Iterable<UserImportCsvRecord>,
+): string => {
+  return [...generateUserImportCsv(headers, users)].join('');
+};
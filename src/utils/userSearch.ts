@@ -0,0 +1,128 @@
+import {
+  AdminGetUserResponse,
+  AttributeMatcher,
+  UserFilterAttribute,
+  UserSearchCriteria,
+  UserSearchPlan,
+} from '../types';
+import { UserFilter } from './userFilter';
+
+/**
+ * A predicate that can be run server-side, ranked by how selective it usually is (lower is better)
+ */
+type ServerSidePredicate = {
+  key: string;
+  rank: number;
+  filter: string;
+};
+
+/**
+ * Attributes that identify a single user
+ */
+const UNIQUE_ATTRIBUTES = ['sub', 'username', 'email', 'phoneNumber', 'preferredUsername'];
+
+/**
+ * Attributes that ListUsers can filter on, besides status and enabled
+ */
+const SEARCHABLE_ATTRIBUTES = [...UNIQUE_ATTRIBUTES, 'name', 'givenName', 'familyName'];
+
+/**
+ * Rank of listing a group's members instead of the whole pool
+ */
+const GROUP_RANK = 1;
+
+/**
+ * Checks a value against an attribute matcher
+ * @param value - The attribute value, if the user has one
+ * @param matcher - The exact value or prefix to match
+ * @returns True if the value matches
+ */
+const matchesAttribute = (value: string | undefined, matcher: AttributeMatcher): boolean => {
+  if (value === undefined) {
+    return false;
+  }
+  return typeof matcher === 'string' ? value === matcher : value.startsWith(matcher.startsWith);
+};
+
+/**
+ * Builds the ListUsers filter for an attribute matcher
+ * @param key - The camel-cased attribute name
+ * @param matcher - The exact value or prefix to match
+ * @returns The ranked server-side predicate
+ */
+const toServerSidePredicate = (key: string, matcher: AttributeMatcher): ServerSidePredicate => {
+  const condition = UserFilter[key as Exclude<UserFilterAttribute, 'status' | 'enabled'>];
+  const exact = typeof matcher === 'string';
+  const unique = UNIQUE_ATTRIBUTES.includes(key);
+
+  return {
+    key,
+    rank: exact ? (unique ? 0 : 2) : unique ? 3 : 4,
+    filter: exact ? condition.equals(matcher) : condition.startsWith(matcher.startsWith),
+  };
+};
+
+/**
+ * Decides which predicate of a user search runs server-side and which run client-side.
+ * ListUsers accepts a single filter on a standard attribute, so the most selective one is pushed down;
+ * an exact match on a unique attribute wins over listing the members of groupName, which wins over the rest
+ * @param criteria - The search criteria
+ * @returns The search plan
+ */
+export const planUserSearch = (criteria: UserSearchCriteria): UserSearchPlan => {
+  const {
+    username,
+    attributes = {},
+    status,
+    enabled,
+    createdAfter,
+    createdBefore,
+    modifiedAfter,
+    modifiedBefore,
+    groupName,
+  } = criteria;
+  const matchers: Record<string, AttributeMatcher> = {
+    ...attributes,
+    ...(username !== undefined ? { username } : {}),
+  };
+  const statuses = status === undefined ? undefined : Array.isArray(status) ? status : [status];
+
+  const candidates = Object.entries(matchers)
+    .filter(([key]) => SEARCHABLE_ATTRIBUTES.includes(key))
+    .map(([key, matcher]) => toServerSidePredicate(key, matcher));
+  if (statuses?.length === 1) {
+    candidates.push({ key: 'status', rank: 5, filter: UserFilter.status.equals(statuses[0]) });
+  }
+  if (enabled !== undefined) {
+    candidates.push({ key: 'enabled', rank: 6, filter: UserFilter.enabled.equals(enabled) });
+  }
+
+  const best = candidates.sort((a, b) => a.rank - b.rank)[0];
+  const useGroup = groupName !== undefined && (!best || best.rank > GROUP_RANK);
+  const serverSide = useGroup ? undefined : best;
+
+  return {
+    filter: serverSide?.filter,
+    groupName: useGroup ? groupName : undefined,
+    requiresGroupCheck: groupName !== undefined && !useGroup,
+    matches: (user: AdminGetUserResponse): boolean => {
+      const skip = serverSide?.key;
+      const values: Record<string, string | undefined> = {
+        ...user.userAttributes,
+        username: user.username,
+      };
+
+      return (
+        Object.entries(matchers).every(
+          ([key, matcher]) => key === skip || matchesAttribute(values[key], matcher),
+        ) &&
+        (!statuses || skip === 'status' || statuses.some((value) => value === user.userStatus)) &&
+        (enabled === undefined || skip === 'enabled' || user.enabled === enabled) &&
+        (!createdAfter || user.userCreateDate > createdAfter) &&
+        (!createdBefore || user.userCreateDate < createdBefore) &&
+        (!modifiedAfter || user.userLastModifiedDate > modifiedAfter) &&
+        (!modifiedBefore || user.userLastModifiedDate < modifiedBefore)
+      );
+    },
+  };
+};